@@ -5,6 +5,7 @@ import type { PowerPointComponent, PowerPointSlide } from 'ppt-paste-parser'
 import '@tldraw/tldraw/tldraw.css'
 import { useSlideshowManager } from './tldraw/slideshow/SlideshowManager'
 import { useSlideshowKeyboardHandler } from './tldraw/slideshow/SlideshowKeyboardHandler'
+import { useSlideshowLinkHandler } from './tldraw/slideshow/SlideshowLinkHandler'
 import { createUIComponents } from './tldraw/utils/uiComponents'
 import { textOptions } from './tldraw/utils/textOptions'
 import { drawSlides, drawComponents } from './tldraw/utils/drawingManager'
@@ -47,6 +48,17 @@ export default function TldrawCanvas({ components, slides, slideDimensions, mast
     navigateToSlide
   })
 
+  // Follow hyperlinks and shape click actions during the slideshow
+  useSlideshowLinkHandler({
+    isSlideshowMode,
+    editorRef,
+    slideFrameIds,
+    previousSlide,
+    nextSlide,
+    exitSlideshowMode,
+    navigateToSlide
+  })
+
   // Global keyboard override to prevent tab insertion in tables 
   useEffect(() => {
     const handleGlobalKeyDown = (e: KeyboardEvent) => {
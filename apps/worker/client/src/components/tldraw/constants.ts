@@ -58,6 +58,9 @@ export const POWERPOINT_SHAPE_MAPPINGS = {
   heart: 'heart',
 } as const
 
+// Presets tldraw draws exactly as a geo shape; every other preset is drawn from its evaluated outline
+export const NATIVE_GEO_PRESETS: ReadonlySet<string> = new Set(['rect', 'ellipse', 'diamond'])
+
 // Star shape variations
 export const STAR_SHAPES = [
   'star4', 'star5', 'star6', 'star8', 'star10', 'star12', 
@@ -0,0 +1,162 @@
+import { Extension, Mark } from '@tiptap/core'
+
+// Underline mark for TipTap v2.26.1 - PowerPoint line styles (double, dotted, dashed, wavy) and heavy weights
+export const Underline = Mark.create({
+  name: 'underline',
+
+  addAttributes() {
+    return {
+      style: {
+        default: null,
+        parseHTML: (element: HTMLElement) => element.style.textDecorationStyle || null,
+        renderHTML: (attributes: any) => {
+          if (!attributes.style) {
+            return {}
+          }
+          return {
+            style: `text-decoration-style: ${attributes.style}`,
+          }
+        },
+      },
+      heavy: {
+        default: false,
+        parseHTML: (element: HTMLElement) => element.style.textDecorationThickness === '2px',
+        renderHTML: (attributes: any) => {
+          if (!attributes.heavy) {
+            return {}
+          }
+          return {
+            style: 'text-decoration-thickness: 2px',
+          }
+        },
+      },
+    }
+  },
+
+  parseHTML() {
+    return [{ tag: 'u' }, { style: 'text-decoration=underline' }]
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return ['u', HTMLAttributes, 0]
+  },
+})
+
+// Superscript mark for TipTap v2.26.1
+export const Superscript = Mark.create({
+  name: 'superscript',
+  excludes: 'subscript',
+
+  parseHTML() {
+    return [{ tag: 'sup' }]
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return ['sup', HTMLAttributes, 0]
+  },
+})
+
+// Subscript mark for TipTap v2.26.1
+export const Subscript = Mark.create({
+  name: 'subscript',
+  excludes: 'superscript',
+
+  parseHTML() {
+    return [{ tag: 'sub' }]
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return ['sub', HTMLAttributes, 0]
+  },
+})
+
+// textStyle properties emitted by the PowerPoint text parser (caps and character spacing)
+const TEXT_STYLES = {
+  textTransform: 'text-transform',
+  fontVariant: 'font-variant',
+  letterSpacing: 'letter-spacing',
+} as const
+
+// CharacterFormat extension for TipTap v2.26.1 - caps, character spacing, language, double strikethrough and highlight colors
+export const CharacterFormat = Extension.create({
+  name: 'characterFormat',
+
+  addGlobalAttributes() {
+    return [
+      {
+        types: ['textStyle'],
+        attributes: Object.fromEntries(
+          Object.entries(TEXT_STYLES).map(([attribute, property]) => [
+            attribute,
+            {
+              default: null,
+              parseHTML: (element: HTMLElement) => element.style.getPropertyValue(property) || null,
+              renderHTML: (attributes: any) => {
+                if (!attributes[attribute]) {
+                  return {}
+                }
+                return {
+                  style: `${property}: ${attributes[attribute]}`,
+                }
+              },
+            },
+          ])
+        ),
+      },
+      {
+        // Runs in a language other than their text box's
+        types: ['textStyle'],
+        attributes: {
+          lang: {
+            default: null,
+            parseHTML: (element: HTMLElement) => element.getAttribute('lang'),
+            renderHTML: (attributes: any) => {
+              if (!attributes.lang) {
+                return {}
+              }
+              return {
+                lang: attributes.lang,
+              }
+            },
+          },
+        },
+      },
+      {
+        types: ['strike'],
+        attributes: {
+          double: {
+            default: false,
+            parseHTML: (element: HTMLElement) => element.style.textDecorationStyle === 'double',
+            renderHTML: (attributes: any) => {
+              if (!attributes.double) {
+                return {}
+              }
+              return {
+                style: 'text-decoration-style: double',
+              }
+            },
+          },
+        },
+      },
+      {
+        // tldraw's Highlight extension is single-color; keep the PowerPoint highlight color
+        types: ['highlight'],
+        attributes: {
+          color: {
+            default: null,
+            parseHTML: (element: HTMLElement) => element.getAttribute('data-color') || element.style.backgroundColor || null,
+            renderHTML: (attributes: any) => {
+              if (!attributes.color) {
+                return {}
+              }
+              return {
+                'data-color': attributes.color,
+                style: `background-color: ${attributes.color}; color: inherit`,
+              }
+            },
+          },
+        },
+      },
+    ]
+  },
+})
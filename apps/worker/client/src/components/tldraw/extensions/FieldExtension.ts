@@ -0,0 +1,43 @@
+import { Mark } from '@tiptap/core'
+
+// Field mark for TipTap v2.26.1 - PowerPoint fields (a:fld) such as slide numbers and dates
+export const Field = Mark.create({
+  name: 'field',
+
+  addAttributes() {
+    return {
+      fieldType: {
+        default: null,
+        parseHTML: (element: HTMLElement) => element.getAttribute('data-field-type'),
+        renderHTML: (attributes: any) => {
+          if (!attributes.fieldType) {
+            return {}
+          }
+          return {
+            'data-field-type': attributes.fieldType,
+          }
+        },
+      },
+      id: {
+        default: null,
+        parseHTML: (element: HTMLElement) => element.getAttribute('data-field-id'),
+        renderHTML: (attributes: any) => {
+          if (!attributes.id) {
+            return {}
+          }
+          return {
+            'data-field-id': attributes.id,
+          }
+        },
+      },
+    }
+  },
+
+  parseHTML() {
+    return [{ tag: 'span[data-field-type]' }]
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return ['span', HTMLAttributes, 0]
+  },
+})
@@ -0,0 +1,75 @@
+import { Extension } from '@tiptap/core'
+
+// ListFormat extension for TipTap v2.26.1 - keeps PowerPoint bullet characters, colors and numbering schemes
+export const ListFormat = Extension.create({
+  name: 'listFormat',
+
+  addGlobalAttributes() {
+    return [
+      {
+        types: ['bulletList'],
+        attributes: {
+          bulletChar: {
+            default: null,
+            parseHTML: (element: HTMLElement) => element.getAttribute('data-bullet-char'),
+            renderHTML: (attributes: any) => {
+              if (!attributes.bulletChar) {
+                return {}
+              }
+              return {
+                'data-bullet-char': attributes.bulletChar,
+                style: `list-style-type: ${JSON.stringify(`${attributes.bulletChar} `)}`,
+              }
+            },
+          },
+          bulletColor: {
+            default: null,
+            parseHTML: (element: HTMLElement) => element.getAttribute('data-bullet-color'),
+            renderHTML: (attributes: any) => {
+              if (!attributes.bulletColor) {
+                return {}
+              }
+              // Applied to the ::marker through a CSS variable (see index.css)
+              return {
+                'data-bullet-color': attributes.bulletColor,
+                style: `--bullet-color: ${attributes.bulletColor}`,
+              }
+            },
+          },
+          bulletFont: {
+            default: null,
+            parseHTML: (element: HTMLElement) => element.getAttribute('data-bullet-font'),
+            renderHTML: (attributes: any) => {
+              if (!attributes.bulletFont) {
+                return {}
+              }
+              return {
+                'data-bullet-font': attributes.bulletFont,
+                style: `--bullet-font: ${JSON.stringify(attributes.bulletFont)}`,
+              }
+            },
+          },
+        },
+      },
+      {
+        types: ['orderedList'],
+        attributes: {
+          numberingScheme: {
+            default: null,
+            parseHTML: (element: HTMLElement) => element.getAttribute('data-numbering-scheme'),
+            renderHTML: (attributes: any) => {
+              if (!attributes.numberingScheme) {
+                return {}
+              }
+              // Each a:buAutoNum scheme has a matching @counter-style (see index.css)
+              return {
+                'data-numbering-scheme': attributes.numberingScheme,
+                style: `list-style-type: ${attributes.numberingScheme}`,
+              }
+            },
+          },
+        },
+      },
+    ]
+  },
+})
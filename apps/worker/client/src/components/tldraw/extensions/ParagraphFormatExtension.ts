@@ -0,0 +1,96 @@
+import { Extension } from '@tiptap/core'
+
+// Paragraph attributes emitted by the PowerPoint text parser, mapped to CSS properties
+const PARAGRAPH_STYLES = {
+  textAlign: 'text-align',
+  marginLeft: 'margin-left',
+  textIndent: 'text-indent',
+  spaceBefore: 'margin-top',
+  spaceAfter: 'margin-bottom',
+  lineHeight: 'line-height',
+  tabSize: 'tab-size',
+} as const
+
+// ParagraphFormat extension for TipTap v2.26.1 - keeps PowerPoint alignment, indentation, spacing, tabs and language
+export const ParagraphFormat = Extension.create({
+  name: 'paragraphFormat',
+
+  addOptions() {
+    return {
+      types: ['paragraph'],
+    }
+  },
+
+  addGlobalAttributes() {
+    const styleAttributes = Object.fromEntries(
+      Object.entries(PARAGRAPH_STYLES).map(([attribute, property]) => [
+        attribute,
+        {
+          default: null,
+          parseHTML: (element: HTMLElement) => element.style.getPropertyValue(property) || null,
+          renderHTML: (attributes: any) => {
+            if (!attributes[attribute]) {
+              return {}
+            }
+            return {
+              style: `${property}: ${attributes[attribute]}`,
+            }
+          },
+        },
+      ])
+    )
+
+    return [
+      {
+        types: this.options.types,
+        attributes: {
+          ...styleAttributes,
+          level: {
+            default: null,
+            parseHTML: (element: HTMLElement) => {
+              const level = element.getAttribute('data-level')
+              return level ? Number(level) : null
+            },
+            renderHTML: (attributes: any) => {
+              if (!attributes.level) {
+                return {}
+              }
+              return {
+                'data-level': String(attributes.level),
+              }
+            },
+          },
+          // Language of the paragraph's text, selecting locale-specific glyphs (e.g. Japanese vs Chinese Han)
+          lang: {
+            default: null,
+            parseHTML: (element: HTMLElement) => element.getAttribute('lang'),
+            renderHTML: (attributes: any) => {
+              if (!attributes.lang) {
+                return {}
+              }
+              return {
+                lang: attributes.lang,
+              }
+            },
+          },
+          // Custom tab stops; CSS can only space tabs evenly (tabSize), so the stops travel as data
+          tabStops: {
+            default: null,
+            parseHTML: (element: HTMLElement) => {
+              const tabStops = element.getAttribute('data-tab-stops')
+              return tabStops ? JSON.parse(tabStops) : null
+            },
+            renderHTML: (attributes: any) => {
+              if (!attributes.tabStops?.length) {
+                return {}
+              }
+              return {
+                'data-tab-stops': JSON.stringify(attributes.tabStops),
+              }
+            },
+          },
+        },
+      },
+    ]
+  },
+})
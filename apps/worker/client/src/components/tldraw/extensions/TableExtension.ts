@@ -60,4 +60,62 @@ export const TableHeaderExtension = TableHeader.configure({
   HTMLAttributes: {
     class: 'tldraw-table-header',
   },
-})
\ No newline at end of file
+})
+
+// Table cell attributes emitted by the PowerPoint table parser, mapped to CSS properties
+const TABLE_CELL_STYLES = {
+  backgroundColor: 'background-color',
+  verticalAlign: 'vertical-align',
+  padding: 'padding',
+  borderLeft: 'border-left',
+  borderRight: 'border-right',
+  borderTop: 'border-top',
+  borderBottom: 'border-bottom',
+} as const
+
+// TableFormat extension for TipTap v2.26.1 - keeps PowerPoint cell fills, borders, margins, anchoring and row heights
+export const TableFormat = Extension.create({
+  name: 'tableFormat',
+
+  addGlobalAttributes() {
+    return [
+      {
+        types: ['tableCell', 'tableHeader'],
+        attributes: Object.fromEntries(
+          Object.entries(TABLE_CELL_STYLES).map(([attribute, property]) => [
+            attribute,
+            {
+              default: null,
+              parseHTML: (element: HTMLElement) => element.style.getPropertyValue(property) || null,
+              renderHTML: (attributes: any) => {
+                if (!attributes[attribute]) {
+                  return {}
+                }
+                return {
+                  style: `${property}: ${attributes[attribute]}`,
+                }
+              },
+            },
+          ])
+        ),
+      },
+      {
+        types: ['tableRow'],
+        attributes: {
+          height: {
+            default: null,
+            parseHTML: (element: HTMLElement) => parseFloat(element.style.height) || null,
+            renderHTML: (attributes: any) => {
+              if (!attributes.height) {
+                return {}
+              }
+              return {
+                style: `height: ${attributes.height}px`,
+              }
+            },
+          },
+        },
+      },
+    ]
+  },
+})
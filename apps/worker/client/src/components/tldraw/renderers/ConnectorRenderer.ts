@@ -0,0 +1,134 @@
+import {
+  createShapeId,
+  type Editor,
+  type TLArrowBinding,
+  type TLArrowShape,
+  type TLArrowShapeProps,
+  type TLShapeId,
+} from '@tldraw/tldraw'
+import type { PowerPointComponent } from 'ppt-paste-parser'
+import {
+  getTldrawColorForHex,
+  mapBorderStyleToDash,
+  mapBorderWidthToSize,
+} from '../utils/colorPaletteOverride'
+import { createComponentShapeId } from '../utils/tldrawHelpers'
+import { calculateFrameRelativePosition } from '../utils/coordinateHelpers'
+import type { TLDrawColor } from '../constants'
+
+/**
+ * Maps a DrawingML line end type to a tldraw arrowhead
+ */
+export function mapLineEndToArrowhead(lineEndType?: string): 'none' | 'arrow' | 'triangle' | 'diamond' | 'dot' {
+  switch (lineEndType) {
+    case 'arrow':
+      return 'arrow'
+    case 'triangle':
+    case 'stealth':
+      return 'triangle'
+    case 'diamond':
+      return 'diamond'
+    case 'oval':
+      return 'dot'
+    default:
+      return 'none'
+  }
+}
+
+export async function renderConnectorComponent(
+  component: PowerPointComponent,
+  index: number,
+  frameX: number,
+  frameY: number,
+  editor: Editor,
+  slideIndex: number,
+  frameId: string | null,
+  colorMapping: Map<string, TLDrawColor>
+) {
+  const arrowId = createShapeId(createComponentShapeId('connector', slideIndex, component.id || index))
+
+  const start = component.start || { x: component.x || 0, y: component.y || 0 }
+  const end = component.end || {
+    x: (component.x || 0) + (component.width || 0),
+    y: (component.y || 0) + (component.height || 0),
+  }
+
+  // Anchor the arrow at its start point; terminals are relative to the shape origin
+  const { x, y } = calculateFrameRelativePosition(start.x, start.y, frameX, frameY, 1, !!frameId)
+
+  const borderWidth = component.style?.borderWidth || 1
+  const isElbow = component.connectorType?.startsWith('bentConnector')
+
+  const arrowShapeProps: any = {
+    id: arrowId,
+    type: 'arrow',
+    x,
+    y,
+    props: {
+      kind: isElbow ? 'elbow' : 'arc',
+      color: getTldrawColorForHex(component.style?.borderColor, colorMapping),
+      dash: mapBorderStyleToDash(component.style?.borderStyle),
+      size: mapBorderWidthToSize(borderWidth),
+      arrowheadStart: mapLineEndToArrowhead(component.startArrowhead?.type),
+      arrowheadEnd: mapLineEndToArrowhead(component.endArrowhead?.type),
+      start: { x: 0, y: 0 },
+      end: { x: end.x - start.x, y: end.y - start.y },
+      bend: 0,
+    },
+  }
+
+  if (frameId) {
+    arrowShapeProps.parentId = frameId
+  }
+
+  editor.createShape(arrowShapeProps)
+}
+
+/**
+ * Bind a rendered connector to the shapes it connects (stCxn / endCxn).
+ * Must run after all components on the slide have been created.
+ * @param drawnShapes - The shape drawn for each component, by drawingId
+ */
+export function bindConnectorComponent(
+  component: PowerPointComponent,
+  editor: Editor,
+  drawnShapes: ReadonlyMap<string, TLShapeId>
+) {
+  const arrowId = component.drawingId ? drawnShapes.get(component.drawingId) : undefined
+  const arrow = arrowId ? editor.getShape<TLArrowShape>(arrowId) : undefined
+  if (!arrowId || !arrow) return
+
+  const terminals: Array<{ terminal: 'start' | 'end'; connection: any }> = [
+    { terminal: 'start', connection: component.startConnection },
+    { terminal: 'end', connection: component.endConnection },
+  ]
+
+  for (const { terminal, connection } of terminals) {
+    if (!connection?.drawingId) continue
+
+    const targetId = drawnShapes.get(connection.drawingId)
+    if (!targetId || !editor.getShape(targetId)) continue
+
+    // Anchor at the exact connection point so the arrow keeps its PowerPoint geometry
+    const terminalPoint: TLArrowShapeProps['start'] = arrow.props[terminal]
+    const pagePoint = editor.getShapePageTransform(arrowId).applyToPoint(terminalPoint)
+    const localPoint = editor.getPointInShapeSpace(targetId, pagePoint)
+    const bounds = editor.getShapeGeometry(targetId).bounds
+    const normalizedAnchor = {
+      x: bounds.w ? Math.min(1, Math.max(0, localPoint.x / bounds.w)) : 0.5,
+      y: bounds.h ? Math.min(1, Math.max(0, localPoint.y / bounds.h)) : 0.5,
+    }
+
+    editor.createBinding<TLArrowBinding>({
+      type: 'arrow',
+      fromId: arrowId,
+      toId: targetId,
+      props: {
+        terminal,
+        normalizedAnchor,
+        isExact: false,
+        isPrecise: true,
+      },
+    })
+  }
+}
@@ -2,6 +2,13 @@ import { createShapeId, AssetRecordType, type Editor } from '@tldraw/tldraw'
 import type { PowerPointComponent } from 'ppt-paste-parser'
 import { createComponentShapeId } from '../utils/tldrawHelpers'
 import { calculateFrameRelativePosition, degreesToRadians } from '../utils/coordinateHelpers'
+import {
+  buildFillSvg,
+  buildPictureDefinition,
+  loadImageForFill,
+  svgToDataUrl,
+  type OutlineStroke
+} from '../utils/fillHelpers'
 
 export async function renderImageComponent(
   component: PowerPointComponent,
@@ -86,6 +93,47 @@ export async function renderImageComponent(
         else if (urlLower.includes('.svg')) mimeType = 'image/svg+xml'
       }
       
+      // Plain crops use tldraw's crop (the full image stays available to un-crop);
+      // tiling, fillRect insets, padding crops, masks, outlines and filters are drawn into an SVG
+      const crop = getImageCrop(component)
+      const effects = getUnappliedEffects(component)
+      let src = imageUrl
+      let assetWidth = width
+      let assetHeight = height
+      if (needsPictureSvg(component)) {
+        const image = await loadImageForFill(imageUrl)
+        const definition = buildPictureDefinition(
+          {
+            url: imageUrl,
+            mode: component.fillMode ?? 'stretch',
+            opacity: 1,
+            filter: effects.filter,
+            srcRect: component.cropping,
+            fillRect: component.fillRect,
+            tile: component.tile,
+          },
+          image.href,
+          width,
+          height,
+          image
+        )
+        const masks = (component.geometry?.paths || []).map((path) => ({
+          d: path.d,
+          fill: path.fill !== 'none',
+          stroke: path.stroke
+        }))
+        src = svgToDataUrl(buildFillSvg(definition, width, height, masks, getImageOutline(component)))
+        mimeType = 'image/svg+xml'
+      } else if (component.metadata?.imageDimensions) {
+        // The asset is the whole image at its intrinsic size
+        assetWidth = component.metadata.imageDimensions.width
+        assetHeight = component.metadata.imageDimensions.height
+      } else if (crop) {
+        // The asset is the whole image; the shape shows the cropped part at the frame's size
+        assetWidth = width / (crop.bottomRight.x - crop.topLeft.x)
+        assetHeight = height / (crop.bottomRight.y - crop.topLeft.y)
+      }
+      
       // Create the asset using the correct API
       editor.createAssets([{
         id: assetId,
@@ -93,9 +141,9 @@ export async function renderImageComponent(
         typeName: 'asset',
         props: {
           name: component.metadata?.name || 'image',
-          src: imageUrl,
-          w: width,
-          h: height,
+          src,
+          w: assetWidth,
+          h: assetHeight,
           mimeType: mimeType,
           isAnimated: false
         },
@@ -109,10 +157,12 @@ export async function renderImageComponent(
         x,
         y,
         rotation: component.rotation ? degreesToRadians(component.rotation) : 0,
+        opacity: effects.opacity,
         props: {
           assetId,
           w: width,
-          h: height
+          h: height,
+          ...(crop && !needsPictureSvg(component) && { crop })
         }
       }
       
@@ -132,6 +182,51 @@ export async function renderImageComponent(
   }
 }
 
+/**
+ * tldraw crop (normalized corners of the visible part of the image) for a srcRect crop
+ */
+function getImageCrop(component: PowerPointComponent) {
+  const cropping = component.cropping
+  if (!cropping?.isCropped) return null
+  return {
+    topLeft: { x: cropping.left, y: cropping.top },
+    bottomRight: { x: 1 - cropping.right, y: 1 - cropping.bottom }
+  }
+}
+
+/**
+ * The picture's a:ln outline, if it has one
+ */
+function getImageOutline(component: PowerPointComponent): OutlineStroke | undefined {
+  const { borderColor, borderWidth, borderStyle } = component.style || {}
+  if (!borderColor || borderColor === 'transparent' || !borderWidth) return undefined
+  return { color: borderColor, width: borderWidth, dash: borderStyle }
+}
+
+/**
+ * CSS approximation of the picture's color effects, for images the server couldn't
+ * re-render with them (e.g. JPEGs); nothing when they're already in the pixels
+ */
+function getUnappliedEffects(component: PowerPointComponent): { filter: string | null; opacity: number } {
+  if (component.metadata?.effectsApplied) return { filter: null, opacity: 1 }
+  return { filter: component.style?.filter || null, opacity: component.style?.opacity ?? 1 }
+}
+
+/**
+ * Whether the picture needs drawing into an SVG: masked by a shape, outlined, tiled,
+ * stretched into a fillRect inset, cropped with negative insets (padding) that
+ * tldraw's crop can't express, or filtered
+ */
+function needsPictureSvg(component: PowerPointComponent): boolean {
+  if (component.geometry?.paths?.length || getImageOutline(component)) return true
+  if (getUnappliedEffects(component).filter) return true
+  if (component.fillMode === 'tile' && component.tile) return true
+  const fillRect = component.fillRect
+  if (fillRect && (fillRect.left || fillRect.top || fillRect.right || fillRect.bottom)) return true
+  const cropping = component.cropping
+  return !!cropping?.isCropped && Math.min(cropping.left, cropping.top, cropping.right, cropping.bottom) < 0
+}
+
 function createPlaceholderShape(
   editor: Editor,
   slideIndex: number,
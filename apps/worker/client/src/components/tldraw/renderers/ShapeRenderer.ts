@@ -1,20 +1,42 @@
-import { createShapeId, type Editor } from "@tldraw/tldraw";
+import { AssetRecordType, createShapeId, type Editor } from "@tldraw/tldraw";
 import type { PowerPointComponent } from "ppt-paste-parser";
 import {
   getTldrawColorForHex,
   mapBorderStyleToDash,
   mapBorderWidthToSize,
 } from "../utils/colorPaletteOverride";
+import { mapPowerPointColorToTLDraw } from "../utils/colorMapping";
 import {
   mapShapeType,
+  mapTextAlign,
+  mapVerticalAnchor,
   determineFillType,
   createComponentShapeId,
+  getAutofitRichText,
+  getRichTextAlign,
+  evaluateFields,
+  applyLanguage,
 } from "../utils/tldrawHelpers";
 import {
+  adjustPositionForRotation,
   calculateFrameRelativePosition,
   degreesToRadians,
 } from "../utils/coordinateHelpers";
-import type { TLDrawColor } from "../constants";
+import { flattenPathCommands } from "../utils/pathHelpers";
+import {
+  buildFillSvg,
+  buildGradientDefinition,
+  buildPatternDefinition,
+  buildPictureDefinition,
+  loadImageForFill,
+  svgToDataUrl,
+  type GradientFill,
+  type OutlineStroke,
+  type PatternFill,
+  type PictureFill,
+} from "../utils/fillHelpers";
+import { NATIVE_GEO_PRESETS, type TLDrawColor } from "../constants";
+import { renderTextComponent } from "./TextRenderer";
 
 export async function renderShapeComponent(
   component: PowerPointComponent,
@@ -108,6 +130,40 @@ export async function renderShapeComponent(
   const dash = hasBorder ? mapBorderStyleToDash(borderStyle) : "solid";
   const size = hasBorder ? mapBorderWidthToSize(borderWidth) : "m";
 
+  const paths = component.geometry?.paths || [];
+
+  // tldraw fills are flat palette colors, so gradient, pattern and picture fills are drawn
+  // as an SVG image of the outline
+  const fillDefinition = await buildFillDefinition(component, width, height);
+  if (fillDefinition) {
+    const stroke: OutlineStroke | undefined = hasBorder
+      ? { color: component.style.borderColor, width: borderWidth, dash: borderStyle }
+      : undefined;
+    renderSvgFill(component, shapeId, x, y, width, height, editor, frameId, {
+      definition: fillDefinition,
+      paths: isBackgroundShape ? [] : paths,
+      stroke,
+      opacity: component.style?.opacity || 1,
+    });
+    await renderLabelOverlay(component, shapeId, index, frameX, frameY, editor, slideIndex, frameId);
+    return;
+  }
+
+  // Custom geometry and presets tldraw can't draw natively are drawn from their outline
+  const isNativeGeo =
+    !component.geometry?.isCustom && NATIVE_GEO_PRESETS.has(component.geometry?.preset ?? "");
+  if (paths.length > 0 && !isNativeGeo && !isBackgroundShape) {
+    renderGeometryPaths(component, shapeId, x, y, width, height, editor, frameId, {
+      color: finalColor,
+      fill: finalFill,
+      dash,
+      size,
+      opacity: shapeOpacity,
+    });
+    await renderLabelOverlay(component, shapeId, index, frameX, frameY, editor, slideIndex, frameId);
+    return;
+  }
+
   // Create the shape with parent frame, position, and rotation all at once
   const geoShapeProps: any = {
     id: shapeId,
@@ -127,6 +183,16 @@ export async function renderShapeComponent(
     },
   };
 
+  // Text typed into the shape becomes the geo shape's label
+  if (component.richText) {
+    Object.assign(geoShapeProps.props, {
+      richText: applyLanguage(evaluateFields(getAutofitRichText(component), slideIndex + 1), component.lang),
+      align: mapTextAlign(getRichTextAlign(component.richText)),
+      verticalAlign: mapVerticalAnchor(component.bodyProperties?.verticalAnchor),
+      labelColor: mapPowerPointColorToTLDraw(component.style?.color),
+    });
+  }
+
   console.log("shape", geoShapeProps);
 
   if (frameId) {
@@ -135,3 +201,189 @@ export async function renderShapeComponent(
 
   editor.createShape(geoShapeProps);
 }
+
+/**
+ * Draw the text label of a shape tldraw can't label itself (drawn as draw or image shapes)
+ * as a text shape over it, grouped with the shape so the two move together
+ */
+async function renderLabelOverlay(
+  component: PowerPointComponent,
+  shapeId: ReturnType<typeof createShapeId>,
+  index: number,
+  frameX: number,
+  frameY: number,
+  editor: Editor,
+  slideIndex: number,
+  frameId: string | null,
+) {
+  if (!component.richText || !editor.getShape(shapeId)) return;
+
+  await renderTextComponent(component, index, frameX, frameY, editor, slideIndex, frameId);
+  const labelId = createShapeId(createComponentShapeId("text", slideIndex, component.id || index));
+  editor.groupShapes([shapeId, labelId], {
+    groupId: createShapeId(createComponentShapeId("shape", slideIndex, component.id || index, "label")),
+    select: false,
+  });
+}
+
+/**
+ * Render geometry paths (custom or evaluated preset) as tldraw draw shapes (one per subpath).
+ * All subpaths share the component's local coordinate frame so they rotate together;
+ * multiple subpaths are grouped under the component's shape id.
+ */
+function renderGeometryPaths(
+  component: PowerPointComponent,
+  shapeId: ReturnType<typeof createShapeId>,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  editor: Editor,
+  frameId: string | null,
+  styles: { color: string; fill: string; dash: string; size: string; opacity: number },
+) {
+  const rotation = component.rotation || 0;
+  const origin = adjustPositionForRotation(x, y, width, height, rotation);
+
+  const drawShapes: any[] = [];
+  for (const path of component.geometry?.paths || []) {
+    // Fill-only outlines (e.g. the closed body of a bracket) have nothing to show without a fill
+    if (path.stroke === false && styles.fill === "none") continue;
+    for (const subpath of flattenPathCommands(path.commands || [])) {
+      drawShapes.push({
+        type: "draw",
+        x: origin.x,
+        y: origin.y,
+        rotation: rotation ? degreesToRadians(rotation) : 0,
+        opacity: styles.opacity,
+        props: {
+          color: styles.color,
+          fill: path.fill === "none" || !subpath.closed ? "none" : styles.fill,
+          dash: styles.dash,
+          size: styles.size,
+          segments: [{ type: "free", points: subpath.points.map((p) => ({ ...p, z: 0.5 })) }],
+          isComplete: true,
+          isClosed: subpath.closed,
+          isPen: false,
+          scale: 1,
+        },
+      });
+    }
+  }
+
+  if (drawShapes.length === 0) return;
+
+  const ids = drawShapes.map((_, i) =>
+    drawShapes.length === 1
+      ? shapeId
+      : createShapeId(`${shapeId.replace("shape:", "")}-path-${i}`),
+  );
+
+  drawShapes.forEach((shape, i) => {
+    shape.id = ids[i];
+    if (frameId) {
+      shape.parentId = frameId;
+    }
+    editor.createShape(shape);
+  });
+
+  if (ids.length > 1) {
+    editor.groupShapes(ids, { groupId: shapeId, select: false });
+  }
+}
+
+/**
+ * Build the SVG paint server for fills tldraw can't draw (gradient, pattern, picture)
+ * @returns the definition, or null for flat fills
+ */
+async function buildFillDefinition(
+  component: PowerPointComponent,
+  width: number,
+  height: number,
+): Promise<string | null> {
+  const gradient: GradientFill | undefined = component.style?.fillGradient;
+  if (gradient?.stops?.length) {
+    return buildGradientDefinition(gradient, width, height);
+  }
+
+  const pattern: PatternFill | undefined = component.style?.fillPattern;
+  if (pattern) {
+    return buildPatternDefinition(pattern);
+  }
+
+  const picture: PictureFill | undefined = component.style?.fillPicture;
+  if (picture?.url) {
+    const image = await loadImageForFill(picture.url);
+    return buildPictureDefinition(picture, image.href, width, height, image);
+  }
+
+  return null;
+}
+
+/**
+ * Render a shape as an image shape backed by a generated SVG of its filled outline
+ */
+function renderSvgFill(
+  component: PowerPointComponent,
+  shapeId: ReturnType<typeof createShapeId>,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  editor: Editor,
+  frameId: string | null,
+  fill: {
+    definition: string;
+    paths: Array<{ d: string; fill: string; stroke: boolean }>;
+    stroke?: OutlineStroke;
+    opacity: number;
+  },
+) {
+  const svg = buildFillSvg(
+    fill.definition,
+    width,
+    height,
+    fill.paths.map((path) => ({ d: path.d, fill: path.fill !== "none", stroke: path.stroke })),
+    fill.stroke,
+  );
+
+  const assetId = AssetRecordType.createId();
+  editor.createAssets([
+    {
+      id: assetId,
+      type: "image",
+      typeName: "asset",
+      props: {
+        name: `${component.id || "shape"}-fill.svg`,
+        src: svgToDataUrl(svg),
+        w: width,
+        h: height,
+        mimeType: "image/svg+xml",
+        isAnimated: false,
+      },
+      meta: {},
+    },
+  ]);
+
+  const rotation = component.rotation || 0;
+  const origin = adjustPositionForRotation(x, y, width, height, rotation);
+  const imageShapeProps: any = {
+    id: shapeId,
+    type: "image",
+    x: origin.x,
+    y: origin.y,
+    rotation: rotation ? degreesToRadians(rotation) : 0,
+    opacity: fill.opacity,
+    props: {
+      assetId,
+      w: width,
+      h: height,
+    },
+  };
+
+  if (frameId) {
+    imageShapeProps.parentId = frameId;
+  }
+
+  editor.createShape(imageShapeProps);
+}
@@ -94,8 +94,10 @@ export async function renderTableComponent(
     !!frameId
   )
   
-  // Create table rich text structure
-  const richText = createTableRichText(tableData, hasHeader)
+  // Server-parsed tables carry their full structure (spans, widths, cell formatting);
+  // tables from clipboard HTML only have their text
+  const richText = component.metadata?.richText ?? createTableRichText(tableData, hasHeader)
+  const gridWidth = component.columnWidths?.reduce((sum, width) => sum + width, 0)
   
   // Create a single text shape with the table richText
   const tableId = createShapeId(createComponentShapeId('table', slideIndex, component.id || index, 'richtext'))
@@ -110,7 +112,7 @@ export async function renderTableComponent(
       color: 'black',
       size: 's',
       font: 'sans',
-      w: component.width || 400,
+      w: gridWidth || component.width || 400,
       autoSize: false
     }
   }
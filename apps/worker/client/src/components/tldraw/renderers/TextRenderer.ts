@@ -1,7 +1,7 @@
 import { createShapeId, toRichText, type Editor } from '@tldraw/tldraw'
 import type { PowerPointComponent } from 'ppt-paste-parser'
 import { mapPowerPointColorToTLDraw } from '../utils/colorMapping'
-import { mapFontFamily, mapFontSize, createComponentShapeId } from '../utils/tldrawHelpers'
+import { mapFontFamily, mapFontSize, mapTextAlign, createComponentShapeId, getAutofitRichText, evaluateFields, applyLanguage } from '../utils/tldrawHelpers'
 import { adjustPositionForRotation, calculateFrameRelativePosition, degreesToRadians } from '../utils/coordinateHelpers'
 
 export async function renderTextComponent(
@@ -18,7 +18,7 @@ export async function renderTextComponent(
   // PowerPoint coordinates look good - try with less scaling or no scaling
   const scale = 1 // Try no scaling first since coordinates look reasonable (629, 413, etc.)
   
-  let { x, y } = calculateFrameRelativePosition(
+  const { x: boxX, y: boxY } = calculateFrameRelativePosition(
     component.x || 0,
     component.y || 0,
     frameX,
@@ -28,23 +28,24 @@ export async function renderTextComponent(
   )
   
   // Adjust position for rotation - PowerPoint gives us top-left of unrotated shape
-  if (component.rotation && component.rotation !== 0) {
-    const width = component.width || 0
-    const height = component.height || 0
-    
-    const adjusted = adjustPositionForRotation(x, y, width, height, component.rotation)
-    x = adjusted.x
-    y = adjusted.y
-  }
+  const width = component.width || 0
+  const height = component.height || 0
+  const { x, y } = adjustPositionForRotation(boxX, boxY, width, height, component.rotation || 0)
+  
+  // Text sits inside the box's insets (a:bodyPr lIns/tIns/rIns/bIns)
+  const body = component.bodyProperties
+  const insets = body?.insets ?? { left: 0, top: 0, right: 0, bottom: 0 }
+  const textWidth = Math.max(1, width - insets.left - insets.right)
   
-  // Check if richText contains fontSize in textStyle marks
-  const richTextData = (component as any).richText
+  // Shrink-on-overflow autofit scales fonts and line spacing the way PowerPoint last laid them out
+  const fontScale = body?.autofit.type === 'normal' ? body.autofit.fontScale ?? 1 : 1
+  const richTextData = applyLanguage(evaluateFields(getAutofitRichText(component), slideIndex + 1), component.lang)
   const hasRichTextFontSize = richTextData && checkForFontSize(richTextData.content)
   
   // Convert PowerPoint font size (pt) to TLDraw size categories as fallback
   let tldrawSize = undefined
   if (!hasRichTextFontSize && component.style?.fontSize) {
-    tldrawSize = mapFontSize(component.style.fontSize)
+    tldrawSize = mapFontSize(component.style.fontSize * fontScale)
   } else if (!hasRichTextFontSize) {
     tldrawSize = 'm'
   }
@@ -66,9 +67,11 @@ export async function renderTextComponent(
     richText: richTextContent,
     color: tldrawColor,
     font: tldrawFont,
-    // Only disable autoSize if PowerPoint provided a width, otherwise let TLDraw autosize
-    autoSize: !component.width,
-    ...(component.width ? { w: component.width } : {})
+    // Per-paragraph alignment lives in the rich text; this aligns the shape as a whole
+    textAlign: mapTextAlign(component.style?.textAlign),
+    // Only disable autoSize if PowerPoint provided a width and the text wraps, otherwise let TLDraw autosize
+    autoSize: !component.width || body?.wrap === false,
+    ...(component.width ? { w: textWidth } : {})
   }
   
   // Only set size if we don't have rich text fontSize (to avoid overriding)
@@ -79,8 +82,7 @@ export async function renderTextComponent(
   const shapeProps: any = {
     id: shapeId,
     type: 'text',
-    x,
-    y,
+    ...offsetInRotatedBox(x, y, insets.left, insets.top, component.rotation),
     rotation: component.rotation ? degreesToRadians(component.rotation) : 0,
     props: textProps
   }
@@ -90,6 +92,28 @@ export async function renderTextComponent(
   }
   
   editor.createShape(shapeProps)
+  
+  // Middle/bottom anchoring needs the laid-out text height, so move the shape once it exists
+  const anchor = body?.verticalAnchor ?? 'top'
+  if (anchor !== 'top' && height) {
+    const textHeight = editor.getShapeGeometry(shapeId).bounds.height
+    const space = height - insets.top - insets.bottom - textHeight
+    const offsetY = insets.top + (anchor === 'middle' ? space / 2 : space)
+    editor.updateShape({
+      id: shapeId,
+      type: 'text',
+      ...offsetInRotatedBox(x, y, insets.left, offsetY, component.rotation),
+    })
+  }
+}
+
+// Position of a point given in the box's own (unrotated) coordinates, from the box's rotated top-left
+function offsetInRotatedBox(x: number, y: number, dx: number, dy: number, rotation?: number) {
+  const angle = degreesToRadians(rotation || 0)
+  return {
+    x: x + dx * Math.cos(angle) - dy * Math.sin(angle),
+    y: y + dx * Math.sin(angle) + dy * Math.cos(angle),
+  }
 }
 
 // Helper function to check for fontSize in nested structures
@@ -0,0 +1,103 @@
+import { useEffect } from 'react'
+import type { Editor } from '@tldraw/tldraw'
+import type { PowerPointComponent } from 'ppt-paste-parser'
+
+type ComponentLink = NonNullable<PowerPointComponent['link']>
+
+// Schemes a pasted link may open; the parser drops others, but links in stored
+// shape meta may predate that
+const SAFE_LINK_URL = /^(https?|mailto):/i
+
+interface SlideshowLinkHandlerProps {
+  isSlideshowMode: boolean
+  editorRef: React.RefObject<Editor | null>
+  slideFrameIds: string[]
+  previousSlide: () => void
+  nextSlide: () => void
+  exitSlideshowMode: () => void
+  navigateToSlide: (slideIndex: number) => void
+}
+
+/**
+ * Hook to follow PowerPoint hyperlinks during slideshow mode - shape click actions
+ * (stored in shape meta by the drawing manager) and links inside text
+ */
+export function useSlideshowLinkHandler({
+  isSlideshowMode,
+  editorRef,
+  slideFrameIds,
+  previousSlide,
+  nextSlide,
+  exitSlideshowMode,
+  navigateToSlide
+}: SlideshowLinkHandlerProps) {
+  useEffect(() => {
+    if (!isSlideshowMode) return
+
+    const followLink = (link: ComponentLink) => {
+      if (link.url) {
+        if (SAFE_LINK_URL.test(link.url)) {
+          window.open(link.url, '_blank', 'noopener,noreferrer')
+        }
+        return
+      }
+      if (link.slideNumber) {
+        // Slides are drawn in show order, which slide jump numbers follow
+        if (link.slideNumber <= slideFrameIds.length) {
+          navigateToSlide(link.slideNumber - 1)
+        }
+        return
+      }
+      switch (link.jump) {
+        case 'nextslide':
+          nextSlide()
+          break
+        case 'previousslide':
+        case 'lastslideviewed':
+          previousSlide()
+          break
+        case 'firstslide':
+          navigateToSlide(0)
+          break
+        case 'lastslide':
+          navigateToSlide(slideFrameIds.length - 1)
+          break
+        case 'endshow':
+          exitSlideshowMode()
+          break
+      }
+    }
+
+    const handleClick = (event: MouseEvent) => {
+      // Text links: external ones open on their own, slide jumps are #slide-N / #<jump> fragments
+      const anchor = (event.target as Element | null)?.closest?.('a[href]')
+      if (anchor) {
+        const href = anchor.getAttribute('href') || ''
+        if (href.startsWith('#')) {
+          event.preventDefault()
+          const slideMatch = /^#slide-(\d+)$/.exec(href)
+          followLink(slideMatch ? { slideNumber: Number(slideMatch[1]) } : { jump: href.slice(1) })
+        }
+        return
+      }
+
+      const editor = editorRef.current
+      if (!editor) return
+
+      // Shapes inside a linked group follow the group's link
+      let shape = editor.getShapeAtPoint(editor.screenToPage({ x: event.clientX, y: event.clientY }), { hitInside: true })
+      while (shape && !shape.meta?.link) {
+        shape = editor.getShapeParent(shape)
+      }
+      if (shape) {
+        event.preventDefault()
+        followLink(shape.meta.link as ComponentLink)
+      }
+    }
+
+    document.addEventListener('click', handleClick, true)
+    return () => {
+      document.removeEventListener('click', handleClick, true)
+    }
+  }, [isSlideshowMode, editorRef, slideFrameIds.length, previousSlide, nextSlide, exitSlideshowMode, navigateToSlide])
+}
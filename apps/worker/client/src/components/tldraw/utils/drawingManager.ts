@@ -1,4 +1,4 @@
-import { createShapeId, type Editor } from '@tldraw/tldraw'
+import { createShapeId, type Editor, type TLShapeId } from '@tldraw/tldraw'
 import type { PowerPointComponent, PowerPointSlide } from 'ppt-paste-parser'
 import { calculateComponentBounds, calculateSlidePosition } from './coordinateHelpers'
 import { SLIDE_LAYOUT, type TLDrawColor } from '../constants'
@@ -7,7 +7,12 @@ import { renderShapeComponent } from '../renderers/ShapeRenderer'
 import { renderImageComponent } from '../renderers/ImageRenderer'
 import { renderTableComponent } from '../renderers/TableRenderer'
 import { renderVideoComponent } from '../renderers/VideoRenderer'
+import { renderConnectorComponent, bindConnectorComponent } from '../renderers/ConnectorRenderer'
 import { createColorMapping, applyColorPaletteOverride } from './colorPaletteOverride'
+import { createComponentShapeId } from './tldrawHelpers'
+
+// The tldraw shape drawn for each component, by drawingId (cNvPr id), for binding connectors
+type DrawnShapes = Map<string, TLShapeId>
 
 /**
  * Compose slide components with master/layout backgrounds
@@ -166,7 +171,10 @@ export async function drawSlides(
     const composedComponents = composeSlideWithBackgrounds(slide, masters, layouts);
     
     // Draw all components within this slide frame - await to prevent race conditions
-    await drawComponentsInFrame(composedComponents, slideX, slideY, editor, slideIndex, frameId, { width: slideWidth, height: slideHeight }, colorMapping)
+    const drawnShapes: DrawnShapes = new Map()
+    await drawComponentsInFrame(composedComponents, slideX, slideY, editor, slideIndex, frameId, { width: slideWidth, height: slideHeight }, colorMapping, drawnShapes)
+    // Slide connectors bind to the slide's own shapes, drawn above any layout or master shape sharing their id
+    bindConnectors(slide.components, editor, drawnShapes)
   }
 
   // Fit the viewport to show all slides
@@ -187,7 +195,9 @@ export async function drawComponents(components: PowerPointComponent[], editor:
   editor.deleteShapes(allShapes.map(shape => shape.id))
 
   // Draw components without slide frames (legacy mode) - no frame parent
-  await drawComponentsInFrame(components, 0, 0, editor, 0, null, undefined, colorMapping)
+  const drawnShapes: DrawnShapes = new Map()
+  await drawComponentsInFrame(components, 0, 0, editor, 0, null, undefined, colorMapping, drawnShapes)
+  bindConnectors(components, editor, drawnShapes)
 
   // Fit the viewport to show all components
   editor.zoomToFit({ animation: { duration: 500 } })
@@ -201,7 +211,8 @@ async function drawComponentsInFrame(
   slideIndex: number,
   frameId: string | null,
   frameDimensions?: { width: number; height: number },
-  colorMapping?: Map<string, TLDrawColor>
+  colorMapping?: Map<string, TLDrawColor>,
+  drawnShapes: DrawnShapes = new Map()
 ) {
   // Sort components by zIndex to ensure correct layering order
   const sortedComponents = [...components].sort((a, b) => (a.zIndex ?? 0) - (b.zIndex ?? 0))
@@ -218,6 +229,8 @@ async function drawComponentsInFrame(
   // Render each component in correct z-order
   for (let index = 0; index < sortedComponents.length; index++) {
     const component = sortedComponents[index]
+    // Track the shapes a component creates so they can carry its click action and connector bindings
+    const existingIds = component.link || component.drawingId ? new Set(editor.getCurrentPageShapeIds()) : null
     
     switch (component.type) {
       case 'text':
@@ -235,8 +248,122 @@ async function drawComponentsInFrame(
       case 'video':
         await renderVideoComponent(component, index, frameX, frameY, editor, slideIndex, frameId)
         break
+      case 'group':
+        await renderGroupComponent(component, index, frameX, frameY, editor, slideIndex, frameId, frameDimensions, colorMapping, drawnShapes)
+        break
+      case 'connector':
+        await renderConnectorComponent(component, index, frameX, frameY, editor, slideIndex, frameId, colorMapping || new Map())
+        break
       default:
         break
     }
+
+    if (component.link && existingIds) {
+      applyComponentLink(component.link, existingIds, editor)
+    }
+
+    // Group children record their own shapes; tldraw can't bind arrows to the group itself
+    if (component.drawingId && existingIds && component.type !== 'group') {
+      const drawnId = findDrawnShape(component, existingIds, editor)
+      if (drawnId) drawnShapes.set(component.drawingId, drawnId)
+    }
+  }
+}
+
+/**
+ * The shape a component drew that connectors should bind to: its largest
+ * non-group shape (the outline rather than the label of a labelled shape,
+ * the largest path of a multi-path one)
+ */
+function findDrawnShape(
+  component: PowerPointComponent,
+  existingIds: Set<string>,
+  editor: Editor
+): TLShapeId | null {
+  const drawn = [...editor.getCurrentPageShapeIds()]
+    .filter(id => !existingIds.has(id))
+    .map(id => editor.getShape(id)!)
+    .filter(shape => shape.type !== 'group')
+  const outlines = component.type === 'text' ? drawn : drawn.filter(shape => shape.type !== 'text')
+  const candidates = outlines.length > 0 ? outlines : drawn
+
+  let best: TLShapeId | null = null
+  let bestArea = -1
+  for (const shape of candidates) {
+    const bounds = editor.getShapePageBounds(shape)
+    const area = bounds ? bounds.w * bounds.h : 0
+    if (area > bestArea) {
+      best = shape.id
+      bestArea = area
+    }
   }
-}
\ No newline at end of file
+  return best
+}
+
+/**
+ * Bind every connector in a component tree once all of its shapes are drawn
+ */
+function bindConnectors(components: PowerPointComponent[], editor: Editor, drawnShapes: DrawnShapes) {
+  for (const component of components) {
+    if (component.type === 'connector') {
+      bindConnectorComponent(component, editor, drawnShapes)
+    }
+    if (component.children) {
+      bindConnectors(component.children, editor, drawnShapes)
+    }
+  }
+}
+
+/**
+ * Store a component's click action in the meta of the shapes rendered for it (see SlideshowLinkHandler).
+ * Shapes that already carry their own link (e.g. linked children of a linked group) keep it.
+ */
+function applyComponentLink(
+  link: NonNullable<PowerPointComponent['link']>,
+  existingIds: Set<string>,
+  editor: Editor
+) {
+  const updates = [...editor.getCurrentPageShapeIds()]
+    .filter(id => !existingIds.has(id))
+    .map(id => editor.getShape(id)!)
+    .filter(shape => !shape.meta?.link)
+    .map(shape => ({ id: shape.id, type: shape.type, meta: { ...shape.meta, link } }))
+
+  if (updates.length > 0) {
+    editor.updateShapes(updates)
+  }
+}
+
+/**
+ * Render a group's children (already in slide coordinates) and wrap them in a tldraw group
+ */
+async function renderGroupComponent(
+  component: PowerPointComponent,
+  index: number,
+  frameX: number,
+  frameY: number,
+  editor: Editor,
+  slideIndex: number,
+  frameId: string | null,
+  frameDimensions?: { width: number; height: number },
+  colorMapping?: Map<string, TLDrawColor>,
+  drawnShapes?: DrawnShapes
+) {
+  const children = component.children || []
+  if (children.length === 0) return
+
+  // Track which shapes the children create (renderers may fall back to placeholders)
+  const existingIds = new Set(editor.getCurrentPageShapeIds())
+  await drawComponentsInFrame(children, frameX, frameY, editor, slideIndex, frameId, frameDimensions, colorMapping, drawnShapes)
+  // Only direct children of the frame - nested groups already own their shapes
+  const parentId = frameId ?? editor.getCurrentPageId()
+  const childShapeIds = [...editor.getCurrentPageShapeIds()].filter(id =>
+    !existingIds.has(id) && editor.getShape(id)?.parentId === parentId
+  )
+
+  // tldraw needs at least two shapes to form a group
+  if (childShapeIds.length < 2) return
+
+  const groupId = createShapeId(createComponentShapeId('group', slideIndex, component.id || index))
+  editor.groupShapes(childShapeIds, { groupId, select: false })
+}
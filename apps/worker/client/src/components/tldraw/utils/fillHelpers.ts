@@ -0,0 +1,385 @@
+/**
+ * Helpers for fills tldraw can't express with its palette (gradients, patterns, pictures).
+ * The shape's outline is rendered into an SVG image that tldraw shows as an image asset.
+ */
+
+export interface GradientStop {
+  position: number
+  color: string
+  opacity: number
+}
+
+export interface GradientFill {
+  type: 'linear' | 'circle' | 'rect' | 'shape'
+  angle: number
+  scaled: boolean
+  stops: GradientStop[]
+  fillToRect?: RelativeRect
+  rotateWithShape: boolean
+}
+
+export interface PatternFill {
+  preset: string
+  foregroundColor: string
+  foregroundOpacity: number
+  backgroundColor: string
+  backgroundOpacity: number
+}
+
+export interface PictureFill {
+  url: string | null
+  mode: 'stretch' | 'tile'
+  opacity: number
+  // CSS filter approximating color effects the server couldn't bake into the image
+  filter?: string | null
+  srcRect?: RelativeRect
+  fillRect?: RelativeRect
+  tile?: {
+    offsetX: number
+    offsetY: number
+    scaleX: number
+    scaleY: number
+    flip: 'none' | 'x' | 'y' | 'xy'
+    align: string
+  }
+}
+
+export interface RelativeRect {
+  left: number
+  top: number
+  right: number
+  bottom: number
+}
+
+export interface FillOutline {
+  d: string
+  fill: boolean
+  stroke: boolean
+}
+
+export interface OutlineStroke {
+  color: string
+  width: number
+  dash?: string
+}
+
+const FILL_ID = 'fill'
+
+// Approximations of the DrawingML preset patterns as 8x8 bitmaps, one byte per row (MSB = left)
+const PATTERN_BITMAPS: Record<string, number[]> = {
+  horz: [0xff, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00],
+  ltHorz: [0xff, 0x00, 0x00, 0x00, 0xff, 0x00, 0x00, 0x00],
+  narHorz: [0xff, 0x00, 0xff, 0x00, 0xff, 0x00, 0xff, 0x00],
+  dkHorz: [0xff, 0xff, 0x00, 0x00, 0xff, 0xff, 0x00, 0x00],
+  dashHorz: [0xf0, 0x00, 0x00, 0x00, 0x0f, 0x00, 0x00, 0x00],
+  dnDiag: [0x88, 0x44, 0x22, 0x11, 0x88, 0x44, 0x22, 0x11],
+  ltDnDiag: [0x80, 0x40, 0x20, 0x10, 0x08, 0x04, 0x02, 0x01],
+  dkDnDiag: [0xcc, 0x66, 0x33, 0x99, 0xcc, 0x66, 0x33, 0x99],
+  wdDnDiag: [0xc1, 0xe0, 0x70, 0x38, 0x1c, 0x0e, 0x07, 0x83],
+  dashDnDiag: [0x88, 0x44, 0x22, 0x11, 0x00, 0x00, 0x00, 0x00],
+  cross: [0xff, 0x80, 0x80, 0x80, 0x80, 0x80, 0x80, 0x80],
+  lgGrid: [0xff, 0x80, 0x80, 0x80, 0x80, 0x80, 0x80, 0x80],
+  smGrid: [0xff, 0x88, 0x88, 0x88, 0xff, 0x88, 0x88, 0x88],
+  dotGrid: [0xaa, 0x00, 0x80, 0x00, 0x80, 0x00, 0x80, 0x00],
+  diagCross: [0x81, 0x42, 0x24, 0x18, 0x18, 0x24, 0x42, 0x81],
+  smCheck: [0xcc, 0xcc, 0x33, 0x33, 0xcc, 0xcc, 0x33, 0x33],
+  lgCheck: [0xf0, 0xf0, 0xf0, 0xf0, 0x0f, 0x0f, 0x0f, 0x0f],
+  smConfetti: [0x80, 0x04, 0x40, 0x02, 0x20, 0x01, 0x10, 0x08],
+  lgConfetti: [0xb1, 0x30, 0x03, 0x1b, 0xd8, 0xc0, 0x0c, 0x8d],
+  horzBrick: [0xff, 0x80, 0x80, 0x80, 0xff, 0x08, 0x08, 0x08],
+  diagBrick: [0x01, 0x02, 0x04, 0x08, 0x18, 0x24, 0x42, 0x81],
+  solidDmnd: [0x10, 0x38, 0x7c, 0xfe, 0x7c, 0x38, 0x10, 0x00],
+  openDmnd: [0x10, 0x28, 0x44, 0x82, 0x44, 0x28, 0x10, 0x00],
+  dotDmnd: [0x80, 0x00, 0x22, 0x00, 0x08, 0x00, 0x22, 0x00],
+  plaid: [0xaa, 0x55, 0xaa, 0x55, 0xf0, 0xf0, 0xf0, 0xf0],
+  sphere: [0x77, 0x98, 0xf8, 0xf8, 0x77, 0x89, 0x8f, 0x8f],
+  weave: [0x88, 0x54, 0x22, 0x45, 0x88, 0x14, 0x22, 0x51],
+  divot: [0x00, 0x10, 0x08, 0x10, 0x00, 0x01, 0x80, 0x01],
+  shingle: [0x03, 0x84, 0x48, 0x30, 0x0c, 0x02, 0x01, 0x01],
+  wave: [0x00, 0x18, 0xa4, 0x03, 0x00, 0x18, 0xa4, 0x03],
+  trellis: [0xff, 0x66, 0xff, 0x99, 0xff, 0x66, 0xff, 0x99],
+  zigZag: [0x81, 0x42, 0x24, 0x18, 0x81, 0x42, 0x24, 0x18],
+}
+
+// 8x8 ordered-dither thresholds, used for the percentage patterns (pct5 ... pct90)
+const BAYER_8X8 = [
+  [0, 32, 8, 40, 2, 34, 10, 42],
+  [48, 16, 56, 24, 50, 18, 58, 26],
+  [12, 44, 4, 36, 14, 46, 6, 38],
+  [60, 28, 52, 20, 62, 30, 54, 22],
+  [3, 35, 11, 43, 1, 33, 9, 41],
+  [51, 19, 59, 27, 49, 17, 57, 25],
+  [15, 47, 7, 39, 13, 45, 5, 37],
+  [63, 31, 55, 23, 61, 29, 53, 21],
+]
+
+/**
+ * Get the 8x8 bitmap for a preset pattern (rows, MSB = leftmost pixel)
+ * @param preset - ST_PresetPatternVal, e.g. "dkDnDiag" or "pct50"
+ */
+export function getPatternBitmap(preset: string): number[] {
+  const percent = preset.match(/^pct(\d+)$/)
+  if (percent) {
+    const threshold = (Number(percent[1]) / 100) * 64
+    return BAYER_8X8.map((row) => row.reduce((bits, value, x) => (value < threshold ? bits | (0x80 >> x) : bits), 0))
+  }
+
+  if (PATTERN_BITMAPS[preset]) return PATTERN_BITMAPS[preset]
+
+  // Vertical and up-diagonal variants mirror their horizontal and down-diagonal counterparts
+  const vertical = preset.match(/^(lt|nar|dk|dash)?vert$/i)
+  if (vertical) {
+    return transposeBitmap(PATTERN_BITMAPS[vertical[1] ? `${vertical[1]}Horz` : 'horz'])
+  }
+  const upDiagonal = preset.match(/^(lt|dk|wd|dash)?upDiag$/i)
+  if (upDiagonal) {
+    return PATTERN_BITMAPS[upDiagonal[1] ? `${upDiagonal[1]}DnDiag` : 'dnDiag'].map(mirrorByte)
+  }
+
+  return PATTERN_BITMAPS.smGrid
+}
+
+/**
+ * Build the <linearGradient>/<radialGradient> element for a gradient fill
+ * @param gradient - Parsed a:gradFill
+ * @param width - Shape width in pixels
+ * @param height - Shape height in pixels
+ */
+export function buildGradientDefinition(gradient: GradientFill, width: number, height: number): string {
+  const stops = gradient.stops
+    .map(
+      (stop) =>
+        `<stop offset="${round(stop.position)}" stop-color="${escapeAttribute(stop.color)}"` +
+        (stop.opacity < 1 ? ` stop-opacity="${round(stop.opacity)}"` : '') +
+        '/>'
+    )
+    .join('')
+
+  if (gradient.type === 'linear') {
+    // A scaled angle is defined in the unit square and stretched with the shape
+    const boxWidth = gradient.scaled ? 1 : width
+    const boxHeight = gradient.scaled ? 1 : height
+    const angle = (gradient.angle * Math.PI) / 180
+    const dx = Math.cos(angle)
+    const dy = Math.sin(angle)
+    // Half the projection of the box onto the gradient direction, so the end stops touch the corners
+    const half = (Math.abs(boxWidth * dx) + Math.abs(boxHeight * dy)) / 2
+    const units = gradient.scaled ? 'objectBoundingBox' : 'userSpaceOnUse'
+    const cx = boxWidth / 2
+    const cy = boxHeight / 2
+
+    return (
+      `<linearGradient id="${FILL_ID}" gradientUnits="${units}" ` +
+      `x1="${round(cx - dx * half)}" y1="${round(cy - dy * half)}" x2="${round(cx + dx * half)}" y2="${round(cy + dy * half)}">` +
+      `${stops}</linearGradient>`
+    )
+  }
+
+  // Path gradients radiate from the fillToRect focus (stop 0) out to the shape's edges.
+  // SVG has no rectangular or shape-following gradient, so those are approximated radially.
+  const focus = gradient.fillToRect || { left: 0.5, top: 0.5, right: 0.5, bottom: 0.5 }
+  const cx = ((focus.left + (1 - focus.right)) / 2) * width
+  const cy = ((focus.top + (1 - focus.bottom)) / 2) * height
+  const radius = Math.max(
+    Math.hypot(cx, cy),
+    Math.hypot(width - cx, cy),
+    Math.hypot(cx, height - cy),
+    Math.hypot(width - cx, height - cy)
+  )
+
+  return (
+    `<radialGradient id="${FILL_ID}" gradientUnits="userSpaceOnUse" ` +
+    `cx="${round(cx)}" cy="${round(cy)}" r="${round(radius)}">${stops}</radialGradient>`
+  )
+}
+
+/**
+ * Build the <pattern> element for a preset pattern fill
+ * @param pattern - Parsed a:pattFill
+ */
+export function buildPatternDefinition(pattern: PatternFill): string {
+  const bitmap = getPatternBitmap(pattern.preset)
+
+  // One rect per horizontal run of foreground pixels
+  const runs: string[] = []
+  bitmap.forEach((row, y) => {
+    let x = 0
+    while (x < 8) {
+      if (!(row & (0x80 >> x))) {
+        x++
+        continue
+      }
+      const start = x
+      while (x < 8 && row & (0x80 >> x)) x++
+      runs.push(`<rect x="${start}" y="${y}" width="${x - start}" height="1"/>`)
+    }
+  })
+
+  return (
+    `<pattern id="${FILL_ID}" patternUnits="userSpaceOnUse" width="8" height="8">` +
+    `<rect width="8" height="8" fill="${escapeAttribute(pattern.backgroundColor)}"` +
+    (pattern.backgroundOpacity < 1 ? ` fill-opacity="${round(pattern.backgroundOpacity)}"` : '') +
+    '/>' +
+    `<g shape-rendering="crispEdges" fill="${escapeAttribute(pattern.foregroundColor)}"` +
+    (pattern.foregroundOpacity < 1 ? ` fill-opacity="${round(pattern.foregroundOpacity)}"` : '') +
+    `>${runs.join('')}</g></pattern>`
+  )
+}
+
+/**
+ * Build the <pattern> element for a picture fill
+ * @param picture - Parsed a:blipFill
+ * @param href - Image source (a data URL, as SVG images can't load external resources)
+ * @param width - Shape width in pixels
+ * @param height - Shape height in pixels
+ * @param imageSize - Natural image size in pixels (used for tiling)
+ */
+export function buildPictureDefinition(
+  picture: PictureFill,
+  href: string,
+  width: number,
+  height: number,
+  imageSize: { width: number; height: number }
+): string {
+  const opacity = picture.opacity < 1 ? ` opacity="${round(picture.opacity)}"` : ''
+  const filter = picture.filter ? ` style="filter: ${escapeAttribute(picture.filter)}"` : ''
+
+  if (picture.mode === 'tile' && picture.tile) {
+    const tile = picture.tile
+    const tileWidth = Math.max(1, imageSize.width * tile.scaleX)
+    const tileHeight = Math.max(1, imageSize.height * tile.scaleY)
+    const flipX = tile.flip === 'x' || tile.flip === 'xy'
+    const flipY = tile.flip === 'y' || tile.flip === 'xy'
+    // Flipped tiling alternates mirrored copies, so the repeating unit doubles
+    const unitWidth = flipX ? tileWidth * 2 : tileWidth
+    const unitHeight = flipY ? tileHeight * 2 : tileHeight
+    const image = (x: number, y: number, mirrorX: boolean, mirrorY: boolean) =>
+      `<image href="${escapeAttribute(href)}" width="${round(tileWidth)}" height="${round(tileHeight)}" preserveAspectRatio="none"` +
+      ` transform="translate(${round(x + (mirrorX ? tileWidth : 0))} ${round(y + (mirrorY ? tileHeight : 0))}) scale(${mirrorX ? -1 : 1} ${mirrorY ? -1 : 1})"${filter}/>`
+
+    const images = [image(0, 0, false, false)]
+    if (flipX) images.push(image(tileWidth, 0, true, false))
+    if (flipY) images.push(image(0, tileHeight, false, true))
+    if (flipX && flipY) images.push(image(tileWidth, tileHeight, true, true))
+
+    return (
+      `<pattern id="${FILL_ID}" patternUnits="userSpaceOnUse" x="${round(tile.offsetX)}" y="${round(tile.offsetY)}" ` +
+      `width="${round(unitWidth)}" height="${round(unitHeight)}"><g${opacity}>${images.join('')}</g></pattern>`
+    )
+  }
+
+  // Stretch: the srcRect part of the image fills the fillRect inset of the shape's bounds
+  const target = picture.fillRect || { left: 0, top: 0, right: 0, bottom: 0 }
+  const source = picture.srcRect || { left: 0, top: 0, right: 0, bottom: 0 }
+  const targetX = target.left * width
+  const targetY = target.top * height
+  const targetWidth = Math.max(0, (1 - target.left - target.right) * width)
+  const targetHeight = Math.max(0, (1 - target.top - target.bottom) * height)
+  const sourceWidth = Math.max(0.0001, 1 - source.left - source.right)
+  const sourceHeight = Math.max(0.0001, 1 - source.top - source.bottom)
+
+  return (
+    `<pattern id="${FILL_ID}" patternUnits="userSpaceOnUse" width="${round(width)}" height="${round(height)}">` +
+    `<svg x="${round(targetX)}" y="${round(targetY)}" width="${round(targetWidth)}" height="${round(targetHeight)}" ` +
+    `viewBox="${round(source.left)} ${round(source.top)} ${round(sourceWidth)} ${round(sourceHeight)}" preserveAspectRatio="none">` +
+    `<image href="${escapeAttribute(href)}" width="1" height="1" preserveAspectRatio="none"${opacity}${filter}/></svg></pattern>`
+  )
+}
+
+/**
+ * Render outlines filled with a paint server as a standalone SVG document
+ * @param definition - Gradient or pattern element with id "fill"
+ * @param width - Shape width in pixels
+ * @param height - Shape height in pixels
+ * @param outlines - Shape outline paths; a full rectangle when empty
+ * @param stroke - Optional outline stroke
+ */
+export function buildFillSvg(
+  definition: string,
+  width: number,
+  height: number,
+  outlines: FillOutline[],
+  stroke?: OutlineStroke
+): string {
+  const paths = outlines.length > 0 ? outlines : [{ d: `M 0 0 L ${width} 0 L ${width} ${height} L 0 ${height} Z`, fill: true, stroke: true }]
+
+  const strokeAttributes = stroke
+    ? ` stroke="${escapeAttribute(stroke.color)}" stroke-width="${round(stroke.width)}"` +
+      (stroke.dash === 'dashed' ? ` stroke-dasharray="${round(stroke.width * 4)} ${round(stroke.width * 3)}"` : '') +
+      (stroke.dash === 'dotted' ? ` stroke-dasharray="${round(stroke.width)} ${round(stroke.width * 2)}"` : '')
+    : ''
+
+  const body = paths
+    .map(
+      (path) =>
+        `<path d="${escapeAttribute(path.d)}" fill="${path.fill ? `url(#${FILL_ID})` : 'none'}"` +
+        (path.stroke && stroke ? strokeAttributes : ' stroke="none"') +
+        '/>'
+    )
+    .join('')
+
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${round(width)}" height="${round(height)}" ` +
+    `viewBox="0 0 ${round(width)} ${round(height)}" overflow="visible">` +
+    `<defs>${definition}</defs>${body}</svg>`
+  )
+}
+
+/**
+ * Encode an SVG document as a data URL usable as an image asset source
+ */
+export function svgToDataUrl(svg: string): string {
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`
+}
+
+/**
+ * Load an image as a data URL with its natural size.
+ * SVG documents shown as images can't fetch external URLs, so picture fills are inlined.
+ * @param url - Image URL or data URL
+ * @returns Data URL (or the original URL if it can't be fetched) and the natural size
+ */
+export async function loadImageForFill(url: string): Promise<{ href: string; width: number; height: number }> {
+  let href = url
+  if (!url.startsWith('data:')) {
+    try {
+      const blob = await (await fetch(url)).blob()
+      href = await new Promise<string>((resolve, reject) => {
+        const reader = new FileReader()
+        reader.onload = () => resolve(reader.result as string)
+        reader.onerror = () => reject(reader.error)
+        reader.readAsDataURL(blob)
+      })
+    } catch {
+      href = url
+    }
+  }
+
+  const size = await new Promise<{ width: number; height: number }>((resolve) => {
+    const image = new Image()
+    image.onload = () => resolve({ width: image.naturalWidth || 64, height: image.naturalHeight || 64 })
+    image.onerror = () => resolve({ width: 64, height: 64 })
+    image.src = href
+  })
+
+  return { href, ...size }
+}
+
+function transposeBitmap(bitmap: number[]): number[] {
+  return bitmap.map((_, x) => bitmap.reduce((bits, row, y) => (row & (0x80 >> x) ? bits | (0x80 >> y) : bits), 0))
+}
+
+function mirrorByte(byte: number): number {
+  let mirrored = 0
+  for (let bit = 0; bit < 8; bit++) {
+    if (byte & (1 << bit)) mirrored |= 0x80 >> bit
+  }
+  return mirrored
+}
+
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;')
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000
+}
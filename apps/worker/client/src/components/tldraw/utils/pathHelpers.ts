@@ -0,0 +1,91 @@
+/**
+ * Helpers for turning normalized PowerPoint geometry paths into tldraw points
+ */
+
+export interface PathPoint {
+  x: number
+  y: number
+}
+
+export interface GeometryPathCommand {
+  type: 'M' | 'L' | 'C' | 'Q' | 'Z'
+  x?: number
+  y?: number
+  x1?: number
+  y1?: number
+  x2?: number
+  y2?: number
+}
+
+export interface FlattenedSubpath {
+  points: PathPoint[]
+  closed: boolean
+}
+
+// Number of samples per Bézier segment
+const CURVE_SAMPLES = 12
+
+/**
+ * Flatten path commands (M/L/C/Q/Z in shape-local pixels) into polyline subpaths
+ */
+export function flattenPathCommands(commands: GeometryPathCommand[]): FlattenedSubpath[] {
+  const subpaths: FlattenedSubpath[] = []
+  let current: FlattenedSubpath | null = null
+  let cursor: PathPoint = { x: 0, y: 0 }
+
+  for (const command of commands) {
+    switch (command.type) {
+      case 'M':
+        cursor = { x: command.x ?? 0, y: command.y ?? 0 }
+        current = { points: [cursor], closed: false }
+        subpaths.push(current)
+        break
+      case 'L':
+        if (!current) break
+        cursor = { x: command.x ?? 0, y: command.y ?? 0 }
+        current.points.push(cursor)
+        break
+      case 'C': {
+        if (!current) break
+        const start = cursor
+        const c1 = { x: command.x1 ?? 0, y: command.y1 ?? 0 }
+        const c2 = { x: command.x2 ?? 0, y: command.y2 ?? 0 }
+        const end = { x: command.x ?? 0, y: command.y ?? 0 }
+        for (let i = 1; i <= CURVE_SAMPLES; i++) {
+          const t = i / CURVE_SAMPLES
+          const mt = 1 - t
+          current.points.push({
+            x: mt * mt * mt * start.x + 3 * mt * mt * t * c1.x + 3 * mt * t * t * c2.x + t * t * t * end.x,
+            y: mt * mt * mt * start.y + 3 * mt * mt * t * c1.y + 3 * mt * t * t * c2.y + t * t * t * end.y,
+          })
+        }
+        cursor = end
+        break
+      }
+      case 'Q': {
+        if (!current) break
+        const start = cursor
+        const control = { x: command.x1 ?? 0, y: command.y1 ?? 0 }
+        const end = { x: command.x ?? 0, y: command.y ?? 0 }
+        for (let i = 1; i <= CURVE_SAMPLES; i++) {
+          const t = i / CURVE_SAMPLES
+          const mt = 1 - t
+          current.points.push({
+            x: mt * mt * start.x + 2 * mt * t * control.x + t * t * end.x,
+            y: mt * mt * start.y + 2 * mt * t * control.y + t * t * end.y,
+          })
+        }
+        cursor = end
+        break
+      }
+      case 'Z':
+        if (!current) break
+        current.closed = true
+        current.points.push(current.points[0])
+        cursor = current.points[0]
+        break
+    }
+  }
+
+  return subpaths.filter(subpath => subpath.points.length > 1)
+}
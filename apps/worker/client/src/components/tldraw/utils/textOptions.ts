@@ -3,15 +3,20 @@ import FontFamily from '@tiptap/extension-font-family'
 import { TextStyle } from '@tiptap/extension-text-style'
 import { Color } from '@tiptap/extension-color'
 import { FontSize } from '../extensions/FontSizeExtension'
+import { ParagraphFormat } from '../extensions/ParagraphFormatExtension'
+import { ListFormat } from '../extensions/ListFormatExtension'
+import { Underline, Superscript, Subscript, CharacterFormat } from '../extensions/CharacterFormatExtension'
+import { Field } from '../extensions/FieldExtension'
 import { 
   TableExtension, 
   TableRowExtension, 
   TableCellExtension, 
   TableHeaderExtension,
-  TableTabHandler
+  TableTabHandler,
+  TableFormat
 } from '../extensions/TableExtension'
 
-// Text options configuration to support FontSize, TextStyle marks, and Tables
+// Text options configuration to support FontSize, TextStyle marks, character/paragraph/list formatting, fields and Tables
 export const textOptions: Partial<TLTextOptions> = {
   tipTapConfig: {
     extensions: [
@@ -19,12 +24,20 @@ export const textOptions: Partial<TLTextOptions> = {
       ...tipTapDefaultExtensions, 
       FontFamily, 
       FontSize, 
+      ParagraphFormat,
+      ListFormat,
+      Underline,
+      Superscript,
+      Subscript,
+      CharacterFormat,
+      Field,
       TextStyle,
       Color,       
       TableExtension,
       TableRowExtension,
       TableCellExtension,
-      TableHeaderExtension
+      TableHeaderExtension,
+      TableFormat
     ],
   },
   addFontsFromNode(node, state, addFont) {
@@ -38,6 +38,15 @@ export function mapFontSize(fontSize: number | undefined): TLDrawSize | undefine
   return 'xl'                           // Extra large text (≥24pt)
 }
 
+/**
+ * Maps PowerPoint paragraph alignment to TLDraw text alignment
+ */
+export function mapTextAlign(textAlign: string | undefined): 'start' | 'middle' | 'end' {
+  if (textAlign === 'center') return 'middle'
+  if (textAlign === 'right') return 'end'
+  return 'start'
+}
+
 /**
  * Maps PowerPoint shape types to TLDraw geo types
  */
@@ -89,6 +98,124 @@ export function hasRichTextFontSize(richTextData: any): boolean {
   return checkContent(richTextData.content)
 }
 
+/**
+ * Maps a PowerPoint text body anchor (a:bodyPr anchor) to TLDraw vertical alignment
+ */
+export function mapVerticalAnchor(anchor: string | undefined): 'start' | 'middle' | 'end' {
+  if (anchor === 'middle') return 'middle'
+  if (anchor === 'bottom') return 'end'
+  return 'start'
+}
+
+/**
+ * Text alignment of the first paragraph of a rich text document
+ */
+export function getRichTextAlign(richTextData: any): string | undefined {
+  let node = richTextData?.content?.[0]
+  // Lists hold their paragraphs inside list items
+  while (node && node.type !== 'paragraph') {
+    node = node.content?.[0]
+  }
+  return node?.attrs?.textAlign
+}
+
+/**
+ * Scales textStyle font sizes and paragraph line heights for shrink-on-overflow autofit (a:normAutofit)
+ */
+export function applyAutofit(node: any, fontScale: number, lineSpacingReduction: number): any {
+  const scaled: any = { ...node }
+  
+  if (node.type === 'paragraph' && lineSpacingReduction) {
+    // Unitless line heights scale directly; absolute ones (pt) are left alone
+    const lineHeight = node.attrs?.lineHeight
+    const base = lineHeight === undefined ? 1.2 : Number(lineHeight)
+    if (!Number.isNaN(base)) {
+      scaled.attrs = { ...node.attrs, lineHeight: String(Math.round(base * (1 - lineSpacingReduction) * 100) / 100) }
+    }
+  }
+  
+  if (node.marks && fontScale !== 1) {
+    scaled.marks = node.marks.map((mark: any) => {
+      const size = mark.type === 'textStyle' ? parseFloat(mark.attrs?.fontSize) : NaN
+      if (Number.isNaN(size)) return mark
+      return { ...mark, attrs: { ...mark.attrs, fontSize: `${Math.round(size * fontScale * 10) / 10}pt` } }
+    })
+  }
+  
+  if (Array.isArray(node.content)) {
+    scaled.content = node.content.map((child: any) => applyAutofit(child, fontScale, lineSpacingReduction))
+  }
+  return scaled
+}
+
+/**
+ * Rich text of a component with its autofit scaling applied
+ */
+export function getAutofitRichText(component: { richText?: any; bodyProperties?: { autofit: { type: string; fontScale?: number; lineSpacingReduction?: number } } }): any {
+  const autofit = component.bodyProperties?.autofit
+  const fontScale = autofit?.type === 'normal' ? autofit.fontScale ?? 1 : 1
+  const lineSpacingReduction = autofit?.type === 'normal' ? autofit.lineSpacingReduction ?? 0 : 0
+  if (!component.richText || (fontScale === 1 && lineSpacingReduction === 0)) return component.richText
+  return applyAutofit(component.richText, fontScale, lineSpacingReduction)
+}
+
+/**
+ * Applies a text component's language to its paragraphs, so the browser picks
+ * locale-specific glyphs and line breaking
+ */
+export function applyLanguage(node: any, lang: string | undefined): any {
+  if (!node || !lang) return node
+  
+  if (node.type === 'paragraph') {
+    return node.attrs?.lang ? node : { ...node, attrs: { ...node.attrs, lang } }
+  }
+  
+  if (Array.isArray(node.content)) {
+    return { ...node, content: node.content.map((child: any) => applyLanguage(child, lang)) }
+  }
+  return node
+}
+
+// PowerPoint date/time field formats (a:fld type datetime1..datetime13), US English
+const twoDigitYear = (date: Date) => String(date.getFullYear()).slice(-2)
+const DATE_FIELD_FORMATS: Record<string, (date: Date) => string> = {
+  datetime: (date) => date.toLocaleDateString('en-US'),
+  datetime1: (date) => date.toLocaleDateString('en-US'),
+  datetime2: (date) => date.toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' }),
+  datetime3: (date) => date.toLocaleDateString('en-GB', { day: 'numeric', month: 'long', year: 'numeric' }),
+  datetime4: (date) => date.toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' }),
+  datetime5: (date) => `${date.getDate()}-${date.toLocaleDateString('en-US', { month: 'short' })}-${twoDigitYear(date)}`,
+  datetime6: (date) => `${date.toLocaleDateString('en-US', { month: 'long' })} ${twoDigitYear(date)}`,
+  datetime7: (date) => `${date.toLocaleDateString('en-US', { month: 'short' })}-${twoDigitYear(date)}`,
+  datetime8: (date) => `${date.toLocaleDateString('en-US')} ${date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })}`,
+  datetime9: (date) => `${date.toLocaleDateString('en-US')} ${date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', second: '2-digit' })}`,
+  datetime10: (date) => date.toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit' }),
+  datetime11: (date) => date.toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit', second: '2-digit' }),
+  datetime12: (date) => date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' }),
+  datetime13: (date) => date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', second: '2-digit' }),
+}
+
+/**
+ * Re-evaluates PowerPoint field runs (field marks) for the document they're pasted into:
+ * slide numbers take the target slide's number and dates the current date. Other fields
+ * keep the text PowerPoint cached.
+ */
+export function evaluateFields(node: any, slideNumber: number, date: Date = new Date()): any {
+  if (!node) return node
+  
+  if (node.type === 'text') {
+    const fieldType = node.marks?.find((mark: any) => mark.type === 'field')?.attrs?.fieldType
+    if (fieldType === 'slidenum') return { ...node, text: String(slideNumber) }
+    if (fieldType && DATE_FIELD_FORMATS[fieldType]) return { ...node, text: DATE_FIELD_FORMATS[fieldType](date) }
+    return node
+  }
+  
+  if (Array.isArray(node.content)) {
+    return { ...node, content: node.content.map((child: any) => evaluateFields(child, slideNumber, date)) }
+  }
+  return node
+}
+
 /**
  * Determines the appropriate fill type for a shape based on background color and opacity
  */
@@ -7,7 +7,7 @@ export interface ClipboardData {
 
 export interface PowerPointComponent {
   id: string;
-  type: 'text' | 'image' | 'shape' | 'table' | 'video' | 'unknown';
+  type: 'text' | 'image' | 'shape' | 'table' | 'video' | 'group' | 'connector' | 'unknown';
   content: string;
   x: number;
   y: number;
@@ -18,11 +18,96 @@ export interface PowerPointComponent {
   metadata?: any;
   slideIndex?: number;
   zIndex?: number;
+  // Click action (a:hlinkClick on the shape)
+  link?: {
+    url?: string;
+    slideNumber?: number; // 1-based show position of the target slide
+    jump?: string;
+    tooltip?: string;
+  };
+  // cNvPr id, unique within its slide; connectors bind to it
+  drawingId?: string;
+  // Text properties (text components and shape labels)
+  richText?: any;
+  bodyProperties?: {
+    verticalAnchor: 'top' | 'middle' | 'bottom';
+    anchorCenter: boolean;
+    insets: { left: number; top: number; right: number; bottom: number };
+    wrap: boolean;
+    columns: number;
+    columnSpacing: number;
+    vertical: string;
+    autofit: {
+      type: 'none' | 'normal' | 'shape';
+      fontScale?: number;
+      lineSpacingReduction?: number;
+    };
+  };
+  // Primary language of the text (e.g. ja-JP); runs in other languages carry their own
+  lang?: string;
+  // Table properties (server-parsed tables); sizes in pixels
+  rows?: Array<{
+    height?: number;
+    cells: Array<{
+      content: string;
+      colSpan?: number;
+      rowSpan?: number;
+      merged?: boolean;
+      richText?: any;
+      style?: { fillColor?: string; fillOpacity?: number };
+      verticalAnchor?: 'top' | 'middle' | 'bottom';
+    }>;
+  }>;
+  columnWidths?: number[];
+  // Image properties: crop insets and fill mode, as fractions of the source image / frame
+  cropping?: { left: number; top: number; right: number; bottom: number; isCropped: boolean };
+  fillMode?: 'stretch' | 'tile';
+  fillRect?: { left: number; top: number; right: number; bottom: number };
+  tile?: {
+    offsetX: number;
+    offsetY: number;
+    scaleX: number;
+    scaleY: number;
+    flip: 'none' | 'x' | 'y' | 'xy';
+    align: string;
+  };
+  // Picture color effects in the order they apply (already rendered into the image
+  // when metadata.effectsApplied), and Office 2010 artistic effects
+  effects?: {
+    colorEffects: Array<{ type: 'alphaModFix' | 'grayscale' | 'biLevel' | 'luminance' | 'duotone' | 'colorChange'; [key: string]: any }>;
+    artisticEffects: Array<{ name: string; params: Record<string, number> }>;
+  };
   // Video-specific properties
   url?: string;
   thumbnailSrc?: string;
   title?: string;
   embedType?: 'youtube' | 'vimeo' | 'generic';
+  // Shape-specific properties
+  shapeType?: string;
+  geometry?: {
+    type: string;
+    preset: string | null;
+    isCustom: boolean;
+    paths?: Array<{
+      width: number;
+      height: number;
+      fill: string;
+      stroke: boolean;
+      closed: boolean;
+      commands: Array<{ type: 'M' | 'L' | 'C' | 'Q' | 'Z'; x?: number; y?: number; x1?: number; y1?: number; x2?: number; y2?: number }>;
+      d: string;
+    }>;
+  } | null;
+  // Group-specific properties
+  children?: PowerPointComponent[];
+  // Connector-specific properties
+  connectorType?: string;
+  start?: { x: number; y: number };
+  end?: { x: number; y: number };
+  startArrowhead?: { type: string; width: string; length: string };
+  endArrowhead?: { type: string; width: string; length: string };
+  startConnection?: { drawingId: string; siteIndex: number } | null;
+  endConnection?: { drawingId: string; siteIndex: number } | null;
 }
 
 export interface PowerPointSlide {
@@ -8,6 +8,7 @@ import { dirname, join } from 'path';
 import { PPTXParser } from '../src/processors/PPTXParser.js';
 import { PowerPointNormalizer } from '../src/parsers/PowerPointNormalizer.js';
 import { ImageParser } from '../src/parsers/ImageParser.js';
+import { createParseContext } from '../src/parsers/ParseContext.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -62,11 +63,14 @@ async function debugImageParsing() {
         console.log('\n🔄 Attempting to parse image...');
         try {
           const parsedImage = await ImageParser.parseFromNormalized(
-            imageComponent, 
-            normalized.relationships, 
-            normalized.mediaFiles, 
-            0, 
-            0
+            imageComponent,
+            0,
+            0,
+            0,
+            createParseContext({
+              relationships: normalized.relationships,
+              mediaFiles: normalized.mediaFiles
+            })
           );
           
           console.log('✅ Image parsed successfully:');
@@ -115,11 +119,14 @@ async function debugImageParsing() {
         console.log('\n🔄 Attempting to parse PPTX image...');
         try {
           const parsedImage = await ImageParser.parseFromNormalized(
-            imageComponent, 
-            normalized.relationships, 
-            normalized.mediaFiles, 
-            0, 
-            0
+            imageComponent,
+            0,
+            0,
+            0,
+            createParseContext({
+              relationships: normalized.relationships,
+              mediaFiles: normalized.mediaFiles
+            })
           );
           
           console.log('✅ PPTX Image parsed successfully:');
@@ -13,4 +13,6 @@ export { BaseParser } from './parsers/BaseParser.js';
 export { PowerPointParser } from './parsers/PowerPointParser.js';
 export { TextParser } from './parsers/TextParser.js';
 export { ShapeParser } from './parsers/ShapeParser.js';
-export { ImageParser } from './parsers/ImageParser.js';
\ No newline at end of file
+export { ImageParser } from './parsers/ImageParser.js';
+export { createParseContext } from './parsers/ParseContext.js';
+export type { ParseContext } from './parsers/ParseContext.js';
\ No newline at end of file
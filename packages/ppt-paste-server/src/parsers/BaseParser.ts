@@ -7,7 +7,31 @@ import {
   emuToPoints,
   validatePixelRange,
 } from "../utils/constants.js";
-import { ComponentStyle, XMLNode, TextRun } from "../types/index.js";
+import {
+  applyColorTransforms,
+  hslToRgb,
+  parseHexColor,
+  parsePresetColor,
+  readColorTransforms,
+  rgbaToHex,
+} from "../utils/colorTransforms.js";
+import {
+  detectTextScript,
+  getLanguageScript,
+  selectLanguageForScript,
+} from "../utils/textScript.js";
+import {
+  ComponentStyle,
+  XMLNode,
+  TextRun,
+  RGBAColor,
+  RelativeRect,
+  HyperlinkInfo,
+  TextBodyProperties,
+  PictureFillInfo,
+  PictureTileInfo,
+} from "../types/index.js";
+import { DEFAULT_COLOR_MAP, type ParseContext } from "./ParseContext.js";
 
 // Worker-compatible utility functions
 export function isBufferLike(obj: any): boolean {
@@ -53,25 +77,23 @@ export interface TransformInfo {
   rotation: number;
 }
 
-export class BaseParser {
-  // Static theme colors - set once per document parsing session
-  private static currentThemeColors: Record<string, string> | undefined;
+// a:bodyPr anchor -> vertical anchor
+const VERTICAL_ANCHOR_MAP: Record<string, TextBodyProperties["verticalAnchor"]> = {
+  t: "top",
+  ctr: "middle",
+  b: "bottom",
+  just: "top",
+  dist: "top",
+};
 
-  /**
-   * Set the current theme colors for this parsing session
-   * @param themeColors - Theme colors from extracted theme data
-   */
-  static setThemeColors(themeColors: Record<string, string> | undefined) {
-    this.currentThemeColors = themeColors;
-  }
+// Link URLs that may be opened from pasted content; javascript:, data:, file:
+// and other schemes are dropped
+const SAFE_LINK_URL = /^(https?|mailto):/i;
 
-  /**
-   * Clear theme colors (call after parsing session)
-   */
-  static clearThemeColors() {
-    this.currentThemeColors = undefined;
-  }
+// a:bodyPr inset defaults in EMU (0.1" left/right, 0.05" top/bottom)
+const DEFAULT_BODY_INSETS = { lIns: 91440, tIns: 45720, rIns: 91440, bIns: 45720 };
 
+export class BaseParser {
   /**
    * Convert PowerPoint font size units to points
    * PowerPoint uses hundreds of a point (1 point = 100 units)
@@ -86,55 +108,119 @@ export class BaseParser {
   /**
    * Parse color from PowerPoint color definition
    * @param colorDef - Color definition from PowerPoint XML
-   * @returns hex color (#rrggbb)
+   * @param context - Parse context supplying the theme and color map
+   * @returns hex color (#rrggbb), with color transforms applied and alpha dropped
    */
-  static parseColor(colorDef: XMLNode | null | undefined): string {
-    if (!colorDef) return "#000000";
+  static parseColor(colorDef: XMLNode | null | undefined, context?: ParseContext): string {
+    return rgbaToHex(this.parseColorRGBA(colorDef, context));
+  }
 
-    // Direct RGB color
-    if (colorDef["srgbClr"]) {
-      const val = colorDef["srgbClr"].$val;
-      if (val) return `#${val}`;
-    }
+  /**
+   * Parse color from PowerPoint color definition, including alpha
+   * Child transforms (lumMod, tint, alpha, ...) are applied to the base color.
+   * @param colorDef - Color definition from PowerPoint XML (e.g. a solidFill)
+   * @param context - Parse context supplying the theme and color map
+   * @returns resolved color
+   */
+  static parseColorRGBA(colorDef: XMLNode | null | undefined, context?: ParseContext): RGBAColor {
+    const black: RGBAColor = { r: 0, g: 0, b: 0, a: 1 };
+    if (!colorDef) return black;
+
+    for (const type of ["srgbClr", "scrgbClr", "hslClr", "sysClr", "schemeClr", "prstClr"]) {
+      const colorNode = colorDef[type];
+      if (!colorNode) continue;
 
-    // System color
-    if (colorDef["sysClr"]) {
-      const lastClr = colorDef["sysClr"].$lastClr;
-      if (lastClr) return `#${lastClr}`;
+      const base = this.resolveBaseColor(type, colorNode, context);
+      if (!base) return black;
+      return applyColorTransforms(base, readColorTransforms(colorNode));
     }
 
-    // Scheme color (theme colors) - use static theme colors if available, fallback to defaults
-    if (colorDef["schemeClr"]) {
-      const val = colorDef["schemeClr"].$val;
-      
-      // Try to use static theme colors if set
-      if (this.currentThemeColors && this.currentThemeColors[val]) {
-        return this.currentThemeColors[val];
+    return black;
+  }
+
+  /**
+   * Resolve the untransformed color of a color element
+   * @param type - Color element name
+   * @param colorNode - Color element node
+   * @param context - Parse context supplying the theme and color map
+   * @returns base color, or null when it can't be resolved
+   */
+  private static resolveBaseColor(type: string, colorNode: XMLNode, context?: ParseContext): RGBAColor | null {
+    switch (type) {
+      // Direct RGB color
+      case "srgbClr":
+        return parseHexColor(colorNode.$val);
+
+      // Linear RGB percentages
+      case "scrgbClr": {
+        const toChannel = (value: any) => {
+          const linear = Math.min(1, Math.max(0, Number(value || 0) / 100000));
+          const srgb = linear <= 0.0031308 ? linear * 12.92 : 1.055 * Math.pow(linear, 1 / 2.4) - 0.055;
+          return Math.round(srgb * 255);
+        };
+        return { r: toChannel(colorNode.$r), g: toChannel(colorNode.$g), b: toChannel(colorNode.$b), a: 1 };
+      }
+
+      // Hue (60000ths of a degree), saturation and luminance percentages
+      case "hslClr": {
+        const hue = Number(colorNode.$hue || 0) / 60000;
+        const toFraction = (value: any) => Math.min(1, Math.max(0, Number(value || 0) / 100000));
+        const { r, g, b } = hslToRgb(((hue % 360) + 360) % 360, toFraction(colorNode.$sat), toFraction(colorNode.$lum));
+        return { r: Math.round(r * 255), g: Math.round(g * 255), b: Math.round(b * 255), a: 1 };
+      }
+
+      // System color
+      case "sysClr": {
+        const systemColors: Record<string, string> = {
+          windowText: "000000",
+          window: "FFFFFF",
+          btnText: "000000",
+          btnFace: "F0F0F0",
+        };
+        return parseHexColor(colorNode.$lastClr) || parseHexColor(systemColors[colorNode.$val]);
+      }
+
+      // Preset (named) color
+      case "prstClr":
+        return parsePresetColor(colorNode.$val);
+
+      // Scheme color (theme colors) - map through the color map, then use the
+      // document theme if available, fallback to defaults
+      case "schemeClr": {
+        const val = colorNode.$val;
+        const colorMap = context?.colorMap ?? DEFAULT_COLOR_MAP;
+        const mapped = colorMap[val] ?? val;
+
+        const themeColors = context?.theme?.colors;
+        const themeColor = themeColors?.[mapped] || themeColors?.[val];
+        if (themeColor) {
+          return parseHexColor(themeColor);
+        }
+
+        // Fallback to static defaults if no theme data available
+        const defaultSchemeColors: Record<string, string> = {
+          dk1: "#000000", // Dark 1
+          lt1: "#FFFFFF", // Light 1
+          dk2: "#44546A", // Dark 2
+          lt2: "#E7E6E6", // Light 2
+          tx1: "#000000", // Text 1 (same as dk1)
+          tx2: "#44546A", // Text 2 (same as dk2)
+          bg1: "#FFFFFF", // Background 1 (same as lt1)
+          bg2: "#E7E6E6", // Background 2 (same as lt2)
+          accent1: "#4472C4", // Accent 1
+          accent2: "#E7686B", // Accent 2
+          accent3: "#A5A5A5", // Accent 3
+          accent4: "#FFC000", // Accent 4
+          accent5: "#5B9BD5", // Accent 5
+          accent6: "#70AD47", // Accent 6
+          hlink: "#0563C1", // Hyperlink
+          folHlink: "#954F72", // Followed hyperlink
+        };
+        return parseHexColor(defaultSchemeColors[mapped] || defaultSchemeColors[val] || "#000000");
       }
-      
-      // Fallback to static defaults if no theme data available
-      const defaultSchemeColors: Record<string, string> = {
-        dk1: "#000000", // Dark 1
-        lt1: "#FFFFFF", // Light 1
-        dk2: "#44546A", // Dark 2
-        lt2: "#E7E6E6", // Light 2
-        tx1: "#000000", // Text 1 (same as dk1)
-        tx2: "#44546A", // Text 2 (same as dk2)
-        bg1: "#FFFFFF", // Background 1 (same as lt1)
-        bg2: "#E7E6E6", // Background 2 (same as lt2)
-        accent1: "#4472C4", // Accent 1
-        accent2: "#E7686B", // Accent 2
-        accent3: "#A5A5A5", // Accent 3
-        accent4: "#FFC000", // Accent 4
-        accent5: "#5B9BD5", // Accent 5
-        accent6: "#70AD47", // Accent 6
-        hlink: "#0563C1", // Hyperlink
-        folHlink: "#954F72", // Followed hyperlink
-      };
-      return defaultSchemeColors[val] || "#000000";
     }
 
-    return "#000000";
+    return null;
   }
 
   /**
@@ -192,6 +278,176 @@ export class BaseParser {
     return result;
   }
 
+  /**
+   * Parse a rectangle given as insets from each edge (fillToRect, srcRect, fillRect)
+   * @param rect - Node with l/t/r/b attributes in 1000ths of a percent
+   * @returns insets as fractions of the size, or null if the node is missing
+   */
+  static parseRelativeRect(rect: XMLNode | null | undefined): RelativeRect | null {
+    if (!rect || !this.isXMLNode(rect)) return null;
+    return {
+      left: this.getNumber(rect, "$l", 0) / 100000,
+      top: this.getNumber(rect, "$t", 0) / 100000,
+      right: this.getNumber(rect, "$r", 0) / 100000,
+      bottom: this.getNumber(rect, "$b", 0) / 100000,
+    };
+  }
+
+  /**
+   * Parse how a blip fills its frame: stretched into the fillRect, or tiled
+   * @param blipFill - Blip fill properties (pictures and picture fills)
+   * @returns fill mode with the srcRect, fillRect and tile settings that apply
+   */
+  static parseBlipFillMode(
+    blipFill: XMLNode | null | undefined,
+  ): Pick<PictureFillInfo, "mode" | "srcRect" | "fillRect" | "tile"> {
+    // An attribute-less <a:tile/> parses to an empty string rather than a node
+    const isTiled = this.safeGet(blipFill, "tile") !== null;
+    const fillMode: Pick<PictureFillInfo, "mode" | "srcRect" | "fillRect" | "tile"> = {
+      mode: isTiled ? "tile" : "stretch",
+    };
+
+    const srcRect = this.parseRelativeRect(this.getNode(blipFill, "srcRect"));
+    if (srcRect) {
+      fillMode.srcRect = srcRect;
+    }
+
+    const fillRect = this.parseRelativeRect(this.getNode(blipFill, "stretch.fillRect"));
+    if (!isTiled && fillRect) {
+      fillMode.fillRect = fillRect;
+    }
+
+    if (isTiled) {
+      const tile = this.getNode(blipFill, "tile");
+      fillMode.tile = {
+        offsetX: emuToPixels(this.getNumber(tile, "$tx", 0)),
+        offsetY: emuToPixels(this.getNumber(tile, "$ty", 0)),
+        scaleX: this.getNumber(tile, "$sx", 100000) / 100000,
+        scaleY: this.getNumber(tile, "$sy", 100000) / 100000,
+        flip: this.getString(tile, "$flip", "none") as PictureTileInfo["flip"],
+        align: this.getString(tile, "$algn", "tl"),
+      };
+    }
+
+    return fillMode;
+  }
+
+  /**
+   * Resolve a hyperlink (a:hlinkClick) to its click action
+   * @param hlink - hlinkClick node, from a run's rPr or a shape's cNvPr
+   * @param slideIndex - Slide index, selecting the relationship file the r:id belongs to
+   * @param context - Parse context supplying the relationships
+   * @returns Hyperlink info, or null when the link does nothing we can follow
+   */
+  static parseHyperlink(
+    hlink: XMLNode | null | undefined,
+    slideIndex: number,
+    context?: ParseContext,
+  ): HyperlinkInfo | null {
+    if (!hlink || !this.isXMLNode(hlink)) return null;
+
+    const action = this.getString(hlink, "$action", "");
+    const link: HyperlinkInfo = {};
+
+    if (action.startsWith("ppaction://hlinkshowjump")) {
+      // Relative jumps carry their target in the action itself, e.g. ?jump=nextslide
+      const jump = /[?&]jump=([^&]+)/.exec(action)?.[1];
+      if (!jump) return null;
+      link.jump = jump;
+    } else {
+      // Namespaces are stripped, so r:id is read as "id"
+      const target = this.findRelationshipTarget(this.getString(hlink, "id", ""), slideIndex, context);
+      if (!target) return null;
+
+      if (action.startsWith("ppaction://hlinksldjump")) {
+        // The file name's number isn't the slide's place in the show, so look it up in sldIdLst;
+        // slides left out of the presentation (or the paste) can't be jumped to
+        const slideNumber = context?.slideNumbers[`ppt/slides/${target.split("/").pop()}`];
+        if (!slideNumber) return null;
+        link.slideNumber = slideNumber;
+      } else if (!action) {
+        if (!SAFE_LINK_URL.test(target)) return null;
+        link.url = target;
+      } else {
+        // Macros, programs and OLE verbs can't be run from a paste
+        return null;
+      }
+    }
+
+    const tooltip = this.getString(hlink, "$tooltip", "");
+    if (tooltip) link.tooltip = tooltip;
+    return link;
+  }
+
+  /**
+   * Find the target of a relationship id in the relationships of the part being
+   * parsed (slide, layout or master) or the clipboard drawing
+   * @param rId - Relationship id
+   * @param slideIndex - Slide index, for the slide's relationships when the context names no part
+   * @param context - Parse context supplying the relationships
+   * @returns Relationship target, or null if not found
+   */
+  static findRelationshipTarget(rId: string, slideIndex: number, context?: ParseContext): string | null {
+    if (!rId || !context) return null;
+
+    const relationships: Record<string, any> = context.relationships;
+    const relFiles = [
+      context.partRelationshipsFile ?? `ppt/slides/_rels/slide${slideIndex + 1}.xml.rels`,
+      ...Object.keys(relationships).filter((key) => key.includes("clipboard/") && key.includes("_rels")),
+    ];
+
+    for (const relFile of relFiles) {
+      const rels = this.getArray(relationships[relFile], "Relationships.Relationship");
+      const rel = rels.find((r: any) => this.asString(r?.$Id, "") === rId);
+      if (rel) {
+        return this.asString(rel.$Target, "") || null;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Parse text body layout (a:bodyPr), falling back attribute by attribute to inherited bodyPr nodes
+   * @param bodyPrs - bodyPr nodes in priority order: the shape's own, then layout and master placeholders
+   * @returns Text body properties, with the schema defaults for anything unset
+   */
+  static parseBodyProperties(bodyPrs: Array<XMLNode | null | undefined>): TextBodyProperties {
+    const nodes = bodyPrs.filter((node): node is XMLNode => this.isXMLNode(node));
+    // The first node setting an attribute decides it
+    const owner = (name: string): XMLNode | null => nodes.find((node) => node[`$${name}`] !== undefined) ?? null;
+    const inset = (name: keyof typeof DEFAULT_BODY_INSETS): number =>
+      emuToPixels(this.getNumber(owner(name), `$${name}`, DEFAULT_BODY_INSETS[name]));
+
+    // normAutofit, spAutoFit and noAutofit are a choice; the most specific one present wins
+    const autofitNode = nodes.find((node) => ["normAutofit", "spAutoFit", "noAutofit"].some((key) => key in node));
+    const autofit: TextBodyProperties["autofit"] = { type: "none" };
+    if (autofitNode && "normAutofit" in autofitNode) {
+      autofit.type = "normal";
+      const fontScale = this.getNumber(autofitNode, "normAutofit.$fontScale", 100000);
+      const reduction = this.getNumber(autofitNode, "normAutofit.$lnSpcReduction", 0);
+      if (fontScale !== 100000) autofit.fontScale = fontScale / 100000;
+      if (reduction !== 0) autofit.lineSpacingReduction = reduction / 100000;
+    } else if (autofitNode && "spAutoFit" in autofitNode) {
+      autofit.type = "shape";
+    }
+
+    return {
+      verticalAnchor: VERTICAL_ANCHOR_MAP[this.getString(owner("anchor"), "$anchor", "t")] ?? "top",
+      anchorCenter: this.getBoolean(owner("anchorCtr"), "$anchorCtr", false),
+      insets: {
+        left: inset("lIns"),
+        top: inset("tIns"),
+        right: inset("rIns"),
+        bottom: inset("bIns"),
+      },
+      wrap: this.getString(owner("wrap"), "$wrap", "square") !== "none",
+      columns: Math.max(1, this.getNumber(owner("numCol"), "$numCol", 1)),
+      columnSpacing: emuToPixels(this.getNumber(owner("spcCol"), "$spcCol", 0)),
+      vertical: this.getString(owner("vert"), "$vert", "horz") as TextBodyProperties["vertical"],
+      autofit,
+    };
+  }
+
   /**
    * Check if paragraph properties indicate bullet formatting
    * @param pPr - Paragraph properties from PowerPoint XML
@@ -278,11 +534,13 @@ export class BaseParser {
   /**
    * Extract font information from text run properties
    * @param rPr - Run properties from PowerPoint
+   * @param context - Parse context used to resolve theme colors
    * @returns font information
    */
-  static parseFont(rPr: XMLNode | null | undefined): FontInfo {
+  static parseFont(rPr: XMLNode | null | undefined, context?: ParseContext): FontInfo {
     const font: FontInfo = {
-      family: "Arial",
+      // Runs without a typeface use the theme's body font
+      family: this.resolveTypeface("+mn-lt", context) || "Arial",
       size: 12,
       weight: "normal",
       style: "normal",
@@ -301,7 +559,7 @@ export class BaseParser {
 
     // Font family
     if (rPr["latin"]) {
-      font.family = rPr["latin"].$typeface || font.family;
+      font.family = this.resolveTypeface(rPr["latin"].$typeface, context) || font.family;
     }
 
     // Font size (in hundreds of a point)
@@ -329,6 +587,7 @@ export class BaseParser {
 
     // Strike-through
     if (rPr.$strike && rPr.$strike !== "noStrike") {
+      font.decoration = font.isUnderline ? "underline line-through" : "line-through";
       font.isStrikethrough = true;
     }
 
@@ -344,12 +603,55 @@ export class BaseParser {
 
     // Color
     if (rPr["solidFill"]) {
-      font.color = this.parseColor(rPr["solidFill"]);
+      font.color = this.parseColor(rPr["solidFill"], context);
     }
 
     return font;
   }
 
+  /**
+   * Resolve a typeface, following theme font references
+   * (+mj-lt / +mn-lt for the major/minor latin font, -ea east-asian, -cs complex-script)
+   * @param typeface - Typeface attribute value
+   * @param context - Parse context supplying the theme font scheme
+   * @param lang - Run language, choosing the theme's supplemental font when its ea / cs font is empty
+   * @returns font name, or null when it can't be resolved
+   */
+  static resolveTypeface(typeface: unknown, context?: ParseContext, lang?: string | null): string | null {
+    if (typeface === undefined || typeface === null || typeface === "") return null;
+
+    const name = String(typeface);
+    const match = /^\+(mj|mn)-(lt|ea|cs)$/.exec(name);
+    if (!match) return name;
+
+    const fonts = match[1] === "mj" ? context?.fontScheme?.major : context?.fontScheme?.minor;
+    const script = match[2] === "lt" ? "latin" : match[2] === "ea" ? "eastAsian" : "complexScript";
+    if (fonts?.[script]) return fonts[script];
+
+    const languageScript = script === "latin" ? null : getLanguageScript(lang);
+    return (languageScript && fonts?.scripts?.[languageScript]) || null;
+  }
+
+  /**
+   * Resolve the typeface a run's text is drawn with: the ea / cs font for East Asian
+   * and complex script text (the theme's when the run names none), else the latin font
+   * @param rPr - Resolved run properties
+   * @param text - Run text
+   * @param context - Parse context supplying the theme font scheme
+   * @returns font name, or null when the run sets none
+   */
+  static resolveRunTypeface(rPr: XMLNode | null | undefined, text: string, context?: ParseContext): string | null {
+    const script = detectTextScript(text);
+    if (script !== "latin") {
+      const slot = script === "eastAsian" ? "ea" : "cs";
+      const lang = selectLanguageForScript(script, [this.safeGet(rPr, "$lang"), this.safeGet(rPr, "$altLang")]);
+      const typeface = this.safeGet(rPr, `${slot}.$typeface`) || `+mn-${slot}`;
+      const resolved = this.resolveTypeface(typeface, context, lang);
+      if (resolved) return resolved;
+    }
+    return this.resolveTypeface(this.safeGet(rPr, "latin.$typeface"), context);
+  }
+
   /**
    * Generate unique component ID
    * @param type - Component type
@@ -544,4 +846,13 @@ export class BaseParser {
     }
     return fallback;
   }
+
+  /**
+   * Check an OOXML boolean attribute value
+   * @param value - Attribute value ("1", "true", 1, true)
+   * @returns Whether the flag is set
+   */
+  static isFlagSet(value: any): boolean {
+    return value === true || value === 1 || value === '1' || value === 'true';
+  }
 }
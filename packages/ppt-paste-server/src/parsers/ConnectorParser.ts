@@ -0,0 +1,188 @@
+/**
+ * Connector component parser for PowerPoint connectors (cxnSp) and line shapes
+ */
+
+import { BaseParser } from "./BaseParser.js";
+import { ShapeParser } from "./ShapeParser.js";
+import { createParseContext, type ParseContext } from "./ParseContext.js";
+import {
+  XMLNode,
+  ConnectorComponent,
+  ConnectionInfo,
+  LineEndInfo,
+} from "../types/index.js";
+import type {
+  NormalizedConnectorElement,
+  NormalizedConnection,
+} from "../types/normalized.js";
+
+const LINE_END_TYPES: LineEndInfo["type"][] = [
+  "none",
+  "triangle",
+  "stealth",
+  "diamond",
+  "oval",
+  "arrow",
+];
+const LINE_END_SIZES: LineEndInfo["width"][] = ["sm", "med", "lg"];
+
+export class ConnectorParser extends BaseParser {
+  /**
+   * Parse connector component from normalized data
+   * @param connectorComponent - Normalized connector element
+   * @param componentIndex - Component index
+   * @param slideIndex - Slide index
+   * @param zIndex - Z-order index
+   * @param context - Parse context used to resolve theme colors
+   * @returns Parsed connector component
+   */
+  static async parseFromNormalized(
+    connectorComponent: NormalizedConnectorElement,
+    componentIndex: number,
+    slideIndex: number,
+    zIndex: number,
+    context: ParseContext = createParseContext()
+  ): Promise<ConnectorComponent | null> {
+    const { spPr, nvCxnSpPr, namespace, style } = connectorComponent;
+
+    if (!spPr) {
+      throw new Error("No spPr found in normalized connector component");
+    }
+
+    const xfrm = BaseParser.getNode(spPr, "xfrm");
+    const transform = this.parseTransform(xfrm);
+
+    // A connector with no extent in either direction has nothing to draw
+    if (transform.width === 0 && transform.height === 0) return null;
+
+    const { start, end } = this.getEndpoints(xfrm, transform);
+
+    const componentName = BaseParser.getString(
+      nvCxnSpPr,
+      "cNvPr.$name",
+      `connector-${componentIndex}`,
+    );
+    const link = BaseParser.parseHyperlink(BaseParser.getNode(nvCxnSpPr, "cNvPr.hlinkClick"), slideIndex, context);
+    const drawingId = BaseParser.getString(nvCxnSpPr, "cNvPr.$id", "");
+    const connectorType = BaseParser.getString(
+      spPr,
+      "prstGeom.$prst",
+      "straightConnector1",
+    );
+
+    const border = ShapeParser.parseBorder(spPr, style || null, context);
+    const ln = BaseParser.getNode(spPr, "ln");
+
+    return {
+      id: componentName,
+      type: "connector",
+      content: "",
+      x: transform.x,
+      y: transform.y,
+      width: transform.width,
+      height: transform.height,
+      rotation: 0, // Rotation is already applied to the endpoints
+      connectorType,
+      start,
+      end,
+      startArrowhead: this.parseLineEnd(BaseParser.getNode(ln, "headEnd")),
+      endArrowhead: this.parseLineEnd(BaseParser.getNode(ln, "tailEnd")),
+      startConnection: this.toConnectionInfo(connectorComponent.startConnection),
+      endConnection: this.toConnectionInfo(connectorComponent.endConnection),
+      style: {
+        borderColor: border.color,
+        borderWidth: border.width,
+        borderStyle: border.style,
+      },
+      metadata: {
+        namespace,
+        originalElement: connectorComponent.element,
+        connectorType,
+        flipH: this.isFlagSet(xfrm?.$flipH),
+        flipV: this.isFlagSet(xfrm?.$flipV),
+      },
+      slideIndex,
+      zIndex,
+      ...(link && { link }),
+      ...(drawingId && { drawingId }),
+    };
+  }
+
+  /**
+   * Compute the start and end points of a connector in slide coordinates.
+   * The line runs from the top-left to the bottom-right of its bounding box;
+   * flipH/flipV mirror it and rotation turns it around the box centre.
+   * @param xfrm - Connector transform node
+   * @param transform - Parsed transform in pixels
+   * @returns Start and end points
+   */
+  static getEndpoints(
+    xfrm: XMLNode | null,
+    transform: { x: number; y: number; width: number; height: number; rotation: number },
+  ): { start: { x: number; y: number }; end: { x: number; y: number } } {
+    const flipH = this.isFlagSet(xfrm?.$flipH);
+    const flipV = this.isFlagSet(xfrm?.$flipV);
+
+    const left = transform.x;
+    const top = transform.y;
+    const right = transform.x + transform.width;
+    const bottom = transform.y + transform.height;
+
+    let start = { x: flipH ? right : left, y: flipV ? bottom : top };
+    let end = { x: flipH ? left : right, y: flipV ? top : bottom };
+
+    if (transform.rotation) {
+      const centerX = left + transform.width / 2;
+      const centerY = top + transform.height / 2;
+      const radians = (transform.rotation * Math.PI) / 180;
+      const rotate = (point: { x: number; y: number }) => {
+        const dx = point.x - centerX;
+        const dy = point.y - centerY;
+        return {
+          x: Math.round(centerX + dx * Math.cos(radians) - dy * Math.sin(radians)),
+          y: Math.round(centerY + dx * Math.sin(radians) + dy * Math.cos(radians)),
+        };
+      };
+      start = rotate(start);
+      end = rotate(end);
+    }
+
+    return { start, end };
+  }
+
+  /**
+   * Parse a headEnd/tailEnd node
+   * @param lineEnd - a:headEnd or a:tailEnd node
+   * @returns Line end info
+   */
+  static parseLineEnd(lineEnd: XMLNode | null): LineEndInfo {
+    const type = BaseParser.getString(lineEnd, "$type", "none");
+    const width = BaseParser.getString(lineEnd, "$w", "med");
+    const length = BaseParser.getString(lineEnd, "$len", "med");
+
+    return {
+      type: LINE_END_TYPES.includes(type as LineEndInfo["type"])
+        ? (type as LineEndInfo["type"])
+        : "none",
+      width: LINE_END_SIZES.includes(width as LineEndInfo["width"])
+        ? (width as LineEndInfo["width"])
+        : "med",
+      length: LINE_END_SIZES.includes(length as LineEndInfo["length"])
+        ? (length as LineEndInfo["length"])
+        : "med",
+    };
+  }
+
+  /**
+   * Convert a resolved normalized connection to the component binding shape
+   * @param connection - Resolved stCxn/endCxn
+   * @returns Connection info or null when unbound
+   */
+  static toConnectionInfo(
+    connection: NormalizedConnection | null | undefined,
+  ): ConnectionInfo | null {
+    if (!connection) return null;
+    return { drawingId: connection.id, siteIndex: connection.siteIndex };
+  }
+
+}
@@ -0,0 +1,99 @@
+/**
+ * Group component parser for PowerPoint group shapes (grpSp)
+ */
+
+import { BaseParser } from "./BaseParser.js";
+import { createParseContext, type ParseContext } from "./ParseContext.js";
+import { GroupComponent, PowerPointComponent } from "../types/index.js";
+import type { NormalizedGroupElement } from "../types/normalized.js";
+
+export class GroupParser extends BaseParser {
+  /**
+   * Parse group component from normalized data
+   * Children are parsed by the caller (they can be any component type) and
+   * are already positioned in slide coordinates by the normalizer.
+   * @param groupComponent - Normalized group element
+   * @param children - Parsed child components in document order
+   * @param componentIndex - Component index
+   * @param slideIndex - Slide index
+   * @param zIndex - Z-order index
+   * @param context - Parse context (theme, color map, ...)
+   * @returns Parsed group component
+   */
+  static async parseFromNormalized(
+    groupComponent: NormalizedGroupElement,
+    children: PowerPointComponent[],
+    componentIndex: number,
+    slideIndex: number,
+    zIndex: number,
+    context: ParseContext = createParseContext()
+  ): Promise<GroupComponent | null> {
+    const { spPr, nvGrpSpPr, namespace } = groupComponent;
+
+    if (children.length === 0) {
+      return null;
+    }
+
+    // Extract positioning from grpSpPr (already mapped into slide space)
+    const xfrm = BaseParser.getNode(spPr, "xfrm");
+    const transform = xfrm
+      ? this.parseTransform(xfrm)
+      : this.getChildBounds(children);
+
+    const componentName = BaseParser.getString(
+      nvGrpSpPr,
+      "cNvPr.$name",
+      `group-${componentIndex}`,
+    );
+    const link = BaseParser.parseHyperlink(BaseParser.getNode(nvGrpSpPr, "cNvPr.hlinkClick"), slideIndex, context);
+    const drawingId = BaseParser.getString(nvGrpSpPr, "cNvPr.$id", "");
+
+    return {
+      id: componentName,
+      type: "group",
+      content: "",
+      x: transform.x,
+      y: transform.y,
+      width: transform.width,
+      height: transform.height,
+      rotation: transform.rotation,
+      children,
+      style: {},
+      metadata: {
+        namespace,
+        originalElement: "grpSp",
+        childCount: children.length,
+      },
+      slideIndex,
+      zIndex,
+      ...(link && { link }),
+      ...(drawingId && { drawingId }),
+    };
+  }
+
+  /**
+   * Compute the bounding box of child components (used when grpSpPr has no xfrm)
+   * @param children - Parsed child components
+   * @returns Bounds in pixels
+   */
+  static getChildBounds(children: PowerPointComponent[]): {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    rotation: number;
+  } {
+    const minX = Math.min(...children.map((c) => c.x));
+    const minY = Math.min(...children.map((c) => c.y));
+    const maxX = Math.max(...children.map((c) => c.x + c.width));
+    const maxY = Math.max(...children.map((c) => c.y + c.height));
+
+    return {
+      x: minX,
+      y: minY,
+      width: maxX - minX,
+      height: maxY - minY,
+      rotation: 0,
+    };
+  }
+}
@@ -3,6 +3,9 @@
  */
 
 import { BaseParser, isBufferLike, bufferFrom } from "./BaseParser.js";
+import { createParseContext, type ParseContext } from "./ParseContext.js";
+import { ShapeParser } from "./ShapeParser.js";
+import { PPTXParser } from "../processors/PPTXParser.js";
 import {
   XMLNode,
   ImageComponent,
@@ -10,31 +13,52 @@ import {
   ImageInfo,
   ImageDimensions,
   ImageEffectsInfo,
+  ImageEffects,
+  ImageColorEffect,
+  ImageArtisticEffect,
   MediaFileInfo,
   ImageCroppingInfo,
+  RGBAColor,
 } from "../types/index.js";
+import { detectImageMimeType, getImageDimensions } from "../utils/imageProbe.js";
+import { emfToSvg } from "../utils/emfToSvg.js";
+import { wmfToSvg } from "../utils/wmfToSvg.js";
+import { tiffToPng } from "../utils/tiffToPng.js";
+import { renderImageEffects } from "../utils/imageEffects.js";
+
+// Blip color effects the pixel processor renders, in schema order
+const BLIP_COLOR_EFFECTS = ["alphaModFix", "biLevel", "clrChange", "duotone", "grayscl", "lum"];
+
+// Color elements that can appear inside an effect
+const COLOR_ELEMENTS = ["srgbClr", "scrgbClr", "hslClr", "sysClr", "schemeClr", "prstClr"];
+
+// Gray "Image" box shown for pictures that can't be displayed
+const PLACEHOLDER_IMAGE_URL = "data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iMTAwIiBoZWlnaHQ9IjEwMCIgeG1sbnM9Imh0dHA6Ly93d3cudzMub3JnLzIwMDAvc3ZnIj48cmVjdCB3aWR0aD0iMTAwIiBoZWlnaHQ9IjEwMCIgZmlsbD0iI2RkZCIvPjx0ZXh0IHg9IjUwIiB5PSI1NSIgZm9udC1mYW1pbHk9IkFyaWFsIiBmb250LXNpemU9IjEyIiBmaWxsPSIjOTk5IiB0ZXh0LWFuY2hvcj0ibWlkZGxlIj5JbWFnZTwvdGV4dD48L3N2Zz4=";
+
+// Formats browsers can't display; they are served only once converted
+const UNDISPLAYABLE_IMAGE_TYPES = ["emf", "wmf", "tiff"];
 
 export class ImageParser extends BaseParser {
   /**
    * Parse image component from normalized data (works for both PPTX and clipboard)
    * @param imageComponent - Normalized image component
-   * @param relationships - Relationship data
-   * @param mediaFiles - Media files
    * @param componentIndex - Component index
    * @param slideIndex - Slide index
-   * @param r2Storage - Optional R2 storage for image hosting
+   * @param zIndex - Z-order index
+   * @param context - Parse context supplying relationships, media files and R2 storage
    * @returns Parsed image component
    */
   static async parseFromNormalized(
     imageComponent: NormalizedImageComponent,
-    relationships: Record<string, any>,
-    mediaFiles: Record<string, Uint8Array>,
     componentIndex: number,
     slideIndex: number,
     zIndex: number,
-    r2Storage: any = null
+    context: ParseContext = createParseContext()
   ): Promise<ImageComponent | null> {
-    const { data, spPr, nvPicPr, blipFill, namespace } = imageComponent;
+    const { data, spPr, nvPicPr, blipFill, namespace, style } = imageComponent;
+    const relationships: Record<string, any> = context.relationships;
+    const mediaFiles = context.mediaFiles;
+    const r2Storage = context.options.r2Storage;
 
     if (!spPr || !blipFill) {
       throw new Error(
@@ -49,6 +73,8 @@ export class ImageParser extends BaseParser {
     // Extract component info from nvPicPr
     const componentName = BaseParser.getString(nvPicPr, "cNvPr.$name", `image-${componentIndex}`);
     const description = BaseParser.getString(nvPicPr, "cNvPr.$descr", "");
+    const link = BaseParser.parseHyperlink(BaseParser.getNode(nvPicPr, "cNvPr.hlinkClick"), slideIndex, context);
+    const drawingId = BaseParser.getString(nvPicPr, "cNvPr.$id", "");
 
     // Extract image reference from blipFill (namespaces already stripped)
     const relationshipId = BaseParser.getString(blipFill, "blip.embed", "");
@@ -57,6 +83,12 @@ export class ImageParser extends BaseParser {
     let imageDataUrl: string | null = null;
     let imageFormat = "unknown";
     let imageSize = 0;
+    let imageDimensions: ImageDimensions | null = null;
+    let effectsApplied = false;
+
+    // Color effects are baked into a re-rendered copy of the image
+    const blipEffects = ImageParser.parseBlipEffects(blipFill, context);
+    const hasBlipEffects = blipEffects.colorEffects.length > 0 || blipEffects.artisticEffects.length > 0;
 
     if (relationshipId && relationships && mediaFiles) {
       // Use the more complete getImageInfo method with slide context
@@ -66,16 +98,29 @@ export class ImageParser extends BaseParser {
         mediaFiles,
         slideIndex,
         r2Storage,
+        blipEffects.colorEffects,
       );
       if (imageInfo.url) {
         imageDataUrl = imageInfo.url;
         imageFormat = imageInfo.type;
         imageSize = imageInfo.size;
+        imageDimensions = imageInfo.dimensions;
+        effectsApplied = !!imageInfo.effectsApplied;
       }
     }
 
-    // Parse image effects using existing method
-    const effects = ImageParser.parseImageEffects(blipFill);
+    // CSS approximations of the same effects
+    const effects = ImageParser.parseImageEffects(blipEffects);
+
+    // Cropping of the source image and how it fills the frame
+    const cropping = ImageParser.parseCropping(blipFill);
+    const { mode, fillRect, tile } = ImageParser.parseBlipFillMode(blipFill);
+
+    // Non-rectangular geometry masks the picture (e.g. an ellipse for a round headshot)
+    const geometry = ShapeParser.parseGeometry(spPr);
+    const isMasked = geometry.isCustom || geometry.preset !== "rect";
+    const border = ShapeParser.parseBorder(spPr, style || null, context);
+    const hasBorder = border.type !== "none";
 
     return {
       id: componentName,
@@ -89,11 +134,24 @@ export class ImageParser extends BaseParser {
       style: {
         rotation: transform.rotation || 0,
         fillOpacity: effects.opacity,
+        ...(hasBorder && {
+          borderColor: border.color,
+          borderWidth: border.width,
+          borderStyle: border.style,
+        }),
         ...effects,
       },
       src: imageDataUrl || "",
       alt: description || componentName,
+      ...(cropping.isCropped && { cropping }),
+      fillMode: mode,
+      ...(fillRect && { fillRect }),
+      ...(tile && { tile }),
+      ...(isMasked && { geometry }),
+      ...(hasBlipEffects && { effects: blipEffects }),
       zIndex,
+      ...(link && { link }),
+      ...(drawingId && { drawingId }),
       metadata: {
         namespace,
         name: componentName,
@@ -102,8 +160,11 @@ export class ImageParser extends BaseParser {
         imageUrl: imageDataUrl,
         imageType: imageFormat,
         imageSize: imageSize,
+        imageDimensions,
         originalFormat: "normalized",
         hasEffects: effects.effectsList.length > 0,
+        effectsApplied,
+        hasBorder,
       },
     };
   }
@@ -153,7 +214,7 @@ export class ImageParser extends BaseParser {
     if (mediaFile) {
       return {
         data: mediaFile,
-        type: this.getImageTypeFromPath(mediaPath),
+        type: detectImageMimeType(mediaFile) ?? this.getImageTypeFromPath(mediaPath),
         size:
           (mediaFile as any).byteLength ||
           (mediaFile as any).length ||
@@ -165,7 +226,8 @@ export class ImageParser extends BaseParser {
   }
 
   /**
-   * Get image type from file path
+   * Get image MIME type from file path (the extension only; prefer detectImageMimeType
+   * on the file contents)
    */
   static getImageTypeFromPath(path: string): string {
     const ext = path.toLowerCase().split(".").pop();
@@ -179,6 +241,13 @@ export class ImageParser extends BaseParser {
         return "image/gif";
       case "svg":
         return "image/svg+xml";
+      case "tif":
+      case "tiff":
+        return "image/tiff";
+      case "emf":
+        return "image/emf";
+      case "wmf":
+        return "image/wmf";
       default:
         return "image/unknown";
     }
@@ -196,6 +265,8 @@ export class ImageParser extends BaseParser {
       "image/bmp": "bmp",
       "image/webp": "webp",
       "image/tiff": "tiff",
+      "image/emf": "emf",
+      "image/wmf": "wmf",
     };
     return extensions[mimeType] || "png";
   }
@@ -207,6 +278,7 @@ export class ImageParser extends BaseParser {
    * @param mediaFiles - Media files data
    * @param slideIndex - Slide index for slide-scoped search
    * @param r2Storage - Optional R2 storage
+   * @param colorEffects - Blip color effects to render into the image
    * @returns image information
    */
   static async getImageInfo(
@@ -215,6 +287,7 @@ export class ImageParser extends BaseParser {
     mediaFiles: Record<string, Uint8Array>,
     slideIndex: number | null = null,
     r2Storage: any = null,
+    colorEffects: ImageColorEffect[] = [],
   ): Promise<ImageInfo> {
     
     if (!rId) {
@@ -262,16 +335,7 @@ export class ImageParser extends BaseParser {
           // Look for the media file
           const mediaFile = mediaFiles[mediaPath];
           if (mediaFile) {
-            return {
-              url: await ImageParser.createImageUrl(
-                mediaFile,
-                target,
-                r2Storage,
-              ),
-              type: ImageParser.getImageType(target),
-              size: (mediaFile as any).length || 0,
-              dimensions: ImageParser.getImageDimensions(mediaFile),
-            };
+            return ImageParser.describeMediaFile(mediaFile, target, r2Storage, colorEffects);
           }
         }
       }
@@ -313,16 +377,7 @@ export class ImageParser extends BaseParser {
             // Look for the media file
             const mediaFile = mediaFiles[mediaPath];
             if (mediaFile) {
-              return {
-                url: await ImageParser.createImageUrl(
-                  mediaFile,
-                  target,
-                  r2Storage,
-                ),
-                type: ImageParser.getImageType(target),
-                size: (mediaFile as any).length || 0,
-                dimensions: ImageParser.getImageDimensions(mediaFile),
-              };
+              return ImageParser.describeMediaFile(mediaFile, target, r2Storage, colorEffects);
             }
           }
         }
@@ -376,16 +431,7 @@ export class ImageParser extends BaseParser {
           // Look for the media file
           const mediaFile = mediaFiles[mediaPath];
           if (mediaFile) {
-            return {
-              url: await ImageParser.createImageUrl(
-                mediaFile,
-                target,
-                r2Storage,
-              ),
-              type: ImageParser.getImageType(target),
-              size: (mediaFile as any).length || 0,
-              dimensions: ImageParser.getImageDimensions(mediaFile),
-            };
+            return ImageParser.describeMediaFile(mediaFile, target, r2Storage, colorEffects);
           }
         }
       }
@@ -400,11 +446,88 @@ export class ImageParser extends BaseParser {
   }
 
   /**
-   * Create R2 URL from media file buffer (async version)
+   * Describe a media file found through a relationship, converting formats
+   * browsers can't display (EMF/WMF to SVG, TIFF to PNG) first
+   * @param mediaFile - Image file buffer
+   * @param target - Relationship target (the original filename)
+   * @param r2Storage - Optional R2 storage
+   * @param colorEffects - Blip color effects to render into the image
+   * @returns image information for the displayable image
+   */
+  static async describeMediaFile(
+    mediaFile: Uint8Array,
+    target: string,
+    r2Storage: any = null,
+    colorEffects: ImageColorEffect[] = [],
+  ): Promise<ImageInfo> {
+    let image = await ImageParser.convertForBrowser(mediaFile, target);
+
+    // The adjusted picture is a derived PNG; formats that can't be decoded
+    // (JPEG, SVG) keep the original
+    let effectsApplied = false;
+    if (colorEffects.length && image.data instanceof Uint8Array) {
+      try {
+        const rendered = await renderImageEffects(image.data, colorEffects);
+        if (rendered) {
+          image = { data: rendered, filename: `${image.filename.replace(/\.[^./]*$/, "")}.png` };
+          effectsApplied = true;
+        }
+      } catch (error) {
+        console.error(`❌ Applying image effects failed for ${target}:`, error);
+      }
+    }
+
+    return {
+      url: await ImageParser.createImageUrl(image.data, image.filename, r2Storage),
+      type: ImageParser.detectImageType(image.data, image.filename),
+      size: image.data.length || 0,
+      dimensions: ImageParser.getImageDimensions(image.data),
+      effectsApplied,
+    };
+  }
+
+  /**
+   * Convert images browsers can't display: EMF/WMF to SVG, TIFF to PNG
    * @param mediaFile - Image file buffer
    * @param filename - Original filename
+   * @returns the converted image and its filename, or the original when no
+   * conversion applies or the conversion fails
+   */
+  static async convertForBrowser(
+    mediaFile: Uint8Array,
+    filename: string,
+  ): Promise<{ data: Uint8Array; filename: string }> {
+    if (!(mediaFile instanceof Uint8Array)) {
+      return { data: mediaFile, filename };
+    }
+
+    const mimeType = detectImageMimeType(mediaFile);
+    const baseName = filename.replace(/\.[^./]*$/, "");
+    try {
+      if (mimeType === "image/emf" || mimeType === "image/wmf") {
+        const svg = mimeType === "image/emf" ? emfToSvg(mediaFile) : wmfToSvg(mediaFile);
+        if (svg) {
+          return { data: new TextEncoder().encode(svg), filename: `${baseName}.svg` };
+        }
+      } else if (mimeType === "image/tiff") {
+        const png = await tiffToPng(mediaFile);
+        if (png) {
+          return { data: png, filename: `${baseName}.png` };
+        }
+      }
+    } catch (error) {
+      console.error(`❌ Image conversion failed for ${filename}:`, error);
+    }
+
+    return { data: mediaFile, filename };
+  }
+
+  /**
+   * Create R2 URL from media file buffer (async version)
+   * @param mediaFile - Image file buffer, already converted by convertForBrowser
+   * @param filename - Original filename
    * @param r2Storage - R2 storage binding (optional, falls back to base64)
-   * @returns R2 URL, data URL, or placeholder
+   * @returns R2 URL, data URL, or placeholder (also for unconverted EMF, WMF and TIFF)
    */
   static async createImageUrl(
     mediaFile: Uint8Array,
@@ -415,7 +538,13 @@ export class ImageParser extends BaseParser {
       console.log(
         `⚠️ Image data not available, using placeholder SVG for ${filename}`,
       );
-      return "data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iMTAwIiBoZWlnaHQ9IjEwMCIgeG1sbnM9Imh0dHA6Ly93d3cudzMub3JnLzIwMDAvc3ZnIj48cmVjdCB3aWR0aD0iMTAwIiBoZWlnaHQ9IjEwMCIgZmlsbD0iI2RkZCIvPjx0ZXh0IHg9IjUwIiB5PSI1NSIgZm9udC1mYW1pbHk9IkFyaWFsIiBmb250LXNpemU9IjEyIiBmaWxsPSIjOTk5IiB0ZXh0LWFuY2hvcj0ibWlkZGxlIj5JbWFnZTwvdGV4dD48L3N2Zz4=";
+      return PLACEHOLDER_IMAGE_URL;
+    }
+
+    // Metafiles and TIFFs whose conversion failed
+    if (UNDISPLAYABLE_IMAGE_TYPES.includes(ImageParser.detectImageType(mediaFile, filename))) {
+      console.log(`⚠️ ${filename} could not be converted for display, using placeholder SVG`);
+      return PLACEHOLDER_IMAGE_URL;
     }
 
     // If R2 storage is available, use it
@@ -423,7 +552,7 @@ export class ImageParser extends BaseParser {
       try {
         // Generate hash for deduplication
         const hash = await ImageParser.generateImageHash(mediaFile);
-        const type = ImageParser.getImageType(filename);
+        const type = ImageParser.detectImageType(mediaFile, filename);
         const imagePath = `images/${hash}.${type}`;
 
         // Check if image already exists in R2
@@ -470,10 +599,10 @@ export class ImageParser extends BaseParser {
       console.log(
         `⚠️ Image data not available, using placeholder SVG for ${filename}`,
       );
-      return "data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iMTAwIiBoZWlnaHQ9IjEwMCIgeG1sbnM9Imh0dHA6Ly93d3cudzMub3JnLzIwMDAvc3ZnIj48cmVjdCB3aWR0aD0iMTAwIiBoZWlnaHQ9IjEwMCIgZmlsbD0iI2RkZCIvPjx0ZXh0IHg9IjUwIiB5PSI1NSIgZm9udC1mYW1pbHk9IkFyaWFsIiBmb250LXNpemU9IjEyIiBmaWxsPSIjOTk5IiB0ZXh0LWFuY2hvcj0ibWlkZGxlIj5JbWFnZTwvdGV4dD48L3N2Zz4=";
+      return PLACEHOLDER_IMAGE_URL;
     }
 
-    const type = ImageParser.getImageType(filename);
+    const type = ImageParser.detectImageType(mediaFile, filename);
     const mimeType = ImageParser.getMimeType(type);
     const base64 = ImageParser.uint8ArrayToBase64(mediaFile);
 
@@ -516,6 +645,20 @@ export class ImageParser extends BaseParser {
     return ext || "unknown";
   }
 
+  /**
+   * Get image type from the file's magic bytes, falling back to its extension
+   * for formats that aren't recognised (e.g. EMF/WMF)
+   * @param mediaFile - Image file buffer
+   * @param filename - Image filename
+   * @returns image type
+   */
+  static detectImageType(mediaFile: Uint8Array, filename: string): string {
+    const mimeType = detectImageMimeType(mediaFile);
+    return mimeType
+      ? ImageParser.getExtensionFromMimeType(mimeType)
+      : ImageParser.getImageType(filename);
+  }
+
   /**
    * Get MIME type from image type
    * @param type - Image type
@@ -532,19 +675,19 @@ export class ImageParser extends BaseParser {
       svg: "image/svg+xml",
       tiff: "image/tiff",
       tif: "image/tiff",
+      emf: "image/emf",
+      wmf: "image/wmf",
     };
 
     return mimeTypes[type] || "application/octet-stream";
   }
 
   /**
-   * Parse image effects from blip fill
-   * @param blipFill - Blip fill properties
+   * Summarize a picture's blip effects, with CSS approximations where they exist
+   * @param blipEffects - Effects read by parseBlipEffects
    * @returns effects information
    */
-  static parseImageEffects(
-    blipFill: XMLNode | null | undefined,
-  ): ImageEffectsInfo {
+  static parseImageEffects(blipEffects: ImageEffects): ImageEffectsInfo {
     const effects: ImageEffectsInfo = {
       opacity: 1,
       filter: null,
@@ -553,34 +696,167 @@ export class ImageParser extends BaseParser {
       effectsList: [],
     };
 
-    if (!blipFill) return effects;
-
-    // Parse alpha/opacity
-    const blip = BaseParser.safeGet(blipFill, "blip");
-    if (blip) {
-      // Look for alpha modulation
-      const alphaModFix = BaseParser.asNumber(
-        BaseParser.safeGet(blip, "alphaModFix.$amt"),
-        0,
-      );
-      if (alphaModFix) {
-        effects.opacity = alphaModFix / 100000; // PowerPoint uses 100000 = 100%
+    const { colorEffects, artisticEffects } = blipEffects;
+    const filters: string[] = [];
+    for (const effect of colorEffects) {
+      switch (effect.type) {
+        case "alphaModFix":
+          effects.opacity = effect.amount;
+          break;
+        case "grayscale":
+          filters.push("grayscale(100%)");
+          effects.effectsList.push("grayscale");
+          break;
+        case "biLevel":
+          // Black and white
+          filters.push("contrast(1000%) brightness(50%)");
+          effects.effectsList.push("bilevel");
+          break;
+        case "luminance": {
+          const contrast = effect.contrast >= 0 ? 1 / Math.max(1 - effect.contrast, 0.01) : 1 + effect.contrast;
+          filters.push(`brightness(${Math.round((1 + effect.brightness) * 100)}%)`);
+          filters.push(`contrast(${Math.round(contrast * 100)}%)`);
+          effects.effectsList.push("luminance");
+          break;
+        }
+        // No CSS equivalent; only the re-rendered image shows these
+        case "duotone":
+          effects.effectsList.push("duotone");
+          break;
+        case "colorChange":
+          effects.effectsList.push("colorChange");
+          break;
       }
+    }
+    if (filters.length) {
+      effects.filter = filters.join(" ");
+    }
+    if (artisticEffects.length) {
+      effects.effectsList.push("artistic");
+    }
+
+    return effects;
+  }
 
-      // Grayscale effect
-      if (BaseParser.safeGet(blip, "grayscl")) {
-        effects.filter = "grayscale(100%)";
-        effects.effectsList.push("grayscale");
+  /**
+   * Parse the color and artistic effects on a picture's blip
+   * fast-xml-parser groups siblings by tag name, so the parse-time document
+   * position (kept for the attribute-less grayscl too, see PPTXParser)
+   * restores the order the color effects apply in. Nodes built without
+   * positions use the schema's order.
+   * @param blipFill - Blip fill properties
+   * @param context - Parse context supplying the theme for effect colors
+   * @returns effects model
+   */
+  static parseBlipEffects(
+    blipFill: XMLNode | null | undefined,
+    context?: ParseContext,
+  ): ImageEffects {
+    const blip = BaseParser.getNode(blipFill, "blip");
+    if (!blip) return { colorEffects: [], artisticEffects: [] };
+
+    const found: Array<{ effect: ImageColorEffect; order: number | undefined; sequence: number }> = [];
+    BLIP_COLOR_EFFECTS.forEach((name, sequence) => {
+      for (const node of BaseParser.getArray(blip, name)) {
+        const effect = ImageParser.parseColorEffect(name, node, context);
+        if (effect) {
+          found.push({ effect, order: PPTXParser.getDocumentOrder(node), sequence });
+        }
       }
+    });
+
+    const hasDocumentOrder = found.every((item) => item.order !== undefined);
+    found.sort((a, b) => (hasDocumentOrder ? a.order! - b.order! : a.sequence - b.sequence));
 
-      // Bi-level (black and white)
-      if (BaseParser.safeGet(blip, "biLevel")) {
-        effects.filter = "contrast(1000%) brightness(50%)";
-        effects.effectsList.push("bilevel");
+    return {
+      colorEffects: found.map((item) => item.effect),
+      artisticEffects: ImageParser.parseArtisticEffects(blip),
+    };
+  }
+
+  /**
+   * Parse one color effect element of a blip
+   * @param name - Element name
+   * @param node - Element node ("" when it has no attributes or children)
+   * @param context - Parse context supplying the theme for effect colors
+   * @returns the effect, or null when it's missing its colors
+   */
+  private static parseColorEffect(
+    name: string,
+    node: any,
+    context?: ParseContext,
+  ): ImageColorEffect | null {
+    // Percentages are stored in 1000ths of a percent
+    const fraction = (path: string, fallback: number) => BaseParser.getNumber(node, path, fallback) / 100000;
+
+    switch (name) {
+      case "alphaModFix":
+        return { type: "alphaModFix", amount: fraction("$amt", 100000) };
+      case "grayscl":
+        return { type: "grayscale" };
+      case "biLevel":
+        return { type: "biLevel", threshold: fraction("$thresh", 50000) };
+      case "lum":
+        return { type: "luminance", brightness: fraction("$bright", 0), contrast: fraction("$contrast", 0) };
+      case "duotone": {
+        const [dark, light] = ImageParser.parseEffectColors(node, context);
+        return dark && light ? { type: "duotone", dark, light } : null;
       }
+      case "clrChange": {
+        const [from] = ImageParser.parseEffectColors(BaseParser.getNode(node, "clrFrom"), context);
+        const [to] = ImageParser.parseEffectColors(BaseParser.getNode(node, "clrTo"), context);
+        if (!from || !to) return null;
+        return { type: "colorChange", from, to, useAlpha: BaseParser.getBoolean(node, "$useA", true) };
+      }
+      default:
+        return null;
     }
+  }
 
-    return effects;
+  /**
+   * Resolve the color elements directly inside an effect, in document order
+   * @param node - Effect element (duotone) or color holder (clrFrom, clrTo)
+   * @param context - Parse context supplying the theme and color map
+   * @returns resolved colors
+   */
+  private static parseEffectColors(node: XMLNode | null, context?: ParseContext): RGBAColor[] {
+    if (!node || typeof node !== "object") return [];
+
+    const colors = COLOR_ELEMENTS.flatMap((type) =>
+      BaseParser.getArray(node, type).map((colorNode) => ({ type, colorNode })),
+    );
+    colors.sort((a, b) =>
+      (PPTXParser.getDocumentOrder(a.colorNode) ?? 0) - (PPTXParser.getDocumentOrder(b.colorNode) ?? 0),
+    );
+    return colors.map(({ type, colorNode }) => BaseParser.parseColorRGBA({ [type]: colorNode }, context));
+  }
+
+  /**
+   * Parse the Office 2010 picture corrections and artistic effects
+   * (a:blip/a:extLst/a:ext/a14:imgProps/a14:imgLayer/a14:imgEffect)
+   * @param blip - Blip node
+   * @returns effects in document order, with their attributes as numbers
+   */
+  private static parseArtisticEffects(blip: XMLNode): ImageArtisticEffect[] {
+    const imgProps = BaseParser.getArray(blip, "extLst.ext")
+      .map((ext) => BaseParser.getNode(ext, "imgProps"))
+      .find(Boolean);
+    const imgEffects = BaseParser.getArray(imgProps, "imgLayer.imgEffect");
+
+    return imgEffects.flatMap((imgEffect) =>
+      Object.keys(imgEffect || {})
+        .filter((key) => !key.startsWith("$"))
+        .map((name) => {
+          const effectNode = imgEffect[name];
+          const params: Record<string, number> = {};
+          for (const [key, value] of Object.entries(BaseParser.isXMLNode(effectNode) ? effectNode : {})) {
+            if (key.startsWith("$") && typeof value === "number") {
+              params[key.slice(1)] = value;
+            }
+          }
+          return { name, params };
+        }),
+    );
   }
 
   /**
@@ -591,8 +867,9 @@ export class ImageParser extends BaseParser {
   static parseCropping(
     blipFill: XMLNode | null | undefined,
   ): ImageCroppingInfo {
-    const srcRect = BaseParser.safeGet(blipFill, "srcRect.$", null) as any;
-    if (!srcRect || !BaseParser.isXMLNode(srcRect)) {
+    // Insets are in 1000ths of a percent (e.g. 10000 = 10%)
+    const srcRect = BaseParser.parseRelativeRect(BaseParser.getNode(blipFill, "srcRect"));
+    if (!srcRect) {
       return {
         left: 0,
         top: 0,
@@ -602,28 +879,20 @@ export class ImageParser extends BaseParser {
       };
     }
 
-    // PowerPoint uses percentages * 1000 (e.g., 10000 = 10%)
     return {
-      left: BaseParser.asNumber(srcRect.l, 0) / 1000,
-      top: BaseParser.asNumber(srcRect.t, 0) / 1000,
-      right: BaseParser.asNumber(srcRect.r, 0) / 1000,
-      bottom: BaseParser.asNumber(srcRect.b, 0) / 1000,
-      isCropped: !!(
-        srcRect.l || srcRect.t || srcRect.r || srcRect.b
-      ),
+      ...srcRect,
+      isCropped: !!(srcRect.left || srcRect.top || srcRect.right || srcRect.bottom),
     };
   }
 
   /**
-   * Get basic image dimensions (simplified - would need proper image parsing)
+   * Get intrinsic image dimensions from the file header
    * @param imageBuffer - Image file buffer
-   * @returns dimensions
+   * @returns dimensions, or null for unrecognised formats
    */
   static getImageDimensions(
     imageBuffer: Uint8Array | Buffer,
   ): ImageDimensions | null {
-    // This is a placeholder - in a real implementation, you'd use
-    // an image parsing library like sharp or image-size
-    return null;
+    return getImageDimensions(imageBuffer);
   }
 }
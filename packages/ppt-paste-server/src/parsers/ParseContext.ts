@@ -0,0 +1,99 @@
+/**
+ * Per-parse state shared by all component parsers.
+ * Everything a parser needs beyond the element itself (theme, color map,
+ * relationships, media, options) travels in a ParseContext, so concurrent
+ * parses never share mutable state.
+ */
+
+import type { ThemeFontScheme, XMLNode } from '../types/index.js';
+import type { MediaFiles, RelationshipGraph } from '../types/normalized.js';
+
+export interface R2BucketLike {
+  put?(key: string, value: any, options?: any): Promise<any> | any;
+  get?(key: string): Promise<any> | any;
+  head?(key: string): Promise<any> | any;
+}
+
+export interface ParseContext {
+  theme: {
+    colors: Record<string, string>;
+    rawTheme: any;
+  } | null;
+  /** Scheme color aliases of the part being parsed (p:clrMap with any p:clrMapOvr), e.g. bg1 -> lt1 */
+  colorMap: Record<string, string>;
+  fontScheme: ThemeFontScheme | null;
+  /** Presentation defaultTextStyle, the last step of the text style cascade */
+  defaultTextStyle: XMLNode | null;
+  relationships: RelationshipGraph;
+  /** Relationships file of the part (slide, layout or master) whose elements are being parsed */
+  partRelationshipsFile: string | null;
+  mediaFiles: MediaFiles;
+  slideDimensions: { width: number; height: number } | null;
+  /** 1-based show position of each slide part (presentation.xml sldIdLst), for slide jump links */
+  slideNumbers: Record<string, number>;
+  options: {
+    debug: boolean;
+    r2Storage: R2BucketLike | null;
+  };
+}
+
+// p:clrMap used by the default Office master
+export const DEFAULT_COLOR_MAP: Readonly<Record<string, string>> = Object.freeze({
+  bg1: 'lt1',
+  tx1: 'dk1',
+  bg2: 'lt2',
+  tx2: 'dk2',
+  accent1: 'accent1',
+  accent2: 'accent2',
+  accent3: 'accent3',
+  accent4: 'accent4',
+  accent5: 'accent5',
+  accent6: 'accent6',
+  hlink: 'hlink',
+  folHlink: 'folHlink',
+});
+
+/**
+ * Create a parse context, filling anything not given with defaults
+ * (no theme, the default color map, no relationships or media)
+ * @param overrides - Context values to use
+ */
+export function createParseContext(overrides: Partial<Omit<ParseContext, 'options'>> & { options?: Partial<ParseContext['options']> } = {}): ParseContext {
+  return {
+    theme: overrides.theme ?? null,
+    colorMap: { ...DEFAULT_COLOR_MAP, ...overrides.colorMap },
+    fontScheme: overrides.fontScheme ?? null,
+    defaultTextStyle: overrides.defaultTextStyle ?? null,
+    relationships: overrides.relationships ?? {},
+    partRelationshipsFile: overrides.partRelationshipsFile ?? null,
+    mediaFiles: overrides.mediaFiles ?? {},
+    slideDimensions: overrides.slideDimensions ?? null,
+    slideNumbers: overrides.slideNumbers ?? {},
+    options: {
+      debug: overrides.options?.debug ?? false,
+      r2Storage: overrides.options?.r2Storage ?? null,
+    },
+  };
+}
+
+/**
+ * Context for parsing the elements of one part, so their relationship ids
+ * resolve against that part's .rels file
+ * @param context - Parse context
+ * @param partFile - Part path, e.g. ppt/slideLayouts/slideLayout2.xml
+ */
+export function withPartRelationships(context: ParseContext, partFile: string | null | undefined): ParseContext {
+  if (!partFile) return context;
+  const slash = partFile.lastIndexOf('/');
+  return { ...context, partRelationshipsFile: `${partFile.slice(0, slash)}/_rels/${partFile.slice(slash + 1)}.rels` };
+}
+
+/**
+ * Context for parsing the elements of a part with its own scheme color map
+ * @param context - Parse context
+ * @param colorMap - The part's color map; the context's map is kept when missing
+ */
+export function withColorMap(context: ParseContext, colorMap: Record<string, string> | undefined): ParseContext {
+  if (!colorMap) return context;
+  return { ...context, colorMap: { ...DEFAULT_COLOR_MAP, ...colorMap } };
+}
@@ -8,12 +8,22 @@
 import { PPTXParser } from '../processors/PPTXParser.js';
 import { DEFAULT_SLIDE_WIDTH_PX, DEFAULT_SLIDE_HEIGHT_PX, pixelsToEmu } from '../utils/constants.js';
 import { BaseParser } from './BaseParser.js';
+import { parseHexColor, rgbaToHex } from '../utils/colorTransforms.js';
 
-import type { NormalizedElement, NormalizedSlide, NormalizedResult } from '../types/normalized.js';
+import type { ThemeFontScheme, ThemeFonts } from '../types/index.js';
+import type { NormalizedElement, NormalizedPlaceholder, NormalizedConnectorElement, NormalizedGroupElement, NormalizedSlide, NormalizedResult } from '../types/normalized.js';
 /* Inlined NormalizedElement/Slide/Result interfaces removed.
    Using shared types from ../types/normalized.ts */
 
+// spPr elements that stand in for each other: a shape has one geometry and one fill
+const EXCLUSIVE_SHAPE_PROPERTIES = [
+  ['prstGeom', 'custGeom'],
+  ['noFill', 'solidFill', 'gradFill', 'blipFill', 'pattFill', 'grpFill'],
+];
+
 export class PowerPointNormalizer {
+  /** Tags inside spTree / lockedCanvas / grpSp that produce elements */
+  private static readonly DRAWABLE_ELEMENT_KEYS = ['sp', 'pic', 'graphicFrame', 'grpSp', 'cxnSp'];
   
   /**
    * Normalize PowerPoint JSON data to a unified structure
@@ -71,7 +81,14 @@ export class PowerPointNormalizer {
     
     // Extract theme data from theme file
     const themeData = this.extractThemeData(json, 'pptx');
+    const colorMaps = this.extractColorMaps(json, slideLayoutRelationships, pptxParser.getLayoutMasterRelationships(json));
     
+    // Slide files are numbered in creation order; sldIdLst gives the show order
+    const slideNumbers: Record<string, number> = {};
+    pptxParser.getSlideOrder(json).forEach((slideFile, index) => {
+      slideNumbers[slideFile] = index + 1;
+    });
+
     // Find slide files (no sorting needed - we'll extract slide numbers)
     const slideFiles = files.filter(f => 
       f.startsWith('ppt/slides/slide') && f.endsWith('.xml')
@@ -93,7 +110,7 @@ export class PowerPointNormalizer {
       if (!spTree) continue;
       
       // Extract slide elements
-      const slideElements = this.extractOrderedElements(spTree);
+      const slideElements = this.resolveConnectorTargets(this.extractOrderedElements(spTree));
       
       // Check for slide-specific background
       const slideBackground = cSld['bg'];
@@ -191,11 +208,14 @@ export class PowerPointNormalizer {
         }
       }
       
+      // Link placeholders to the layout/master shapes they inherit style and geometry from
+      const resolvedSlideElements = this.resolvePlaceholders(slideElements, json, layoutFile, masterFile);
+      
       // Merge elements in proper z-order hierarchy:
       // 1. Master elements (deepest background, z-index -2000 to -1999)
       // 2. Layout elements (middle background, z-index -1000 to -999) 
       // 3. Slide elements (foreground, z-index 0+)
-      const allElements = [...masterElements, ...layoutElements, ...slideElements];
+      const allElements = [...masterElements, ...layoutElements, ...resolvedSlideElements];
       
       const normalizedSlide: NormalizedSlide = {
         slideFile,
@@ -215,6 +235,10 @@ export class PowerPointNormalizer {
       
       slides.push(normalizedSlide);
     }
+
+    // Slides follow the show order; any missing from sldIdLst go last, by file number
+    const showPosition = (slide: NormalizedSlide) => slideNumbers[slide.slideFile] ?? Number.MAX_SAFE_INTEGER;
+    slides.sort((a, b) => showPosition(a) - showPosition(b) || (a.slideNumber ?? 0) - (b.slideNumber ?? 0));
     
     return {
       format: 'pptx',
@@ -223,7 +247,10 @@ export class PowerPointNormalizer {
       mediaFiles: this.extractMediaFiles(json),
       relationships: this.extractRelationships(json),
       slideLayoutRelationships, // Include relationships for reference
-      theme: themeData // Include theme data
+      theme: themeData, // Include theme data
+      colorMaps,
+      defaultTextStyle: json['ppt/presentation.xml']?.presentation?.defaultTextStyle,
+      slideNumbers
     };
   }
   
@@ -261,7 +288,7 @@ export class PowerPointNormalizer {
         images: this.extractClipboardImages(lockedCanvas), 
         text: this.extractClipboardText(lockedCanvas),
         videos: this.extractClipboardVideos(lockedCanvas),
-        elements: this.extractOrderedClipboardElements(lockedCanvas), // Add ordered elements
+        elements: this.resolveConnectorTargets(this.extractOrderedClipboardElements(lockedCanvas)), // Add ordered elements
         rawCanvas: lockedCanvas // Keep for relationship lookups
       };
       
@@ -289,11 +316,11 @@ export class PowerPointNormalizer {
     const spArray = this.ensureArray(spTree['sp']);
     
     for (const sp of spArray) {
-      // Skip text boxes (they're handled in extractText)
-      if (sp['nvSpPr'] && sp['nvSpPr']['cNvSpPr'] && sp['nvSpPr']['cNvSpPr']['$txBox']) continue;
+      // Skip plain text boxes (they're handled in extractText)
+      if (sp['nvSpPr'] && sp['nvSpPr']['cNvSpPr'] && sp['nvSpPr']['cNvSpPr']['$txBox'] && !this.hasVisibleGeometry(sp)) continue;
       
-      // Skip shapes with actual text content (they're handled in extractPPTXText)
-      if (sp['txBody'] && this.hasTextContent(sp['txBody'])) continue;
+      // Skip text without a visible shape (it's handled in extractPPTXText)
+      if (this.isTextOnlyShape(sp, sp['txBody'])) continue;
       
       shapes.push({
         type: 'shape',
@@ -322,11 +349,11 @@ export class PowerPointNormalizer {
       const spArray = this.ensureArray(spData);
       
       for (const sp of spArray) {
-        // Skip text boxes (they're handled in extractText)
-        if (sp['nvSpPr'] && sp['nvSpPr']['cNvSpPr'] && sp['nvSpPr']['cNvSpPr']['$txBox']) continue;
+        // Skip plain text boxes (they're handled in extractText)
+        if (sp['nvSpPr'] && sp['nvSpPr']['cNvSpPr'] && sp['nvSpPr']['cNvSpPr']['$txBox'] && !this.hasVisibleGeometry(sp)) continue;
         
-        // Skip shapes with actual text content (they're handled in extractClipboardText)
-        if (sp['txSp'] && sp['txSp']['txBody'] && this.hasTextContent(sp['txSp']['txBody'])) continue;
+        // Skip text without a visible shape (it's handled in extractClipboardText)
+        if (this.isTextOnlyShape(sp, sp['txSp']?.['txBody'])) continue;
         
         shapes.push({
           type: 'shape',
@@ -365,7 +392,8 @@ export class PowerPointNormalizer {
         data: pic,
         nvPicPr: pic['nvPicPr'],
         blipFill: pic['blipFill'],
-        spPr: pic['spPr']
+        spPr: pic['spPr'],
+        style: pic['style']
       });
     }
     
@@ -396,7 +424,8 @@ export class PowerPointNormalizer {
           data: pic,
           nvPicPr: pic['nvPicPr'], 
           blipFill: pic['blipFill'],
-          spPr: pic['spPr']
+          spPr: pic['spPr'],
+          style: pic['style']
         });
       }
     }
@@ -476,8 +505,8 @@ export class PowerPointNormalizer {
     const spArray = this.ensureArray(spTree['sp']);
     
     for (const sp of spArray) {
-      // Only process shapes with actual text content
-      if (sp['txBody'] && this.hasTextContent(sp['txBody'])) {
+      // Only process text without a visible shape (shapes carry their own text)
+      if (this.isTextOnlyShape(sp, sp['txBody'])) {
         textComponents.push({
           type: 'text',
           namespace: 'p',
@@ -507,8 +536,8 @@ export class PowerPointNormalizer {
       for (const sp of spArray) {
         // Check for text content in the extra txSp layer
         if (sp['txSp'] && sp['txSp']['txBody']) {
-          // Only treat as text component if there's actual text content
-          if (this.hasTextContent(sp['txSp']['txBody'])) {
+          // Only treat as text component if there's actual text content and no visible shape
+          if (this.isTextOnlyShape(sp, sp['txSp']['txBody'])) {
             textComponents.push({
               type: 'text',
               namespace: 'a',
@@ -610,108 +639,114 @@ export class PowerPointNormalizer {
    * Extract elements in their original z-order from spTree
    * This preserves the layering order that elements appear in PowerPoint
    */
-  extractOrderedElements(spTree: any): NormalizedElement[] {
+  extractOrderedElements(spTree: any, counter: { zIndex: number } = { zIndex: 0 }): NormalizedElement[] {
     const elements: NormalizedElement[] = [];
-    let zIndex = 0;
 
-    // Process all child elements in their original order
+    // Process all child elements in their original document order
     // This preserves the back-to-front ordering from PowerPoint XML
-    for (const [key, value] of Object.entries(spTree)) {
+    for (const { key, node } of this.getOrderedChildren(spTree)) {
       if (key === 'sp') {
         // Handle shapes and text boxes
-        const spArray = this.ensureArray(value);
-        for (const sp of spArray) {
-          if (sp['txBody'] && this.hasTextContent(sp['txBody'])) {
-            // Text element
-            elements.push({
-              type: 'text',
-              zIndex: zIndex++,
-              namespace: 'p',
-              element: 'sp',
-              data: sp,
-              spPr: sp['spPr'],
-              nvSpPr: sp['nvSpPr'],
-              style: sp['style'],
-              textBody: sp['txBody']
-            });
-          } else {
-            // Shape element (non-text)
-            // Skip text boxes (they're handled above)
-            if (sp['nvSpPr'] && sp['nvSpPr']['cNvSpPr'] && sp['nvSpPr']['cNvSpPr']['$txBox']) continue;
-            
-            elements.push({
-              type: 'shape',
-              zIndex: zIndex++,
-              namespace: 'p', 
-              element: 'sp',
-              data: sp,
-              spPr: sp['spPr'],
-              nvSpPr: sp['nvSpPr'],
-              style: sp['style'],
-              textBody: sp['txSp'] ? sp['txSp']['txBody'] : null
-            });
+        const sp = node;
+        if (this.isTextOnlyShape(sp, sp['txBody'])) {
+          // Text element
+          elements.push({
+            type: 'text',
+            zIndex: counter.zIndex++,
+            namespace: 'p',
+            element: 'sp',
+            data: sp,
+            spPr: sp['spPr'],
+            nvSpPr: sp['nvSpPr'],
+            style: sp['style'],
+            textBody: sp['txBody']
+          });
+        } else {
+          // Shape element, with its text label if it has one
+          // Skip empty text boxes
+          if (sp['nvSpPr'] && sp['nvSpPr']['cNvSpPr'] && sp['nvSpPr']['cNvSpPr']['$txBox'] && !this.hasVisibleGeometry(sp)) continue;
+          
+          // Straight/bent lines drawn as plain shapes are treated as connectors
+          if (this.isLineShape(sp)) {
+            elements.push(this.createConnectorElement(sp, 'p', counter));
+            continue;
           }
+          
+          elements.push({
+            type: 'shape',
+            zIndex: counter.zIndex++,
+            namespace: 'p', 
+            element: 'sp',
+            data: sp,
+            spPr: sp['spPr'],
+            nvSpPr: sp['nvSpPr'],
+            style: sp['style'],
+            textBody: sp['txBody'] ?? null
+          });
         }
       } else if (key === 'pic') {
         // Handle images and videos
-        const picArray = this.ensureArray(value);
-        for (const pic of picArray) {
-          // Check if this is a video by looking for nvPr.videoFile
-          const nvPicPr = pic['nvPicPr'];
-          const isVideo = nvPicPr && nvPicPr['nvPr'] && nvPicPr['nvPr']['videoFile'];
+        const pic = node;
+        // Check if this is a video by looking for nvPr.videoFile
+        const nvPicPr = pic['nvPicPr'];
+        const isVideo = nvPicPr && nvPicPr['nvPr'] && nvPicPr['nvPr']['videoFile'];
+        
+        if (isVideo) {
+          // Video element
+          const videoFile = nvPicPr['nvPr']['videoFile'];
+          const relationshipId = videoFile['$link'] || videoFile['link'];
           
-          if (isVideo) {
-            // Video element
-            const videoFile = nvPicPr['nvPr']['videoFile'];
-            const relationshipId = videoFile['$link'] || videoFile['link'];
-            
-            elements.push({
-              type: 'video',
-              zIndex: zIndex++,
-              namespace: 'p',
-              element: 'pic',
-              data: pic,
-              nvPicPr: pic['nvPicPr'],
-              blipFill: pic['blipFill'],
-              spPr: pic['spPr'],
-              relationshipId: relationshipId
-            });
-          } else {
-            // Image element
-            elements.push({
-              type: 'image',
-              zIndex: zIndex++,
-              namespace: 'p',
-              element: 'pic',
-              data: pic,
-              nvPicPr: pic['nvPicPr'],
-              blipFill: pic['blipFill'],
-              spPr: pic['spPr']
-            });
-          }
+          elements.push({
+            type: 'video',
+            zIndex: counter.zIndex++,
+            namespace: 'p',
+            element: 'pic',
+            data: pic,
+            nvPicPr: pic['nvPicPr'],
+            blipFill: pic['blipFill'],
+            spPr: pic['spPr'],
+            relationshipId: relationshipId
+          });
+        } else {
+          // Image element
+          elements.push({
+            type: 'image',
+            zIndex: counter.zIndex++,
+            namespace: 'p',
+            element: 'pic',
+            data: pic,
+            nvPicPr: pic['nvPicPr'],
+            blipFill: pic['blipFill'],
+            spPr: pic['spPr'],
+            style: pic['style']
+          });
         }
       } else if (key === 'graphicFrame') {
         // Handle tables (graphicFrame containing table data)
-        const graphicFrameArray = this.ensureArray(value);
-        for (const graphicFrame of graphicFrameArray) {
-          // Check if this is a table by looking at the graphicData URI
-          const graphic = graphicFrame['graphic'];
-          const graphicData = graphic?.['graphicData'];
-          const uri = graphicData?.['$uri'];
-          
-          if (uri === 'http://schemas.openxmlformats.org/drawingml/2006/table') {
-            elements.push({
-              type: 'table',
-              zIndex: zIndex++,
-              namespace: 'p',
-              element: 'graphicFrame',
-              data: graphicFrame,
-              nvGraphicFramePr: graphicFrame['nvGraphicFramePr'],
-              spPr: graphicFrame['xfrm'], // Use xfrm for positioning
-              graphicData: graphicData
-            });
-          }
+        const graphicFrame = node;
+        // Check if this is a table by looking at the graphicData URI
+        const graphic = graphicFrame['graphic'];
+        const graphicData = graphic?.['graphicData'];
+        const uri = graphicData?.['$uri'];
+        
+        if (uri === 'http://schemas.openxmlformats.org/drawingml/2006/table') {
+          elements.push({
+            type: 'table',
+            zIndex: counter.zIndex++,
+            namespace: 'p',
+            element: 'graphicFrame',
+            data: graphicFrame,
+            nvGraphicFramePr: graphicFrame['nvGraphicFramePr'],
+            spPr: graphicFrame['xfrm'], // Use xfrm for positioning
+            graphicData: graphicData
+          });
         }
+      } else if (key === 'grpSp') {
+        // Handle group shapes - children are resolved into slide space
+        elements.push(this.extractGroupElement(node, 'p', counter));
+      } else if (key === 'cxnSp') {
+        // Handle connectors (lines/arrows between shapes)
+        elements.push(this.createConnectorElement(node, 'p', counter));
       }
     }
 
@@ -722,111 +757,354 @@ export class PowerPointNormalizer {
    * Extract elements in their original z-order from clipboard lockedCanvas
    * This preserves the layering order that elements appear in PowerPoint clipboard
    */
-  extractOrderedClipboardElements(lockedCanvas: any): NormalizedElement[] {
+  extractOrderedClipboardElements(lockedCanvas: any, counter: { zIndex: number } = { zIndex: 0 }): NormalizedElement[] {
     const elements: NormalizedElement[] = [];
-    let zIndex = 0;
 
-    // Process all child elements in their original order
+    // Process all child elements in their original document order
     // This preserves the back-to-front ordering from PowerPoint clipboard XML
-    for (const [key, value] of Object.entries(lockedCanvas)) {
+    for (const { key, node } of this.getOrderedChildren(lockedCanvas)) {
       if (key === 'sp') {
         // Handle shapes and text boxes
-        const spArray = this.ensureArray(value);
-        for (const sp of spArray) {
-          if (sp['txSp'] && sp['txSp']['txBody'] && this.hasTextContent(sp['txSp']['txBody'])) {
-            // Text element with clipboard structure
-            elements.push({
-              type: 'text',
-              zIndex: zIndex++,
-              namespace: 'a',
-              element: 'sp',
-              data: sp,
-              spPr: sp['spPr'],
-              nvSpPr: sp['nvSpPr'],
-              style: sp['style'],
-              textBody: sp['txSp']['txBody'] // Navigate extra layer
-            });
-          } else {
-            // Shape element (non-text)
-            elements.push({
-              type: 'shape',
-              zIndex: zIndex++,
-              namespace: 'a', 
-              element: 'sp',
-              data: sp,
-              spPr: sp['spPr'],
-              nvSpPr: sp['nvSpPr'],
-              style: sp['style'],
-              textBody: sp['txSp'] ? sp['txSp']['txBody'] : null
-            });
-          }
+        const sp = node;
+        if (this.isTextOnlyShape(sp, sp['txSp']?.['txBody'])) {
+          // Text element with clipboard structure
+          elements.push({
+            type: 'text',
+            zIndex: counter.zIndex++,
+            namespace: 'a',
+            element: 'sp',
+            data: sp,
+            spPr: sp['spPr'],
+            nvSpPr: sp['nvSpPr'],
+            style: sp['style'],
+            textBody: sp['txSp']['txBody'] // Navigate extra layer
+          });
+        } else if (this.isLineShape(sp)) {
+          // Straight/bent lines drawn as plain shapes are treated as connectors
+          elements.push(this.createConnectorElement(sp, 'a', counter));
+        } else {
+          // Shape element, with its text label if it has one
+          elements.push({
+            type: 'shape',
+            zIndex: counter.zIndex++,
+            namespace: 'a', 
+            element: 'sp',
+            data: sp,
+            spPr: sp['spPr'],
+            nvSpPr: sp['nvSpPr'],
+            style: sp['style'],
+            textBody: sp['txSp'] ? sp['txSp']['txBody'] : null
+          });
         }
       } else if (key === 'pic') {
         // Handle images and videos
-        const picArray = this.ensureArray(value);
-        for (const pic of picArray) {
-          // Check if this is a video by looking for nvPr.videoFile
-          const nvPicPr = pic['nvPicPr'];
-          const isVideo = nvPicPr && nvPicPr['nvPr'] && nvPicPr['nvPr']['videoFile'];
+        const pic = node;
+        // Check if this is a video by looking for nvPr.videoFile
+        const nvPicPr = pic['nvPicPr'];
+        const isVideo = nvPicPr && nvPicPr['nvPr'] && nvPicPr['nvPr']['videoFile'];
+        
+        if (isVideo) {
+          // Video element
+          const videoFile = nvPicPr['nvPr']['videoFile'];
+          const relationshipId = videoFile['$link'] || videoFile['link'];
           
-          if (isVideo) {
-            // Video element
-            const videoFile = nvPicPr['nvPr']['videoFile'];
-            const relationshipId = videoFile['$link'] || videoFile['link'];
-            
-            elements.push({
-              type: 'video',
-              zIndex: zIndex++,
-              namespace: 'a',
-              element: 'pic',
-              data: pic,
-              nvPicPr: pic['nvPicPr'],
-              blipFill: pic['blipFill'],
-              spPr: pic['spPr'],
-              relationshipId: relationshipId
-            });
-          } else {
-            // Image element
-            elements.push({
-              type: 'image',
-              zIndex: zIndex++,
-              namespace: 'a',
-              element: 'pic',
-              data: pic,
-              nvPicPr: pic['nvPicPr'],
-              blipFill: pic['blipFill'],
-              spPr: pic['spPr']
-            });
-          }
+          elements.push({
+            type: 'video',
+            zIndex: counter.zIndex++,
+            namespace: 'a',
+            element: 'pic',
+            data: pic,
+            nvPicPr: pic['nvPicPr'],
+            blipFill: pic['blipFill'],
+            spPr: pic['spPr'],
+            relationshipId: relationshipId
+          });
+        } else {
+          // Image element
+          elements.push({
+            type: 'image',
+            zIndex: counter.zIndex++,
+            namespace: 'a',
+            element: 'pic',
+            data: pic,
+            nvPicPr: pic['nvPicPr'],
+            blipFill: pic['blipFill'],
+            spPr: pic['spPr'],
+            style: pic['style']
+          });
         }
       } else if (key === 'graphicFrame') {
         // Handle tables (graphicFrame containing table data) in clipboard
-        const graphicFrameArray = this.ensureArray(value);
-        for (const graphicFrame of graphicFrameArray) {
-          // Check if this is a table by looking at the graphicData URI
-          const graphic = graphicFrame['graphic'];
-          const graphicData = graphic?.['graphicData'];
-          const uri = graphicData?.['$uri'];
-          
-          if (uri === 'http://schemas.openxmlformats.org/drawingml/2006/table') {
-            elements.push({
-              type: 'table',
-              zIndex: zIndex++,
-              namespace: 'a',
-              element: 'graphicFrame',
-              data: graphicFrame,
-              nvGraphicFramePr: graphicFrame['nvGraphicFramePr'],
-              spPr: graphicFrame['xfrm'], // Use xfrm for positioning
-              graphicData: graphicData
-            });
-          }
+        const graphicFrame = node;
+        // Check if this is a table by looking at the graphicData URI
+        const graphic = graphicFrame['graphic'];
+        const graphicData = graphic?.['graphicData'];
+        const uri = graphicData?.['$uri'];
+        
+        if (uri === 'http://schemas.openxmlformats.org/drawingml/2006/table') {
+          elements.push({
+            type: 'table',
+            zIndex: counter.zIndex++,
+            namespace: 'a',
+            element: 'graphicFrame',
+            data: graphicFrame,
+            nvGraphicFramePr: graphicFrame['nvGraphicFramePr'],
+            spPr: graphicFrame['xfrm'], // Use xfrm for positioning
+            graphicData: graphicData
+          });
         }
+      } else if (key === 'grpSp') {
+        // Handle group shapes - children are resolved into slide space
+        elements.push(this.extractGroupElement(node, 'a', counter));
+      } else if (key === 'cxnSp') {
+        // Handle connectors (lines/arrows between shapes)
+        elements.push(this.createConnectorElement(node, 'a', counter));
       }
     }
 
     return elements;
   }
 
+  /**
+   * List the drawable children of a shape tree / canvas / group in document order.
+   * fast-xml-parser groups siblings by tag name, so the position captured at parse
+   * time (see PPTXParser.getDocumentOrder) is used to restore the interleaving.
+   * Falls back to tag grouping order when positions are unavailable.
+   */
+  getOrderedChildren(container: any): Array<{ key: string; node: any }> {
+    const children: Array<{ key: string; node: any }> = [];
+    if (!container || typeof container !== 'object') return children;
+
+    for (const [key, value] of Object.entries(container)) {
+      if (!PowerPointNormalizer.DRAWABLE_ELEMENT_KEYS.includes(key)) continue;
+      for (const node of this.ensureArray(value)) {
+        if (node && typeof node === 'object') {
+          children.push({ key, node });
+        }
+      }
+    }
+
+    const hasDocumentOrder = children.every(child => PPTXParser.getDocumentOrder(child.node) !== undefined);
+    if (hasDocumentOrder) {
+      children.sort((a, b) => PPTXParser.getDocumentOrder(a.node)! - PPTXParser.getDocumentOrder(b.node)!);
+    }
+
+    return children;
+  }
+
+  /**
+   * Extract a group shape (grpSp) and its children in document order.
+   * Child transforms are mapped from the group's child coordinate space
+   * (chOff/chExt) into the group's parent space, so every descendant
+   * ends up positioned in slide coordinates.
+   */
+  extractGroupElement(grpSp: any, namespace: 'p' | 'a', counter: { zIndex: number }): NormalizedGroupElement {
+    const zIndex = counter.zIndex++;
+    const children = namespace === 'p'
+      ? this.extractOrderedElements(grpSp, counter)
+      : this.extractOrderedClipboardElements(grpSp, counter);
+
+    const grpSpPr = grpSp['grpSpPr'];
+    const groupXfrm = grpSpPr?.['xfrm'];
+
+    return {
+      type: 'group',
+      zIndex,
+      namespace,
+      element: 'grpSp',
+      data: grpSp,
+      nvGrpSpPr: grpSp['nvGrpSpPr'],
+      spPr: grpSpPr,
+      children: groupXfrm ? children.map(child => this.applyGroupTransform(child, groupXfrm)) : children
+    };
+  }
+
+  /**
+   * Check whether an sp element is a line preset (drawn without a cxnSp wrapper)
+   */
+  isLineShape(sp: any): boolean {
+    const prst = sp?.['spPr']?.['prstGeom']?.['$prst'];
+    if (!prst) return false;
+    return prst === 'line' || prst === 'lineInv' || /^(straight|bent|curved)Connector\d$/.test(prst);
+  }
+
+  /**
+   * Check whether an sp draws anything besides its text: a fill or outline of its own,
+   * or one referenced from the theme's style matrix (p:style fillRef/lnRef)
+   */
+  hasVisibleGeometry(sp: any): boolean {
+    const spPr = this.ensureObject(sp?.['spPr']) || {};
+    const style = this.ensureObject(sp?.['style']) || {};
+    const fills = ['solidFill', 'gradFill', 'blipFill', 'pattFill', 'grpFill'];
+    const styleIndex = (ref: string) => Number(this.ensureObject(style[ref])?.['$idx'] ?? 0);
+
+    const hasFill = fills.some(fill => spPr[fill] !== undefined)
+      || (spPr['noFill'] === undefined && styleIndex('fillRef') > 0);
+
+    const ln = this.ensureObject(spPr['ln']) || {};
+    const hasLine = ln['noFill'] === undefined
+      && (fills.some(fill => ln[fill] !== undefined) || styleIndex('lnRef') > 0);
+
+    return hasFill || hasLine;
+  }
+
+  /**
+   * Check whether an sp is plain text: it has text, and no geometry of its own to draw it in
+   */
+  isTextOnlyShape(sp: any, textBody: any): boolean {
+    return this.hasTextContent(textBody) && !this.hasVisibleGeometry(sp);
+  }
+
+  /**
+   * Build a connector element from a cxnSp (or line sp)
+   */
+  createConnectorElement(node: any, namespace: 'p' | 'a', counter: { zIndex: number }): NormalizedConnectorElement {
+    return {
+      type: 'connector',
+      zIndex: counter.zIndex++,
+      namespace,
+      element: node['nvCxnSpPr'] ? 'cxnSp' : 'sp',
+      data: node,
+      spPr: node['spPr'],
+      nvCxnSpPr: node['nvCxnSpPr'] || node['nvSpPr'],
+      style: node['style']
+    };
+  }
+
+  /**
+   * Resolve connector stCxn/endCxn to the connected elements on the slide.
+   * Connections keep the cNvPr id, which parsed components carry as drawingId;
+   * names are not unique, so they cannot identify the target.
+   */
+  resolveConnectorTargets(elements: NormalizedElement[]): NormalizedElement[] {
+    const drawingIds = new Set<string>();
+    const connectors: NormalizedConnectorElement[] = [];
+
+    const visit = (list: NormalizedElement[]) => {
+      for (const element of list) {
+        const data = element.data || {};
+        const nvPr = data['nvSpPr'] || data['nvPicPr'] || data['nvGraphicFramePr'] || data['nvGrpSpPr'] || data['nvCxnSpPr'];
+        const cNvPr = nvPr?.['cNvPr'];
+        if (cNvPr && cNvPr['$id'] !== undefined) {
+          drawingIds.add(String(cNvPr['$id']));
+        }
+        if (element.type === 'connector') connectors.push(element);
+        if (element.type === 'group') visit(element.children);
+      }
+    };
+    visit(elements);
+
+    const resolve = (cxn: any) => {
+      if (!cxn || cxn['$id'] === undefined) return null;
+      const id = String(cxn['$id']);
+      if (!drawingIds.has(id)) return null;
+      return { id, siteIndex: parseInt(cxn['$idx'] ?? 0) || 0 };
+    };
+
+    for (const connector of connectors) {
+      const cNvCxnSpPr = connector.nvCxnSpPr?.['cNvCxnSpPr'];
+      connector.startConnection = resolve(cNvCxnSpPr?.['stCxn']);
+      connector.endConnection = resolve(cNvCxnSpPr?.['endCxn']);
+    }
+
+    return elements;
+  }
+
+  /**
+   * Map an element (and any nested group descendants) through a group transform
+   */
+  applyGroupTransform(element: NormalizedElement, groupXfrm: any): NormalizedElement {
+    if (element.type === 'table') {
+      // Tables keep their xfrm directly in spPr
+      return { ...element, spPr: element.spPr ? this.mapXfrmThroughGroup(element.spPr, groupXfrm) : element.spPr };
+    }
+
+    const spPr = element.spPr;
+    const mappedSpPr = spPr && spPr['xfrm']
+      ? { ...spPr, xfrm: this.mapXfrmThroughGroup(spPr['xfrm'], groupXfrm) }
+      : spPr;
+
+    if (element.type === 'group') {
+      return {
+        ...element,
+        spPr: mappedSpPr,
+        children: element.children.map(child => this.applyGroupTransform(child, groupXfrm))
+      };
+    }
+
+    return { ...element, spPr: mappedSpPr };
+  }
+
+  /**
+   * Convert an xfrm expressed in a group's child space to the group's parent space.
+   * Applies chOff/chExt scaling, then the group's flips and rotation around its centre.
+   * All values stay in EMU so downstream parsers are unaffected.
+   */
+  mapXfrmThroughGroup(xfrm: any, groupXfrm: any): any {
+    const num = (v: any) => {
+      const n = typeof v === 'number' ? v : parseInt(v ?? 0);
+      return isNaN(n) ? 0 : n;
+    };
+
+    const groupX = num(groupXfrm['off']?.['$x']);
+    const groupY = num(groupXfrm['off']?.['$y']);
+    const groupW = num(groupXfrm['ext']?.['$cx']);
+    const groupH = num(groupXfrm['ext']?.['$cy']);
+    const childOffX = groupXfrm['chOff'] ? num(groupXfrm['chOff']['$x']) : groupX;
+    const childOffY = groupXfrm['chOff'] ? num(groupXfrm['chOff']['$y']) : groupY;
+    const childExtW = groupXfrm['chExt'] ? num(groupXfrm['chExt']['$cx']) : groupW;
+    const childExtH = groupXfrm['chExt'] ? num(groupXfrm['chExt']['$cy']) : groupH;
+    const scaleX = childExtW ? groupW / childExtW : 1;
+    const scaleY = childExtH ? groupH / childExtH : 1;
+
+    // Scale into parent space
+    const width = num(xfrm['ext']?.['$cx']) * scaleX;
+    const height = num(xfrm['ext']?.['$cy']) * scaleY;
+    let centerX = groupX + (num(xfrm['off']?.['$x']) - childOffX) * scaleX + width / 2;
+    let centerY = groupY + (num(xfrm['off']?.['$y']) - childOffY) * scaleY + height / 2;
+
+    const groupFlipH = BaseParser.isFlagSet(groupXfrm['$flipH']);
+    const groupFlipV = BaseParser.isFlagSet(groupXfrm['$flipV']);
+    const groupRot = num(groupXfrm['$rot']);
+    const groupCenterX = groupX + groupW / 2;
+    const groupCenterY = groupY + groupH / 2;
+
+    // Mirror child centre across the group centre
+    if (groupFlipH) centerX = 2 * groupCenterX - centerX;
+    if (groupFlipV) centerY = 2 * groupCenterY - centerY;
+
+    // Rotate child centre around the group centre
+    if (groupRot) {
+      const radians = (groupRot / 60000) * Math.PI / 180;
+      const dx = centerX - groupCenterX;
+      const dy = centerY - groupCenterY;
+      centerX = groupCenterX + dx * Math.cos(radians) - dy * Math.sin(radians);
+      centerY = groupCenterY + dx * Math.sin(radians) + dy * Math.cos(radians);
+    }
+
+    // A single mirror reverses the child's rotation direction
+    let rotation = num(xfrm['$rot']);
+    if (groupFlipH !== groupFlipV) rotation = -rotation;
+    rotation = (((rotation + groupRot) % 21600000) + 21600000) % 21600000;
+
+    const flipH = BaseParser.isFlagSet(xfrm['$flipH']) !== groupFlipH;
+    const flipV = BaseParser.isFlagSet(xfrm['$flipV']) !== groupFlipV;
+
+    const mapped: any = {
+      ...xfrm,
+      off: { $x: Math.round(centerX - width / 2), $y: Math.round(centerY - height / 2) },
+      ext: { $cx: Math.round(width), $cy: Math.round(height) }
+    };
+    delete mapped.$rot;
+    delete mapped.$flipH;
+    delete mapped.$flipV;
+    if (rotation) mapped.$rot = rotation;
+    if (flipH) mapped.$flipH = 1;
+    if (flipV) mapped.$flipV = 1;
+
+    return mapped;
+  }
+
   /**
    * Recursively strip namespace prefixes from all object keys
    * Converts 'p:spPr' -> 'spPr', 'a:xfrm' -> 'xfrm', etc.
@@ -855,6 +1133,11 @@ export class PowerPointNormalizer {
         stripped[strippedKey] = this.stripNamespaces(value);
       }
       
+      // Carry over symbol-keyed parser metadata (document order)
+      for (const symbol of Object.getOwnPropertySymbols(obj)) {
+        stripped[symbol] = obj[symbol];
+      }
+      
       return stripped;
     }
 
@@ -890,6 +1173,7 @@ export class PowerPointNormalizer {
           spPr: data['spPr'],
           nvSpPr: data['nvSpPr'],
           style: data['style'],
+          textBody: data['txBody'] ?? null,
           isLayoutElement: true,
           isBackgroundElement: isBackgroundElement || false
         };
@@ -910,6 +1194,7 @@ export class PowerPointNormalizer {
           nvPicPr: data['nvPicPr'],
           blipFill: data['blipFill'],
           spPr: data['spPr'],
+          style: data['style'],
           isLayoutElement: true,
           isBackgroundElement: isBackgroundElement || false,
           relationshipId: data.relationshipId
@@ -942,6 +1227,119 @@ export class PowerPointNormalizer {
     }
   }
 
+  /**
+   * Link slide placeholders (p:ph) to the layout and master placeholders they inherit from.
+   * Shape properties (position, geometry, fill, outline) are layered master, layout, slide;
+   * empty placeholders without a fill or outline of their own are editing prompts and are dropped.
+   * @param elements Slide elements
+   * @param json The parsed PowerPoint JSON (namespaces stripped)
+   * @param layoutFile The slide's layout file
+   * @param masterFile The layout's master file
+   * @returns Elements with placeholder info attached
+   */
+  resolvePlaceholders(elements: NormalizedElement[], json: any, layoutFile: string | undefined, masterFile: string | null): NormalizedElement[] {
+    const layoutShapes = this.getPlaceholderShapes(layoutFile ? json[layoutFile]?.sldLayout : null);
+    const master = masterFile ? json[masterFile]?.sldMaster : null;
+    const masterShapes = this.getPlaceholderShapes(master);
+
+    return elements.filter(element => {
+      if (element.type !== 'text' && element.type !== 'shape') return true;
+      if (element.isBackgroundElement) return true;
+
+      const ph = element.nvSpPr?.nvPr?.ph;
+      if (ph === undefined || ph === null) return true;
+
+      const type = String(ph.$type ?? 'obj');
+      const idx = ph.$idx !== undefined ? Number(ph.$idx) : null;
+
+      const layoutShape = this.findPlaceholderShape(layoutShapes, type, idx, false);
+      // The layout's placeholder type is more specific than the slide's (often untyped) one
+      const inheritedType = layoutShape ? String(layoutShape.nvSpPr.nvPr.ph.$type ?? type) : type;
+      const masterShape = this.findPlaceholderShape(masterShapes, inheritedType, idx, true);
+
+      const placeholder: NormalizedPlaceholder = {
+        type,
+        idx,
+        layoutShape,
+        masterShape,
+        masterTextStyle: master?.txStyles?.[this.getMasterTextStyleName(inheritedType)] ?? null
+      };
+      element.placeholder = placeholder;
+
+      const spPr = this.ensureObject(element.spPr) || {};
+      const inheritedSpPr = this.mergeShapeProperties(
+        this.ensureObject(masterShape?.spPr) || {},
+        this.ensureObject(layoutShape?.spPr) || {}
+      );
+      element.spPr = this.mergeShapeProperties(inheritedSpPr, spPr);
+
+      if (element.type === 'shape') {
+        const hasOwnFill = ['solidFill', 'gradFill', 'blipFill', 'pattFill'].some(fill => spPr[fill] !== undefined);
+        const ln = spPr['ln'] !== undefined ? this.ensureObject(spPr['ln']) || {} : null;
+        const hasOwnOutline = ln !== null && ln['noFill'] === undefined;
+        return hasOwnFill || hasOwnOutline || this.hasTextContent(element.textBody);
+      }
+      return true;
+    });
+  }
+
+  /**
+   * Layer spPr over the spPr it inherits: each property set replaces the inherited one,
+   * a fill or geometry replaces any other kind, and ln is layered the same way
+   */
+  private mergeShapeProperties(inherited: any, own: any): any {
+    const merged = { ...inherited };
+    for (const [key, value] of Object.entries(own)) {
+      EXCLUSIVE_SHAPE_PROPERTIES.find(group => group.includes(key))?.forEach(name => delete merged[name]);
+      const inheritedLine = key === 'ln' ? this.ensureObject(merged['ln']) : null;
+      merged[key] = inheritedLine ? this.mergeShapeProperties(inheritedLine, this.ensureObject(value) || {}) : value;
+    }
+    return merged;
+  }
+
+  /**
+   * Collect the placeholder shapes of a layout or master
+   */
+  private getPlaceholderShapes(root: any): any[] {
+    const spTree = root?.cSld?.spTree;
+    if (!spTree) return [];
+    return this.ensureArray(spTree['sp']).filter(sp => {
+      const ph = sp?.nvSpPr?.nvPr?.ph;
+      return ph !== undefined && ph !== null;
+    });
+  }
+
+  /**
+   * Find the placeholder shape a slide placeholder inherits from.
+   * Layout placeholders are matched by idx, then type; master placeholders by type
+   * (ctrTitle matches title, subTitle and obj match body), then idx.
+   */
+  private findPlaceholderShape(shapes: any[], type: string, idx: number | null, isMaster: boolean): any | null {
+    const typeOf = (sp: any) => String(sp.nvSpPr.nvPr.ph.$type ?? 'obj');
+    const idxOf = (sp: any) => (sp.nvSpPr.nvPr.ph.$idx !== undefined ? Number(sp.nvSpPr.nvPr.ph.$idx) : null);
+    const masterType = (value: string) => {
+      if (value === 'ctrTitle') return 'title';
+      if (value === 'subTitle' || value === 'obj') return 'body';
+      return value;
+    };
+
+    const byIdx = () => (idx !== null ? shapes.find(sp => idxOf(sp) === idx) : undefined);
+    const byType = () => (isMaster
+      ? shapes.find(sp => masterType(typeOf(sp)) === masterType(type))
+      : shapes.find(sp => typeOf(sp) === type || (masterType(typeOf(sp)) === 'title' && masterType(type) === 'title')));
+
+    return (isMaster ? byType() ?? byIdx() : byIdx() ?? byType()) ?? null;
+  }
+
+  /**
+   * Master txStyles entry used by a placeholder type
+   */
+  private getMasterTextStyleName(type: string): 'titleStyle' | 'bodyStyle' | 'otherStyle' {
+    if (type === 'title' || type === 'ctrTitle') return 'titleStyle';
+    if (['dt', 'ftr', 'sldNum', 'hdr'].includes(type)) return 'otherStyle';
+    return 'bodyStyle';
+  }
+
   /**
    * Convert master element to slide format for consistent processing
    */
@@ -990,6 +1388,7 @@ export class PowerPointNormalizer {
           nvPicPr: data['nvPicPr'],
           blipFill: data['blipFill'],
           spPr: data['spPr'],
+          style: data['style'],
           isMasterElement: true,
           isBackgroundElement: isBackgroundElement || false,
           relationshipId: data.relationshipId
@@ -1036,7 +1435,7 @@ export class PowerPointNormalizer {
 
     for (const slide of slides) {
       // Check all element types
-      const allElements = [...slide.shapes, ...slide.text, ...slide.images];
+      const allElements = [...slide.shapes, ...slide.text, ...slide.images, ...slide.elements.filter(el => el.type === 'group')];
       
       for (const element of allElements) {
         if (!element.data || !element.spPr) continue;
@@ -1153,6 +1552,7 @@ export class PowerPointNormalizer {
       console.log('🎨 Extracted theme colors:', Object.keys(themeColors).length, 'colors');
       return {
         colors: themeColors,
+        fonts: this.extractFontScheme(themeElements.fontScheme),
         rawTheme: theme // Keep raw theme for advanced processing
       };
     } catch (error) {
@@ -1161,6 +1561,87 @@ export class PowerPointNormalizer {
     }
   }
 
+  /**
+   * Extract the theme font scheme (major fonts for headings, minor fonts for body text)
+   * @param fontScheme The a:fontScheme element
+   * @returns Font scheme or null when the theme has none
+   */
+  private extractFontScheme(fontScheme: any): ThemeFontScheme | null {
+    if (!fontScheme || typeof fontScheme !== 'object') {
+      return null;
+    }
+
+    const readFonts = (fontCollection: any): ThemeFonts => {
+      const fonts: ThemeFonts = {
+        latin: String(fontCollection?.latin?.$typeface ?? ''),
+        eastAsian: String(fontCollection?.ea?.$typeface ?? ''),
+        complexScript: String(fontCollection?.cs?.$typeface ?? '')
+      };
+      const supplemental = fontCollection?.font
+        ? (Array.isArray(fontCollection.font) ? fontCollection.font : [fontCollection.font])
+        : [];
+      const scripts = Object.fromEntries(supplemental
+        .filter((font: any) => font?.$script && font?.$typeface)
+        .map((font: any) => [String(font.$script), String(font.$typeface)]));
+      if (Object.keys(scripts).length > 0) fonts.scripts = scripts;
+      return fonts;
+    };
+
+    return {
+      name: String(fontScheme.$name ?? ''),
+      major: readFonts(fontScheme.majorFont),
+      minor: readFonts(fontScheme.minorFont)
+    };
+  }
+
+  /**
+   * Resolve the scheme color mapping of every slide, layout and master part:
+   * the master's p:clrMap, then the layout's and the slide's p:clrMapOvr.
+   * Parts whose layout or master is missing fall back to the first master.
+   * @param json The parsed PowerPoint JSON
+   * @param slideLayoutRelationships Slide file -> layout file
+   * @param layoutMasterRelationships Layout file -> master file
+   * @returns Color map (e.g. bg1 -> lt1) per part file; parts without one use the default mapping
+   */
+  extractColorMaps(
+    json: any,
+    slideLayoutRelationships: Record<string, string>,
+    layoutMasterRelationships: Record<string, string>
+  ): Record<string, Record<string, string>> {
+    const readMapping = (node: any): Record<string, string> => {
+      const mapping: Record<string, string> = {};
+      if (!node || typeof node !== 'object') return mapping;
+      for (const [key, value] of Object.entries(node)) {
+        if (key.startsWith('$') && typeof value === 'string') {
+          mapping[key.slice(1)] = value;
+        }
+      }
+      return mapping;
+    };
+    // a:masterClrMapping (or no override) keeps the inherited mapping
+    const readOverride = (clrMapOvr: any) => readMapping(clrMapOvr?.overrideClrMapping);
+
+    const files = Object.keys(json);
+    const colorMaps: Record<string, Record<string, string>> = {};
+
+    for (const file of files.filter(f => /^ppt\/slideMasters\/slideMaster\d+\.xml$/.test(f))) {
+      colorMaps[file] = readMapping(json[file]?.sldMaster?.clrMap);
+    }
+    const fallback = colorMaps['ppt/slideMasters/slideMaster1.xml'] ?? {};
+
+    for (const file of files.filter(f => /^ppt\/slideLayouts\/slideLayout\d+\.xml$/.test(f))) {
+      const inherited = colorMaps[layoutMasterRelationships[file]] ?? fallback;
+      colorMaps[file] = { ...inherited, ...readOverride(json[file]?.sldLayout?.clrMapOvr) };
+    }
+
+    for (const file of files.filter(f => /^ppt\/slides\/slide\d+\.xml$/.test(f))) {
+      const inherited = colorMaps[slideLayoutRelationships[file]] ?? fallback;
+      colorMaps[file] = { ...inherited, ...readOverride(json[file]?.sld?.clrMapOvr) };
+    }
+
+    return colorMaps;
+  }
+
   /**
    * Parse a theme color definition to hex color
    * @param colorDef Theme color definition from XML
@@ -1170,8 +1651,9 @@ export class PowerPointNormalizer {
     try {
       // Handle srgbClr (direct RGB)
       if (colorDef.srgbClr) {
-        const val = colorDef.srgbClr.$val;
-        return val && typeof val === 'string' ? `#${val.toUpperCase()}` : null;
+        // All-digit values such as "000000" are parsed as numbers
+        const color = parseHexColor(colorDef.srgbClr.$val);
+        return color ? rgbaToHex(color) : null;
       }
 
       // Handle sysClr (system colors)
@@ -8,16 +8,13 @@ import { ShapeParser } from './ShapeParser.js';
 import { ImageParser } from './ImageParser.js';
 import { TableParser } from './TableParser.js';
 import { VideoParser } from './VideoParser.js';
+import { GroupParser } from './GroupParser.js';
+import { ConnectorParser } from './ConnectorParser.js';
 import { BaseParser } from './BaseParser.js';
-import type { PowerPointComponent } from '../types/index.js';
+import { createParseContext, withColorMap, withPartRelationships, type ParseContext, type R2BucketLike } from './ParseContext.js';
+import type { PowerPointComponent, ThemeFontScheme } from '../types/index.js';
 
-import { isTextElement, isShapeElement, isImageElement, isTableElement, isVideoElement, type NormalizedTextElement, type NormalizedShapeElement, type NormalizedImageElement, type NormalizedTableElement, type NormalizedVideoElement, type MediaFiles, type RelationshipGraph, type NormalizedSlide } from '../types/normalized.js';
-
-interface R2BucketLike {
-  put?(key: string, value: any, options?: any): Promise<any> | any;
-  get?(key: string): Promise<any> | any;
-  head?(key: string): Promise<any> | any;
-}
+import { isTextElement, isShapeElement, isImageElement, isTableElement, isVideoElement, isGroupElement, isConnectorElement, type NormalizedElement, type NormalizedGroupElement, type NormalizedConnectorElement, type NormalizedTextElement, type NormalizedShapeElement, type NormalizedImageElement, type NormalizedTableElement, type NormalizedVideoElement, type NormalizedSlide } from '../types/normalized.js';
 
 interface ParseOptions {
   debug?: boolean;
@@ -71,6 +68,7 @@ interface ParsedResult {
     width: number;
     height: number;
   };
+  themeFonts: ThemeFontScheme | null;
 }
 
 export class PowerPointParser extends BaseParser {
@@ -99,8 +97,17 @@ export class PowerPointParser extends BaseParser {
         }
       }
       
-      // Set theme colors for this parsing session
-      BaseParser.setThemeColors(normalized.theme?.colors);
+      // Per-parse state shared by the component parsers
+      const context: ParseContext = createParseContext({
+        theme: normalized.theme ?? null,
+        fontScheme: normalized.theme?.fonts ?? null,
+        defaultTextStyle: normalized.defaultTextStyle ?? null,
+        relationships: normalized.relationships,
+        mediaFiles: normalized.mediaFiles,
+        slideDimensions: normalized.slideDimensions ?? null,
+        slideNumbers: normalized.slideNumbers ?? {},
+        options: { debug, r2Storage },
+      });
       
       // Step 2: Extract masters and layouts first
       const masters: Record<string, ParsedMaster> = {};
@@ -119,10 +126,6 @@ export class PowerPointParser extends BaseParser {
       if (normalized.format === 'pptx' && json) {
         const pptxParser = new (await import('../processors/PPTXParser.js')).PPTXParser();
         
-        // Use normalized relationships and media files for consistency
-        const relationships = normalized.relationships;
-        const mediaFiles = normalized.mediaFiles;
-        
         // Process masters and layouts from the normalized data
         // This way we reuse all the existing slide parsing logic
         const masterSlides = new Map<string, NormalizedSlide>();
@@ -142,6 +145,7 @@ export class PowerPointParser extends BaseParser {
         for (const [masterFile, masterSlide] of masterSlides) {
           const masterId = masterFile.replace('ppt/slideMasters/', '').replace('.xml', '');
           const masterComponents: PowerPointComponent[] = [];
+          const masterContext = withPartRelationships(withColorMap(context, normalized.colorMaps?.[masterFile]), masterFile);
           let masterBackground: PowerPointComponent | undefined;
           
           // Process master elements using existing slide logic
@@ -153,7 +157,7 @@ export class PowerPointParser extends BaseParser {
             if (element.isBackgroundElement) {
               if (debug) console.log(`🎨 Processing master background element`);
               if (isShapeElement(element)) {
-                masterBackground = await this.parseUnifiedShapeComponent(element, relationships, mediaFiles, globalComponentIndex++, 0, -2000, { debug });
+                masterBackground = await this.parseUnifiedShapeComponent(element, globalComponentIndex++, 0, -2000, masterContext);
               }
               continue;
             }
@@ -161,15 +165,15 @@ export class PowerPointParser extends BaseParser {
             let component: PowerPointComponent | null = null;
             
             if (isTextElement(element)) {
-              component = await this.parseUnifiedTextComponent(element, globalComponentIndex++, 0, element.zIndex, { debug });
+              component = await this.parseUnifiedTextComponent(element, globalComponentIndex++, 0, element.zIndex, masterContext);
             } else if (isShapeElement(element)) {
-              component = await this.parseUnifiedShapeComponent(element, relationships, mediaFiles, globalComponentIndex++, 0, element.zIndex, { debug });
+              component = await this.parseUnifiedShapeComponent(element, globalComponentIndex++, 0, element.zIndex, masterContext);
             } else if (isImageElement(element)) {
-              component = await this.parseUnifiedImageComponent(element, relationships, mediaFiles, globalComponentIndex++, 0, element.zIndex, { debug, r2Storage });
+              component = await this.parseUnifiedImageComponent(element, globalComponentIndex++, 0, element.zIndex, masterContext);
             } else if (isTableElement(element)) {
-              component = await this.parseUnifiedTableComponent(element, relationships, mediaFiles, globalComponentIndex++, 0, element.zIndex, { debug });
+              component = await this.parseUnifiedTableComponent(element, globalComponentIndex++, 0, element.zIndex, masterContext);
             } else if (isVideoElement(element)) {
-              component = await this.parseUnifiedVideoComponent(element, relationships, mediaFiles, globalComponentIndex++, 0, element.zIndex, { debug, r2Storage });
+              component = await this.parseUnifiedVideoComponent(element, globalComponentIndex++, 0, element.zIndex, masterContext);
             }
             
             if (component) {
@@ -194,6 +198,7 @@ export class PowerPointParser extends BaseParser {
         for (const [layoutFile, layoutSlide] of layoutSlides) {
           const layoutId = layoutFile.replace('ppt/slideLayouts/', '').replace('.xml', '');
           const layoutComponents: PowerPointComponent[] = [];
+          const layoutContext = withPartRelationships(withColorMap(context, normalized.colorMaps?.[layoutFile]), layoutFile);
           let layoutBackground: PowerPointComponent | undefined;
           let masterId: string | undefined;
           
@@ -213,7 +218,7 @@ export class PowerPointParser extends BaseParser {
             if (element.isBackgroundElement) {
               if (debug) console.log(`🎨 Processing layout background element`);
               if (isShapeElement(element)) {
-                layoutBackground = await this.parseUnifiedShapeComponent(element, relationships, mediaFiles, globalComponentIndex++, 0, -1000, { debug });
+                layoutBackground = await this.parseUnifiedShapeComponent(element, globalComponentIndex++, 0, -1000, layoutContext);
               }
               continue;
             }
@@ -221,15 +226,15 @@ export class PowerPointParser extends BaseParser {
             let component: PowerPointComponent | null = null;
             
             if (isTextElement(element)) {
-              component = await this.parseUnifiedTextComponent(element, globalComponentIndex++, 0, element.zIndex, { debug });
+              component = await this.parseUnifiedTextComponent(element, globalComponentIndex++, 0, element.zIndex, layoutContext);
             } else if (isShapeElement(element)) {
-              component = await this.parseUnifiedShapeComponent(element, relationships, mediaFiles, globalComponentIndex++, 0, element.zIndex, { debug });
+              component = await this.parseUnifiedShapeComponent(element, globalComponentIndex++, 0, element.zIndex, layoutContext);
             } else if (isImageElement(element)) {
-              component = await this.parseUnifiedImageComponent(element, relationships, mediaFiles, globalComponentIndex++, 0, element.zIndex, { debug, r2Storage });
+              component = await this.parseUnifiedImageComponent(element, globalComponentIndex++, 0, element.zIndex, layoutContext);
             } else if (isTableElement(element)) {
-              component = await this.parseUnifiedTableComponent(element, relationships, mediaFiles, globalComponentIndex++, 0, element.zIndex, { debug });
+              component = await this.parseUnifiedTableComponent(element, globalComponentIndex++, 0, element.zIndex, layoutContext);
             } else if (isVideoElement(element)) {
-              component = await this.parseUnifiedVideoComponent(element, relationships, mediaFiles, globalComponentIndex++, 0, element.zIndex, { debug, r2Storage });
+              component = await this.parseUnifiedVideoComponent(element, globalComponentIndex++, 0, element.zIndex, layoutContext);
             }
             
             if (component) {
@@ -268,6 +273,8 @@ export class PowerPointParser extends BaseParser {
         let slideBackground: PowerPointComponent | undefined;
         const layoutId = slide.layoutFile ? slide.layoutFile.replace('ppt/slideLayouts/', '').replace('.xml', '') : undefined;
         let localComponentIndex = 0;
+        // The slide's color map applies to the layout and master elements drawn on it too
+        const slideColorContext = withColorMap(context, normalized.colorMaps?.[slide.slideFile]);
         
         // Note: Slide backgrounds are already extracted during normalization as elements with isBackgroundElement=true
         
@@ -275,6 +282,12 @@ export class PowerPointParser extends BaseParser {
         if (slide.elements && slide.elements.length > 0) {
           // Use ordered elements to preserve z-index
           for (const element of slide.elements) {
+            // Relationship ids resolve against the part the element comes from
+            const elementContext = withPartRelationships(
+              slideColorContext,
+              element.isMasterElement ? slide.masterFile : element.isLayoutElement ? slide.layoutFile : slide.slideFile
+            );
+
             // Skip master and layout backgrounds - they're now in separate definitions
             if (element.isBackgroundElement && (element.isMasterElement || element.isLayoutElement)) {
               continue;
@@ -282,7 +295,7 @@ export class PowerPointParser extends BaseParser {
             
             // Handle slide-specific background
             if (element.isBackgroundElement && !element.isMasterElement && !element.isLayoutElement) {
-              const bgComponent = await this.parseElementToComponent(element, normalized.relationships, normalized.mediaFiles, globalComponentIndex++, slideNumber - 1, -500, { debug, r2Storage });
+              const bgComponent = await this.parseElementToComponent(element, globalComponentIndex++, slideNumber - 1, -500, elementContext);
               if (bgComponent) {
                 slideBackground = bgComponent;
                 slideComponents.push(bgComponent);
@@ -299,47 +312,55 @@ export class PowerPointParser extends BaseParser {
                 globalComponentIndex++,
                 slideNumber - 1,
                 element.zIndex,
-                { debug }
+                elementContext
               );
             } else if (isShapeElement(element)) {
               component = await this.parseUnifiedShapeComponent(
                 element,
-                normalized.relationships,
-                normalized.mediaFiles,
                 globalComponentIndex++,
                 slideNumber - 1, // relationships index
                 element.zIndex,
-                { debug }
+                elementContext
               );
             } else if (isImageElement(element)) {
               component = await this.parseUnifiedImageComponent(
                 element,
-                normalized.relationships,
-                normalized.mediaFiles,
                 globalComponentIndex++,
                 slideNumber - 1, // relationships index
                 element.zIndex,
-                { debug, r2Storage }
+                elementContext
               );
             } else if (isTableElement(element)) {
               component = await this.parseUnifiedTableComponent(
                 element,
-                normalized.relationships,
-                normalized.mediaFiles,
                 globalComponentIndex++,
                 slideNumber - 1,
                 element.zIndex,
-                { debug }
+                elementContext
               );
             } else if (isVideoElement(element)) {
               component = await this.parseUnifiedVideoComponent(
                 element,
-                normalized.relationships,
-                normalized.mediaFiles,
                 globalComponentIndex++,
                 slideNumber - 1,
                 element.zIndex,
-                { debug, r2Storage }
+                elementContext
+              );
+            } else if (isGroupElement(element)) {
+              component = await this.parseUnifiedGroupComponent(
+                element,
+                () => globalComponentIndex++,
+                slideNumber - 1,
+                element.zIndex,
+                elementContext
+              );
+            } else if (isConnectorElement(element)) {
+              component = await this.parseUnifiedConnectorComponent(
+                element,
+                globalComponentIndex++,
+                slideNumber - 1,
+                element.zIndex,
+                elementContext
               );
             }
             
@@ -361,6 +382,7 @@ export class PowerPointParser extends BaseParser {
           }
         } else {
           // Fallback to old method if ordered elements not available
+          const slideContext = withPartRelationships(slideColorContext, slide.slideFile);
           // Process text components
           for (const textComponent of slide.text) {
             const component = await this.parseUnifiedTextComponent(
@@ -368,7 +390,7 @@ export class PowerPointParser extends BaseParser {
               globalComponentIndex++,
               slideNumber,
               localComponentIndex, // fallback zIndex based on order
-              { debug }
+              slideContext
             );
             if (component) {
               slideComponents.push(component);
@@ -381,12 +403,10 @@ export class PowerPointParser extends BaseParser {
           for (const shapeComponent of slide.shapes) {
             const component = await this.parseUnifiedShapeComponent(
               shapeComponent,
-              normalized.relationships,
-              normalized.mediaFiles, 
               globalComponentIndex++,
               slideNumber - 1, // relationships index for media lookup
               localComponentIndex,
-              { debug }
+              slideContext
             );
             if (component) {
               slideComponents.push(component);
@@ -399,12 +419,10 @@ export class PowerPointParser extends BaseParser {
           for (const imageComponent of slide.images) {
             const component = await this.parseUnifiedImageComponent(
               imageComponent,
-              normalized.relationships,
-              normalized.mediaFiles,
               globalComponentIndex++,
               slideNumber - 1,
               localComponentIndex,
-              { debug, r2Storage }
+              slideContext
             );
             if (component) {
               slideComponents.push(component);
@@ -418,12 +436,10 @@ export class PowerPointParser extends BaseParser {
           for (const videoComponent of slide.videos) {
             const component = await this.parseUnifiedVideoComponent(
               videoComponent,
-              normalized.relationships,
-              normalized.mediaFiles,
               globalComponentIndex++,
               slideNumber - 1,
               localComponentIndex,
-              { debug, r2Storage }
+              slideContext
             );
             if (component) {
               slideComponents.push(component);
@@ -473,21 +489,17 @@ export class PowerPointParser extends BaseParser {
         }
       }
 
-      // Clear theme colors after parsing
-      BaseParser.clearThemeColors();
-
       return {
         slides,
         masters,
         layouts,
         totalComponents: components.length,
         format: normalized.format,
-        slideDimensions: normalized.slideDimensions
+        slideDimensions: normalized.slideDimensions,
+        themeFonts: context.fontScheme
       };
 
     } catch (error) {
-      // Clear theme colors on error too
-      BaseParser.clearThemeColors();
       console.error('❌ Error processing PowerPoint JSON:', error);
       throw error;
     }
@@ -498,14 +510,12 @@ export class PowerPointParser extends BaseParser {
    */
   private async parseElementToComponent(
     element: any,
-    relationships: RelationshipGraph,
-    mediaFiles: MediaFiles,
     componentIndex: number,
     slideIndex: number,
     zIndex: number,
-    options: { debug?: boolean; r2Storage?: R2BucketLike | null } = {}
+    context: ParseContext
   ): Promise<PowerPointComponent | null> {
-    const { debug = false, r2Storage = null } = options;
+    const { debug } = context.options;
     
     if (debug) {
       console.warn(`🔧 parseElementToComponent called with element.type: ${element.type}`);
@@ -545,47 +555,39 @@ export class PowerPointParser extends BaseParser {
         componentIndex,
         slideIndex,
         zIndex,
-        { debug }
+        context
       );
     } else if (element.type === 'shape' && isShapeElement(normalizedElement)) {
       return await this.parseUnifiedShapeComponent(
         normalizedElement,
-        relationships,
-        mediaFiles,
         componentIndex,
         slideIndex,
         zIndex,
-        { debug }
+        context
       );
     } else if (element.type === 'image' && isImageElement(normalizedElement)) {
       return await this.parseUnifiedImageComponent(
         normalizedElement,
-        relationships,
-        mediaFiles,
         componentIndex,
         slideIndex,
         zIndex,
-        { debug, r2Storage }
+        context
       );
     } else if (element.type === 'table' && isTableElement(normalizedElement)) {
       return await this.parseUnifiedTableComponent(
         normalizedElement,
-        relationships,
-        mediaFiles,
         componentIndex,
         slideIndex,
         zIndex,
-        { debug }
+        context
       );
     } else if (element.type === 'video' && isVideoElement(normalizedElement)) {
       return await this.parseUnifiedVideoComponent(
         normalizedElement,
-        relationships,
-        mediaFiles,
         componentIndex,
         slideIndex,
         zIndex,
-        { debug, r2Storage }
+        context
       );
     }
     
@@ -607,11 +609,11 @@ export class PowerPointParser extends BaseParser {
     componentIndex: number,
     slideIndex: number,
     zIndex: number,
-    options: { debug?: boolean } = {}
+    context: ParseContext
   ): Promise<PowerPointComponent | null> {
-    const { debug = false } = options;
+    const { debug } = context.options;
     try {
-      return await TextParser.parseFromNormalized(textComponent, componentIndex, slideIndex, zIndex);
+      return await TextParser.parseFromNormalized(textComponent, componentIndex, slideIndex, zIndex, context);
     } catch (error) {
       if (debug) console.warn(`⚠️ Failed to parse text component:`, error);
       return null;
@@ -623,16 +625,14 @@ export class PowerPointParser extends BaseParser {
    */
   private async parseUnifiedShapeComponent(
     shapeComponent: NormalizedShapeElement,
-    _relationships: RelationshipGraph,
-    _mediaFiles: MediaFiles,
     componentIndex: number,
     relSlideIndex: number,
     zIndex: number,
-    options: { debug?: boolean } = {}
+    context: ParseContext
   ): Promise<PowerPointComponent | null> {
-    const { debug = false } = options;
+    const { debug } = context.options;
     try {
-      return await ShapeParser.parseFromNormalized(shapeComponent, componentIndex, relSlideIndex, zIndex);
+      return await ShapeParser.parseFromNormalized(shapeComponent, componentIndex, relSlideIndex, zIndex, context);
     } catch (error) {
       if (debug) console.warn(`⚠️ Failed to parse shape component:`, error);
       return null;
@@ -644,16 +644,14 @@ export class PowerPointParser extends BaseParser {
    */
   private async parseUnifiedImageComponent(
     imageComponent: NormalizedImageElement,
-    relationships: RelationshipGraph,
-    mediaFiles: MediaFiles,
     componentIndex: number,
     relSlideIndex: number,
     zIndex: number,
-    options: { debug?: boolean; r2Storage?: R2BucketLike | null } = {}
+    context: ParseContext
   ): Promise<PowerPointComponent | null> {
-    const { debug = false, r2Storage = null } = options;
+    const { debug } = context.options;
     try {
-      return await ImageParser.parseFromNormalized(imageComponent, relationships, mediaFiles, componentIndex, relSlideIndex, zIndex, r2Storage);
+      return await ImageParser.parseFromNormalized(imageComponent, componentIndex, relSlideIndex, zIndex, context);
     } catch (error) {
       if (debug) console.warn(`⚠️ Failed to parse image component:`, error);
       return null;
@@ -665,16 +663,14 @@ export class PowerPointParser extends BaseParser {
    */
   private async parseUnifiedTableComponent(
     tableComponent: NormalizedTableElement,
-    _relationships: RelationshipGraph,
-    _mediaFiles: MediaFiles,
     componentIndex: number,
     relSlideIndex: number,
     zIndex: number,
-    options: { debug?: boolean } = {}
+    context: ParseContext
   ): Promise<PowerPointComponent | null> {
-    const { debug = false } = options;
+    const { debug } = context.options;
     try {
-      return await TableParser.parseFromNormalized(tableComponent, componentIndex, relSlideIndex, zIndex);
+      return await TableParser.parseFromNormalized(tableComponent, componentIndex, relSlideIndex, zIndex, context);
     } catch (error) {
       if (debug) console.warn(`⚠️ Failed to parse table component:`, error);
       return null;
@@ -686,19 +682,95 @@ export class PowerPointParser extends BaseParser {
    */
   private async parseUnifiedVideoComponent(
     videoComponent: NormalizedVideoElement, 
-    _relationships: RelationshipGraph,
-    _mediaFiles: MediaFiles,
     componentIndex: number, 
     relSlideIndex: number, 
     zIndex: number,
-    options: { debug?: boolean; r2Storage?: R2BucketLike | null } = {}
+    context: ParseContext
   ): Promise<PowerPointComponent | null> {
-    const { debug = false, r2Storage = null } = options;
+    const { debug } = context.options;
     try {
-      return await VideoParser.parseFromNormalized(videoComponent, _relationships, _mediaFiles, componentIndex, relSlideIndex, zIndex, r2Storage);
+      return await VideoParser.parseFromNormalized(videoComponent, componentIndex, relSlideIndex, zIndex, context);
     } catch (error) {
       if (debug) console.warn(`⚠️ Failed to parse video component:`, error);
       return null;
     }
   }
-}
\ No newline at end of file
+  
+  /**
+   * Parse unified connector component from normalized data
+   */
+  private async parseUnifiedConnectorComponent(
+    connectorComponent: NormalizedConnectorElement,
+    componentIndex: number,
+    relSlideIndex: number,
+    zIndex: number,
+    context: ParseContext
+  ): Promise<PowerPointComponent | null> {
+    const { debug } = context.options;
+    try {
+      return await ConnectorParser.parseFromNormalized(connectorComponent, componentIndex, relSlideIndex, zIndex, context);
+    } catch (error) {
+      if (debug) console.warn(`⚠️ Failed to parse connector component:`, error);
+      return null;
+    }
+  }  
+  /**
+   * Parse unified group component from normalized data
+   * Each child is dispatched to its own parser; nested groups recurse.
+   */
+  private async parseUnifiedGroupComponent(
+    groupComponent: NormalizedGroupElement,
+    nextComponentIndex: () => number,
+    relSlideIndex: number,
+    zIndex: number,
+    context: ParseContext
+  ): Promise<PowerPointComponent | null> {
+    const { debug } = context.options;
+    try {
+      const componentIndex = nextComponentIndex();
+      const children: PowerPointComponent[] = [];
+      
+      for (const child of groupComponent.children) {
+        const component = await this.parseGroupChild(child, nextComponentIndex, relSlideIndex, context);
+        if (component) {
+          children.push(component);
+        }
+      }
+      
+      return await GroupParser.parseFromNormalized(groupComponent, children, componentIndex, relSlideIndex, zIndex, context);
+    } catch (error) {
+      if (debug) console.warn(`⚠️ Failed to parse group component:`, error);
+      return null;
+    }
+  }
+  
+  /**
+   * Dispatch a group child element to the matching unified parser
+   */
+  private async parseGroupChild(
+    element: NormalizedElement,
+    nextComponentIndex: () => number,
+    relSlideIndex: number,
+    context: ParseContext
+  ): Promise<PowerPointComponent | null> {
+    const { debug } = context.options;
+    
+    if (isTextElement(element)) {
+      return await this.parseUnifiedTextComponent(element, nextComponentIndex(), relSlideIndex, element.zIndex, context);
+    } else if (isShapeElement(element)) {
+      return await this.parseUnifiedShapeComponent(element, nextComponentIndex(), relSlideIndex, element.zIndex, context);
+    } else if (isImageElement(element)) {
+      return await this.parseUnifiedImageComponent(element, nextComponentIndex(), relSlideIndex, element.zIndex, context);
+    } else if (isTableElement(element)) {
+      return await this.parseUnifiedTableComponent(element, nextComponentIndex(), relSlideIndex, element.zIndex, context);
+    } else if (isVideoElement(element)) {
+      return await this.parseUnifiedVideoComponent(element, nextComponentIndex(), relSlideIndex, element.zIndex, context);
+    } else if (isGroupElement(element)) {
+      return await this.parseUnifiedGroupComponent(element, nextComponentIndex, relSlideIndex, element.zIndex, context);
+    } else if (isConnectorElement(element)) {
+      return await this.parseUnifiedConnectorComponent(element, nextComponentIndex(), relSlideIndex, element.zIndex, context);
+    }
+    
+    return null;
+  }
+}
@@ -1,16 +1,30 @@
 /**
- * Shape component parser for PowerPoint shapes without text content
+ * Shape component parser for PowerPoint shapes (with their text label, if any)
  */
 
 import { BaseParser } from "./BaseParser.js";
+import { TextParser } from "./TextParser.js";
+import { createParseContext, type ParseContext } from "./ParseContext.js";
 import { emuToPixels } from "../utils/constants.js";
+import {
+  createGuideValues,
+  evaluateGuides,
+  readGuideList,
+} from "../utils/shapeGuides.js";
+import { buildGeometryPath, readPathCommands } from "../utils/geometryPaths.js";
+import { evaluatePresetGeometry } from "../utils/presetGeometry.js";
 import {
   XMLNode,
   ShapeComponent,
   NormalizedShapeComponent,
   FillInfo,
+  GradientInfo,
+  GradientStop,
+  PatternFillInfo,
+  PictureFillInfo,
   BorderInfo,
   GeometryInfo,
+  GeometryPath,
   EffectsInfo,
 } from "../types/index.js";
 
@@ -20,6 +34,8 @@ export class ShapeParser extends BaseParser {
    * @param shapeComponent - Normalized shape component
    * @param componentIndex - Component index
    * @param slideIndex - Slide index
+   * @param zIndex - Z-order index
+   * @param context - Parse context (theme, relationships and media for picture fills)
    * @returns Parsed shape component
    */
   static async parseFromNormalized(
@@ -27,8 +43,9 @@ export class ShapeParser extends BaseParser {
     componentIndex: number,
     slideIndex: number,
     zIndex: number,
+    context: ParseContext = createParseContext(),
   ): Promise<ShapeComponent | null> {
-    const { spPr, nvSpPr, namespace, style } = shapeComponent;
+    const { spPr, nvSpPr, namespace, style, textBody, placeholder } = shapeComponent;
 
     if (!spPr) {
       throw new Error("No spPr found in normalized shape component");
@@ -51,16 +68,24 @@ export class ShapeParser extends BaseParser {
       "cNvPr.$name",
       `shape-${componentIndex}`,
     );
+    const link = BaseParser.parseHyperlink(BaseParser.getNode(nvSpPr, "cNvPr.hlinkClick"), slideIndex, context);
+    const drawingId = BaseParser.getString(nvSpPr, "cNvPr.$id", "");
 
     // Parse styling from spPr and style data
-    const fill = ShapeParser.parseFill(spPr, style || null);
-    const border = ShapeParser.parseBorder(spPr, style || null);
+    const fill = ShapeParser.parseFill(spPr, style || null, context);
+    if (fill.picture) {
+      await ShapeParser.resolvePictureFill(fill.picture, slideIndex, context);
+    }
+    const border = ShapeParser.parseBorder(spPr, style || null, context);
     const effects = ShapeParser.parseEffects(spPr);
 
+    // Text typed into the shape becomes its label
+    const label = TextParser.parseShapeText(textBody, placeholder, style, slideIndex, context);
+
     return {
       id: componentName,
       type: "shape",
-      content: `${shapeType} shape`,
+      content: label?.content ?? `${shapeType} shape`,
       x: transform.x,
       y: transform.y,
       width: transform.width,
@@ -68,25 +93,33 @@ export class ShapeParser extends BaseParser {
       rotation: transform.rotation || 0,
       slideIndex,
       zIndex,
+      ...(link && { link }),
+      ...(drawingId && { drawingId }),
       style: {
         fillColor: fill.color,
         borderColor: border.color,
         borderWidth: border.width,
         borderStyle: border.style,
         fillOpacity: fill.opacity,
+        ...(fill.gradient && { fillGradient: fill.gradient }),
+        ...(fill.pattern && { fillPattern: fill.pattern }),
+        ...(fill.picture && { fillPicture: fill.picture }),
         rotation: transform.rotation || 0,
+        ...(label && { color: label.color }),
         ...effects,
       },
       shapeType: geometry.type,
       geometry: geometry,
+      ...(label && { richText: label.richText, bodyProperties: label.bodyProperties }),
+      ...(label?.lang && { lang: label.lang }),
       metadata: {
         namespace,
-        geometry,
         originalFormat: "normalized",
         shapeType: geometry.type,
         hasEffects: effects.effects.length > 0,
         hasFill: !!fill.color,
         hasBorder: border.type !== "none",
+        hasText: !!label,
       },
     };
   }
@@ -100,10 +133,16 @@ export class ShapeParser extends BaseParser {
     const prstGeom = BaseParser.getNode(spPr, "prstGeom");
     if (prstGeom) {
       const preset = BaseParser.getString(prstGeom, "$prst", "rect");
+      const paths = this.parsePresetGeometry(
+        preset,
+        prstGeom,
+        BaseParser.getNode(spPr, "xfrm"),
+      );
       return {
         type: this.getShapeTypeName(preset),
         preset: preset,
         isCustom: false,
+        ...(paths && { paths }),
       };
     }
 
@@ -113,7 +152,10 @@ export class ShapeParser extends BaseParser {
         type: "custom",
         preset: null,
         isCustom: true,
-        paths: this.parseCustomGeometry(custGeom),
+        paths: this.parseCustomGeometry(
+          custGeom,
+          BaseParser.getNode(spPr, "xfrm"),
+        ),
       };
     }
 
@@ -214,33 +256,36 @@ export class ShapeParser extends BaseParser {
    * Parse fill properties
    * @param spPr - Shape properties
    * @param style - Style properties (optional)
+   * @param context - Parse context used to resolve theme colors
    * @returns fill information
    */
-  static parseFill(spPr: XMLNode, style: XMLNode | null = null): FillInfo {
+  static parseFill(spPr: XMLNode, style: XMLNode | null = null, context?: ParseContext): FillInfo {
     const solidFill = BaseParser.getNode(spPr, "solidFill");
     if (solidFill) {
       return {
         type: "solid",
-        color: this.parseColor(solidFill),
-        opacity: this.parseOpacity(solidFill),
+        color: this.parseColor(solidFill, context),
+        opacity: this.parseOpacity(solidFill, context),
       };
     }
 
     const gradFill = BaseParser.getNode(spPr, "gradFill");
     if (gradFill) {
-      return this.parseGradientFill(gradFill);
+      return this.parseGradientFill(gradFill, context);
+    }
+
+    const blipFill = BaseParser.getNode(spPr, "blipFill");
+    if (blipFill) {
+      return this.parsePictureFill(blipFill);
     }
 
     const pattFill = BaseParser.getNode(spPr, "pattFill");
     if (pattFill) {
-      return {
-        type: "pattern",
-        color: this.parseColor(pattFill),
-        opacity: 1,
-      };
+      return this.parsePatternFill(pattFill, context);
     }
 
-    if (BaseParser.getNode(spPr, "noFill")) {
+    // <a:noFill/> parses to an empty string, so check for presence rather than a node
+    if (BaseParser.safeGet(spPr, "noFill") !== null) {
       return {
         type: "none",
         color: "transparent",
@@ -249,7 +294,7 @@ export class ShapeParser extends BaseParser {
     }
 
     if (style) {
-      const styleFill = this.parseFillFromStyle(style);
+      const styleFill = this.parseFillFromStyle(style, context);
       if (styleFill) return styleFill;
     }
 
@@ -264,13 +309,22 @@ export class ShapeParser extends BaseParser {
    * Parse border/line properties
    * @param spPr - Shape properties
    * @param style - Style properties (optional)
+   * @param context - Parse context used to resolve theme colors
    * @returns border information
    */
-  static parseBorder(spPr: XMLNode, style: XMLNode | null = null): BorderInfo {
+  static parseBorder(spPr: XMLNode, style: XMLNode | null = null, context?: ParseContext): BorderInfo {
     const ln = BaseParser.getNode(spPr, "ln");
+    if (ln && BaseParser.safeGet(ln, "noFill") !== null) {
+      return {
+        type: "none",
+        color: "transparent",
+        width: 0,
+        style: "none",
+      };
+    }
     if (!ln) {
       if (style) {
-        const styleBorder = this.parseBorderFromStyle(style);
+        const styleBorder = this.parseBorderFromStyle(style, context);
         if (styleBorder) return styleBorder;
       }
       return {
@@ -281,14 +335,16 @@ export class ShapeParser extends BaseParser {
       };
     }
 
-    const width = ln.$ && ln.$w ? emuToPixels(parseInt(ln.$w)) : 1;
-    const compound = (ln.$ && ln.$cmpd) || "sng";
-    const cap = (ln.$ && ln.$cap) || "flat";
+    const lineWidth = BaseParser.getNumber(ln, "$w", 0);
+    // Hairlines round to 0px, so keep at least 1px
+    const width = lineWidth ? Math.max(1, emuToPixels(lineWidth)) : 1;
+    const compound = BaseParser.getString(ln, "$cmpd", "sng");
+    const cap = BaseParser.getString(ln, "$cap", "flat");
 
     let color = "#000000";
     const solidFill = BaseParser.getNode(ln, "solidFill");
     if (solidFill) {
-      color = this.parseColor(solidFill);
+      color = this.parseColor(solidFill, context);
     }
 
     const dashStyle = this.parseDashStyle(ln);
@@ -334,36 +390,135 @@ export class ShapeParser extends BaseParser {
   /**
    * Parse gradient fill
    * @param gradFill - Gradient fill properties
-   * @returns gradient information
+   * @param context - Parse context used to resolve theme colors
+   * @returns gradient information; color/opacity carry the first stop as a flat fallback
    */
-  static parseGradientFill(gradFill: XMLNode): FillInfo {
-    const gradientStops = BaseParser.getArray(gradFill, "gsLst.gs", []);
-    if (gradientStops.length > 0) {
-      const firstStop = gradientStops[0];
-      const solidFill = BaseParser.getNode(firstStop, "solidFill");
-      if (solidFill) {
-        return {
-          type: "gradient",
-          color: this.parseColor(solidFill),
-          opacity: this.parseOpacity(solidFill),
-        };
-      }
+  static parseGradientFill(gradFill: XMLNode, context?: ParseContext): FillInfo {
+    const stops: GradientStop[] = BaseParser.getArray(gradFill, "gsLst.gs", [])
+      .filter((gs) => gs && typeof gs === "object")
+      .map((gs) => ({
+        position: Math.min(1, Math.max(0, BaseParser.getNumber(gs, "$pos", 0) / 100000)),
+        color: this.parseColor(gs, context),
+        opacity: this.parseOpacity(gs, context),
+      }))
+      .sort((a, b) => a.position - b.position);
+
+    if (stops.length === 0) {
+      return {
+        type: "gradient",
+        color: "#FFFFFF",
+        opacity: 1,
+      };
+    }
+
+    const path = BaseParser.getNode(gradFill, "path");
+    const pathType = BaseParser.getString(path, "$path", "circle");
+    const gradient: GradientInfo = {
+      type: path ? (pathType === "rect" || pathType === "shape" ? pathType : "circle") : "linear",
+      angle: BaseParser.getNumber(gradFill, "lin.$ang", 0) / 60000,
+      scaled: BaseParser.getBoolean(gradFill, "lin.$scaled", false),
+      stops,
+      rotateWithShape: BaseParser.getBoolean(gradFill, "$rotWithShape", true),
+    };
+
+    const fillToRect = BaseParser.parseRelativeRect(BaseParser.getNode(path, "fillToRect"));
+    if (fillToRect) {
+      gradient.fillToRect = fillToRect;
     }
 
     return {
       type: "gradient",
-      color: "#FFFFFF",
-      opacity: 1,
+      color: stops[0].color,
+      opacity: stops[0].opacity,
+      gradient,
+    };
+  }
+
+  /**
+   * Parse pattern fill
+   * @param pattFill - Pattern fill properties
+   * @param context - Parse context used to resolve theme colors
+   * @returns pattern information; color/opacity carry the foreground as a flat fallback
+   */
+  static parsePatternFill(pattFill: XMLNode, context?: ParseContext): FillInfo {
+    const fgClr = BaseParser.getNode(pattFill, "fgClr");
+    const bgClr = BaseParser.getNode(pattFill, "bgClr");
+
+    // Without color elements the pattern is black on white
+    const pattern: PatternFillInfo = {
+      preset: BaseParser.getString(pattFill, "$prst", "pct5"),
+      foregroundColor: fgClr ? this.parseColor(fgClr, context) : "#000000",
+      foregroundOpacity: fgClr ? this.parseOpacity(fgClr, context) : 1,
+      backgroundColor: bgClr ? this.parseColor(bgClr, context) : "#FFFFFF",
+      backgroundOpacity: bgClr ? this.parseOpacity(bgClr, context) : 1,
+    };
+
+    return {
+      type: "pattern",
+      color: pattern.foregroundColor,
+      opacity: pattern.foregroundOpacity,
+      pattern,
     };
   }
 
+  /**
+   * Parse picture fill
+   * The image itself is resolved separately (see resolvePictureFill), as it needs the media files.
+   * @param blipFill - Blip fill properties
+   * @returns picture information
+   */
+  static parsePictureFill(blipFill: XMLNode): FillInfo {
+    const alphaModFix = BaseParser.getNumber(blipFill, "blip.alphaModFix.$amt", 100000);
+    const picture: PictureFillInfo = {
+      relationshipId: BaseParser.getString(blipFill, "blip.embed", ""),
+      url: null,
+      imageType: "unknown",
+      opacity: alphaModFix / 100000,
+      ...BaseParser.parseBlipFillMode(blipFill),
+    };
+
+    return {
+      type: "picture",
+      color: "transparent",
+      opacity: picture.opacity,
+      picture,
+    };
+  }
+
+  /**
+   * Resolve a picture fill's image through the media pipeline
+   * @param picture - Parsed picture fill (updated in place)
+   * @param slideIndex - Slide index for slide-scoped relationship lookup
+   * @param context - Parse context supplying relationships, media files and R2 storage
+   */
+  static async resolvePictureFill(
+    picture: PictureFillInfo,
+    slideIndex: number,
+    context: ParseContext,
+  ): Promise<void> {
+    if (!picture.relationshipId) return;
+
+    // Imported on use: ImageParser reads picture geometry and outlines through ShapeParser
+    const { ImageParser } = await import("./ImageParser.js");
+    const imageInfo = await ImageParser.getImageInfo(
+      picture.relationshipId,
+      context.relationships,
+      context.mediaFiles,
+      slideIndex,
+      context.options.r2Storage,
+    );
+    picture.url = imageInfo.url;
+    picture.imageType = imageInfo.type;
+  }
+
   /**
    * Parse opacity from fill properties
-   * @param fill - Fill properties
+   * @param fill - Fill properties (color alpha transforms)
+   * @param context - Parse context used to resolve theme colors
    * @returns opacity (0-1)
    */
-  static parseOpacity(fill: XMLNode): number {
-    return 1;
+  static parseOpacity(fill: XMLNode, context?: ParseContext): number {
+    return this.parseColorRGBA(fill, context).a;
   }
 
   /**
@@ -395,42 +550,96 @@ export class ShapeParser extends BaseParser {
     return effects;
   }
 
+  /**
+   * Parse preset geometry paths
+   * The preset's definition is evaluated with the shape's avLst adjust values.
+   * @param preset - Preset name (prstGeom prst)
+   * @param prstGeom - Preset geometry
+   * @param xfrm - Shape transform (size and flips)
+   * @returns normalized paths in shape-local pixels, or null for unknown presets
+   */
+  static parsePresetGeometry(
+    preset: string,
+    prstGeom: XMLNode,
+    xfrm: XMLNode | null = null,
+  ): GeometryPath[] | null {
+    const widthEmu = BaseParser.getNumber(xfrm, "ext.$cx", 0);
+    const heightEmu = BaseParser.getNumber(xfrm, "ext.$cy", 0);
+    return evaluatePresetGeometry(preset, {
+      widthEmu,
+      heightEmu,
+      width: emuToPixels(widthEmu),
+      height: emuToPixels(heightEmu),
+      adjustValues: readGuideList(BaseParser.getNode(prstGeom, "avLst")),
+      flipH: BaseParser.isFlagSet(xfrm?.$flipH),
+      flipV: BaseParser.isFlagSet(xfrm?.$flipV),
+    });
+  }
+
   /**
    * Parse custom geometry paths
+   * Guides (avLst/gdLst) are evaluated in the shape's EMU space; each path is
+   * scaled from its own coordinate space (w/h) to the shape's pixel size.
    * @param custGeom - Custom geometry
-   * @returns simplified path information
+   * @param xfrm - Shape transform (size and flips)
+   * @returns normalized paths in shape-local pixels
    */
-  static parseCustomGeometry(custGeom: XMLNode): any[] {
-    return [];
+  static parseCustomGeometry(
+    custGeom: XMLNode,
+    xfrm: XMLNode | null = null,
+  ): GeometryPath[] {
+    const widthEmu = BaseParser.getNumber(xfrm, "ext.$cx", 0);
+    const heightEmu = BaseParser.getNumber(xfrm, "ext.$cy", 0);
+
+    const guides = evaluateGuides(
+      [
+        ...readGuideList(BaseParser.getNode(custGeom, "avLst")),
+        ...readGuideList(BaseParser.getNode(custGeom, "gdLst")),
+      ],
+      createGuideValues(widthEmu, heightEmu),
+    );
+
+    return BaseParser.getArray(custGeom, "pathLst.path")
+      .filter((path) => path && typeof path === "object")
+      .map((path) =>
+        buildGeometryPath(path, readPathCommands(path), guides, {
+          width: emuToPixels(widthEmu),
+          height: emuToPixels(heightEmu),
+          defaultPathWidth: widthEmu,
+          defaultPathHeight: heightEmu,
+          flipH: BaseParser.isFlagSet(xfrm?.$flipH),
+          flipV: BaseParser.isFlagSet(xfrm?.$flipV),
+        }),
+      );
   }
 
   /**
    * Parse fill properties from style element
    * @param style - Style properties
-   * @param themeColors - Optional theme colors
+   * @param context - Parse context used to resolve theme colors
    * @returns fill information or null
    */
-  static parseFillFromStyle(style: XMLNode): FillInfo | null {
+  static parseFillFromStyle(style: XMLNode, context?: ParseContext): FillInfo | null {
     const fillRef = BaseParser.getNode(style, "fillRef");
     if (fillRef) {
       const schemeClr = BaseParser.getNode(fillRef, "schemeClr");
       const srgbClr = BaseParser.getNode(fillRef, "srgbClr");
 
-      if (srgbClr && (srgbClr as any).$val) {
+      if (srgbClr && (srgbClr as any).$val !== undefined) {
         return {
           type: "solid",
-          color: "#" + (srgbClr as any).$val,
-          opacity: 1,
+          color: BaseParser.parseColor({ srgbClr }, context),
+          opacity: this.parseOpacity({ srgbClr }, context),
         };
       }
 
       if (schemeClr && (schemeClr as any).$val) {
-        const color = BaseParser.parseColor({ schemeClr });
+        const color = BaseParser.parseColor({ schemeClr }, context);
         if (color && color !== "#000000") { // Don't use default fallback color
           return {
             type: "solid",
             color: color,
-            opacity: 1,
+            opacity: this.parseOpacity({ schemeClr }, context),
           };
         }
       }
@@ -442,18 +651,19 @@ export class ShapeParser extends BaseParser {
   /**
    * Parse border properties from style element
    * @param style - Style properties
+   * @param context - Parse context used to resolve theme colors
    * @returns border information or null
    */
-  static parseBorderFromStyle(style: XMLNode): BorderInfo | null {
+  static parseBorderFromStyle(style: XMLNode, context?: ParseContext): BorderInfo | null {
     const lnRef = BaseParser.getNode(style, "lnRef");
     if (lnRef) {
       const schemeClr = BaseParser.getNode(lnRef, "schemeClr");
       const srgbClr = BaseParser.getNode(lnRef, "srgbClr");
 
-      if (srgbClr && (srgbClr as any).$val) {
+      if (srgbClr && (srgbClr as any).$val !== undefined) {
         return {
           type: "solid",
-            color: "#" + (srgbClr as any).$val,
+            color: BaseParser.parseColor({ srgbClr }, context),
             width: 1,
             style: "solid",
         };
@@ -481,25 +691,4 @@ export class ShapeParser extends BaseParser {
     return null;
   }
 
-  /**
-   * Apply shade to a color (makes it darker)
-   * @param color - Hex color (e.g., '#4472C4')
-   * @param shadeVal - Shade value (percentage, e.g., 50000 = 50%)
-   * @returns modified hex color
-   */
-  static applyShade(color: string, shadeVal: number): string {
-    if (!color || !color.startsWith("#")) return color;
-    const shadePercent = Math.min(100, Math.max(0, shadeVal / 1000)) / 100;
-    const hex = color.slice(1);
-    const r = parseInt(hex.substring(0, 2), 16);
-    const g = parseInt(hex.substring(2, 4), 16);
-    const b = parseInt(hex.substring(4, 6), 16);
-    const shadedR = Math.round(r * (1 - shadePercent));
-    const shadedG = Math.round(g * (1 - shadePercent));
-    const shadedB = Math.round(b * (1 - shadePercent));
-    const toHex = (n: number) =>
-      Math.max(0, Math.min(255, n)).toString(16).padStart(2, "0");
-    return `#${toHex(shadedR)}${toHex(shadedG)}${toHex(shadedB)}`.toUpperCase();
-  }
-
 }
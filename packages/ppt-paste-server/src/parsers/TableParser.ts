@@ -3,31 +3,72 @@
  */
 
 import { BaseParser } from "./BaseParser.js";
+import { ShapeParser } from "./ShapeParser.js";
+import { TextParser } from "./TextParser.js";
+import { createParseContext, type ParseContext } from "./ParseContext.js";
+import { emuToPixels } from "../utils/constants.js";
 import {
   XMLNode,
+  BorderInfo,
   TableComponent,
+  TableRow,
+  TableCell,
+  TableCellBorders,
   NormalizedTableComponent,
   TableDimensions,
   TipTapDocumentNode,
   TipTapTableCellNode,
   TipTapTableRowNode,
   TipTapTableNode,
-  TipTapParagraphNode,
 } from "../types/index.js";
 
+// The table model of an a:tbl
+export interface TableModel {
+  rows: TableRow[];
+  columnWidths: number[]; // Pixels
+  hasHeader: boolean; // tblPr firstRow: the first row holds headers
+  hasHeaderColumn: boolean; // tblPr firstCol: the first column holds headers
+}
+
+// a:tcPr border elements -> TableCellBorders keys
+const CELL_BORDERS: Record<string, keyof TableCellBorders> = {
+  lnL: "left",
+  lnR: "right",
+  lnT: "top",
+  lnB: "bottom",
+  lnTlToBr: "diagonalDown",
+  lnBlToTr: "diagonalUp",
+};
+
+// a:tcPr anchor -> vertical anchor
+const CELL_ANCHOR_MAP: Record<string, NonNullable<TableCell["verticalAnchor"]>> = {
+  t: "top",
+  ctr: "middle",
+  b: "bottom",
+};
+
+// a:tcPr margin defaults in EMU (0.1" left/right, 0.05" top/bottom)
+const DEFAULT_CELL_MARGINS = { marL: 91440, marT: 45720, marR: 91440, marB: 45720 };
+
+// a:ln width default in EMU (1pt)
+const DEFAULT_BORDER_WIDTH = 12700;
+
 export class TableParser extends BaseParser {
   /**
    * Parse table component from normalized data
    * @param tableComponent - Normalized table component
    * @param componentIndex - Component index
    * @param slideIndex - Slide index
+   * @param zIndex - Z-order index
+   * @param context - Parse context (theme, color map, ...)
    * @returns Parsed table component
    */
   static async parseFromNormalized(
     tableComponent: NormalizedTableComponent,
     componentIndex: number,
     slideIndex: number,
-    zIndex: number
+    zIndex: number,
+    context: ParseContext = createParseContext()
   ): Promise<TableComponent | null> {
     const { graphicData, spPr, nvGraphicFramePr, namespace } = tableComponent;
 
@@ -35,14 +76,15 @@ export class TableParser extends BaseParser {
       throw new Error("No graphicData found in normalized table component");
     }
 
-    // Extract table data from tbl element
-    const tableData = this.extractTableData(graphicData);
-    if (!tableData || tableData.length === 0) {
+    // Extract the table model from the tbl element
+    const table = this.extractTableModel(graphicData, slideIndex, context);
+    if (!table || table.rows.length === 0) {
       return null;
     }
+    const tableData = this.extractTableData(table);
 
     // Create richText structure matching client-side implementation
-    const richText = this.createTableRichText(tableData, true); // Assume first row is header
+    const richText = this.createTableRichText(table);
 
     // Extract positioning from spPr (which should be the xfrm from graphicFrame)
     const transform = this.parseTransform(spPr); // spPr is actually xfrm for graphicFrame
@@ -53,6 +95,8 @@ export class TableParser extends BaseParser {
       "cNvPr.$name",
       `table-${componentIndex}`,
     );
+    const link = BaseParser.parseHyperlink(BaseParser.getNode(nvGraphicFramePr, "cNvPr.hlinkClick"), slideIndex, context);
+    const drawingId = BaseParser.getString(nvGraphicFramePr, "cNvPr.$id", "");
 
     // Calculate table dimensions
     const { rows, cols } = this.getTableDimensions(tableData);
@@ -61,6 +105,8 @@ export class TableParser extends BaseParser {
       id: componentName,
       slideIndex,
       zIndex,
+      ...(link && { link }),
+      ...(drawingId && { drawingId }),
       type: "table",
       content: `Table (${rows} rows × ${cols} columns)`,
       x: transform.x,
@@ -72,18 +118,14 @@ export class TableParser extends BaseParser {
         borderColor: "#ffffff",
         fillColor: "transparent",
       },
-      rows: tableData.map((rowData) => ({
-        cells: rowData.map((cellContent) => ({
-          content: cellContent || "",
-          style: {},
-        })),
-      })),
+      rows: table.rows,
       columns: cols,
+      columnWidths: table.columnWidths,
       metadata: {
         tableData: tableData,
         rows: rows,
         cols: cols,
-        hasHeader: true,
+        hasHeader: table.hasHeader,
         source: "server-parsed",
         format: namespace || "unknown",
         richText: richText, // Add richText property for TLDraw compatibility
@@ -92,42 +134,135 @@ export class TableParser extends BaseParser {
   }
 
   /**
-   * Extract table data from graphicData
+   * Extract the table model (grid, rows, merged cells and cell formatting) from graphicData
    * @param graphicData - PowerPoint table graphic data
-   * @returns 2D array of table cell text
+   * @param slideIndex - Slide index, used to resolve hyperlinks in cell text
+   * @param context - Parse context used to resolve theme colors and fonts
+   * @returns Table model, or null when the graphicData holds no table
    */
-  static extractTableData(graphicData: XMLNode): string[][] {
-    try {
-      // The table structure is: graphicData -> tbl (namespace stripped already)
+  static extractTableModel(
+    graphicData: XMLNode,
+    slideIndex: number = 0,
+    context: ParseContext = createParseContext()
+  ): TableModel | null {
+    // The table structure is: graphicData -> tbl (namespace stripped already)
     const table = BaseParser.getNode(graphicData, "tbl");
     if (!table) {
       console.warn("No table element found in graphicData");
-      return [];
+      return null;
     }
 
-    const rowsArray = BaseParser.getArray(table, "tr", []);
-    const tableData: string[][] = [];
+    const tblPr = BaseParser.getNode(table, "tblPr");
+    const columnWidths = BaseParser.getArray(table, "tblGrid.gridCol", []).map((gridCol) =>
+      emuToPixels(BaseParser.getNumber(gridCol, "$w", 0))
+    );
+
+    const rows: TableRow[] = [];
+    for (const row of BaseParser.getArray(table, "tr", [])) {
+      const cells = BaseParser.getArray(row, "tc", []).map((cell) => this.parseCell(cell, slideIndex, context));
+      if (cells.length === 0) continue;
 
-    for (const row of rowsArray) {
-      const cellsArray = BaseParser.getArray(row, "tc", []);
-      const rowData: string[] = [];
+      const height = BaseParser.getNumber(row, "$h", 0);
+      rows.push({
+        cells,
+        ...(height > 0 && { height: emuToPixels(height) }),
+      });
+    }
 
-      for (const cell of cellsArray) {
-        const txBody = BaseParser.getNode(cell, "txBody");
-        const cellText = this.extractCellText(txBody);
-        rowData.push(cellText);
-      }
+    return {
+      rows,
+      columnWidths,
+      hasHeader: BaseParser.getBoolean(tblPr, "$firstRow", false),
+      hasHeaderColumn: BaseParser.getBoolean(tblPr, "$firstCol", false),
+    };
+  }
 
-      if (rowData.length > 0) {
-        tableData.push(rowData);
-      }
+  /**
+   * Parse a table cell (a:tc): spans, text and a:tcPr formatting
+   * @param cell - Table cell element
+   * @param slideIndex - Slide index
+   * @param context - Parse context
+   * @returns Table cell
+   */
+  static parseCell(cell: XMLNode, slideIndex: number, context: ParseContext): TableCell {
+    const merged = BaseParser.getBoolean(cell, "$hMerge", false) || BaseParser.getBoolean(cell, "$vMerge", false);
+    const txBody = BaseParser.getNode(cell, "txBody");
+    const tcPr = BaseParser.getNode(cell, "tcPr");
+
+    const borders: TableCellBorders = {};
+    for (const [element, side] of Object.entries(CELL_BORDERS)) {
+      const ln = BaseParser.getNode(tcPr, element);
+      if (ln) borders[side] = this.parseCellBorder(ln, context);
     }
 
-    return tableData;
-    } catch (error) {
-      console.error("Error extracting table data:", error);
-      return [];
+    const margin = (name: keyof typeof DEFAULT_CELL_MARGINS) =>
+      emuToPixels(BaseParser.getNumber(tcPr, `$${name}`, DEFAULT_CELL_MARGINS[name]));
+
+    return {
+      content: this.extractCellText(txBody),
+      style: this.parseCellFill(tcPr, context),
+      colSpan: BaseParser.getNumber(cell, "$gridSpan", 1),
+      rowSpan: BaseParser.getNumber(cell, "$rowSpan", 1),
+      ...(merged && { merged }),
+      richText: txBody ? TextParser.extractRichTextContent(txBody, context, undefined, slideIndex) : { type: "doc", content: [] },
+      ...(Object.keys(borders).length > 0 && { borders }),
+      margins: { left: margin("marL"), top: margin("marT"), right: margin("marR"), bottom: margin("marB") },
+      verticalAnchor: CELL_ANCHOR_MAP[BaseParser.getString(tcPr, "$anchor", "t")] ?? "top",
+    };
+  }
+
+  /**
+   * Parse the fill of a cell; cells without one are transparent
+   * @param tcPr - Table cell properties
+   * @param context - Parse context used to resolve theme colors
+   * @returns fillColor / fillOpacity style
+   */
+  static parseCellFill(tcPr: XMLNode | null, context?: ParseContext): TableCell["style"] {
+    const hasFill = ["solidFill", "gradFill", "pattFill", "blipFill", "noFill"].some(
+      (name) => BaseParser.safeGet(tcPr, name) !== null
+    );
+    if (!tcPr || !hasFill) {
+      return { fillColor: "transparent", fillOpacity: 0 };
+    }
+
+    const fill = ShapeParser.parseFill(tcPr, null, context);
+    return {
+      fillColor: fill.color,
+      fillOpacity: fill.opacity,
+      ...(fill.gradient && { fillGradient: fill.gradient }),
+      ...(fill.pattern && { fillPattern: fill.pattern }),
+    };
+  }
+
+  /**
+   * Parse a cell border line (a:lnL, a:lnR, ...)
+   * @param ln - Border line properties
+   * @param context - Parse context used to resolve theme colors
+   * @returns border information
+   */
+  static parseCellBorder(ln: XMLNode, context?: ParseContext): BorderInfo {
+    // <a:noFill/> parses to an empty string, so check for presence rather than a node
+    if (BaseParser.safeGet(ln, "noFill") !== null) {
+      return { type: "none", color: "transparent", width: 0, style: "none" };
     }
+
+    const solidFill = BaseParser.getNode(ln, "solidFill");
+    return {
+      type: "solid",
+      color: solidFill ? this.parseColor(solidFill, context) : "#000000",
+      width: emuToPixels(BaseParser.getNumber(ln, "$w", DEFAULT_BORDER_WIDTH)),
+      style: ShapeParser.parseDashStyle(ln),
+      compound: BaseParser.getString(ln, "$cmpd", "sng"),
+    };
+  }
+
+  /**
+   * Reduce a table model to its cell text
+   * @param table - Table model
+   * @returns 2D array of table cell text
+   */
+  static extractTableData(table: TableModel): string[][] {
+    return table.rows.map((row) => row.cells.map((cell) => cell.content));
   }
 
   /**
@@ -138,10 +273,9 @@ export class TableParser extends BaseParser {
   static extractCellText(txBody: XMLNode | null | undefined): string {
     if (!txBody) return "";
     try {
-      // Reuse TextParser logic to ensure consistent bullet / spacing handling (bullets ignored inside tables for now)
-      const { TextParser } = require('./TextParser.js');
+      // Reuse TextParser logic to ensure consistent bullet / spacing handling
       const text = TextParser.extractTextContent(txBody);
-      return (text || '').trim();
+      return (text || "").trim();
     } catch (error) {
       console.error("Error extracting cell text:", error);
       return "";
@@ -149,16 +283,13 @@ export class TableParser extends BaseParser {
   }
 
   /**
-   * Create TipTap richText table structure matching client-side implementation
-   * @param tableData - 2D array of table cell text
-   * @param hasHeader - Whether first row is header
+   * Create the TipTap table: merged cells are left out, spanning cells carry
+   * colspan / rowspan and the widths of the grid columns they cover
+   * @param table - Table model
    * @returns TipTap richText structure
    */
-  static createTableRichText(
-    tableData: string[][],
-    hasHeader: boolean = true,
-  ): TipTapDocumentNode {
-    if (!tableData || tableData.length === 0) {
+  static createTableRichText(table: TableModel): TipTapDocumentNode {
+    if (table.rows.length === 0) {
       return {
         type: "doc",
         content: [
@@ -170,46 +301,35 @@ export class TableParser extends BaseParser {
       };
     }
 
-    const tableRows: TipTapTableRowNode[] = tableData.map(
-      (rowData, rowIndex) => {
-        const isHeaderRow = hasHeader && rowIndex === 0;
-        const cellType: "tableHeader" | "tableCell" = isHeaderRow
-          ? "tableHeader"
-          : "tableCell";
-
-        const cells: TipTapTableCellNode[] = rowData.map((cellContent) => {
-          const textContent =
-            cellContent && cellContent.trim() ? cellContent : " ";
-          return {
-            type: cellType,
-            attrs: {
-              colspan: 1,
-              rowspan: 1,
-              colwidth: null,
-            },
-            content: [
-              {
-                type: "paragraph",
-                attrs: {
-                  dir: "auto",
-                },
-                content: [
-                  {
-                    type: "text",
-                    text: textContent,
-                  },
-                ],
-              },
-            ],
-          };
+    const tableRows: TipTapTableRowNode[] = table.rows.map((row, rowIndex) => {
+      const cells: TipTapTableCellNode[] = [];
+      row.cells.forEach((cell, columnIndex) => {
+        if (cell.merged) return;
+
+        const colspan = cell.colSpan ?? 1;
+        const widths = table.columnWidths.slice(columnIndex, columnIndex + colspan);
+        const isHeader = (table.hasHeader && rowIndex === 0) || (table.hasHeaderColumn && columnIndex === 0);
+        const blocks = cell.richText?.content ?? [];
+
+        cells.push({
+          type: isHeader ? "tableHeader" : "tableCell",
+          attrs: {
+            colspan,
+            rowspan: cell.rowSpan ?? 1,
+            colwidth: widths.length === colspan && widths.every((width) => width > 0) ? widths : null,
+            ...this.createCellStyleAttrs(cell),
+          },
+          // Cells need at least one block
+          content: blocks.length > 0 ? blocks : [{ type: "paragraph" }],
         });
+      });
 
-        return {
-          type: "tableRow",
-          content: cells,
-        };
-      },
-    );
+      return {
+        type: "tableRow",
+        ...(row.height && { attrs: { height: row.height } }),
+        content: cells,
+      };
+    });
 
     const tableNode: TipTapTableNode = {
       type: "table",
@@ -222,6 +342,31 @@ export class TableParser extends BaseParser {
     };
   }
 
+  /**
+   * CSS attributes of a TipTap table cell: background, vertical alignment, padding and borders
+   */
+  private static createCellStyleAttrs(cell: TableCell): Partial<TipTapTableCellNode["attrs"]> {
+    const attrs: Partial<TipTapTableCellNode["attrs"]> = {};
+
+    const fillColor = cell.style?.fillColor;
+    if (fillColor && fillColor !== "transparent") attrs.backgroundColor = fillColor;
+    if (cell.verticalAnchor && cell.verticalAnchor !== "top") attrs.verticalAlign = cell.verticalAnchor;
+    if (cell.margins) {
+      const { top, right, bottom, left } = cell.margins;
+      attrs.padding = `${top}px ${right}px ${bottom}px ${left}px`;
+    }
+
+    const border = (info: BorderInfo | undefined) =>
+      info && (info.type === "none" ? "none" : `${info.width}px ${info.compound === "dbl" ? "double" : info.style} ${info.color}`);
+    const sides = { borderLeft: "left", borderRight: "right", borderTop: "top", borderBottom: "bottom" } as const;
+    for (const [attribute, side] of Object.entries(sides) as Array<[keyof typeof sides, keyof TableCellBorders]>) {
+      const css = border(cell.borders?.[side]);
+      if (css) attrs[attribute] = css;
+    }
+
+    return attrs;
+  }
+
   /**
    * Get table dimensions
    * @param tableData - Table data
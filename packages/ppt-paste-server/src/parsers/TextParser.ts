@@ -3,8 +3,21 @@
  */
 
 import { BaseParser } from './BaseParser.js';
-import { TextComponent, XMLNode, TextRun, ComponentStyle } from '../types/index.js';
+import { PPTXParser } from '../processors/PPTXParser.js';
+import { createParseContext, type ParseContext } from './ParseContext.js';
+import { rgbaToCss } from '../utils/colorTransforms.js';
+import { emuToPoints } from '../utils/constants.js';
+import {
+  buildTextStyleCascade,
+  getParagraphLevel,
+  mergeListStyles,
+  resolveParagraphProperties,
+  resolveRunProperties,
+  type TextStyleCascade,
+} from '../utils/textStyleCascade.js';
+import { TextComponent, XMLNode, TextRun, ComponentStyle, HyperlinkInfo, TextBodyProperties } from '../types/index.js';
 import { TextBodyNode, ParagraphNode, RunNode } from '../types/xml-nodes.js';
+import type { NormalizedPlaceholder } from '../types/normalized.js';
 
 // Rich text node types for TLDraw compatibility
 interface TextNode {
@@ -13,29 +26,126 @@ interface TextNode {
   marks?: Mark[];
 }
 
+// Line break within a paragraph (a:br)
+interface HardBreakNode {
+  type: 'hardBreak';
+}
+
+type InlineNode = TextNode | HardBreakNode;
+
 interface Mark {
   type: string;
   attrs?: Record<string, any>;
 }
 
+// Custom tab stop (a:tab), position measured from the text box's left edge
+interface TabStop {
+  position: string;
+  align: 'left' | 'center' | 'right' | 'decimal';
+}
+
+// A run, field or line break of a paragraph, in document order
+interface ParagraphItem {
+  kind: 'run' | 'field' | 'break';
+  node: any;
+}
+
+// Paragraph formatting from pPr, as CSS-ready values
+interface ParagraphAttrs {
+  textAlign?: 'left' | 'center' | 'right' | 'justify';
+  level?: number;
+  marginLeft?: string;
+  textIndent?: string;
+  spaceBefore?: string;
+  spaceAfter?: string;
+  lineHeight?: string;
+  tabSize?: string;
+  tabStops?: TabStop[];
+  dir?: 'rtl';
+}
+
 interface ListItem {
   type: 'listItem';
-  content: Array<{ type: 'paragraph'; content: TextNode[] }>;
+  content: Array<Paragraph | ListNode>;
 }
 
 interface BulletList {
   type: 'bulletList';
+  attrs?: {
+    bulletChar?: string;
+    bulletColor?: string;
+    bulletFont?: string;
+  };
+  content: ListItem[];
+}
+
+interface OrderedList {
+  type: 'orderedList';
+  attrs: {
+    start: number;
+    type: '1' | 'a' | 'A' | 'i' | 'I';
+    numberingScheme: string;
+  };
   content: ListItem[];
 }
 
+type ListNode = BulletList | OrderedList;
+
 interface Paragraph {
   type: 'paragraph';
-  content: TextNode[];
+  attrs?: ParagraphAttrs;
+  content: InlineNode[];
 }
 
+// DrawingML a:pPr algn values
+const TEXT_ALIGN_MAP: Record<string, ParagraphAttrs['textAlign']> = {
+  l: 'left',
+  ctr: 'center',
+  r: 'right',
+  just: 'justify',
+  justLow: 'justify',
+  dist: 'justify',
+  thaiDist: 'justify',
+};
+
+// DrawingML a:rPr u values -> CSS text-decoration-style (heavy variants are drawn thicker)
+const UNDERLINE_STYLE_MAP: Record<string, string> = {
+  sng: 'solid',
+  heavy: 'solid',
+  words: 'solid',
+  dbl: 'double',
+  wavyDbl: 'double',
+  dotted: 'dotted',
+  dottedHeavy: 'dotted',
+  dash: 'dashed',
+  dashHeavy: 'dashed',
+  dashLong: 'dashed',
+  dashLongHeavy: 'dashed',
+  dotDash: 'dashed',
+  dotDashHeavy: 'dashed',
+  dotDotDash: 'dashed',
+  dotDotDashHeavy: 'dashed',
+  wavy: 'wavy',
+  wavyHeavy: 'wavy',
+};
+
+// DrawingML a:tab algn values
+const TAB_ALIGN_MAP: Record<string, TabStop['align']> = {
+  l: 'left',
+  ctr: 'center',
+  r: 'right',
+  dec: 'decimal',
+};
+
+// Default a:pPr defTabSz (1 inch) in EMU
+const DEFAULT_TAB_SIZE = 914400;
+
+// Default a:buAutoNum scheme
+const DEFAULT_NUMBERING_SCHEME = 'arabicPeriod';
+
 interface RichTextDoc {
   type: 'doc';
-  content: Array<Paragraph | BulletList>;
+  content: Array<Paragraph | ListNode>;
 }
 
 // Normalized text component structure
@@ -43,7 +153,19 @@ interface NormalizedTextComponent {
   textBody?: XMLNode;
   spPr?: XMLNode;
   nvSpPr?: XMLNode;
+  style?: XMLNode;
   namespace?: string;
+  placeholder?: NormalizedPlaceholder;
+}
+
+// Text label of a geometric shape
+export interface ShapeText {
+  content: string;
+  richText: RichTextDoc;
+  bodyProperties: TextBodyProperties;
+  lang: string | null;
+  /** Color of the first formatted run */
+  color: string;
 }
 
 export class TextParser extends BaseParser {
@@ -53,15 +175,18 @@ export class TextParser extends BaseParser {
    * @param textComponent - Normalized text component
    * @param componentIndex - Component index
    * @param slideIndex - Slide index
+   * @param zIndex - Z-order index
+   * @param context - Parse context (theme, color map, ...)
    * @returns Parsed text component
    */
   static async parseFromNormalized(
     textComponent: NormalizedTextComponent,
     componentIndex: number,
     slideIndex: number,
-    zIndex: number
+    zIndex: number,
+    context: ParseContext = createParseContext()
   ): Promise<TextComponent | null> {
-    const { textBody, spPr, nvSpPr, namespace } = textComponent;
+    const { textBody, spPr, nvSpPr, style, namespace, placeholder } = textComponent;
     
     if (!textBody) {
       throw new Error('No textBody found in normalized text component');
@@ -72,8 +197,11 @@ export class TextParser extends BaseParser {
     const textContent = this.asString(textContentRaw, '');
     if (!textContent.trim()) return null;
 
+    // Paragraphs and runs inherit from the shape, placeholder and presentation text styles
+    const cascade = this.buildCascade(textBody, placeholder, style, context);
+
     // Extract rich text structure using existing method and flatten to TextRun[]
-    const richTextDoc = this.extractRichTextContent(textBody);
+    const richTextDoc = this.extractRichTextContent(textBody, context, cascade, slideIndex);
 
     // Build flattened TextRun[] while preserving spacing heuristics & style mapping
     const flattenedRuns: TextRun[] = [];
@@ -93,41 +221,37 @@ export class TextParser extends BaseParser {
       flattenedRuns.push({ text, style: Object.keys(style).length ? style : undefined });
     };
 
-    if (richTextDoc && Array.isArray(richTextDoc.content)) {
-      for (const node of richTextDoc.content) {
-        if (node.type === 'paragraph') {
-          const paraRuns = (node as Paragraph).content;
-          for (let i = 0; i < paraRuns.length; i++) {
-            const tn = paraRuns[i] as any;
-            const runText = this.asString(tn.text, '');
-            addRun(runText, tn.marks);
-            const next = paraRuns[i+1] as any;
-            if (next && next.type === 'text' && this.shouldAddSpaceBetweenRuns({ text: runText }, { text: this.asString(next.text, '') })) {
-              // Only add explicit space run if not already a single space node inserted
-              if (runText !== ' ' && this.asString(next.text,'') !== ' ') {
-                flattenedRuns.push({ text: ' ' });
-              }
-            }
-          }
-        } else if (node.type === 'bulletList') {
-          for (const li of node.content) {
-            for (const para of li.content) {
-              const paraRuns = para.content;
-              for (let i = 0; i < paraRuns.length; i++) {
-                const tn = paraRuns[i] as any;
-                const runText = this.asString(tn.text, '');
-                addRun(runText, tn.marks);
-                const next = paraRuns[i+1] as any;
-                if (next && next.type === 'text' && this.shouldAddSpaceBetweenRuns({ text: runText }, { text: this.asString(next.text, '') })) {
-                  if (runText !== ' ' && this.asString(next.text,'') !== ' ') {
-                    flattenedRuns.push({ text: ' ' });
-                  }
-                }
-              }
-            }
+    const addParagraphRuns = (paraRuns: InlineNode[]) => {
+      for (let i = 0; i < paraRuns.length; i++) {
+        const tn = paraRuns[i] as any;
+        if (tn.type === 'hardBreak') {
+          flattenedRuns.push({ text: '\n' });
+          continue;
+        }
+        const runText = this.asString(tn.text, '');
+        addRun(runText, tn.marks);
+        const next = paraRuns[i+1] as any;
+        if (next && next.type === 'text' && this.shouldAddSpaceBetweenRuns({ text: runText }, { text: this.asString(next.text, '') })) {
+          // Only add explicit space run if not already a single space node inserted
+          if (runText !== ' ' && this.asString(next.text,'') !== ' ') {
+            flattenedRuns.push({ text: ' ' });
           }
         }
       }
+    };
+    const addBlocks = (blocks: Array<Paragraph | ListNode>) => {
+      for (const node of blocks) {
+        if (node.type === 'paragraph') {
+          addParagraphRuns(node.content);
+        } else {
+          // Lists nest list items, whose content may hold further lists
+          for (const li of node.content) addBlocks(li.content);
+        }
+      }
+    };
+
+    if (richTextDoc && Array.isArray(richTextDoc.content)) {
+      addBlocks(richTextDoc.content);
     }
 
     // Final spacing pass to ensure no missing spaces between word runs
@@ -141,29 +265,16 @@ export class TextParser extends BaseParser {
     const cNvPr = this.getNode(nvSpPr, 'cNvPr');
     const componentName = this.getString(cNvPr, '$name', `text-${componentIndex}`);
     const isTextBox = this.getBoolean(nvSpPr, 'cNvSpPr.$txBox', false);
+    const link = this.parseHyperlink(this.getNode(cNvPr, 'hlinkClick'), slideIndex, context);
+    const drawingId = this.getString(cNvPr, '$id', '');
+
+    const bodyProperties = this.parseTextBodyProperties(textBody, placeholder);
+    const lang = this.getPrimaryLanguage(this.getParagraphs(textBody), cascade);
 
     // Extract dominant font styling using existing method
     const paragraphs = this.getNode(textBody, 'p') ?? this.safeGet(textBody, 'p', []);
     const paragraphsArray = Array.isArray(paragraphs) ? paragraphs : [paragraphs];
-    let dominantFont = { family: 'Arial', size: 18, weight: 'normal', style: 'normal', color: '#000000', decoration: 'none' };
-    
-    // Find first non-empty run with formatting
-    for (const paragraph of paragraphsArray) {
-      if (paragraph?.['r']) {
-        const runs = Array.isArray(paragraph['r']) ? paragraph['r'] : [paragraph['r']];
-        for (const run of runs) {
-          const text = this.getString(run, 't', '');
-          if (text.trim()) {
-            const rPr = this.getNode(run, 'rPr');
-            if (rPr) {
-              dominantFont = this.parseFont(rPr);
-              break;
-            }
-          }
-        }
-        if (dominantFont.family !== 'Arial') break;
-      }
-    }
+    const dominantFont = this.getDominantFont(paragraphsArray, cascade, context);
 
     return {
       id: componentName,
@@ -176,6 +287,9 @@ export class TextParser extends BaseParser {
       rotation: transform.rotation || 0,
       slideIndex,
       zIndex,
+      ...(link && { link }),
+      ...(drawingId && { drawingId }),
+      ...(lang && { lang }),
       style: {
         fontSize: dominantFont.size,
         fontFamily: dominantFont.family,
@@ -184,12 +298,13 @@ export class TextParser extends BaseParser {
         textDecoration: dominantFont.decoration,
         color: dominantFont.color,
         backgroundColor: 'transparent', // Text components don't have background by default
-        textAlign: 'left',
+        textAlign: this.getFirstParagraphAttrs(richTextDoc)?.textAlign ?? 'left',
         opacity: 1,
         rotation: transform.rotation || 0
       },
       // Restore original property name: richText (regression fix)
       richText: richTextDoc as any,
+      bodyProperties,
       metadata: {
         namespace,
         isTextBox,
@@ -201,6 +316,101 @@ export class TextParser extends BaseParser {
     };
   }
 
+  /**
+   * Parse the text body of a geometric shape into its label
+   * @param textBody - The shape's txBody
+   * @param placeholder - Placeholder inheritance info, when the shape is a placeholder
+   * @param style - The shape's p:style, whose fontRef sets the default text font and color
+   * @param slideIndex - Slide index
+   * @param context - Parse context
+   * @returns The label, or null when the text body holds no text
+   */
+  static parseShapeText(
+    textBody: XMLNode | null | undefined,
+    placeholder: NormalizedPlaceholder | null | undefined,
+    style: XMLNode | null | undefined,
+    slideIndex: number,
+    context: ParseContext = createParseContext()
+  ): ShapeText | null {
+    if (!textBody) return null;
+    const content = this.asString(this.extractTextContent(textBody), '');
+    if (!content.trim()) return null;
+
+    const cascade = this.buildCascade(textBody, placeholder, style, context);
+    const paragraphs = this.getParagraphs(textBody);
+    return {
+      content,
+      richText: this.extractRichTextContent(textBody, context, cascade, slideIndex),
+      bodyProperties: this.parseTextBodyProperties(textBody, placeholder),
+      lang: this.getPrimaryLanguage(paragraphs, cascade),
+      color: this.getDominantFont(paragraphs, cascade, context).color,
+    };
+  }
+
+  /**
+   * Font of the first non-empty run with formatting, which styles the text as a whole
+   * @param paragraphs - The text body's paragraphs
+   * @param cascade - Style cascade of the text body
+   * @param context - Parse context
+   */
+  private static getDominantFont(paragraphs: XMLNode[], cascade: TextStyleCascade, context: ParseContext) {
+    const defaultFamily = this.resolveTypeface('+mn-lt', context) || 'Arial';
+    let dominantFont = { family: defaultFamily, size: 18, weight: 'normal', style: 'normal', color: '#000000', decoration: 'none' };
+
+    for (const paragraph of paragraphs) {
+      if (paragraph?.['r']) {
+        const runs = Array.isArray(paragraph['r']) ? paragraph['r'] : [paragraph['r']];
+        for (const run of runs) {
+          const text = this.getString(run, 't', '');
+          if (text.trim()) {
+            const paragraphProperties = resolveParagraphProperties(this.getNode(paragraph, 'pPr'), cascade);
+            const rPr = resolveRunProperties(this.getNode(run, 'rPr'), paragraphProperties);
+            if (rPr) {
+              dominantFont = this.parseFont(rPr, context);
+              // East Asian and complex script text is drawn with its ea / cs font
+              dominantFont.family = this.resolveRunTypeface(rPr, text, context) || dominantFont.family;
+              break;
+            }
+          }
+        }
+        if (dominantFont.family !== defaultFamily) break;
+      }
+    }
+
+    return dominantFont;
+  }
+
+  /**
+   * Style cascade of a text body: its own lstStyle, the placeholder chain and the shape's fontRef
+   */
+  private static buildCascade(
+    textBody: XMLNode,
+    placeholder: NormalizedPlaceholder | null | undefined,
+    style: XMLNode | null | undefined,
+    context: ParseContext
+  ): TextStyleCascade {
+    return buildTextStyleCascade(
+      this.getNode(textBody, 'lstStyle'),
+      placeholder,
+      context.defaultTextStyle,
+      this.getNode(style, 'fontRef')
+    );
+  }
+
+  /**
+   * Anchoring, insets and autofit, inherited from the placeholder's layout and master shapes
+   */
+  private static parseTextBodyProperties(
+    textBody: XMLNode,
+    placeholder: NormalizedPlaceholder | null | undefined
+  ): TextBodyProperties {
+    return this.parseBodyProperties([
+      this.getNode(textBody, 'bodyPr'),
+      placeholder?.layoutShape?.txBody?.bodyPr,
+      placeholder?.masterShape?.txBody?.bodyPr,
+    ]);
+  }
+
   /**
    * Return paragraphs array (typed) from a textBody-like node.
    */
@@ -211,18 +421,32 @@ export class TextParser extends BaseParser {
   }
 
   /**
-   * Collect runs (including fields) from a paragraph.
+   * Collect runs (including fields) from a paragraph, in document order.
    */
   static extractRuns(paragraph: ParagraphNode | XMLNode): RunNode[] {
+    return this.extractParagraphItems(paragraph)
+      .filter(item => item.kind !== 'break')
+      .map(item => item.node as RunNode);
+  }
+
+  /**
+   * Collect the runs, fields and line breaks of a paragraph.
+   * fast-xml-parser groups siblings by tag name, so the parse-time document
+   * position (see PPTXParser.getDocumentOrder) restores their interleaving.
+   */
+  static extractParagraphItems(paragraph: ParagraphNode | XMLNode): ParagraphItem[] {
     if (!paragraph || typeof paragraph !== 'object') return [];
-    const runs: any[] = [];
-    const r = (paragraph as any).r;
-    const fld = (paragraph as any).fld;
-    if (Array.isArray(r)) runs.push(...r);
-    else if (r) runs.push(r);
-    if (Array.isArray(fld)) runs.push(...fld);
-    else if (fld) runs.push(fld);
-    return runs.filter(Boolean) as RunNode[];
+    const items: ParagraphItem[] = [
+      ...this.getArray(paragraph, 'r').map(node => ({ kind: 'run' as const, node })),
+      ...this.getArray(paragraph, 'fld').map(node => ({ kind: 'field' as const, node })),
+      ...this.getArray(paragraph, 'br').map(node => ({ kind: 'break' as const, node })),
+    ].filter(item => item.node !== null && item.node !== undefined);
+
+    const hasDocumentOrder = items.every(item => PPTXParser.getDocumentOrder(item.node) !== undefined);
+    if (hasDocumentOrder) {
+      items.sort((a, b) => PPTXParser.getDocumentOrder(a.node)! - PPTXParser.getDocumentOrder(b.node)!);
+    }
+    return items;
   }
 
   /**
@@ -235,20 +459,28 @@ export class TextParser extends BaseParser {
     const paragraphsArray = this.getParagraphs(textBody);
     const allText: string[] = [];
     for (const paragraph of paragraphsArray) {
-      const runsArray = this.extractRuns(paragraph).map(r => ({ text: this.getString(r, 't', '') } as TextRun)).filter(r => r.text !== '');
-      if (!runsArray.length) continue;
-      let paragraphText = runsArray[0].text;
-      for (let i = 1; i < runsArray.length; i++) {
-        const prev = runsArray[i-1].text;
-        const curr = runsArray[i].text;
-        const prevLast = prev.slice(-1);
-        const currFirst = curr[0];
-        const isLetterPair = /[A-Za-z]/.test(prevLast) && /[A-Za-z]/.test(currFirst);
-        const isNumberBoundary = /[0-9]/.test(prevLast) || /[0-9]/.test(currFirst);
-        if (isLetterPair && !isNumberBoundary) {
-          paragraphText += ' ';
+      let paragraphText = '';
+      let prev = '';
+      for (const item of this.extractParagraphItems(paragraph)) {
+        // Line breaks start a new line; the spacing heuristic restarts after them
+        if (item.kind === 'break') {
+          paragraphText += '\n';
+          prev = '';
+          continue;
+        }
+        const curr = this.getString(item.node, 't', '');
+        if (curr === '') continue;
+        if (prev) {
+          const prevLast = prev.slice(-1);
+          const currFirst = curr[0];
+          const isLetterPair = /[A-Za-z]/.test(prevLast) && /[A-Za-z]/.test(currFirst);
+          const isNumberBoundary = /[0-9]/.test(prevLast) || /[0-9]/.test(currFirst);
+          if (isLetterPair && !isNumberBoundary) {
+            paragraphText += ' ';
+          }
         }
         paragraphText += curr;
+        prev = curr;
       }
       if (paragraphText.trim()) {
         allText.push(paragraphText.trim());
@@ -260,101 +492,342 @@ export class TextParser extends BaseParser {
   /**
    * Extract rich text content with bullet formatting
    * @param textBody - PowerPoint textBody element
+   * @param context - Parse context used to resolve theme colors
+   * @param cascade - Inherited text styles (defaults to the body's own lstStyle and the presentation defaults)
+   * @param slideIndex - Slide index, used to resolve hyperlink relationships
    * @returns Rich text structure compatible with TLDraw
    */
-  static extractRichTextContent(textBody: XMLNode | TextBodyNode): RichTextDoc {
+  static extractRichTextContent(textBody: XMLNode | TextBodyNode, context?: ParseContext, cascade?: TextStyleCascade, slideIndex: number = 0): RichTextDoc {
     // Namespaces are already stripped
     const paragraphsArray = this.getParagraphs(textBody);
     const lstStyle = this.getNode(textBody as any, 'lstStyle') ?? this.safeGet(textBody as any, 'lstStyle');
+    const styleCascade = cascade ?? buildTextStyleCascade(lstStyle, null, context?.defaultTextStyle);
     // Create simple paragraph structure - TLDraw handles bullets at paragraph level
-    return this.createParagraphStructure(paragraphsArray, lstStyle);
+    return this.createParagraphStructure(paragraphsArray, styleCascade, context, slideIndex);
   }
 
   /**
-   * Create paragraph structure with nested bulletList elements
+   * Create paragraph structure with bulletList / orderedList elements nested by paragraph level
    * @param paragraphsArray - Array of paragraphs
-   * @param lstStyle - PowerPoint list style
-   * @returns Rich text structure with paragraphs containing bulletLists
+   * @param cascade - Inherited text styles
+   * @param context - Parse context used to resolve theme colors
+   * @param slideIndex - Slide index, used to resolve hyperlink relationships
+   * @returns Rich text structure with paragraphs and (nested) lists
    */
-  static createParagraphStructure(paragraphsArray: (XMLNode | ParagraphNode)[], lstStyle: XMLNode): RichTextDoc {
-    const content: Array<Paragraph | BulletList> = [];
-    let currentBulletItems: ListItem[] = [];
+  static createParagraphStructure(paragraphsArray: (XMLNode | ParagraphNode)[], cascade: TextStyleCascade, context?: ParseContext, slideIndex: number = 0): RichTextDoc {
+    const content: Array<Paragraph | ListNode> = [];
+    const lstStyle = mergeListStyles(cascade);
+    const primaryLanguage = this.getPrimaryLanguage(paragraphsArray, cascade);
+    // Lists currently open, outermost first
+    let openLists: Array<{ level: number; key: string; list: ListNode }> = [];
     
-    const flushBullets = () => {
-      if (currentBulletItems.length > 0) {
-        // Create bulletList directly (not wrapped in paragraph)
-        content.push({
-          type: 'bulletList',
-          content: currentBulletItems
-        });
-        currentBulletItems = [];
+    const addListItem = (item: ListItem, level: number, list: ListNode) => {
+      const key = this.getListKey(list);
+      while (openLists.length > 0 && openLists[openLists.length - 1].level > level) {
+        openLists.pop();
+      }
+      // A different bullet or numbering scheme at the same level starts a new list
+      if (openLists.length > 0 && openLists[openLists.length - 1].level === level && openLists[openLists.length - 1].key !== key) {
+        openLists.pop();
+      }
+      
+      let current = openLists[openLists.length - 1];
+      if (!current || current.level < level) {
+        if (current) {
+          // Deeper levels nest inside the parent's last item
+          current.list.content[current.list.content.length - 1].content.push(list);
+        } else {
+          content.push(list);
+        }
+        current = { level, key, list };
+        openLists.push(current);
       }
+      current.list.content.push(item);
     };
     
     for (let paragraphIndex = 0; paragraphIndex < paragraphsArray.length; paragraphIndex++) {
       const paragraph = paragraphsArray[paragraphIndex];
-      const paragraphContent: TextNode[] = [];
+      const paragraphContent: InlineNode[] = [];
+      const paragraphProperties = resolveParagraphProperties(this.getNode(paragraph, 'pPr'), cascade);
       
-      // Extract text content from runs + fields (namespaces already stripped)
-      const runsArray = this.extractRuns(paragraph);
-      const validRuns = runsArray.filter(run => this.getString(run, 't', '') !== '');
-      for (let i = 0; i < validRuns.length; i++) {
-        const run = validRuns[i];
-        const text = this.getString(run, 't', '');
-        const rPr = this.getNode(run, 'rPr');
-        const textNode = this.createTextNode(text, rPr);
+      // Extract text content from runs, fields and line breaks (namespaces already stripped)
+      const items = this.extractParagraphItems(paragraph)
+        .filter(item => item.kind === 'break' || this.getString(item.node, 't', '') !== '');
+      for (let i = 0; i < items.length; i++) {
+        const { kind, node } = items[i];
+        if (kind === 'break') {
+          paragraphContent.push({ type: 'hardBreak' });
+          continue;
+        }
+        const text = this.getString(node, 't', '');
+        const rPr = resolveRunProperties(this.getNode(node, 'rPr'), paragraphProperties);
+        const link = this.parseHyperlink(this.getNode(node, 'rPr.hlinkClick'), slideIndex, context);
+        const textNode = this.createTextNode(text, rPr, context, link);
+        const lang = this.getString(rPr, '$lang', '');
+        if (lang && lang !== primaryLanguage) {
+          this.addTextStyleAttrs(textNode, { lang });
+        }
+        if (kind === 'field') {
+          // Cached text of a field; the type lets consumers re-evaluate it (slide numbers, dates)
+          textNode.marks = [...(textNode.marks ?? []), this.createFieldMark(node)];
+        }
         paragraphContent.push(textNode);
-        if (i < validRuns.length - 1) {
+        if (i < items.length - 1 && items[i + 1].kind !== 'break') {
           paragraphContent.push({ type: 'text', text: ' ' });
         }
       }
       
-      if (paragraphContent.length === 0) continue;
+      if (!paragraphContent.some(node => node.type === 'text')) continue;
+      
+      const paragraphAttrs = this.parseParagraphAttributes(paragraphProperties);
+      if (paragraphContent.some(node => node.type === 'text' && node.text.includes('\t'))) {
+        Object.assign(paragraphAttrs, this.parseTabStops(paragraphProperties));
+      }
+      const paragraphNode: Paragraph = {
+        type: 'paragraph',
+        ...(Object.keys(paragraphAttrs).length ? { attrs: paragraphAttrs } : {}),
+        content: paragraphContent
+      };
       
       const hasBulletInParagraph = this.paragraphHasBullets(paragraph, lstStyle, paragraphIndex, paragraphsArray.length);
       
       if (hasBulletInParagraph) {
-        // This is a bullet item - add to current bullet list
-        currentBulletItems.push({
-          type: 'listItem',
-          content: [{
-            type: 'paragraph',
-            content: paragraphContent
-          }]
-        });
+        // This is a list item - add it to the list for its level
+        addListItem(
+          { type: 'listItem', content: [paragraphNode] },
+          getParagraphLevel(paragraphProperties),
+          this.createListNode(paragraphProperties, context)
+        );
 
       } else {
-        // This is regular text - flush any pending bullets first
-        flushBullets();
+        // This is regular text - it closes any open lists
+        openLists = [];
         
         // Add as regular paragraph
-        content.push({
-          type: 'paragraph',
-          content: paragraphContent
-        });
+        content.push(paragraphNode);
       }
     }
     
-    // Flush any remaining bullets
-    flushBullets();
-    
     return {
       type: 'doc',
       content
     };
   }
 
+  /**
+   * Language of a text body: the lang of its first run holding text
+   * @param paragraphsArray - The body's paragraphs
+   * @param cascade - Inherited text styles
+   * @returns Language tag (e.g. ar-SA), or null when no run sets one
+   */
+  static getPrimaryLanguage(paragraphsArray: (XMLNode | ParagraphNode)[], cascade: TextStyleCascade): string | null {
+    for (const paragraph of paragraphsArray) {
+      const paragraphProperties = resolveParagraphProperties(this.getNode(paragraph, 'pPr'), cascade);
+      for (const { kind, node } of this.extractParagraphItems(paragraph)) {
+        if (kind === 'break' || !this.getString(node, 't', '').trim()) continue;
+        const rPr = resolveRunProperties(this.getNode(node, 'rPr'), paragraphProperties);
+        const lang = this.getString(rPr, '$lang', '');
+        if (lang) return lang;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Merge attributes into a text node's textStyle mark, adding the mark when missing
+   */
+  private static addTextStyleAttrs(textNode: TextNode, attrs: Record<string, any>): void {
+    const marks = textNode.marks ?? [];
+    const textStyle = marks.find(mark => mark.type === 'textStyle');
+    if (textStyle) {
+      textStyle.attrs = { ...textStyle.attrs, ...attrs };
+    } else {
+      textNode.marks = [...marks, { type: 'textStyle', attrs }];
+    }
+  }
+
+  /**
+   * Mark identifying a field run (a:fld)
+   * @param fld - Field element
+   * @returns field mark with its type (slidenum, datetime1..13, ...) and id
+   */
+  static createFieldMark(fld: XMLNode): Mark {
+    return {
+      type: 'field',
+      attrs: {
+        fieldType: this.getString(fld, '$type', ''),
+        id: this.getString(fld, '$id', ''),
+      },
+    };
+  }
+
+  /**
+   * Tab settings of a paragraph holding tab characters
+   * @param pPr - Resolved paragraph properties
+   * @returns Custom tab stops (a:tabLst) and the tab width: the first stop, else defTabSz
+   */
+  static parseTabStops(pPr: XMLNode | null): Pick<ParagraphAttrs, 'tabSize' | 'tabStops'> {
+    const tabStops: TabStop[] = this.getArray(pPr, 'tabLst.tab').map(tab => ({
+      position: `${emuToPoints(this.getNumber(tab, '$pos', 0))}pt`,
+      align: TAB_ALIGN_MAP[this.getString(tab, '$algn', 'l')] ?? 'left',
+    }));
+    const tabSize = tabStops.length > 0
+      ? tabStops[0].position
+      : `${emuToPoints(this.getNumber(pPr, '$defTabSz', DEFAULT_TAB_SIZE))}pt`;
+
+    return {
+      tabSize,
+      ...(tabStops.length > 0 && { tabStops }),
+    };
+  }
+
+  /**
+   * Bullet character of a buChar element (char attribute, or val / text content in clipboard data)
+   */
+  private static getBulletChar(buChar: any): string {
+    return this.getString(buChar, '$char', '') || this.getString(buChar, '$val', '') || this.getString(buChar, '_', '') || this.getString(buChar, '');
+  }
+
+  /**
+   * Create an empty list node for a list paragraph
+   * @param pPr - Resolved paragraph properties (see resolveParagraphProperties)
+   * @param context - Parse context used to resolve the bullet color
+   * @returns orderedList for buAutoNum, otherwise bulletList carrying the buChar / buClr / buFont details
+   */
+  static createListNode(pPr: XMLNode | null, context?: ParseContext): ListNode {
+    const buAutoNum = this.getNode(pPr, 'buAutoNum');
+    if (buAutoNum) {
+      const numberingScheme = this.getString(buAutoNum, '$type', DEFAULT_NUMBERING_SCHEME);
+      return {
+        type: 'orderedList',
+        attrs: {
+          start: this.getNumber(buAutoNum, '$startAt', 1),
+          type: this.getListNumberType(numberingScheme),
+          numberingScheme
+        },
+        content: []
+      };
+    }
+
+    const attrs: NonNullable<BulletList['attrs']> = {};
+    const bulletChar = this.getBulletChar(this.safeGet(pPr, 'buChar'));
+    if (bulletChar) attrs.bulletChar = bulletChar;
+    const buClr = this.getNode(pPr, 'buClr');
+    if (buClr) attrs.bulletColor = this.parseColor(buClr, context);
+    const bulletFont = this.resolveTypeface(this.safeGet(pPr, 'buFont.$typeface'), context);
+    if (bulletFont) attrs.bulletFont = bulletFont;
+
+    return {
+      type: 'bulletList',
+      ...(Object.keys(attrs).length ? { attrs } : {}),
+      content: []
+    };
+  }
+
+  /**
+   * Map an a:buAutoNum scheme (e.g. alphaLcParen, romanUcPeriod) to an HTML list type
+   */
+  private static getListNumberType(numberingScheme: string): OrderedList['attrs']['type'] {
+    if (numberingScheme.startsWith('alphaLc')) return 'a';
+    if (numberingScheme.startsWith('alphaUc')) return 'A';
+    if (numberingScheme.startsWith('romanLc')) return 'i';
+    if (numberingScheme.startsWith('romanUc')) return 'I';
+    return '1';
+  }
+
+  /**
+   * Identity of a list's formatting; consecutive items only share a list when this matches
+   */
+  private static getListKey(list: ListNode): string {
+    if (list.type === 'orderedList') {
+      return `orderedList:${list.attrs.numberingScheme}`;
+    }
+    return `bulletList:${JSON.stringify(list.attrs ?? {})}`;
+  }
+
+  /**
+   * Parse paragraph formatting (alignment, indentation, spacing) from resolved pPr
+   * @param pPr - Resolved paragraph properties (see resolveParagraphProperties)
+   * @returns Paragraph attributes; defaults (left aligned, no indent, single spacing) are omitted
+   */
+  static parseParagraphAttributes(pPr: XMLNode | null): ParagraphAttrs {
+    const attrs: ParagraphAttrs = {};
+    if (!pPr) return attrs;
+
+    // Right-to-left paragraphs keep an explicit left alignment, which isn't their default
+    const rtl = this.getBoolean(pPr, '$rtl', false);
+    if (rtl) attrs.dir = 'rtl';
+
+    const textAlign = TEXT_ALIGN_MAP[String(pPr.$algn ?? '')];
+    if (textAlign && (textAlign !== 'left' || rtl)) attrs.textAlign = textAlign;
+
+    const level = getParagraphLevel(pPr);
+    if (level > 0) attrs.level = level;
+
+    const marginLeft = Number(pPr.$marL ?? 0);
+    if (Number.isFinite(marginLeft) && marginLeft !== 0) attrs.marginLeft = `${emuToPoints(marginLeft)}pt`;
+
+    const indent = Number(pPr.$indent ?? 0);
+    if (Number.isFinite(indent) && indent !== 0) attrs.textIndent = `${emuToPoints(indent)}pt`;
+
+    const spaceBefore = this.parseSpacing(this.getNode(pPr, 'spcBef'), 'em');
+    if (spaceBefore) attrs.spaceBefore = spaceBefore;
+
+    const spaceAfter = this.parseSpacing(this.getNode(pPr, 'spcAft'), 'em');
+    if (spaceAfter) attrs.spaceAfter = spaceAfter;
+
+    const lineHeight = this.parseSpacing(this.getNode(pPr, 'lnSpc'), '');
+    if (lineHeight && lineHeight !== '1') attrs.lineHeight = lineHeight;
+
+    return attrs;
+  }
+
+  /**
+   * Convert a spacing element (spcBef / spcAft / lnSpc) to a CSS value
+   * @param spacing - Element holding spcPts (hundredths of a point) or spcPct (thousandths of a percent)
+   * @param percentUnit - CSS unit for percentages of a line ('em', or '' for a unitless line-height)
+   * @returns CSS value, or null when absent or zero
+   */
+  private static parseSpacing(spacing: XMLNode | null, percentUnit: string): string | null {
+    if (!spacing) return null;
+
+    const points = this.getNode(spacing, 'spcPts');
+    if (points) {
+      const value = Number(points.$val ?? 0) / 100;
+      return value ? `${value}pt` : null;
+    }
+
+    const percent = this.getNode(spacing, 'spcPct');
+    if (percent) {
+      const value = Number(percent.$val ?? 0) / 100000;
+      return value ? `${Math.round(value * 1000) / 1000}${percentUnit}` : null;
+    }
+
+    return null;
+  }
+
+  /**
+   * Attributes of the first paragraph in a rich text doc (including list items)
+   */
+  private static getFirstParagraphAttrs(doc: RichTextDoc): ParagraphAttrs | undefined {
+    let block: Paragraph | ListNode | undefined = doc.content[0];
+    while (block && block.type !== 'paragraph') {
+      block = block.content[0]?.content[0];
+    }
+    return block?.type === 'paragraph' ? block.attrs : undefined;
+  }
+
   /**
    * Check if a specific paragraph has bullet formatting
    * @param paragraph - Individual paragraph
-   * @param lstStyle - PowerPoint list style
+   * @param lstStyle - PowerPoint list style (merged with the inherited list styles)
    * @param paragraphIndex - Index of this paragraph in the text element
    * @param totalParagraphs - Total number of paragraphs in the text element
    * @returns True if this paragraph has bullets
    */
   static paragraphHasBullets(
     paragraph: XMLNode, 
-    lstStyle: XMLNode, 
+    lstStyle: XMLNode | null, 
     paragraphIndex: number = 0, 
     totalParagraphs: number = 1
   ): boolean {
@@ -378,7 +851,7 @@ export class TextParser extends BaseParser {
         // - Clipboard format: buChar exists and has content (e.g., "•")
         // - PPTX format: buChar exists but may be empty string for non-bullets
         if (buChar) {
-          const buCharValue = this.getString(buChar, '$val', '') || this.getString(buChar, '_', '') || this.getString(buChar, '');
+          const buCharValue = this.getBulletChar(buChar);
           // If buChar has a non-empty value, it's a bullet
           if (buCharValue.trim() !== '') {
             return true;
@@ -404,14 +877,15 @@ export class TextParser extends BaseParser {
       );
       
       if (!hasBulletProperties) {
-        const lvl1pPr = this.getNode(lstStyle, 'lvl1pPr') ?? this.safeGet(lstStyle, 'lvl1pPr');
-        if (lvl1pPr) {
-          const buChar = this.getNode(lvl1pPr, 'buChar') ?? this.safeGet(lvl1pPr, 'buChar');
-          const buAutoNum = this.getNode(lvl1pPr, 'buAutoNum') ?? this.safeGet(lvl1pPr, 'buAutoNum');
+        const levelKey = `lvl${getParagraphLevel(pPr) + 1}pPr`;
+        const levelPPr = this.getNode(lstStyle, levelKey) ?? this.safeGet(lstStyle, levelKey);
+        if (levelPPr) {
+          const buChar = this.getNode(levelPPr, 'buChar') ?? this.safeGet(levelPPr, 'buChar');
+          const buAutoNum = this.getNode(levelPPr, 'buAutoNum') ?? this.safeGet(levelPPr, 'buAutoNum');
           
           // Apply same logic to parent style
           if (buChar) {
-            const buCharValue = this.getString(buChar, '$val', '') || this.getString(buChar, '_', '') || this.getString(buChar, '');
+            const buCharValue = this.getBulletChar(buChar);
             if (buCharValue.trim() !== '') {
               return true; // Inherit bullets from style
             }
@@ -451,9 +925,11 @@ export class TextParser extends BaseParser {
    * Create a text node with formatting
    * @param text - Text content
    * @param rPr - Run properties
+   * @param context - Parse context used to resolve theme colors
+   * @param link - Resolved hyperlink of the run
    * @returns Text node with marks and attributes
    */
-  static createTextNode(text: string, rPr: XMLNode | null): TextNode {
+  static createTextNode(text: string, rPr: XMLNode | null, context?: ParseContext, link?: HyperlinkInfo | null): TextNode {
     const textString = this.asString(text, '');
     
     // Ensure we never create empty text nodes (but allow spaces)
@@ -481,12 +957,47 @@ export class TextParser extends BaseParser {
         marks.push({ type: 'italic' });
       }
       
-      // Font size and color using TipTap textStyle format
+      // Underline, with its line style
+      const underline = this.getString(rPr, '$u', 'none');
+      if (underline !== 'none' && UNDERLINE_STYLE_MAP[underline]) {
+        const style = UNDERLINE_STYLE_MAP[underline];
+        const heavy = underline.toLowerCase().includes('heavy');
+        marks.push(style === 'solid' && !heavy
+          ? { type: 'underline' }
+          : { type: 'underline', attrs: { style, ...(heavy && { heavy }) } });
+      }
+      
+      // Strikethrough (single or double)
+      const strike = this.getString(rPr, '$strike', 'noStrike');
+      if (strike === 'sngStrike') {
+        marks.push({ type: 'strike' });
+      } else if (strike === 'dblStrike') {
+        marks.push({ type: 'strike', attrs: { double: true } });
+      }
+      
+      // Superscript / subscript from the baseline offset (in thousandths of a percent)
+      const baseline = this.getNumber(rPr, '$baseline', 0);
+      if (baseline > 0) {
+        marks.push({ type: 'superscript' });
+      } else if (baseline < 0) {
+        marks.push({ type: 'subscript' });
+      }
+      
+      // Highlight
+      const highlight = this.getNode(rPr, 'highlight');
+      if (highlight) {
+        marks.push({ type: 'highlight', attrs: { color: rgbaToCss(BaseParser.parseColorRGBA(highlight, context)) } });
+      }
+      
+      // Font size, family, color, caps and character spacing using TipTap textStyle format
       const fontSizeNum = this.getNumber(rPr, '$sz', 0);
+      const fontFamily = this.resolveRunTypeface(rPr, text, context);
       const solidFill = this.getNode(rPr, 'solidFill');
+      const cap = this.getString(rPr, '$cap', 'none');
+      const spacing = this.getNumber(rPr, '$spc', 0);
       
-      // Only create textStyle mark if we have fontSize or color
-      if (fontSizeNum > 0 || solidFill) {
+      // Only create textStyle mark if at least one of them is set
+      if (fontSizeNum > 0 || fontFamily || solidFill || cap !== 'none' || spacing !== 0) {
         const attrs: any = {};
         
         if (fontSizeNum > 0) {
@@ -494,8 +1005,24 @@ export class TextParser extends BaseParser {
           attrs.fontSize = `${fontSizeInPt}pt`;
         }
         
+        if (fontFamily) {
+          attrs.fontFamily = fontFamily;
+        }
+        
         if (solidFill) {
-          attrs.color = BaseParser.parseColor(solidFill);
+          // Translucent text keeps its alpha as an rgba() color
+          attrs.color = rgbaToCss(BaseParser.parseColorRGBA(solidFill, context));
+        }
+        
+        if (cap === 'all') {
+          attrs.textTransform = 'uppercase';
+        } else if (cap === 'small') {
+          attrs.fontVariant = 'small-caps';
+        }
+        
+        if (spacing !== 0) {
+          // spc is in hundredths of a point
+          attrs.letterSpacing = `${spacing / 100}pt`;
         }
         
         marks.push({
@@ -510,6 +1037,21 @@ export class TextParser extends BaseParser {
       }
     }
     
+    if (link) {
+      textNode.marks = [...(textNode.marks ?? []), this.createLinkMark(link)];
+    }
+    
     return textNode;
   }
+
+  /**
+   * Create a TipTap link mark; slide jumps become #slide-N / #jump fragments the client resolves
+   */
+  static createLinkMark(link: HyperlinkInfo): Mark {
+    if (link.url) {
+      return { type: 'link', attrs: { href: link.url, target: '_blank' } };
+    }
+    const href = link.slideNumber ? `#slide-${link.slideNumber}` : `#${link.jump}`;
+    return { type: 'link', attrs: { href, target: null } };
+  }
 }
@@ -3,6 +3,7 @@
  */
 
 import { BaseParser } from "./BaseParser.js";
+import { createParseContext, type ParseContext } from "./ParseContext.js";
 import {
   XMLNode,
   VideoComponent,
@@ -13,24 +14,24 @@ export class VideoParser extends BaseParser {
   /**
    * Parse video component from normalized data (works for both PPTX and clipboard)
    * @param videoComponent - Normalized video component
-   * @param relationships - Relationship data
-   * @param mediaFiles - Media files
    * @param componentIndex - Component index
    * @param slideIndex - Slide index
-   * @param r2Storage - Optional R2 storage for thumbnail hosting
+   * @param zIndex - Z-order index
+   * @param context - Parse context supplying relationships, media files and R2 storage
    * @returns Parsed video component
    */
   static async parseFromNormalized(
     videoComponent: NormalizedVideoComponent,
-    relationships: Record<string, any>,
-    mediaFiles: Record<string, Uint8Array>,
     componentIndex: number,
     slideIndex: number,
     zIndex: number,
-    r2Storage: any = null
+    context: ParseContext = createParseContext()
   ): Promise<VideoComponent | null> {
     const { data, spPr, nvPicPr, blipFill, namespace, relationshipId } =
       videoComponent;
+    const relationships: Record<string, any> = context.relationships;
+    const mediaFiles = context.mediaFiles;
+    const r2Storage = context.options.r2Storage;
 
     if (!spPr || !nvPicPr) {
       throw new Error("No spPr or nvPicPr found in normalized video component");
@@ -45,6 +46,8 @@ export class VideoParser extends BaseParser {
     const componentName =
       BaseParser.getString(cNvPr, "$name", `video-${componentIndex}`);
     const description = BaseParser.getString(cNvPr, "$descr", "");
+    const link = BaseParser.parseHyperlink(BaseParser.getNode(cNvPr, "hlinkClick"), slideIndex, context);
+    const drawingId = BaseParser.getString(cNvPr, "$id", "");
 
     // Extract video reference from nvPr
     const nvPr = BaseParser.getNode(nvPicPr, "nvPr");
@@ -176,9 +179,10 @@ export class VideoParser extends BaseParser {
             const mediaData = mediaFiles[mediaKey];
             // Use ImageParser to handle R2 upload with same pattern as regular images
             const { ImageParser } = await import("./ImageParser.js");
+            const thumbnail = await ImageParser.convertForBrowser(mediaData, thumbnailPath);
             thumbnailSrc = await ImageParser.createImageUrl(
-              mediaData,
-              thumbnailPath,
+              thumbnail.data,
+              thumbnail.filename,
               r2Storage,
             );
           }
@@ -196,6 +200,8 @@ export class VideoParser extends BaseParser {
       height: transform.height,
       slideIndex,
       zIndex,
+      ...(link && { link }),
+      ...(drawingId && { drawingId }),
       style: {
         rotation: transform.rotation || 0,
       },
@@ -9,4 +9,8 @@ export { ShapeParser } from './ShapeParser.js';
 export { ImageParser } from './ImageParser.js';
 export { TableParser } from './TableParser.js';
 export { VideoParser } from './VideoParser.js';
-export { PowerPointNormalizer } from './PowerPointNormalizer.js';
\ No newline at end of file
+export { GroupParser } from './GroupParser.js';
+export { ConnectorParser } from './ConnectorParser.js';
+export { PowerPointNormalizer } from './PowerPointNormalizer.js';
+export { createParseContext, DEFAULT_COLOR_MAP } from './ParseContext.js';
+export type { ParseContext, R2BucketLike } from './ParseContext.js';
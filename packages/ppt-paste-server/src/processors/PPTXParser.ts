@@ -20,6 +20,15 @@ import {
 import { XMLParser, XMLBuilder } from 'fast-xml-parser';
 import type { XMLNode } from '../types/index.js';
 
+// Elements usually written empty (<a:br/>, <a:close/>, the <a:comp/>, <a:inv/> and
+// <a:gray/> color transforms, the <a:grayscl/> blip effect) whose position among
+// their siblings matters.
+// fast-xml-parser collapses an empty element to "", which can't carry its
+// position, so these get a marker attribute while parsing that keeps them as
+// nodes; the marker is removed again afterwards.
+const POSITIONED_EMPTY_TAGS = new Set(['a:br', 'a:close', 'a:comp', 'a:inv', 'a:gray', 'a:grayscl']);
+const POSITION_MARKER = '$__positioned';
+
 // Parser and builder option types
 interface XMLParserOptions {
   ignoreAttributes?: boolean;
@@ -92,7 +101,14 @@ export class PPTXParser {
       textNodeName: "_text",
       parseAttributeValue: true,
       parseTagValue: true,
+      // Hex colors such as "7E0000" or "001122" must stay strings, not become 7 or 1122
+      numberParseOptions: { hex: false, leadingZeros: false, eNotation: false },
       trimValues: true,
+      captureMetaData: true, // Record each node's position so sibling order can be restored
+      updateTag: (tagName: string, _jPath: string, attributes: Record<string, unknown>) => {
+        if (POSITIONED_EMPTY_TAGS.has(tagName)) attributes[POSITION_MARKER] = '';
+        return tagName;
+      },
       ...options.parserOptions
     };
     
@@ -109,6 +125,30 @@ export class PPTXParser {
     this.builder = new XMLBuilder(this.builderOptions);
   }
 
+  /**
+   * Get the document position of a parsed XML node.
+   * fast-xml-parser groups repeated siblings by tag name; this position lets
+   * callers restore the original interleaving (e.g. sp/pic z-order).
+   */
+  static getDocumentOrder(node: any): number | undefined {
+    if (!node || typeof node !== 'object') return undefined;
+    const metadata = node[XMLParser.getMetaDataSymbol() as unknown as symbol];
+    return metadata ? metadata.startIndex : undefined;
+  }
+
+  /**
+   * Remove the markers that kept positioned empty elements (see
+   * POSITIONED_EMPTY_TAGS) as nodes, leaving an empty node with its position
+   */
+  private static removePositionMarkers(node: any): void {
+    if (Array.isArray(node)) {
+      node.forEach(child => PPTXParser.removePositionMarkers(child));
+    } else if (node && typeof node === 'object') {
+      delete node[POSITION_MARKER];
+      Object.values(node).forEach(child => PPTXParser.removePositionMarkers(child));
+    }
+  }
+
   /**
    * Convert JSZip instance to JSON object with parsed XML files
    */
@@ -130,6 +170,7 @@ export class PPTXParser {
         const xml = await file.async("string");
         try {
           content = this.parser.parse(xml) as XMLNode;
+          PPTXParser.removePositionMarkers(content);
         } catch (error) {
           console.warn(`Failed to parse XML file ${relativePath}:`, error);
           content = xml; // fallback to raw XML
@@ -326,6 +367,26 @@ export class PPTXParser {
     return table;
   }
 
+  /**
+   * Get the slide parts in show order (presentation.xml sldIdLst)
+   */
+  getSlideOrder(json: PPTXJson): string[] {
+    const slideIds = (json['ppt/presentation.xml'] as XMLNode)?.presentation?.sldIdLst?.sldId;
+    const rels = (json['ppt/_rels/presentation.xml.rels'] as XMLNode)?.Relationships?.Relationship;
+    if (!slideIds || !rels) return [];
+
+    const relArray = Array.isArray(rels) ? rels : [rels];
+    const slideFiles: string[] = [];
+    for (const slideId of Array.isArray(slideIds) ? slideIds : [slideIds]) {
+      // Namespaces are stripped, so r:id is read as "id"
+      const target: string | undefined = relArray.find(rel => rel.$Id === slideId?.id)?.$Target;
+      if (target) {
+        slideFiles.push(target.startsWith('/') ? target.slice(1) : `ppt/${target}`);
+      }
+    }
+    return slideFiles;
+  }
+
   /**
    * Get slide-to-layout relationship mapping
    */
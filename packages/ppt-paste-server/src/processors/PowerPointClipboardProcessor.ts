@@ -7,7 +7,7 @@
 
 import { PowerPointParser } from '../parsers/PowerPointParser.js';
 import { PPTXParser } from './PPTXParser.js';
-import type { PowerPointComponent } from '../types/index.js';
+import type { PowerPointComponent, ThemeFontScheme } from '../types/index.js';
 
 // Types for fetch function and R2 storage
 type FetchFunction = typeof fetch;
@@ -43,6 +43,7 @@ interface ParsedSlideData {
     width: number;
     height: number;
   };
+  themeFonts?: ThemeFontScheme | null;
 }
 
 interface ProcessingOptions {
@@ -67,6 +68,7 @@ interface ProcessClipboardUrlResult {
     width: number;
     height: number;
   };
+  themeFonts?: ThemeFontScheme | null;
   isPowerPoint: boolean;
   debug: {
     hexPreview: string;
@@ -298,6 +300,7 @@ export class PowerPointClipboardProcessor {
         layouts: result.layouts,
         slideCount: slides.length,
         slideDimensions: slideDimensions,
+        themeFonts: result.themeFonts,
         isPowerPoint: totalComponents > 0,
         debug: {
           ...fetchResult.metadata,
@@ -6,8 +6,10 @@
  * component shapes are expressed as discriminated unions.
  */
 
+import type { NormalizedPlaceholder } from './normalized.js';
+
 // Component types that can be parsed from PowerPoint
-export type ComponentType = 'text' | 'shape' | 'image' | 'table' | 'video' | 'any';
+export type ComponentType = 'text' | 'shape' | 'image' | 'table' | 'video' | 'group' | 'connector' | 'any';
 
 // Shared base component properties
 export interface PowerPointComponentBase {
@@ -23,6 +25,8 @@ export interface PowerPointComponentBase {
   metadata?: Record<string, any>;
   slideIndex: number;
   zIndex: number;
+  link?: HyperlinkInfo; // Click action from cNvPr/a:hlinkClick
+  drawingId?: string; // cNvPr id, unique within its slide; connectors bind to it
 }
 
 // Discriminated component union exported as the primary type
@@ -32,6 +36,8 @@ export type PowerPointComponent =
   | ImageComponent
   | TableComponent
   | VideoComponent
+  | GroupComponent
+  | ConnectorComponent
   | UnknownComponent;
 
 // Style information for components
@@ -52,6 +58,9 @@ export interface ComponentStyle {
   // Fill properties
   fillColor?: string;
   fillOpacity?: number;
+  fillGradient?: GradientInfo;
+  fillPattern?: PatternFillInfo;
+  fillPicture?: PictureFillInfo;
 
   // Transform properties
   rotation?: number;
@@ -64,6 +73,8 @@ export interface ComponentStyle {
 export interface TextComponent extends PowerPointComponentBase {
   type: 'text';
   richText?: any; // TipTap-style document structure (was mistakenly named textRuns during regression)
+  bodyProperties?: TextBodyProperties;
+  lang?: string; // Primary language of the text (runs in other languages carry their own)
 }
 
 // A fallback any component
@@ -82,6 +93,9 @@ export interface ShapeComponent extends PowerPointComponentBase {
   type: 'shape';
   shapeType?: string;
   geometry?: GeometryInfo | null;
+  richText?: any; // Text label, same structure as TextComponent.richText
+  bodyProperties?: TextBodyProperties;
+  lang?: string;
 }
 
 // Image-specific component
@@ -89,6 +103,12 @@ export interface ImageComponent extends PowerPointComponentBase {
   type: 'image';
   src?: string;
   alt?: string;
+  cropping?: ImageCroppingInfo; // a:srcRect, when the picture is cropped
+  fillMode?: 'stretch' | 'tile';
+  fillRect?: RelativeRect; // Stretch target inside the frame (a:stretch/a:fillRect)
+  tile?: PictureTileInfo;
+  geometry?: GeometryInfo; // Mask outline, when the picture isn't a plain rectangle
+  effects?: ImageEffects; // Color and artistic effects on the blip, when it has any
 }
 
 // Table-specific component
@@ -96,6 +116,7 @@ export interface TableComponent extends PowerPointComponentBase {
   type: 'table';
   rows?: TableRow[];
   columns?: number;
+  columnWidths?: number[]; // Pixels, one per a:tblGrid/a:gridCol
 }
 
 // Video-specific component
@@ -107,17 +128,88 @@ export interface VideoComponent extends PowerPointComponentBase {
   embedType?: 'youtube' | 'vimeo' | 'generic';
 }
 
+// Group component - children are positioned in slide coordinates
+export interface GroupComponent extends PowerPointComponentBase {
+  type: 'group';
+  children: PowerPointComponent[];
+}
+
+// Connector component (cxnSp or line preset) - points are in slide coordinates
+export interface ConnectorComponent extends PowerPointComponentBase {
+  type: 'connector';
+  connectorType: string; // Preset geometry, e.g. straightConnector1, bentConnector3
+  start: { x: number; y: number };
+  end: { x: number; y: number };
+  startArrowhead: LineEndInfo; // From a:ln/a:headEnd
+  endArrowhead: LineEndInfo; // From a:ln/a:tailEnd
+  startConnection?: ConnectionInfo | null;
+  endConnection?: ConnectionInfo | null;
+}
+
+// Line end decoration (arrowhead)
+export interface LineEndInfo {
+  type: 'none' | 'triangle' | 'stealth' | 'diamond' | 'oval' | 'arrow';
+  width: 'sm' | 'med' | 'lg';
+  length: 'sm' | 'med' | 'lg';
+}
+
+// Shape binding for a connector end
+export interface ConnectionInfo {
+  drawingId: string; // drawingId of the connected component
+  siteIndex: number; // Connection site index on the connected shape
+}
+
+// Click action of a hyperlink (a:hlinkClick)
+export interface HyperlinkInfo {
+  url?: string; // External target (web page, mailto:, file)
+  slideNumber?: number; // 1-based show position (sldIdLst order) of the ppaction://hlinksldjump target
+  jump?: string; // ppaction://hlinkshowjump target: nextslide, previousslide, firstslide, lastslide, lastslideviewed, endshow
+  tooltip?: string;
+}
+
+// Text box layout from a:bodyPr (inherited through the placeholder chain)
+export interface TextBodyProperties {
+  verticalAnchor: 'top' | 'middle' | 'bottom'; // anchor t/ctr/b (just and dist fall back to top)
+  anchorCenter: boolean; // Center the text block horizontally as a whole
+  insets: { left: number; top: number; right: number; bottom: number }; // Pixels
+  wrap: boolean; // false for wrap="none"
+  columns: number;
+  columnSpacing: number; // Pixels
+  vertical: 'horz' | 'vert' | 'vert270' | 'wordArtVert' | 'eaVert' | 'mongolianVert' | 'wordArtVertRtl';
+  autofit: {
+    type: 'none' | 'normal' | 'shape'; // noAutofit, normAutofit (shrink text), spAutoFit (resize shape)
+    fontScale?: number; // Fraction, e.g. 0.625
+    lineSpacingReduction?: number; // Fraction, e.g. 0.2
+  };
+}
+
 // Table row structure
 export interface TableRow {
   cells: TableCell[];
+  height?: number; // Pixels (a:tr h), the row's minimum height
 }
 
-// Table cell structure
+// Table cell structure - one per grid column, including the cells a merge covers
 export interface TableCell {
   content: string;
-  style?: ComponentStyle;
-  colSpan?: number;
-  rowSpan?: number;
+  style?: ComponentStyle; // fillColor / fillOpacity from the cell's a:tcPr fill
+  colSpan?: number; // a:tc gridSpan
+  rowSpan?: number; // a:tc rowSpan
+  merged?: boolean; // Covered by a spanning cell (hMerge / vMerge); its text isn't shown
+  richText?: any; // Cell text, same structure as TextComponent.richText
+  borders?: TableCellBorders;
+  margins?: { left: number; top: number; right: number; bottom: number }; // Pixels
+  verticalAnchor?: 'top' | 'middle' | 'bottom';
+}
+
+// Table cell borders (a:lnL, a:lnR, a:lnT, a:lnB and the diagonals a:lnTlToBr / a:lnBlToTr)
+export interface TableCellBorders {
+  left?: BorderInfo;
+  right?: BorderInfo;
+  top?: BorderInfo;
+  bottom?: BorderInfo;
+  diagonalDown?: BorderInfo;
+  diagonalUp?: BorderInfo;
 }
 
 // Parser configuration options
@@ -146,15 +238,98 @@ export interface NormalizedShapeComponent {
   nvSpPr?: XMLNode;
   namespace?: string;
   style?: XMLNode;
+  textBody?: XMLNode | null;
+  placeholder?: NormalizedPlaceholder;
+}
+
+// Resolved color - channels 0-255, alpha 0-1
+export interface RGBAColor {
+  r: number;
+  g: number;
+  b: number;
+  a: number;
+}
+
+// Typefaces of one theme font collection (a:majorFont / a:minorFont)
+export interface ThemeFonts {
+  latin: string;
+  eastAsian: string;
+  complexScript: string;
+  // Supplemental fonts by script code (a:font script="Jpan" ...), when the theme lists any
+  scripts?: Record<string, string>;
+}
+
+// Theme font scheme - major fonts for headings, minor fonts for body text
+export interface ThemeFontScheme {
+  name: string;
+  major: ThemeFonts;
+  minor: ThemeFonts;
 }
 
 // Fill information
 export interface FillInfo {
-  type: 'solid' | 'gradient' | 'pattern' | 'none';
+  type: 'solid' | 'gradient' | 'pattern' | 'picture' | 'none';
+  color: string; // Solid color, the first stop of a gradient, or a pattern's foreground
+  opacity: number;
+  gradient?: GradientInfo;
+  pattern?: PatternFillInfo;
+  picture?: PictureFillInfo;
+}
+
+// Pattern fill (a:pattFill)
+export interface PatternFillInfo {
+  preset: string; // ST_PresetPatternVal, e.g. dkDnDiag, smGrid, pct50
+  foregroundColor: string;
+  foregroundOpacity: number;
+  backgroundColor: string;
+  backgroundOpacity: number;
+}
+
+// Picture fill (a:blipFill on spPr or a background)
+export interface PictureFillInfo {
+  relationshipId: string;
+  url: string | null; // Resolved through the media pipeline
+  imageType: string;
+  mode: 'stretch' | 'tile';
+  opacity: number; // a:alphaModFix on the blip
+  srcRect?: RelativeRect; // Cropping of the source image
+  fillRect?: RelativeRect; // Stretch target inside the shape's bounds
+  tile?: PictureTileInfo;
+}
+
+export interface PictureTileInfo {
+  offsetX: number; // Pixels
+  offsetY: number;
+  scaleX: number; // Fraction of the image's natural size
+  scaleY: number;
+  flip: 'none' | 'x' | 'y' | 'xy';
+  align: string; // ST_RectAlignment, e.g. tl, ctr
+}
+
+// Gradient fill (a:gradFill)
+export interface GradientInfo {
+  type: 'linear' | 'circle' | 'rect' | 'shape'; // a:lin, or the a:path mode
+  angle: number; // Linear direction in degrees, clockwise from the x axis
+  scaled: boolean; // Linear angle is scaled with the shape's aspect ratio
+  stops: GradientStop[];
+  fillToRect?: RelativeRect; // Path gradient focus, as fractions inset from each edge
+  rotateWithShape: boolean;
+}
+
+export interface GradientStop {
+  position: number; // 0-1
   color: string;
   opacity: number;
 }
 
+// Rectangle given as fractional insets from each edge (a:fillToRect, a:srcRect)
+export interface RelativeRect {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
 // Border information
 export interface BorderInfo {
   type: 'solid' | 'none';
@@ -170,9 +345,28 @@ export interface GeometryInfo {
   type: string;
   preset: string | null;
   isCustom: boolean;
-  paths?: any[];
+  paths?: GeometryPath[];
 }
 
+// Outline path in shape-local pixels (origin at the shape's top-left)
+export interface GeometryPath {
+  width: number; // Path coordinate space width (from a:path w, or shape width)
+  height: number; // Path coordinate space height
+  fill: 'norm' | 'none' | 'lighten' | 'lightenLess' | 'darken' | 'darkenLess';
+  stroke: boolean;
+  closed: boolean;
+  commands: PathCommand[];
+  d: string; // SVG path data for the commands
+}
+
+// Normalized path commands - arcs are converted to cubic Béziers
+export type PathCommand =
+  | { type: 'M'; x: number; y: number }
+  | { type: 'L'; x: number; y: number }
+  | { type: 'C'; x1: number; y1: number; x2: number; y2: number; x: number; y: number }
+  | { type: 'Q'; x1: number; y1: number; x: number; y: number }
+  | { type: 'Z' };
+
 // Effects information
 export interface EffectsInfo {
   effects: string[];
@@ -187,6 +381,7 @@ export interface NormalizedImageComponent {
   nvPicPr?: XMLNode;
   blipFill?: XMLNode;
   namespace?: string;
+  style?: XMLNode;
 }
 
 // Image information returned by getImageInfo
@@ -195,6 +390,7 @@ export interface ImageInfo {
   type: string;
   size: number;
   dimensions: ImageDimensions | null;
+  effectsApplied?: boolean; // The image was re-rendered with the picture's color effects
 }
 
 // Image dimensions
@@ -212,6 +408,31 @@ export interface ImageEffectsInfo {
   effectsList: string[];
 }
 
+// A color effect on a picture's blip, in the order it applies. Amounts are
+// fractions (1 = 100%); colors are resolved with their transforms applied
+export type ImageColorEffect =
+  | { type: 'alphaModFix'; amount: number }
+  | { type: 'grayscale' }
+  | { type: 'biLevel'; threshold: number } // Luminance at or above the threshold turns white
+  | { type: 'luminance'; brightness: number; contrast: number } // -1 to 1
+  | { type: 'duotone'; dark: RGBAColor; light: RGBAColor }
+  | { type: 'colorChange'; from: RGBAColor; to: RGBAColor; useAlpha: boolean };
+
+// Office 2010 picture correction or artistic effect (a14:imgEffect), e.g.
+// artisticBlur or brightnessContrast, with its attributes as numbers
+export interface ImageArtisticEffect {
+  name: string;
+  params: Record<string, number>;
+}
+
+// Picture effects model
+export interface ImageEffects {
+  colorEffects: ImageColorEffect[];
+  // PowerPoint saves the blip already rendered with these, keeping the
+  // original in imgLayer, so they describe the picture rather than apply to it
+  artisticEffects: ImageArtisticEffect[];
+}
+
 // Media file information
 export interface MediaFileInfo {
   data: Uint8Array | Buffer;
@@ -219,7 +440,7 @@ export interface MediaFileInfo {
   size: number;
 }
 
-// Image cropping information
+// Image cropping information - insets as fractions of the source image (negative values pad it)
 export interface ImageCroppingInfo {
   left: number;
   top: number;
@@ -271,13 +492,23 @@ export interface TipTapTableCellNode {
   attrs: {
     colspan: number;
     rowspan: number;
-    colwidth: null | number;
+    colwidth: null | number[]; // Pixel width of each spanned column
+    backgroundColor?: string;
+    verticalAlign?: 'top' | 'middle' | 'bottom';
+    padding?: string; // CSS padding shorthand
+    borderLeft?: string; // CSS border shorthands
+    borderRight?: string;
+    borderTop?: string;
+    borderBottom?: string;
   };
-  content: TipTapParagraphNode[];
+  content: any[]; // Cell text blocks (paragraphs and lists)
 }
 
 export interface TipTapTableRowNode {
   type: 'tableRow';
+  attrs?: {
+    height?: number; // Pixels
+  };
   content: TipTapTableCellNode[];
 }
 
@@ -7,6 +7,8 @@
  * still giving consumers a stable, discriminated union surface.
  */
 
+import type { ThemeFontScheme } from './index.js';
+
 export type NormalizedFormat = 'pptx' | 'clipboard';
 
 export type NormalizedElement =
@@ -14,11 +16,13 @@ export type NormalizedElement =
   | NormalizedShapeElement
   | NormalizedImageElement
   | NormalizedTableElement
-  | NormalizedVideoElement;
+  | NormalizedVideoElement
+  | NormalizedGroupElement
+  | NormalizedConnectorElement;
 
 /** Base shared fields for all normalized elements */
 export interface NormalizedElementBase {
-  type: 'text' | 'shape' | 'image' | 'table' | 'video';
+  type: 'text' | 'shape' | 'image' | 'table' | 'video' | 'group' | 'connector';
   /** Z-order index (higher renders on top) */
   zIndex: number;
   /** PowerPoint namespace origin ('p' = pptx slide, 'a' = clipboard drawing) */
@@ -44,6 +48,8 @@ export interface NormalizedTextElement extends NormalizedElementBase {
   textBody?: any;
   /** Alternate text body (layout/master) */
   txBody?: any;
+  /** Layout/master inheritance for slide placeholders */
+  placeholder?: NormalizedPlaceholder;
 }
 
 export interface NormalizedShapeElement extends NormalizedElementBase {
@@ -53,6 +59,21 @@ export interface NormalizedShapeElement extends NormalizedElementBase {
   style?: any;
   /** Empty text container or clipboard nested text */
   textBody?: any;
+  /** Layout/master inheritance for slide placeholders */
+  placeholder?: NormalizedPlaceholder;
+}
+
+/** A slide placeholder (p:ph) and the layout/master shapes it inherits from */
+export interface NormalizedPlaceholder {
+  /** ph type; 'obj' when omitted */
+  type: string;
+  idx: number | null;
+  /** Matching placeholder sp on the slide layout */
+  layoutShape: any | null;
+  /** Matching placeholder sp on the slide master */
+  masterShape: any | null;
+  /** Master txStyles entry for this kind of placeholder (titleStyle, bodyStyle or otherStyle) */
+  masterTextStyle: any | null;
 }
 
 export interface NormalizedImageElement extends NormalizedElementBase {
@@ -79,6 +100,32 @@ export interface NormalizedTableElement extends NormalizedElementBase {
   graphicData?: any; // Table XML contents
 }
 
+export interface NormalizedGroupElement extends NormalizedElementBase {
+  type: 'group';
+  nvGrpSpPr?: any;
+  spPr?: any; // grpSpPr, with xfrm already mapped into parent space
+  /** Child elements in document order, positioned in slide coordinates */
+  children: NormalizedElement[];
+}
+
+export interface NormalizedConnectorElement extends NormalizedElementBase {
+  type: 'connector';
+  spPr?: any;
+  /** nvCxnSpPr for cxnSp, nvSpPr for line presets drawn as sp */
+  nvCxnSpPr?: any;
+  style?: any;
+  /** stCxn/endCxn resolved to the connected element (by cNvPr id) */
+  startConnection?: NormalizedConnection | null;
+  endConnection?: NormalizedConnection | null;
+}
+
+export interface NormalizedConnection {
+  /** cNvPr id of the connected element (the parsed component's drawingId) */
+  id: string;
+  /** Connection site index on the connected shape */
+  siteIndex: number;
+}
+
 export interface NormalizedSlide {
   /** Source file path (ppt/slides/slide1.xml or clipboard/drawings/drawing1.xml) */
   slideFile: string;
@@ -109,6 +156,8 @@ export function isShapeElement(el: NormalizedElement): el is NormalizedShapeElem
 export function isImageElement(el: NormalizedElement): el is NormalizedImageElement { return el.type === 'image'; }
 export function isTableElement(el: NormalizedElement): el is NormalizedTableElement { return el.type === 'table'; }
 export function isVideoElement(el: NormalizedElement): el is NormalizedVideoElement { return el.type === 'video'; }
+export function isGroupElement(el: NormalizedElement): el is NormalizedGroupElement { return el.type === 'group'; }
+export function isConnectorElement(el: NormalizedElement): el is NormalizedConnectorElement { return el.type === 'connector'; }
 
 export type RelationshipGraph = Record<string, unknown>;
 export type MediaFiles = Record<string, Uint8Array>;
@@ -122,6 +171,13 @@ export interface NormalizedResult {
   slideLayoutRelationships?: Record<string, string>;
   theme?: {
     colors: Record<string, string>;
+    fonts: ThemeFontScheme | null;
     rawTheme: any;
   };
+  /** Effective scheme color map per slide, layout and master part */
+  colorMaps?: Record<string, Record<string, string>>;
+  /** Presentation-wide text defaults (presentation.xml defaultTextStyle) */
+  defaultTextStyle?: any;
+  /** 1-based show position of each slide part, from presentation.xml sldIdLst */
+  slideNumbers?: Record<string, number>;
 }
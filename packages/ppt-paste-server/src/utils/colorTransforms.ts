@@ -0,0 +1,347 @@
+/**
+ * DrawingML Color Transforms
+ *
+ * Applies the transform children of a color element (tint, shade, lumMod,
+ * alpha, ...) to a base color. Transforms are applied in document order;
+ * tint, shade and the per-channel transforms work on linear RGB, the hue,
+ * saturation and luminance transforms on HSL.
+ */
+
+import { PPTXParser } from '../processors/PPTXParser.js';
+import type { RGBAColor } from '../types/index.js';
+
+export interface ColorTransform {
+  name: string;
+  value: number;
+}
+
+// CT_ColorTransform element sequence, used when document order is unavailable
+const TRANSFORM_NAMES = [
+  'tint', 'shade', 'comp', 'inv', 'gray',
+  'alpha', 'alphaOff', 'alphaMod',
+  'hue', 'hueOff', 'hueMod',
+  'sat', 'satOff', 'satMod',
+  'lum', 'lumOff', 'lumMod',
+  'red', 'redOff', 'redMod',
+  'green', 'greenOff', 'greenMod',
+  'blue', 'blueOff', 'blueMod',
+  'gamma', 'invGamma',
+];
+
+// Percentages are stored in 1000ths of a percent, angles in 60000ths of a degree
+const PERCENT = 100000;
+const DEGREE = 60000;
+
+// Preset colors (a:prstClr) by lowercased name - the CSS named colors; the
+// dk/lt/med abbreviations are expanded before lookup
+const PRESET_COLORS: Record<string, string> = {
+  aliceblue: 'F0F8FF', antiquewhite: 'FAEBD7', aqua: '00FFFF', aquamarine: '7FFFD4', azure: 'F0FFFF',
+  beige: 'F5F5DC', bisque: 'FFE4C4', black: '000000', blanchedalmond: 'FFEBCD', blue: '0000FF',
+  blueviolet: '8A2BE2', brown: 'A52A2A', burlywood: 'DEB887', cadetblue: '5F9EA0', chartreuse: '7FFF00',
+  chocolate: 'D2691E', coral: 'FF7F50', cornflowerblue: '6495ED', cornsilk: 'FFF8DC', crimson: 'DC143C',
+  cyan: '00FFFF', darkblue: '00008B', darkcyan: '008B8B', darkgoldenrod: 'B8860B', darkgray: 'A9A9A9',
+  darkgrey: 'A9A9A9', darkgreen: '006400', darkkhaki: 'BDB76B', darkmagenta: '8B008B',
+  darkolivegreen: '556B2F', darkorange: 'FF8C00', darkorchid: '9932CC', darkred: '8B0000',
+  darksalmon: 'E9967A', darkseagreen: '8FBC8F', darkslateblue: '483D8B', darkslategray: '2F4F4F',
+  darkslategrey: '2F4F4F', darkturquoise: '00CED1', darkviolet: '9400D3', deeppink: 'FF1493',
+  deepskyblue: '00BFFF', dimgray: '696969', dimgrey: '696969', dodgerblue: '1E90FF', firebrick: 'B22222',
+  floralwhite: 'FFFAF0', forestgreen: '228B22', fuchsia: 'FF00FF', gainsboro: 'DCDCDC', ghostwhite: 'F8F8FF',
+  gold: 'FFD700', goldenrod: 'DAA520', gray: '808080', grey: '808080', green: '008000',
+  greenyellow: 'ADFF2F', honeydew: 'F0FFF0', hotpink: 'FF69B4', indianred: 'CD5C5C', indigo: '4B0082',
+  ivory: 'FFFFF0', khaki: 'F0E68C', lavender: 'E6E6FA', lavenderblush: 'FFF0F5', lawngreen: '7CFC00',
+  lemonchiffon: 'FFFACD', lightblue: 'ADD8E6', lightcoral: 'F08080', lightcyan: 'E0FFFF',
+  lightgoldenrodyellow: 'FAFAD2', lightgray: 'D3D3D3', lightgrey: 'D3D3D3', lightgreen: '90EE90',
+  lightpink: 'FFB6C1', lightsalmon: 'FFA07A', lightseagreen: '20B2AA', lightskyblue: '87CEFA',
+  lightslategray: '778899', lightslategrey: '778899', lightsteelblue: 'B0C4DE', lightyellow: 'FFFFE0',
+  lime: '00FF00', limegreen: '32CD32', linen: 'FAF0E6', magenta: 'FF00FF', maroon: '800000',
+  mediumaquamarine: '66CDAA', mediumblue: '0000CD', mediumorchid: 'BA55D3', mediumpurple: '9370DB',
+  mediumseagreen: '3CB371', mediumslateblue: '7B68EE', mediumspringgreen: '00FA9A',
+  mediumturquoise: '48D1CC', mediumvioletred: 'C71585', midnightblue: '191970', mintcream: 'F5FFFA',
+  mistyrose: 'FFE4E1', moccasin: 'FFE4B5', navajowhite: 'FFDEAD', navy: '000080', oldlace: 'FDF5E6',
+  olive: '808000', olivedrab: '6B8E23', orange: 'FFA500', orangered: 'FF4500', orchid: 'DA70D6',
+  palegoldenrod: 'EEE8AA', palegreen: '98FB98', paleturquoise: 'AFEEEE', palevioletred: 'DB7093',
+  papayawhip: 'FFEFD5', peachpuff: 'FFDAB9', peru: 'CD853F', pink: 'FFC0CB', plum: 'DDA0DD',
+  powderblue: 'B0E0E6', purple: '800080', red: 'FF0000', rosybrown: 'BC8F8F', royalblue: '4169E1',
+  saddlebrown: '8B4513', salmon: 'FA8072', sandybrown: 'F4A460', seagreen: '2E8B57', seashell: 'FFF5EE',
+  sienna: 'A0522D', silver: 'C0C0C0', skyblue: '87CEEB', slateblue: '6A5ACD', slategray: '708090',
+  slategrey: '708090', snow: 'FFFAFA', springgreen: '00FF7F', steelblue: '4682B4', tan: 'D2B48C',
+  teal: '008080', thistle: 'D8BFD8', tomato: 'FF6347', turquoise: '40E0D0', violet: 'EE82EE',
+  wheat: 'F5DEB3', white: 'FFFFFF', whitesmoke: 'F5F5F5', yellow: 'FFFF00', yellowgreen: '9ACD32',
+};
+
+interface WorkingColor {
+  r: number;
+  g: number;
+  b: number;
+  a: number;
+}
+
+/**
+ * Parse a hex color value (srgbClr val, theme color) into RGBA
+ * @param value - "4472C4", "#4472C4", or a number when the XML parser read an all-digit value
+ * @returns Opaque color, or null when the value is not a hex color
+ */
+export function parseHexColor(value: unknown): RGBAColor | null {
+  if (value === undefined || value === null) return null;
+
+  // parseAttributeValue turns all-digit values such as "123456" into numbers
+  const hex = (typeof value === 'number' ? String(value).padStart(6, '0') : String(value)).replace(/^#/, '');
+  if (!/^[0-9a-f]{6}$/i.test(hex)) return null;
+
+  return {
+    r: parseInt(hex.slice(0, 2), 16),
+    g: parseInt(hex.slice(2, 4), 16),
+    b: parseInt(hex.slice(4, 6), 16),
+    a: 1,
+  };
+}
+
+/**
+ * Resolve a preset color name (prstClr val) such as "black" or "dkSlateGray"
+ * @returns Opaque color, or null for unknown names
+ */
+export function parsePresetColor(value: unknown): RGBAColor | null {
+  if (typeof value !== 'string') return null;
+  const name = value
+    .replace(/^dk(?=[A-Z])/, 'dark')
+    .replace(/^lt(?=[A-Z])/, 'light')
+    .replace(/^med(?=[A-Z])/, 'medium')
+    .toLowerCase();
+  return parseHexColor(PRESET_COLORS[name]);
+}
+
+/**
+ * Format a color as #RRGGBB, dropping alpha
+ */
+export function rgbaToHex(color: RGBAColor): string {
+  const toHex = (n: number) => Math.round(clamp(n, 0, 255)).toString(16).padStart(2, '0');
+  return `#${toHex(color.r)}${toHex(color.g)}${toHex(color.b)}`.toUpperCase();
+}
+
+/**
+ * Format a color for CSS - hex when opaque, rgba() otherwise
+ */
+export function rgbaToCss(color: RGBAColor): string {
+  if (color.a >= 1) return rgbaToHex(color);
+  const alpha = Math.round(clamp(color.a, 0, 1) * 1000) / 1000;
+  return `rgba(${Math.round(color.r)}, ${Math.round(color.g)}, ${Math.round(color.b)}, ${alpha})`;
+}
+
+/**
+ * Read the transform children of a color element (srgbClr, schemeClr, ...)
+ * fast-xml-parser groups siblings by tag, so the captured document position
+ * (kept for the attribute-less comp, inv and gray too, see PPTXParser)
+ * restores their order. Nodes built without positions use the schema sequence.
+ * @param colorNode - Color element node
+ * @returns Transforms in application order
+ */
+export function readColorTransforms(colorNode: any): ColorTransform[] {
+  if (!colorNode || typeof colorNode !== 'object') return [];
+
+  const transforms: Array<ColorTransform & { order: number | undefined; sequence: number }> = [];
+  TRANSFORM_NAMES.forEach((name, sequence) => {
+    const value = colorNode[name];
+    if (value === undefined) return;
+
+    const nodes = Array.isArray(value) ? value : [value];
+    for (const node of nodes) {
+      const val = node && typeof node === 'object' ? Number(node.$val) : NaN;
+      transforms.push({
+        name,
+        value: Number.isNaN(val) ? 0 : val,
+        order: PPTXParser.getDocumentOrder(node),
+        sequence,
+      });
+    }
+  });
+
+  const hasDocumentOrder = transforms.every(transform => transform.order !== undefined);
+  transforms.sort((a, b) => (hasDocumentOrder ? a.order! - b.order! : a.sequence - b.sequence));
+
+  return transforms.map(({ name, value }) => ({ name, value }));
+}
+
+/**
+ * Apply color transforms to a base color
+ * @param base - Base color
+ * @param transforms - Transforms in application order
+ * @returns Transformed color
+ */
+export function applyColorTransforms(base: RGBAColor, transforms: ColorTransform[]): RGBAColor {
+  const color: WorkingColor = { r: base.r / 255, g: base.g / 255, b: base.b / 255, a: base.a };
+
+  for (const { name, value } of transforms) {
+    const fraction = value / PERCENT;
+
+    switch (name) {
+      case 'tint':
+        mapLinear(color, c => c * fraction + (1 - fraction));
+        break;
+      case 'shade':
+        mapLinear(color, c => c * fraction);
+        break;
+      case 'comp':
+        mapHsl(color, hsl => ({ ...hsl, h: hsl.h + 180 }));
+        break;
+      case 'inv':
+        color.r = 1 - color.r;
+        color.g = 1 - color.g;
+        color.b = 1 - color.b;
+        break;
+      case 'gray': {
+        const gray = color.r * 0.299 + color.g * 0.587 + color.b * 0.114;
+        color.r = color.g = color.b = gray;
+        break;
+      }
+      case 'alpha':
+        color.a = fraction;
+        break;
+      case 'alphaOff':
+        color.a += fraction;
+        break;
+      case 'alphaMod':
+        color.a *= fraction;
+        break;
+      case 'hue':
+        mapHsl(color, hsl => ({ ...hsl, h: value / DEGREE }));
+        break;
+      case 'hueOff':
+        mapHsl(color, hsl => ({ ...hsl, h: hsl.h + value / DEGREE }));
+        break;
+      case 'hueMod':
+        mapHsl(color, hsl => ({ ...hsl, h: hsl.h * fraction }));
+        break;
+      case 'sat':
+        mapHsl(color, hsl => ({ ...hsl, s: fraction }));
+        break;
+      case 'satOff':
+        mapHsl(color, hsl => ({ ...hsl, s: hsl.s + fraction }));
+        break;
+      case 'satMod':
+        mapHsl(color, hsl => ({ ...hsl, s: hsl.s * fraction }));
+        break;
+      case 'lum':
+        mapHsl(color, hsl => ({ ...hsl, l: fraction }));
+        break;
+      case 'lumOff':
+        mapHsl(color, hsl => ({ ...hsl, l: hsl.l + fraction }));
+        break;
+      case 'lumMod':
+        mapHsl(color, hsl => ({ ...hsl, l: hsl.l * fraction }));
+        break;
+      case 'red':
+      case 'green':
+      case 'blue':
+        mapChannel(color, name, () => fraction);
+        break;
+      case 'redOff':
+      case 'greenOff':
+      case 'blueOff':
+        mapChannel(color, name.slice(0, -3) as ChannelName, c => c + fraction);
+        break;
+      case 'redMod':
+      case 'greenMod':
+      case 'blueMod':
+        mapChannel(color, name.slice(0, -3) as ChannelName, c => c * fraction);
+        break;
+      case 'gamma':
+        color.r = toSrgb(color.r);
+        color.g = toSrgb(color.g);
+        color.b = toSrgb(color.b);
+        break;
+      case 'invGamma':
+        color.r = toLinear(color.r);
+        color.g = toLinear(color.g);
+        color.b = toLinear(color.b);
+        break;
+    }
+
+    color.r = clamp(color.r, 0, 1);
+    color.g = clamp(color.g, 0, 1);
+    color.b = clamp(color.b, 0, 1);
+    color.a = clamp(color.a, 0, 1);
+  }
+
+  return {
+    r: Math.round(color.r * 255),
+    g: Math.round(color.g * 255),
+    b: Math.round(color.b * 255),
+    a: Math.round(color.a * 100000) / 100000,
+  };
+}
+
+type ChannelName = 'red' | 'green' | 'blue';
+
+const CHANNEL_KEYS: Record<ChannelName, 'r' | 'g' | 'b'> = { red: 'r', green: 'g', blue: 'b' };
+
+function mapChannel(color: WorkingColor, channel: ChannelName, map: (linear: number) => number): void {
+  const key = CHANNEL_KEYS[channel];
+  color[key] = toSrgb(clamp(map(toLinear(color[key])), 0, 1));
+}
+
+function mapLinear(color: WorkingColor, map: (linear: number) => number): void {
+  color.r = toSrgb(clamp(map(toLinear(color.r)), 0, 1));
+  color.g = toSrgb(clamp(map(toLinear(color.g)), 0, 1));
+  color.b = toSrgb(clamp(map(toLinear(color.b)), 0, 1));
+}
+
+function mapHsl(color: WorkingColor, map: (hsl: { h: number; s: number; l: number }) => { h: number; s: number; l: number }): void {
+  const { h, s, l } = map(rgbToHsl(color.r, color.g, color.b));
+  const rgb = hslToRgb(((h % 360) + 360) % 360, clamp(s, 0, 1), clamp(l, 0, 1));
+  color.r = rgb.r;
+  color.g = rgb.g;
+  color.b = rgb.b;
+}
+
+function toLinear(c: number): number {
+  return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+}
+
+function toSrgb(c: number): number {
+  return c <= 0.0031308 ? c * 12.92 : 1.055 * Math.pow(c, 1 / 2.4) - 0.055;
+}
+
+function rgbToHsl(r: number, g: number, b: number): { h: number; s: number; l: number } {
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const l = (max + min) / 2;
+  const delta = max - min;
+  if (delta === 0) return { h: 0, s: 0, l };
+
+  const s = l > 0.5 ? delta / (2 - max - min) : delta / (max + min);
+  let h: number;
+  if (max === r) h = (g - b) / delta + (g < b ? 6 : 0);
+  else if (max === g) h = (b - r) / delta + 2;
+  else h = (r - g) / delta + 4;
+
+  return { h: h * 60, s, l };
+}
+
+/**
+ * Convert HSL to RGB
+ * @param h - Hue in degrees (0-360)
+ * @param s - Saturation (0-1)
+ * @param l - Luminance (0-1)
+ * @returns Channels from 0 to 1
+ */
+export function hslToRgb(h: number, s: number, l: number): { r: number; g: number; b: number } {
+  if (s === 0) return { r: l, g: l, b: l };
+
+  const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
+  const p = 2 * l - q;
+  const hueToRgb = (t: number) => {
+    if (t < 0) t += 1;
+    if (t > 1) t -= 1;
+    if (t < 1 / 6) return p + (q - p) * 6 * t;
+    if (t < 1 / 2) return q;
+    if (t < 2 / 3) return p + (q - p) * (2 / 3 - t) * 6;
+    return p;
+  };
+
+  const hue = h / 360;
+  return { r: hueToRgb(hue + 1 / 3), g: hueToRgb(hue), b: hueToRgb(hue - 1 / 3) };
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
@@ -0,0 +1,378 @@
+/**
+ * EMF to SVG
+ *
+ * Clipboard payloads carry Enhanced Metafiles as vector previews, which
+ * browsers can't display. The records are replayed onto a GdiCanvas: the
+ * mapping and device-context records, pens, brushes and fonts, lines,
+ * polygons, Béziers (32- and 16-bit), rectangles, ellipses, arcs, paths,
+ * text and embedded DIB bitmaps. EMF+ comments are skipped - dual EMF+ files
+ * repeat their drawing as plain EMF records.
+ */
+
+import {
+  BLACK_PEN,
+  BS_NULL,
+  BS_SOLID,
+  DEFAULT_FONT,
+  GdiCanvas,
+  NULL_BRUSH,
+  NULL_PEN,
+  PS_NULL,
+  WHITE_BRUSH,
+  colorRefToHex,
+  dibToDataUrl,
+  type GdiMatrix,
+  type GdiObject,
+  type Point,
+} from './metafileSvg.js';
+
+const EMR_HEADER = 1;
+const EMF_SIGNATURE = 0x464d4520; // ' EMF'
+const STOCK_OBJECT = 0x80000000;
+
+// Stock objects selectable by index | 0x80000000
+const STOCK_OBJECTS: Record<number, GdiObject> = {
+  0: WHITE_BRUSH,
+  1: { kind: 'brush', style: BS_SOLID, color: '#C0C0C0' },
+  2: { kind: 'brush', style: BS_SOLID, color: '#808080' },
+  3: { kind: 'brush', style: BS_SOLID, color: '#404040' },
+  4: { kind: 'brush', style: BS_SOLID, color: '#000000' },
+  5: NULL_BRUSH,
+  6: { kind: 'pen', style: 0, width: 0, color: '#FFFFFF' },
+  7: BLACK_PEN,
+  8: NULL_PEN,
+  10: DEFAULT_FONT,
+  11: DEFAULT_FONT,
+  12: DEFAULT_FONT,
+  13: DEFAULT_FONT,
+  14: DEFAULT_FONT,
+  16: DEFAULT_FONT,
+  17: DEFAULT_FONT,
+};
+
+/**
+ * Whether the bytes are an Enhanced Metafile
+ */
+export function isEmf(bytes: Uint8Array): boolean {
+  if (bytes.length < 88) return false;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  return view.getUint32(0, true) === EMR_HEADER && view.getUint32(40, true) === EMF_SIGNATURE;
+}
+
+/**
+ * Convert an Enhanced Metafile to an SVG document
+ * @param bytes - EMF file contents
+ * @returns SVG markup sized to the metafile's frame, or null if the file can't be read
+ */
+export function emfToSvg(bytes: Uint8Array): string | null {
+  if (!isEmf(bytes)) return null;
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const canvas = new GdiCanvas();
+  const objects = new Map<number, GdiObject>();
+
+  // Bounds are inclusive device pixels; the frame is in 0.01mm
+  const bounds = readRect(view, 8);
+  const frame = readRect(view, 24);
+
+  let offset = 0;
+  while (offset + 8 <= view.byteLength) {
+    const type = view.getUint32(offset, true);
+    const size = view.getUint32(offset + 4, true);
+    if (size < 8 || offset + size > view.byteLength) break;
+    if (type === 14) break; // EMR_EOF
+
+    try {
+      playRecord(view, offset, type, canvas, objects);
+    } catch {
+      // A malformed record only loses its own drawing
+    }
+    offset += size;
+  }
+
+  const viewBox = {
+    x: bounds[0],
+    y: bounds[1],
+    width: bounds[2] - bounds[0] + 1,
+    height: bounds[3] - bounds[1] + 1,
+  };
+  if (viewBox.width <= 0 || viewBox.height <= 0) return null;
+
+  const hundredthsOfMmToPixels = 96 / 2540;
+  const frameWidth = (frame[2] - frame[0]) * hundredthsOfMmToPixels;
+  const frameHeight = (frame[3] - frame[1]) * hundredthsOfMmToPixels;
+  const hasFrame = frameWidth > 0 && frameHeight > 0;
+  return canvas.toSvg(viewBox, hasFrame ? frameWidth : viewBox.width, hasFrame ? frameHeight : viewBox.height);
+}
+
+function playRecord(view: DataView, offset: number, type: number, canvas: GdiCanvas, objects: Map<number, GdiObject>): void {
+  const i32 = (at: number) => view.getInt32(offset + at, true);
+  const u32 = (at: number) => view.getUint32(offset + at, true);
+  const dc = canvas.dc;
+
+  switch (type) {
+    case 2: // EMR_POLYBEZIER
+      canvas.polyBezier(readPoints(view, offset + 28, u32(24), false), false);
+      break;
+    case 3: // EMR_POLYGON
+      canvas.polyline(readPoints(view, offset + 28, u32(24), false), true);
+      break;
+    case 4: // EMR_POLYLINE
+      canvas.polyline(readPoints(view, offset + 28, u32(24), false), false);
+      break;
+    case 5: // EMR_POLYBEZIERTO
+      canvas.polyBezier(readPoints(view, offset + 28, u32(24), false), true);
+      break;
+    case 6: // EMR_POLYLINETO
+      canvas.polylineTo(readPoints(view, offset + 28, u32(24), false));
+      break;
+    case 7: // EMR_POLYPOLYLINE
+    case 8: // EMR_POLYPOLYGON
+      playPolyPoly(view, offset, canvas, type === 8, false);
+      break;
+    case 9: // EMR_SETWINDOWEXTEX
+      dc.windowExt = { x: i32(8), y: i32(12) };
+      break;
+    case 10: // EMR_SETWINDOWORGEX
+      dc.windowOrg = { x: i32(8), y: i32(12) };
+      break;
+    case 11: // EMR_SETVIEWPORTEXTEX
+      dc.viewportExt = { x: i32(8), y: i32(12) };
+      break;
+    case 12: // EMR_SETVIEWPORTORGEX
+      dc.viewportOrg = { x: i32(8), y: i32(12) };
+      break;
+    case 17: // EMR_SETMAPMODE
+      dc.mapMode = u32(8);
+      break;
+    case 19: // EMR_SETPOLYFILLMODE
+      dc.polyFillMode = u32(8);
+      break;
+    case 22: // EMR_SETTEXTALIGN
+      dc.textAlign = u32(8);
+      break;
+    case 24: // EMR_SETTEXTCOLOR
+      dc.textColor = colorRefToHex(u32(8));
+      break;
+    case 27: // EMR_MOVETOEX
+      canvas.moveTo(i32(8), i32(12));
+      break;
+    case 33: // EMR_SAVEDC
+      canvas.save();
+      break;
+    case 34: // EMR_RESTOREDC
+      canvas.restore(i32(8));
+      break;
+    case 35: // EMR_SETWORLDTRANSFORM
+      canvas.setWorldTransform(readMatrix(view, offset + 8));
+      break;
+    case 36: // EMR_MODIFYWORLDTRANSFORM
+      canvas.modifyWorldTransform(readMatrix(view, offset + 8), u32(32));
+      break;
+    case 37: { // EMR_SELECTOBJECT
+      const index = u32(8);
+      canvas.select(index & STOCK_OBJECT ? STOCK_OBJECTS[index & 0x7fffffff] : objects.get(index));
+      break;
+    }
+    case 38: // EMR_CREATEPEN
+      objects.set(u32(8), { kind: 'pen', style: u32(12), width: i32(16), color: colorRefToHex(u32(24)) });
+      break;
+    case 39: // EMR_CREATEBRUSHINDIRECT
+      objects.set(u32(8), { kind: 'brush', style: u32(12), color: colorRefToHex(u32(16)) });
+      break;
+    case 40: // EMR_DELETEOBJECT
+      objects.delete(u32(8));
+      break;
+    case 42: // EMR_ELLIPSE
+      canvas.ellipse(i32(8), i32(12), i32(16), i32(20));
+      break;
+    case 43: // EMR_RECTANGLE
+      canvas.rectangle(i32(8), i32(12), i32(16), i32(20));
+      break;
+    case 44: // EMR_ROUNDRECT
+      canvas.roundRect(i32(8), i32(12), i32(16), i32(20), i32(24), i32(28));
+      break;
+    case 45: // EMR_ARC
+    case 46: // EMR_CHORD
+    case 47: // EMR_PIE
+      canvas.arc(
+        type === 45 ? 'arc' : type === 46 ? 'chord' : 'pie',
+        readRect(view, offset + 8),
+        { x: i32(24), y: i32(28) },
+        { x: i32(32), y: i32(36) },
+      );
+      break;
+    case 54: // EMR_LINETO
+      canvas.lineTo(i32(8), i32(12));
+      break;
+    case 59: // EMR_BEGINPATH
+      canvas.beginPath();
+      break;
+    case 60: // EMR_ENDPATH
+      canvas.endPath();
+      break;
+    case 61: // EMR_CLOSEFIGURE
+      canvas.closeFigure();
+      break;
+    case 62: // EMR_FILLPATH
+      canvas.drawPath(true, false);
+      break;
+    case 63: // EMR_STROKEANDFILLPATH
+      canvas.drawPath(true, true);
+      break;
+    case 64: // EMR_STROKEPATH
+      canvas.drawPath(false, true);
+      break;
+    case 68: // EMR_ABORTPATH
+      canvas.abortPath();
+      break;
+    case 76: // EMR_BITBLT
+      playBitBlt(view, offset, canvas);
+      break;
+    case 81: // EMR_STRETCHDIBITS
+      playStretchDibits(view, offset, canvas);
+      break;
+    case 82: // EMR_EXTCREATEFONTINDIRECTW
+      objects.set(u32(8), readLogFont(view, offset + 12));
+      break;
+    case 83: // EMR_EXTTEXTOUTA
+    case 84: // EMR_EXTTEXTOUTW
+      playExtTextOut(view, offset, canvas, type === 84);
+      break;
+    case 85: // EMR_POLYBEZIER16
+      canvas.polyBezier(readPoints(view, offset + 28, u32(24), true), false);
+      break;
+    case 86: // EMR_POLYGON16
+      canvas.polyline(readPoints(view, offset + 28, u32(24), true), true);
+      break;
+    case 87: // EMR_POLYLINE16
+      canvas.polyline(readPoints(view, offset + 28, u32(24), true), false);
+      break;
+    case 88: // EMR_POLYBEZIERTO16
+      canvas.polyBezier(readPoints(view, offset + 28, u32(24), true), true);
+      break;
+    case 89: // EMR_POLYLINETO16
+      canvas.polylineTo(readPoints(view, offset + 28, u32(24), true));
+      break;
+    case 90: // EMR_POLYPOLYLINE16
+    case 91: // EMR_POLYPOLYGON16
+      playPolyPoly(view, offset, canvas, type === 91, true);
+      break;
+    case 95: { // EMR_EXTCREATEPEN
+      // LOGPENEX: style, width, brush style, color
+      const brushStyle = u32(36);
+      objects.set(u32(8), {
+        kind: 'pen',
+        style: brushStyle === BS_NULL ? PS_NULL : u32(28),
+        width: u32(32),
+        color: colorRefToHex(u32(40)),
+      });
+      break;
+    }
+    default:
+      // Clipping, palettes, EMF+ comments and other state that doesn't change the drawing
+      break;
+  }
+}
+
+function playPolyPoly(view: DataView, offset: number, canvas: GdiCanvas, closed: boolean, compact: boolean): void {
+  const polygonCount = view.getUint32(offset + 24, true);
+  const counts = Array.from({ length: polygonCount }, (_, i) => view.getUint32(offset + 32 + i * 4, true));
+  let pointOffset = offset + 32 + polygonCount * 4;
+  const polygons = counts.map((count) => {
+    const points = readPoints(view, pointOffset, count, compact);
+    pointOffset += count * (compact ? 4 : 8);
+    return points;
+  });
+
+  if (closed) canvas.polyPolygon(polygons);
+  else polygons.forEach((points) => canvas.polyline(points, false));
+}
+
+function playExtTextOut(view: DataView, offset: number, canvas: GdiCanvas, wide: boolean): void {
+  // EMRTEXT follows the bounds, graphics mode and scale factors
+  const x = view.getInt32(offset + 36, true);
+  const y = view.getInt32(offset + 40, true);
+  const length = view.getUint32(offset + 44, true);
+  const stringOffset = offset + view.getUint32(offset + 48, true);
+
+  let text = '';
+  for (let i = 0; i < length; i++) {
+    text += String.fromCharCode(wide ? view.getUint16(stringOffset + i * 2, true) : view.getUint8(stringOffset + i));
+  }
+  canvas.text(x, y, text);
+}
+
+function playStretchDibits(view: DataView, offset: number, canvas: GdiCanvas): void {
+  const u32 = (at: number) => view.getUint32(offset + at, true);
+  const i32 = (at: number) => view.getInt32(offset + at, true);
+  const href = readDib(view, offset, u32(48), u32(52), u32(56), u32(60));
+  if (href) canvas.image(i32(24), i32(28), i32(72), i32(76), href);
+}
+
+function playBitBlt(view: DataView, offset: number, canvas: GdiCanvas): void {
+  const u32 = (at: number) => view.getUint32(offset + at, true);
+  const i32 = (at: number) => view.getInt32(offset + at, true);
+  const [x, y, width, height] = [i32(24), i32(28), i32(32), i32(36)];
+
+  // Without a source bitmap the blit paints the brush (PATCOPY)
+  if (u32(88) === 0) {
+    canvas.fillRectangle(x, y, x + width, y + height);
+    return;
+  }
+  const href = readDib(view, offset, u32(84), u32(88), u32(92), u32(96));
+  if (href) canvas.image(x, y, width, height, href);
+}
+
+function readDib(view: DataView, offset: number, infoOffset: number, infoSize: number, bitsOffset: number, bitsSize: number): string | null {
+  if (!infoSize || !bitsSize) return null;
+  const bytes = new Uint8Array(view.buffer, view.byteOffset, view.byteLength);
+  return dibToDataUrl(
+    bytes.subarray(offset + infoOffset, offset + infoOffset + infoSize),
+    bytes.subarray(offset + bitsOffset, offset + bitsOffset + bitsSize),
+  );
+}
+
+function readLogFont(view: DataView, offset: number): GdiObject {
+  let faceName = '';
+  for (let i = 0; i < 32; i++) {
+    const char = view.getUint16(offset + 28 + i * 2, true);
+    if (!char) break;
+    faceName += String.fromCharCode(char);
+  }
+  return {
+    kind: 'font',
+    height: view.getInt32(offset, true),
+    escapement: view.getInt32(offset + 8, true),
+    weight: view.getInt32(offset + 16, true),
+    italic: view.getUint8(offset + 20) !== 0,
+    underline: view.getUint8(offset + 21) !== 0,
+    strikeout: view.getUint8(offset + 22) !== 0,
+    faceName,
+  };
+}
+
+function readPoints(view: DataView, offset: number, count: number, compact: boolean): Point[] {
+  const points: Point[] = [];
+  for (let i = 0; i < count; i++) {
+    points.push(
+      compact
+        ? { x: view.getInt16(offset + i * 4, true), y: view.getInt16(offset + i * 4 + 2, true) }
+        : { x: view.getInt32(offset + i * 8, true), y: view.getInt32(offset + i * 8 + 4, true) },
+    );
+  }
+  return points;
+}
+
+function readRect(view: DataView, offset: number): [number, number, number, number] {
+  return [
+    view.getInt32(offset, true),
+    view.getInt32(offset + 4, true),
+    view.getInt32(offset + 8, true),
+    view.getInt32(offset + 12, true),
+  ];
+}
+
+function readMatrix(view: DataView, offset: number): GdiMatrix {
+  return [0, 4, 8, 12, 16, 20].map((at) => view.getFloat32(offset + at, true)) as GdiMatrix;
+}
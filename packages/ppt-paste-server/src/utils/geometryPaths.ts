@@ -0,0 +1,259 @@
+/**
+ * DrawingML Path Conversion
+ *
+ * Turns a:path command lists (moveTo, lnTo, cubicBezTo, quadBezTo, arcTo,
+ * close) into the normalized GeometryPath model: commands in shape-local
+ * pixels with arcs approximated by cubic Béziers, plus an SVG `d` string.
+ */
+
+import { PPTXParser } from '../processors/PPTXParser.js';
+import type { GeometryPath, PathCommand } from '../types/index.js';
+import { resolveGuideValue, type GuideValues } from './shapeGuides.js';
+
+export type RawPathCommandType = 'moveTo' | 'lnTo' | 'cubicBezTo' | 'quadBezTo' | 'arcTo' | 'close';
+
+// A path command as it appears in the XML (or a preset definition)
+export interface RawPathCommand {
+  type: RawPathCommandType;
+  node: any;
+}
+
+export interface PathBuildOptions {
+  /** Target size in pixels */
+  width: number;
+  height: number;
+  /** Size used when the path does not declare w/h (the guide coordinate space) */
+  defaultPathWidth: number;
+  defaultPathHeight: number;
+  flipH?: boolean;
+  flipV?: boolean;
+}
+
+const PATH_COMMAND_TYPES: RawPathCommandType[] = ['moveTo', 'lnTo', 'cubicBezTo', 'quadBezTo', 'arcTo', 'close'];
+const DEGREE = 60000;
+
+/**
+ * Read the commands of an a:path node in document order.
+ * fast-xml-parser groups siblings by tag, so each node's captured document
+ * position (kept for `<a:close/>` too, see PPTXParser) restores the sequence.
+ * @param pathNode - a:path node
+ * @returns Ordered raw commands
+ */
+export function readPathCommands(pathNode: any): RawPathCommand[] {
+  if (!pathNode || typeof pathNode !== 'object') return [];
+
+  const positioned: Array<RawPathCommand & { order: number }> = [];
+  let fallbackOrder = 0;
+
+  for (const type of PATH_COMMAND_TYPES) {
+    const value = pathNode[type];
+    if (value === undefined) continue;
+
+    const nodes = Array.isArray(value) ? value : [value];
+    for (const node of nodes) {
+      const order = PPTXParser.getDocumentOrder(node);
+      positioned.push({ type, node, order: order ?? fallbackOrder++ });
+    }
+  }
+
+  positioned.sort((a, b) => a.order - b.order);
+  return positioned.map(({ type, node }) => ({ type, node }));
+}
+
+/**
+ * Build a GeometryPath from ordered raw commands
+ * @param pathNode - a:path node (for w, h, fill and stroke attributes)
+ * @param rawCommands - Ordered commands (see readPathCommands)
+ * @param guides - Evaluated guide values for resolving named coordinates
+ * @param options - Target size and flips
+ * @returns Normalized path
+ */
+export function buildGeometryPath(
+  pathNode: any,
+  rawCommands: RawPathCommand[],
+  guides: GuideValues,
+  options: PathBuildOptions
+): GeometryPath {
+  const pathWidth = Number(pathNode?.$w) || options.defaultPathWidth;
+  const pathHeight = Number(pathNode?.$h) || options.defaultPathHeight;
+  const scaleX = pathWidth ? options.width / pathWidth : 1;
+  const scaleY = pathHeight ? options.height / pathHeight : 1;
+
+  const toPixels = (x: number, y: number) => {
+    let px = x * scaleX;
+    let py = y * scaleY;
+    if (options.flipH) px = options.width - px;
+    if (options.flipV) py = options.height - py;
+    return { x: round(px), y: round(py) };
+  };
+  const readPoint = (pt: any) => ({
+    x: resolveGuideValue(pt?.$x, guides),
+    y: resolveGuideValue(pt?.$y, guides),
+  });
+  const readPoints = (node: any) => {
+    const pts = node?.pt;
+    if (!pts) return [];
+    return (Array.isArray(pts) ? pts : [pts]).map(readPoint);
+  };
+
+  const commands: PathCommand[] = [];
+  let current = { x: 0, y: 0 };
+  let subpathStart = { x: 0, y: 0 };
+  let closed = false;
+
+  for (const { type, node } of rawCommands) {
+    switch (type) {
+      case 'moveTo': {
+        const [point] = readPoints(node);
+        if (!point) break;
+        current = point;
+        subpathStart = point;
+        commands.push({ type: 'M', ...toPixels(point.x, point.y) });
+        break;
+      }
+      case 'lnTo': {
+        const [point] = readPoints(node);
+        if (!point) break;
+        current = point;
+        commands.push({ type: 'L', ...toPixels(point.x, point.y) });
+        break;
+      }
+      case 'cubicBezTo': {
+        const points = readPoints(node);
+        if (points.length < 3) break;
+        const [c1, c2, end] = points.map(p => toPixels(p.x, p.y));
+        commands.push({ type: 'C', x1: c1.x, y1: c1.y, x2: c2.x, y2: c2.y, x: end.x, y: end.y });
+        current = points[2];
+        break;
+      }
+      case 'quadBezTo': {
+        const points = readPoints(node);
+        if (points.length < 2) break;
+        const [c1, end] = points.map(p => toPixels(p.x, p.y));
+        commands.push({ type: 'Q', x1: c1.x, y1: c1.y, x: end.x, y: end.y });
+        current = points[1];
+        break;
+      }
+      case 'arcTo': {
+        const arc = arcToBeziers(
+          current,
+          resolveGuideValue(node?.$wR, guides),
+          resolveGuideValue(node?.$hR, guides),
+          resolveGuideValue(node?.$stAng, guides),
+          resolveGuideValue(node?.$swAng, guides)
+        );
+        for (const segment of arc.segments) {
+          const c1 = toPixels(segment[0].x, segment[0].y);
+          const c2 = toPixels(segment[1].x, segment[1].y);
+          const end = toPixels(segment[2].x, segment[2].y);
+          commands.push({ type: 'C', x1: c1.x, y1: c1.y, x2: c2.x, y2: c2.y, x: end.x, y: end.y });
+        }
+        current = arc.end;
+        break;
+      }
+      case 'close': {
+        commands.push({ type: 'Z' });
+        current = subpathStart;
+        closed = true;
+        break;
+      }
+    }
+  }
+
+  const fill = String(pathNode?.$fill ?? 'norm') as GeometryPath['fill'];
+  const strokeAttr = pathNode?.$stroke;
+  const stroke = !(strokeAttr === false || strokeAttr === 0 || strokeAttr === '0' || strokeAttr === 'false');
+
+  return {
+    width: pathWidth,
+    height: pathHeight,
+    fill,
+    stroke,
+    closed,
+    commands,
+    d: commandsToSvgPath(commands),
+  };
+}
+
+/**
+ * Approximate a DrawingML arcTo with cubic Bézier segments.
+ * The arc starts at the current point, which lies on the ellipse at stAng.
+ * stAng/swAng are visual angles, converted to the ellipse's parametric angles.
+ * @returns Bézier segments (control1, control2, end) and the arc end point
+ */
+export function arcToBeziers(
+  current: { x: number; y: number },
+  wR: number,
+  hR: number,
+  stAng: number,
+  swAng: number
+): { segments: Array<[{ x: number; y: number }, { x: number; y: number }, { x: number; y: number }]>; end: { x: number; y: number } } {
+  if (!wR || !hR || !swAng) {
+    return { segments: [], end: current };
+  }
+
+  const toParametric = (angle: number) => {
+    const radians = (angle / DEGREE) * Math.PI / 180;
+    return Math.atan2(wR * Math.sin(radians), hR * Math.cos(radians));
+  };
+
+  const start = toParametric(stAng);
+  let sweep: number;
+  if (Math.abs(swAng) >= 360 * DEGREE) {
+    sweep = Math.sign(swAng) * 2 * Math.PI;
+  } else {
+    sweep = toParametric(stAng + swAng) - start;
+    if (swAng > 0 && sweep < 0) sweep += 2 * Math.PI;
+    if (swAng < 0 && sweep > 0) sweep -= 2 * Math.PI;
+  }
+
+  const centerX = current.x - wR * Math.cos(start);
+  const centerY = current.y - hR * Math.sin(start);
+  const pointAt = (t: number) => ({ x: centerX + wR * Math.cos(t), y: centerY + hR * Math.sin(t) });
+
+  const segmentCount = Math.max(1, Math.ceil(Math.abs(sweep) / (Math.PI / 2)));
+  const step = sweep / segmentCount;
+  const k = (4 / 3) * Math.tan(step / 4);
+  const segments: Array<[{ x: number; y: number }, { x: number; y: number }, { x: number; y: number }]> = [];
+
+  for (let i = 0; i < segmentCount; i++) {
+    const a = start + step * i;
+    const b = a + step;
+    const p0 = pointAt(a);
+    const p3 = pointAt(b);
+    segments.push([
+      { x: p0.x - k * wR * Math.sin(a), y: p0.y + k * hR * Math.cos(a) },
+      { x: p3.x + k * wR * Math.sin(b), y: p3.y - k * hR * Math.cos(b) },
+      p3,
+    ]);
+  }
+
+  return { segments, end: pointAt(start + sweep) };
+}
+
+/**
+ * Serialize normalized commands to an SVG path `d` string
+ * @param commands - Normalized commands
+ * @returns SVG path data
+ */
+export function commandsToSvgPath(commands: PathCommand[]): string {
+  return commands
+    .map(command => {
+      switch (command.type) {
+        case 'M':
+        case 'L':
+          return `${command.type} ${command.x} ${command.y}`;
+        case 'C':
+          return `C ${command.x1} ${command.y1} ${command.x2} ${command.y2} ${command.x} ${command.y}`;
+        case 'Q':
+          return `Q ${command.x1} ${command.y1} ${command.x} ${command.y}`;
+        case 'Z':
+          return 'Z';
+      }
+    })
+    .join(' ');
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,214 @@
+/**
+ * Image Header Probing
+ *
+ * Media parts are named by whoever wrote the package, so a ".png" may well
+ * hold a JPEG. The real format comes from the file's magic bytes, and the
+ * intrinsic size from its header - no decoding or image library needed.
+ * Supports PNG, JPEG, GIF, WebP, BMP and SVG; TIFF, EMF and WMF are
+ * recognised but not measured (they're converted for display first).
+ */
+
+import type { ImageDimensions } from '../types/index.js';
+import { isEmf } from './emfToSvg.js';
+import { isTiff } from './tiffToPng.js';
+import { isWmf } from './wmfToSvg.js';
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+// CSS absolute units -> px, for SVG width/height attributes
+const SVG_UNITS: Record<string, number> = {
+  '': 1,
+  px: 1,
+  pt: 96 / 72,
+  pc: 16,
+  in: 96,
+  cm: 96 / 2.54,
+  mm: 96 / 25.4,
+};
+
+/**
+ * Detect an image's MIME type from its leading bytes
+ * @param bytes - Image file contents
+ * @returns MIME type, or null when the format isn't recognised
+ */
+export function detectImageMimeType(bytes: Uint8Array): string | null {
+  if (!bytes || bytes.length < 4) return null;
+
+  if (startsWith(bytes, PNG_SIGNATURE)) return 'image/png';
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return 'image/jpeg';
+  if (readAscii(bytes, 0, 6) === 'GIF87a' || readAscii(bytes, 0, 6) === 'GIF89a') return 'image/gif';
+  if (readAscii(bytes, 0, 4) === 'RIFF' && readAscii(bytes, 8, 4) === 'WEBP') return 'image/webp';
+  if (readAscii(bytes, 0, 2) === 'BM' && bytes.length >= 26) return 'image/bmp';
+  if (isTiff(bytes)) return 'image/tiff';
+  if (isEmf(bytes)) return 'image/emf';
+  if (isWmf(bytes)) return 'image/wmf';
+  if (isSvg(bytes)) return 'image/svg+xml';
+
+  return null;
+}
+
+/**
+ * Read an image's intrinsic size from its header
+ * @param bytes - Image file contents
+ * @returns width and height in pixels, or null when unknown or unreadable
+ */
+export function getImageDimensions(bytes: Uint8Array): ImageDimensions | null {
+  try {
+    switch (detectImageMimeType(bytes)) {
+      case 'image/png':
+        return readPngDimensions(bytes);
+      case 'image/jpeg':
+        return readJpegDimensions(bytes);
+      case 'image/gif':
+        return validDimensions(readUint16LE(bytes, 6), readUint16LE(bytes, 8));
+      case 'image/webp':
+        return readWebpDimensions(bytes);
+      case 'image/bmp':
+        return readBmpDimensions(bytes);
+      case 'image/svg+xml':
+        return readSvgDimensions(bytes);
+      default:
+        return null;
+    }
+  } catch {
+    // Truncated headers read past the end of the buffer
+    return null;
+  }
+}
+
+function readPngDimensions(bytes: Uint8Array): ImageDimensions | null {
+  // The IHDR chunk always comes first, right after the signature
+  if (readAscii(bytes, 12, 4) !== 'IHDR') return null;
+  return validDimensions(readUint32BE(bytes, 16), readUint32BE(bytes, 20));
+}
+
+function readJpegDimensions(bytes: Uint8Array): ImageDimensions | null {
+  let offset = 2;
+  while (offset + 9 <= bytes.length) {
+    if (bytes[offset] !== 0xff) return null;
+    const marker = bytes[offset + 1];
+    // Fill bytes before a marker
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    // Standalone markers carry no length
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd8)) {
+      offset += 2;
+      continue;
+    }
+    // SOF0-SOF15, except DHT (C4), JPG (C8) and DAC (CC), hold the frame size
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return validDimensions(readUint16BE(bytes, offset + 7), readUint16BE(bytes, offset + 5));
+    }
+    // Start of scan: compressed data follows, no frame header was found
+    if (marker === 0xda) return null;
+    offset += 2 + readUint16BE(bytes, offset + 2);
+  }
+  return null;
+}
+
+function readWebpDimensions(bytes: Uint8Array): ImageDimensions | null {
+  switch (readAscii(bytes, 12, 4)) {
+    case 'VP8 ':
+      // Lossy: 14-bit sizes after the key frame start code
+      return validDimensions(readUint16LE(bytes, 26) & 0x3fff, readUint16LE(bytes, 28) & 0x3fff);
+    case 'VP8L': {
+      // Lossless: 14-bit width - 1 and height - 1 packed after the 0x2f signature
+      const bits = readUint32LE(bytes, 21);
+      return validDimensions((bits & 0x3fff) + 1, ((bits >>> 14) & 0x3fff) + 1);
+    }
+    case 'VP8X':
+      // Extended: 24-bit canvas width - 1 and height - 1
+      return validDimensions(readUint24LE(bytes, 24) + 1, readUint24LE(bytes, 27) + 1);
+    default:
+      return null;
+  }
+}
+
+function readBmpDimensions(bytes: Uint8Array): ImageDimensions | null {
+  // OS/2 BITMAPCOREHEADER uses 16-bit sizes; later headers use signed 32-bit,
+  // with a negative height for top-down bitmaps
+  if (readUint32LE(bytes, 14) === 12) {
+    return validDimensions(readUint16LE(bytes, 18), readUint16LE(bytes, 20));
+  }
+  const view = dataView(bytes);
+  return validDimensions(Math.abs(view.getInt32(18, true)), Math.abs(view.getInt32(22, true)));
+}
+
+function readSvgDimensions(bytes: Uint8Array): ImageDimensions | null {
+  const tag = decodeText(bytes).match(/<svg\b[^>]*>/i)?.[0];
+  if (!tag) return null;
+
+  const attribute = (name: string) => tag.match(new RegExp(`\\s${name}\\s*=\\s*["']([^"']*)["']`, 'i'))?.[1];
+  const width = parseSvgLength(attribute('width'));
+  const height = parseSvgLength(attribute('height'));
+  const viewBox = attribute('viewBox')?.trim().split(/[\s,]+/).map(Number);
+  const hasViewBox = !!viewBox && viewBox.length === 4 && viewBox[2] > 0 && viewBox[3] > 0;
+
+  if (width && height) return validDimensions(width, height);
+  if (!hasViewBox) return null;
+
+  // One explicit side scales the other by the viewBox aspect ratio
+  const [, , viewWidth, viewHeight] = viewBox!;
+  if (width) return validDimensions(width, (width * viewHeight) / viewWidth);
+  if (height) return validDimensions((height * viewWidth) / viewHeight, height);
+  return validDimensions(viewWidth, viewHeight);
+}
+
+/**
+ * Parse an SVG width/height length to px; percentages and unknown units are relative,
+ * so they give no intrinsic size
+ */
+function parseSvgLength(value: string | undefined): number | null {
+  const match = value?.trim().match(/^([0-9]*\.?[0-9]+(?:e[+-]?[0-9]+)?)([a-z]*)$/i);
+  if (!match) return null;
+  const scale = SVG_UNITS[match[2].toLowerCase()];
+  return scale ? parseFloat(match[1]) * scale : null;
+}
+
+function isSvg(bytes: Uint8Array): boolean {
+  const text = decodeText(bytes.subarray(0, 4096)).replace(/^\uFEFF/, '').trimStart();
+  return (text.startsWith('<?xml') || text.startsWith('<svg') || text.startsWith('<!')) && /<svg\b/i.test(text);
+}
+
+function validDimensions(width: number, height: number): ImageDimensions | null {
+  if (!(width > 0) || !(height > 0)) return null;
+  return { width: Math.round(width), height: Math.round(height) };
+}
+
+function startsWith(bytes: Uint8Array, signature: number[]): boolean {
+  return signature.every((byte, i) => bytes[i] === byte);
+}
+
+function decodeText(bytes: Uint8Array): string {
+  return new TextDecoder('utf-8').decode(bytes);
+}
+
+function readAscii(bytes: Uint8Array, offset: number, length: number): string {
+  return String.fromCharCode(...bytes.subarray(offset, offset + length));
+}
+
+function dataView(bytes: Uint8Array): DataView {
+  return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+}
+
+function readUint16BE(bytes: Uint8Array, offset: number): number {
+  return dataView(bytes).getUint16(offset, false);
+}
+
+function readUint16LE(bytes: Uint8Array, offset: number): number {
+  return dataView(bytes).getUint16(offset, true);
+}
+
+function readUint24LE(bytes: Uint8Array, offset: number): number {
+  return readUint16LE(bytes, offset) | (bytes[offset + 2] << 16);
+}
+
+function readUint32BE(bytes: Uint8Array, offset: number): number {
+  return dataView(bytes).getUint32(offset, false);
+}
+
+function readUint32LE(bytes: Uint8Array, offset: number): number {
+  return dataView(bytes).getUint32(offset, true);
+}
@@ -0,0 +1,634 @@
+/**
+ * GDI Metafile Drawing to SVG
+ *
+ * EMF and WMF files are recordings of Windows GDI calls. Their converters
+ * replay the records onto a GdiCanvas, which keeps the device context
+ * (selected pen, brush and font, current position, coordinate mapping, the
+ * path being recorded) and turns each drawing call into an SVG element in
+ * device coordinates. Raster operations, clipping and pattern brushes are not
+ * modelled: hatched brushes fill with their flat color, pattern brushes don't
+ * fill, and world transforms that rotate only place ellipses and images by
+ * their corners.
+ */
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface GdiPen {
+  kind: 'pen';
+  style: number; // PS_* style, end cap and join flags
+  width: number; // Logical units; 0 is a one-pixel cosmetic pen
+  color: string;
+}
+
+export interface GdiBrush {
+  kind: 'brush';
+  style: number; // BS_*
+  color: string;
+}
+
+export interface GdiFont {
+  kind: 'font';
+  height: number; // Logical units; negative is the character height, positive the cell height
+  weight: number;
+  italic: boolean;
+  underline: boolean;
+  strikeout: boolean;
+  escapement: number; // Tenths of a degree, counter-clockwise
+  faceName: string;
+}
+
+// Palettes, regions and pattern brushes only take up an object table slot
+export type GdiObject = GdiPen | GdiBrush | GdiFont | { kind: 'other' };
+
+// a b c d e f: x' = a*x + c*y + e, y' = b*x + d*y + f
+export type GdiMatrix = [number, number, number, number, number, number];
+
+interface DeviceContext {
+  pen: GdiPen;
+  brush: GdiBrush;
+  font: GdiFont;
+  textColor: string;
+  textAlign: number;
+  polyFillMode: number;
+  mapMode: number;
+  position: Point;
+  windowOrg: Point;
+  windowExt: Point;
+  viewportOrg: Point;
+  viewportExt: Point;
+  worldTransform: GdiMatrix;
+}
+
+export const PS_NULL = 5;
+export const BS_SOLID = 0;
+export const BS_NULL = 1;
+export const BS_HATCHED = 2;
+const BS_PATTERN = 3;
+const BS_DIBPATTERN = 5;
+const BS_DIBPATTERNPT = 6;
+const PS_GEOMETRIC = 0x10000;
+export const MM_TEXT = 1;
+export const MM_ISOTROPIC = 7;
+export const MM_ANISOTROPIC = 8;
+export const ALTERNATE = 1;
+
+const TA_UPDATECP = 0x0001;
+const TA_RIGHT = 0x0002;
+const TA_CENTER = 0x0006;
+const TA_BOTTOM = 0x0008;
+const TA_BASELINE = 0x0018;
+
+// Pattern brushes aren't modelled, so they leave shapes unfilled like the null brush
+const UNFILLED_BRUSH_STYLES = new Set([BS_NULL, BS_PATTERN, BS_DIBPATTERN, BS_DIBPATTERNPT]);
+
+const IDENTITY: GdiMatrix = [1, 0, 0, 1, 0, 0];
+
+export const BLACK_PEN: GdiPen = { kind: 'pen', style: 0, width: 0, color: '#000000' };
+export const NULL_PEN: GdiPen = { kind: 'pen', style: PS_NULL, width: 0, color: '#000000' };
+export const WHITE_BRUSH: GdiBrush = { kind: 'brush', style: BS_SOLID, color: '#FFFFFF' };
+export const NULL_BRUSH: GdiBrush = { kind: 'brush', style: BS_NULL, color: '#000000' };
+export const DEFAULT_FONT: GdiFont = {
+  kind: 'font',
+  height: -12,
+  weight: 400,
+  italic: false,
+  underline: false,
+  strikeout: false,
+  escapement: 0,
+  faceName: 'Arial',
+};
+
+export interface GdiCanvasOptions {
+  /**
+   * Map the window onto a viewport of its own size at the origin. WMF leaves the
+   * viewport to the playback device, so its drawing is laid out in window units.
+   */
+  windowAsViewport?: boolean;
+}
+
+export class GdiCanvas {
+  dc: DeviceContext = createDeviceContext();
+  private saved: DeviceContext[] = [];
+  private elements: string[] = [];
+  private path: string[] | null = null;
+  private recordingPath = false;
+
+  constructor(private readonly options: GdiCanvasOptions = {}) {}
+
+  /**
+   * Select a pen, brush or font into the device context
+   */
+  select(object: GdiObject | undefined): void {
+    if (object?.kind === 'pen') this.dc.pen = object;
+    else if (object?.kind === 'brush') this.dc.brush = object;
+    else if (object?.kind === 'font') this.dc.font = object;
+  }
+
+  save(): void {
+    this.saved.push(cloneDeviceContext(this.dc));
+  }
+
+  /**
+   * Restore a saved device context
+   * @param index - Negative: relative to the latest save (-1 is the latest); positive: absolute
+   */
+  restore(index: number): void {
+    const depth = index < 0 ? this.saved.length + index : index - 1;
+    if (depth < 0 || depth >= this.saved.length) return;
+    this.dc = this.saved[depth];
+    this.saved.length = depth;
+  }
+
+  setWorldTransform(matrix: GdiMatrix): void {
+    this.dc.worldTransform = matrix;
+  }
+
+  /**
+   * Combine a transform with the world transform
+   * @param mode - MWT_IDENTITY (1), MWT_LEFTMULTIPLY (2), MWT_RIGHTMULTIPLY (3) or MWT_SET (4)
+   */
+  modifyWorldTransform(matrix: GdiMatrix, mode: number): void {
+    if (mode === 1) this.dc.worldTransform = IDENTITY;
+    else if (mode === 2) this.dc.worldTransform = multiply(matrix, this.dc.worldTransform);
+    else if (mode === 3) this.dc.worldTransform = multiply(this.dc.worldTransform, matrix);
+    else if (mode === 4) this.dc.worldTransform = matrix;
+  }
+
+  /**
+   * Logical coordinates -> device coordinates (world transform, then window/viewport mapping)
+   */
+  toDevice(x: number, y: number): Point {
+    const [a, b, c, d, e, f] = this.dc.worldTransform;
+    const pageX = a * x + c * y + e;
+    const pageY = b * x + d * y + f;
+    const { windowOrg, windowExt, mapMode } = this.dc;
+
+    if (this.options.windowAsViewport) {
+      return {
+        x: (pageX - windowOrg.x) * Math.sign(windowExt.x || 1),
+        y: (pageY - windowOrg.y) * Math.sign(windowExt.y || 1),
+      };
+    }
+
+    const { viewportOrg, viewportExt } = this.dc;
+    if (mapMode !== MM_ISOTROPIC && mapMode !== MM_ANISOTROPIC) {
+      return { x: pageX - windowOrg.x + viewportOrg.x, y: pageY - windowOrg.y + viewportOrg.y };
+    }
+
+    let scaleX = (viewportExt.x || 1) / (windowExt.x || 1);
+    let scaleY = (viewportExt.y || 1) / (windowExt.y || 1);
+    if (mapMode === MM_ISOTROPIC) {
+      // Isotropic mapping keeps units square, shrinking the larger scale
+      const scale = Math.min(Math.abs(scaleX), Math.abs(scaleY));
+      scaleX = Math.sign(scaleX) * scale;
+      scaleY = Math.sign(scaleY) * scale;
+    }
+    return {
+      x: (pageX - windowOrg.x) * scaleX + viewportOrg.x,
+      y: (pageY - windowOrg.y) * scaleY + viewportOrg.y,
+    };
+  }
+
+  moveTo(x: number, y: number): void {
+    this.dc.position = { x, y };
+    if (this.recordingPath) this.appendPath(`M ${formatPoint(this.toDevice(x, y))}`);
+  }
+
+  lineTo(x: number, y: number): void {
+    const from = this.toDevice(this.dc.position.x, this.dc.position.y);
+    const to = this.toDevice(x, y);
+    this.dc.position = { x, y };
+    if (this.recordingPath) {
+      this.appendPath(`L ${formatPoint(to)}`);
+    } else {
+      this.draw(`M ${formatPoint(from)} L ${formatPoint(to)}`, false, true);
+    }
+  }
+
+  /**
+   * Draw a polyline, or a filled polygon when closed
+   */
+  polyline(points: Point[], closed: boolean): void {
+    if (points.length < 2) return;
+    const d = points.map((point, i) => `${i === 0 ? 'M' : 'L'} ${formatPoint(this.toDevice(point.x, point.y))}`);
+    this.drawFigure(d.join(' ') + (closed ? ' Z' : ''), closed);
+  }
+
+  /**
+   * Continue from the current position through the points (PolylineTo)
+   */
+  polylineTo(points: Point[]): void {
+    for (const point of points) this.lineTo(point.x, point.y);
+  }
+
+  /**
+   * Fill several polygons as one shape, so holes follow the polygon fill mode
+   */
+  polyPolygon(polygons: Point[][]): void {
+    const d = polygons
+      .filter((points) => points.length > 1)
+      .map((points) =>
+        points.map((point, i) => `${i === 0 ? 'M' : 'L'} ${formatPoint(this.toDevice(point.x, point.y))}`).join(' ') + ' Z',
+      );
+    if (d.length > 0) this.drawFigure(d.join(' '), true);
+  }
+
+  /**
+   * Draw cubic Béziers: a start point then three points per curve, or (continuing
+   * from the current position) three points per curve
+   */
+  polyBezier(points: Point[], fromPosition: boolean): void {
+    const start = fromPosition ? this.dc.position : points[0];
+    const controls = fromPosition ? points : points.slice(1);
+    if (!start || controls.length < 3) return;
+
+    const segments = [`M ${formatPoint(this.toDevice(start.x, start.y))}`];
+    for (let i = 0; i + 2 < controls.length; i += 3) {
+      segments.push(`C ${controls.slice(i, i + 3).map((point) => formatPoint(this.toDevice(point.x, point.y))).join(' ')}`);
+    }
+    this.dc.position = controls[controls.length - 1];
+
+    if (this.recordingPath) {
+      // Continuing a figure doesn't start a new subpath
+      this.appendPath(fromPosition ? segments.slice(1).join(' ') : segments.join(' '));
+    } else {
+      this.draw(segments.join(' '), false, true);
+    }
+  }
+
+  rectangle(left: number, top: number, right: number, bottom: number): void {
+    const corners = [
+      this.toDevice(left, top),
+      this.toDevice(right, top),
+      this.toDevice(right, bottom),
+      this.toDevice(left, bottom),
+    ];
+    this.drawFigure(corners.map((point, i) => `${i === 0 ? 'M' : 'L'} ${formatPoint(point)}`).join(' ') + ' Z', true);
+  }
+
+  roundRect(left: number, top: number, right: number, bottom: number, cornerWidth: number, cornerHeight: number): void {
+    const box = this.deviceBox(left, top, right, bottom);
+    const scale = this.lengthScale();
+    const rx = Math.min((Math.abs(cornerWidth) * scale.x) / 2, box.width / 2);
+    const ry = Math.min((Math.abs(cornerHeight) * scale.y) / 2, box.height / 2);
+    const { x, y, width, height } = box;
+    const corner = (toX: number, toY: number) => `A ${round(rx)} ${round(ry)} 0 0 1 ${round(toX)} ${round(toY)}`;
+
+    this.drawFigure(
+      [
+        `M ${round(x + rx)} ${round(y)}`,
+        `L ${round(x + width - rx)} ${round(y)}`,
+        corner(x + width, y + ry),
+        `L ${round(x + width)} ${round(y + height - ry)}`,
+        corner(x + width - rx, y + height),
+        `L ${round(x + rx)} ${round(y + height)}`,
+        corner(x, y + height - ry),
+        `L ${round(x)} ${round(y + ry)}`,
+        corner(x + rx, y),
+        'Z',
+      ].join(' '),
+      true,
+    );
+  }
+
+  ellipse(left: number, top: number, right: number, bottom: number): void {
+    const { x, y, width, height } = this.deviceBox(left, top, right, bottom);
+    const rx = width / 2;
+    const ry = height / 2;
+    const half = (toX: number) => `A ${round(rx)} ${round(ry)} 0 1 0 ${round(toX)} ${round(y + ry)}`;
+    this.drawFigure(`M ${round(x)} ${round(y + ry)} ${half(x + width)} ${half(x)} Z`, true);
+  }
+
+  /**
+   * Draw an elliptical arc counter-clockwise from the radial through `start` to the
+   * radial through `end`; a chord closes it with a line, a pie through the center
+   */
+  arc(kind: 'arc' | 'chord' | 'pie', box: [number, number, number, number], start: Point, end: Point): void {
+    const [left, top, right, bottom] = box;
+    const cx = (left + right) / 2;
+    const cy = (top + bottom) / 2;
+    const rx = Math.abs(right - left) / 2;
+    const ry = Math.abs(bottom - top) / 2;
+    if (!rx || !ry) return;
+
+    const angleOf = (point: Point) => Math.atan2((point.y - cy) / ry, (point.x - cx) / rx);
+    const startAngle = angleOf(start);
+    const endAngle = angleOf(end);
+    // Counter-clockwise on screen (y down) runs to decreasing angles
+    let sweep = startAngle - endAngle;
+    if (sweep <= 0) sweep += 2 * Math.PI;
+
+    const pointAt = (angle: number) => this.toDevice(cx + rx * Math.cos(angle), cy + ry * Math.sin(angle));
+    const scale = this.lengthScale();
+    const [a, b, c, d] = this.dc.worldTransform;
+    const mirrored = (a * d - b * c) * this.mappingOrientation() < 0;
+    const radii = `${round(rx * scale.x)} ${round(ry * scale.y)}`;
+    const from = pointAt(startAngle);
+    const to = pointAt(startAngle - sweep);
+    // A full turn is drawn as two halves; SVG arcs can't start and end at the same point
+    const arcs =
+      sweep >= 2 * Math.PI - 1e-9
+        ? `A ${radii} 0 1 ${mirrored ? 1 : 0} ${formatPoint(pointAt(startAngle - Math.PI))} A ${radii} 0 1 ${mirrored ? 1 : 0} ${formatPoint(to)}`
+        : `A ${radii} 0 ${sweep > Math.PI ? 1 : 0} ${mirrored ? 1 : 0} ${formatPoint(to)}`;
+
+    if (kind === 'arc') {
+      if (this.recordingPath) this.appendPath(`M ${formatPoint(from)} ${arcs}`);
+      else this.draw(`M ${formatPoint(from)} ${arcs}`, false, true);
+      return;
+    }
+    const center = kind === 'pie' ? ` L ${formatPoint(this.toDevice(cx, cy))}` : '';
+    this.drawFigure(`M ${formatPoint(from)} ${arcs}${center} Z`, true);
+  }
+
+  /**
+   * Fill a rectangle with the brush and no outline (PatBlt)
+   */
+  fillRectangle(left: number, top: number, right: number, bottom: number): void {
+    const corners = [
+      this.toDevice(left, top),
+      this.toDevice(right, top),
+      this.toDevice(right, bottom),
+      this.toDevice(left, bottom),
+    ];
+    this.draw(corners.map((point, i) => `${i === 0 ? 'M' : 'L'} ${formatPoint(point)}`).join(' ') + ' Z', true, false);
+  }
+
+  beginPath(): void {
+    this.path = [];
+    this.recordingPath = true;
+  }
+
+  endPath(): void {
+    this.recordingPath = false;
+  }
+
+  abortPath(): void {
+    this.path = null;
+    this.recordingPath = false;
+  }
+
+  closeFigure(): void {
+    if (this.recordingPath) this.appendPath('Z');
+  }
+
+  /**
+   * Draw the recorded path with the brush and/or pen, then discard it
+   */
+  drawPath(fill: boolean, stroke: boolean): void {
+    const d = this.path?.join(' ');
+    this.path = null;
+    this.recordingPath = false;
+    if (d) this.draw(d, fill, stroke);
+  }
+
+  /**
+   * Draw text at a reference point, aligned by the device context's text alignment
+   */
+  text(x: number, y: number, text: string): void {
+    if (!text) return;
+    const { font, textAlign, textColor } = this.dc;
+    const origin = textAlign & TA_UPDATECP ? this.dc.position : { x, y };
+    const position = this.toDevice(origin.x, origin.y);
+    const size = Math.abs(font.height || DEFAULT_FONT.height) * this.lengthScale().y;
+
+    const attributes = [
+      `x="${round(position.x)}"`,
+      `y="${round(position.y)}"`,
+      `font-family="${escapeXml(font.faceName || DEFAULT_FONT.faceName)}"`,
+      `font-size="${round(size)}"`,
+      `fill="${textColor}"`,
+    ];
+    if ((textAlign & TA_CENTER) === TA_CENTER) attributes.push('text-anchor="middle"');
+    else if (textAlign & TA_RIGHT) attributes.push('text-anchor="end"');
+    if ((textAlign & TA_BASELINE) !== TA_BASELINE) {
+      attributes.push(`dominant-baseline="${textAlign & TA_BOTTOM ? 'text-after-edge' : 'text-before-edge'}"`);
+    }
+    if (font.weight && font.weight !== 400) attributes.push(`font-weight="${font.weight}"`);
+    if (font.italic) attributes.push('font-style="italic"');
+    const decorations = [font.underline && 'underline', font.strikeout && 'line-through'].filter(Boolean);
+    if (decorations.length > 0) attributes.push(`text-decoration="${decorations.join(' ')}"`);
+    if (font.escapement) {
+      attributes.push(`transform="rotate(${round(-font.escapement / 10)} ${round(position.x)} ${round(position.y)})"`);
+    }
+
+    this.elements.push(`<text ${attributes.join(' ')} xml:space="preserve">${escapeXml(text)}</text>`);
+  }
+
+  /**
+   * Draw a raster image stretched over a logical rectangle
+   */
+  image(x: number, y: number, width: number, height: number, href: string): void {
+    const from = this.toDevice(x, y);
+    const to = this.toDevice(x + width, y + height);
+    this.elements.push(
+      `<image x="${round(Math.min(from.x, to.x))}" y="${round(Math.min(from.y, to.y))}" ` +
+        `width="${round(Math.abs(to.x - from.x))}" height="${round(Math.abs(to.y - from.y))}" ` +
+        `preserveAspectRatio="none" href="${href}"/>`,
+    );
+  }
+
+  /**
+   * Serialize the drawing
+   * @param viewBox - Device-space area shown
+   * @param width - Rendered width in pixels
+   * @param height - Rendered height in pixels
+   */
+  toSvg(viewBox: { x: number; y: number; width: number; height: number }, width: number, height: number): string {
+    return (
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${round(width)}" height="${round(height)}" ` +
+      `viewBox="${round(viewBox.x)} ${round(viewBox.y)} ${round(viewBox.width)} ${round(viewBox.height)}" ` +
+      `preserveAspectRatio="none">${this.elements.join('')}</svg>`
+    );
+  }
+
+  /**
+   * A closed figure: recorded into the open path, or drawn with the brush and pen
+   */
+  private drawFigure(d: string, fill: boolean): void {
+    if (this.recordingPath) this.appendPath(d);
+    else this.draw(d, fill, true);
+  }
+
+  private appendPath(d: string): void {
+    this.path?.push(d);
+  }
+
+  private draw(d: string, fill: boolean, stroke: boolean): void {
+    const { pen, brush, polyFillMode } = this.dc;
+    const attributes = [`d="${d}"`];
+
+    const fillColor = fill && !UNFILLED_BRUSH_STYLES.has(brush.style) ? brush.color : 'none';
+    attributes.push(`fill="${fillColor}"`);
+    if (fillColor !== 'none' && polyFillMode === ALTERNATE) attributes.push('fill-rule="evenodd"');
+
+    if (stroke && (pen.style & 0x0f) !== PS_NULL) {
+      attributes.push(...this.strokeAttributes(pen));
+    } else {
+      attributes.push('stroke="none"');
+    }
+
+    if (fillColor === 'none' && !(stroke && (pen.style & 0x0f) !== PS_NULL)) return;
+    this.elements.push(`<path ${attributes.join(' ')}/>`);
+  }
+
+  private strokeAttributes(pen: GdiPen): string[] {
+    const scale = this.lengthScale();
+    const cosmetic = pen.width <= 1 && !(pen.style & PS_GEOMETRIC);
+    const width = cosmetic ? 1 : pen.width * ((scale.x + scale.y) / 2);
+    const attributes = [`stroke="${pen.color}"`, `stroke-width="${round(width)}"`];
+    // Cosmetic pens are one device pixel wide whatever the scale
+    if (cosmetic) attributes.push('vector-effect="non-scaling-stroke"');
+
+    const endCap = pen.style & 0x0f00;
+    attributes.push(`stroke-linecap="${endCap === 0x0100 ? 'square' : endCap === 0x0200 ? 'butt' : 'round'}"`);
+    const join = pen.style & 0xf000;
+    attributes.push(`stroke-linejoin="${join === 0x1000 ? 'bevel' : join === 0x2000 ? 'miter' : 'round'}"`);
+
+    const dashes: Record<number, number[]> = {
+      1: [3, 1],
+      2: [1, 1],
+      3: [3, 1, 1, 1],
+      4: [3, 1, 1, 1, 1, 1],
+    };
+    const dash = dashes[pen.style & 0x0f];
+    if (dash) attributes.push(`stroke-dasharray="${dash.map((length) => round(length * width)).join(' ')}"`);
+    return attributes;
+  }
+
+  /**
+   * Device-space lengths of one logical unit along x and y
+   */
+  private lengthScale(): Point {
+    const origin = this.toDevice(0, 0);
+    const unitX = this.toDevice(1, 0);
+    const unitY = this.toDevice(0, 1);
+    return {
+      x: Math.hypot(unitX.x - origin.x, unitX.y - origin.y),
+      y: Math.hypot(unitY.x - origin.x, unitY.y - origin.y),
+    };
+  }
+
+  /**
+   * Sign of the window/viewport mapping's determinant (negative when it flips an axis)
+   */
+  private mappingOrientation(): number {
+    const { windowExt, viewportExt, mapMode } = this.dc;
+    if (this.options.windowAsViewport || (mapMode !== MM_ISOTROPIC && mapMode !== MM_ANISOTROPIC)) {
+      return this.options.windowAsViewport ? Math.sign(windowExt.x || 1) * Math.sign(windowExt.y || 1) : 1;
+    }
+    return Math.sign((viewportExt.x || 1) / (windowExt.x || 1)) * Math.sign((viewportExt.y || 1) / (windowExt.y || 1));
+  }
+
+  /**
+   * Axis-aligned device box of a logical rectangle
+   */
+  private deviceBox(left: number, top: number, right: number, bottom: number) {
+    const from = this.toDevice(left, top);
+    const to = this.toDevice(right, bottom);
+    return {
+      x: Math.min(from.x, to.x),
+      y: Math.min(from.y, to.y),
+      width: Math.abs(to.x - from.x),
+      height: Math.abs(to.y - from.y),
+    };
+  }
+}
+
+/**
+ * COLORREF (0x00BBGGRR) -> #RRGGBB
+ */
+export function colorRefToHex(colorRef: number): string {
+  const hex = (value: number) => (value & 0xff).toString(16).padStart(2, '0').toUpperCase();
+  return `#${hex(colorRef)}${hex(colorRef >> 8)}${hex(colorRef >> 16)}`;
+}
+
+/**
+ * Wrap a device-independent bitmap (BITMAPINFO + bits) as an image data URL.
+ * The bits are already a JPEG or PNG when the header says so; otherwise they
+ * become a BMP file.
+ */
+export function dibToDataUrl(bitmapInfo: Uint8Array, bits: Uint8Array): string | null {
+  if (bitmapInfo.length < 12 || bits.length === 0) return null;
+
+  const info = new DataView(bitmapInfo.buffer, bitmapInfo.byteOffset, bitmapInfo.byteLength);
+  const headerSize = info.getUint32(0, true);
+  const compression = headerSize >= 40 && bitmapInfo.length >= 20 ? info.getUint32(16, true) : 0;
+  if (compression === 4) return `data:image/jpeg;base64,${bytesToBase64(bits)}`;
+  if (compression === 5) return `data:image/png;base64,${bytesToBase64(bits)}`;
+
+  const file = new Uint8Array(14 + bitmapInfo.length + bits.length);
+  const header = new DataView(file.buffer);
+  file[0] = 0x42; // 'B'
+  file[1] = 0x4d; // 'M'
+  header.setUint32(2, file.length, true);
+  header.setUint32(10, 14 + bitmapInfo.length, true);
+  file.set(bitmapInfo, 14);
+  file.set(bits, 14 + bitmapInfo.length);
+  return `data:image/bmp;base64,${bytesToBase64(file)}`;
+}
+
+export function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function createDeviceContext(): DeviceContext {
+  return {
+    pen: BLACK_PEN,
+    brush: WHITE_BRUSH,
+    font: DEFAULT_FONT,
+    textColor: '#000000',
+    textAlign: 0,
+    polyFillMode: ALTERNATE,
+    mapMode: MM_TEXT,
+    position: { x: 0, y: 0 },
+    windowOrg: { x: 0, y: 0 },
+    windowExt: { x: 1, y: 1 },
+    viewportOrg: { x: 0, y: 0 },
+    viewportExt: { x: 1, y: 1 },
+    worldTransform: IDENTITY,
+  };
+}
+
+function cloneDeviceContext(dc: DeviceContext): DeviceContext {
+  return {
+    ...dc,
+    position: { ...dc.position },
+    windowOrg: { ...dc.windowOrg },
+    windowExt: { ...dc.windowExt },
+    viewportOrg: { ...dc.viewportOrg },
+    viewportExt: { ...dc.viewportExt },
+  };
+}
+
+function multiply(first: GdiMatrix, second: GdiMatrix): GdiMatrix {
+  // Apply `first`, then `second`
+  const [a1, b1, c1, d1, e1, f1] = first;
+  const [a2, b2, c2, d2, e2, f2] = second;
+  return [
+    a1 * a2 + b1 * c2,
+    a1 * b2 + b1 * d2,
+    c1 * a2 + d1 * c2,
+    c1 * b2 + d1 * d2,
+    e1 * a2 + f1 * c2 + e2,
+    e1 * b2 + f1 * d2 + f2,
+  ];
+}
+
+function formatPoint(point: Point): string {
+  return `${round(point.x)} ${round(point.y)}`;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
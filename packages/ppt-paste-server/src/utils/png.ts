@@ -0,0 +1,330 @@
+/**
+ * PNG Codec
+ *
+ * The server re-renders a few images itself (converted TIFFs, pictures with
+ * color effects baked in), and PNG is what they're read from and written as.
+ * Decoding covers every standard color type and bit depth, interlaced or not,
+ * down to 8-bit RGBA; 16-bit samples keep their high byte. Compression uses
+ * the platform's (De)CompressionStream, available in Workers and Node 18+.
+ */
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+// Samples per pixel by color type: gray, RGB, palette, gray + alpha, RGBA
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+// Adam7 passes: starting column and row, column and row step
+const ADAM7_PASSES = [
+  [0, 0, 8, 8],
+  [4, 0, 8, 8],
+  [0, 4, 4, 8],
+  [2, 0, 4, 4],
+  [0, 2, 2, 4],
+  [1, 0, 2, 2],
+  [0, 1, 1, 2],
+];
+
+// Largest image decoded to pixels (64 MB of RGBA); bigger ones are left as they are
+export const MAX_DECODED_PIXELS = 4096 * 4096;
+
+/**
+ * Decoded image: 8-bit RGBA, rows top to bottom
+ */
+export interface RgbaImage {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+interface PngHeader {
+  width: number;
+  height: number;
+  bitDepth: number;
+  colorType: number;
+  palette: Uint8Array | null;
+  transparency: Uint8Array | null;
+}
+
+/**
+ * Decode a PNG file to RGBA pixels
+ * @param bytes - PNG file contents
+ * @returns decoded image, or null for unreadable or oversized files
+ */
+export async function decodePng(bytes: Uint8Array): Promise<RgbaImage | null> {
+  if (bytes.length < 8 || PNG_SIGNATURE.some((byte, i) => bytes[i] !== byte)) return null;
+
+  try {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    let header: PngHeader | null = null;
+    let interlaced = false;
+    const compressed: Uint8Array[] = [];
+
+    let offset = PNG_SIGNATURE.length;
+    while (offset + 8 <= bytes.length) {
+      const length = view.getUint32(offset);
+      const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+      const data = bytes.subarray(offset + 8, offset + 8 + length);
+      if (type === 'IHDR') {
+        header = {
+          width: view.getUint32(offset + 8),
+          height: view.getUint32(offset + 12),
+          bitDepth: data[8],
+          colorType: data[9],
+          palette: null,
+          transparency: null,
+        };
+        interlaced = data[12] === 1;
+      } else if (type === 'PLTE' && header) {
+        header.palette = data;
+      } else if (type === 'tRNS' && header) {
+        header.transparency = data;
+      } else if (type === 'IDAT') {
+        compressed.push(data);
+      } else if (type === 'IEND') {
+        break;
+      }
+      offset += length + 12;
+    }
+
+    if (!header || !header.width || !header.height || !CHANNELS[header.colorType]) return null;
+    if (header.width * header.height > MAX_DECODED_PIXELS) return null;
+    if (header.colorType === 3 && !header.palette) return null;
+
+    const raw = await inflate(concatBytes(compressed));
+    if (!raw) return null;
+
+    const { width, height } = header;
+    const rgba = new Uint8Array(width * height * 4);
+    if (!interlaced) {
+      readPass(raw, 0, header, rgba, [0, 0, 1, 1]);
+    } else {
+      let passOffset = 0;
+      for (const pass of ADAM7_PASSES) passOffset = readPass(raw, passOffset, header, rgba, pass);
+    }
+    return { width, height, data: rgba };
+  } catch {
+    // Truncated or corrupt image data
+    return null;
+  }
+}
+
+/**
+ * Encode RGBA pixels as an 8-bit truecolor-with-alpha PNG
+ * @param image - Pixels to encode
+ * @returns PNG file contents, or null if compression fails
+ */
+export async function encodePng(image: RgbaImage): Promise<Uint8Array | null> {
+  const { width, height, data } = image;
+
+  // Each scanline starts with its filter type (0: none)
+  const raw = new Uint8Array((width * 4 + 1) * height);
+  for (let y = 0; y < height; y++) {
+    raw.set(data.subarray(y * width * 4, (y + 1) * width * 4), y * (width * 4 + 1) + 1);
+  }
+  const compressed = await deflate(raw);
+  if (!compressed) return null;
+
+  const header = new Uint8Array(13);
+  const headerView = new DataView(header.buffer);
+  headerView.setUint32(0, width);
+  headerView.setUint32(4, height);
+  header.set([8, 6, 0, 0, 0], 8); // 8 bits, RGBA, deflate, adaptive filtering, no interlace
+
+  return concatBytes([
+    new Uint8Array(PNG_SIGNATURE),
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', compressed),
+    pngChunk('IEND', new Uint8Array(0)),
+  ]);
+}
+
+/**
+ * Decompress zlib (RFC 1950) data
+ * @returns decompressed bytes, or null for corrupt data
+ */
+export function inflate(data: Uint8Array): Promise<Uint8Array | null> {
+  return transform(data, new DecompressionStream('deflate'));
+}
+
+/**
+ * Compress data in zlib (RFC 1950) format
+ * @returns compressed bytes, or null if the stream fails
+ */
+export function deflate(data: Uint8Array): Promise<Uint8Array | null> {
+  return transform(data, new CompressionStream('deflate'));
+}
+
+/**
+ * Unfilter one pass (the whole image when not interlaced) and write its pixels
+ * @param pass - Starting column and row, column and row step
+ * @returns offset of the next pass in the raw data
+ */
+function readPass(raw: Uint8Array, offset: number, header: PngHeader, rgba: Uint8Array, pass: number[]): number {
+  const [startX, startY, stepX, stepY] = pass;
+  const passWidth = Math.ceil((header.width - startX) / stepX);
+  const passHeight = Math.ceil((header.height - startY) / stepY);
+  if (passWidth <= 0 || passHeight <= 0) return offset;
+
+  const channels = CHANNELS[header.colorType];
+  const bitsPerPixel = channels * header.bitDepth;
+  const rowBytes = Math.ceil((passWidth * bitsPerPixel) / 8);
+  const bytesPerPixel = Math.max(1, bitsPerPixel >> 3);
+
+  let previous = new Uint8Array(rowBytes);
+  for (let y = 0; y < passHeight; y++) {
+    const filter = raw[offset];
+    const row = raw.slice(offset + 1, offset + 1 + rowBytes);
+    if (row.length < rowBytes) throw new Error('PNG image data is truncated');
+    unfilterRow(row, previous, filter, bytesPerPixel);
+    offset += rowBytes + 1;
+
+    for (let x = 0; x < passWidth; x++) {
+      const target = ((startY + y * stepY) * header.width + startX + x * stepX) * 4;
+      writePixel(row, x, header, rgba, target);
+    }
+    previous = row;
+  }
+  return offset;
+}
+
+function unfilterRow(row: Uint8Array, previous: Uint8Array, filter: number, bytesPerPixel: number): void {
+  for (let i = 0; i < row.length; i++) {
+    const left = i >= bytesPerPixel ? row[i - bytesPerPixel] : 0;
+    const up = previous[i];
+    const upLeft = i >= bytesPerPixel ? previous[i - bytesPerPixel] : 0;
+    switch (filter) {
+      case 1: // Sub
+        row[i] += left;
+        break;
+      case 2: // Up
+        row[i] += up;
+        break;
+      case 3: // Average
+        row[i] += (left + up) >> 1;
+        break;
+      case 4: // Paeth
+        row[i] += paeth(left, up, upLeft);
+        break;
+      default:
+        break;
+    }
+  }
+}
+
+function paeth(left: number, up: number, upLeft: number): number {
+  const estimate = left + up - upLeft;
+  const distanceLeft = Math.abs(estimate - left);
+  const distanceUp = Math.abs(estimate - up);
+  const distanceUpLeft = Math.abs(estimate - upLeft);
+  if (distanceLeft <= distanceUp && distanceLeft <= distanceUpLeft) return left;
+  return distanceUp <= distanceUpLeft ? up : upLeft;
+}
+
+/**
+ * Convert the pixel at column x of an unfiltered row to RGBA
+ */
+function writePixel(row: Uint8Array, x: number, header: PngHeader, rgba: Uint8Array, target: number): void {
+  const { bitDepth, colorType, palette, transparency } = header;
+  const channels = CHANNELS[colorType];
+  const maxValue = (1 << bitDepth) - 1;
+
+  // Raw sample value at its own bit depth
+  const sample = (channel: number) => {
+    const index = x * channels + channel;
+    if (bitDepth === 8) return row[index];
+    if (bitDepth === 16) return (row[index * 2] << 8) | row[index * 2 + 1];
+    const bit = index * bitDepth;
+    return (row[bit >> 3] >> (8 - bitDepth - (bit & 7))) & maxValue;
+  };
+  const to8Bit = (value: number) => (bitDepth === 16 ? value >> 8 : Math.round((value * 255) / maxValue));
+  // tRNS holds a single 16-bit gray or RGB value that is fully transparent
+  const isTransparentKey = (values: number[]) =>
+    !!transparency &&
+    transparency.length >= values.length * 2 &&
+    values.every((value, i) => ((transparency[i * 2] << 8) | transparency[i * 2 + 1]) === value);
+
+  switch (colorType) {
+    case 0: {
+      const gray = sample(0);
+      const value = to8Bit(gray);
+      rgba.set([value, value, value, isTransparentKey([gray]) ? 0 : 255], target);
+      break;
+    }
+    case 2: {
+      const values = [sample(0), sample(1), sample(2)];
+      rgba.set([to8Bit(values[0]), to8Bit(values[1]), to8Bit(values[2]), isTransparentKey(values) ? 0 : 255], target);
+      break;
+    }
+    case 3: {
+      const index = sample(0);
+      rgba.set(palette!.subarray(index * 3, index * 3 + 3), target);
+      rgba[target + 3] = transparency && index < transparency.length ? transparency[index] : 255;
+      break;
+    }
+    case 4: {
+      const value = to8Bit(sample(0));
+      rgba.set([value, value, value, to8Bit(sample(1))], target);
+      break;
+    }
+    case 6:
+      rgba.set([to8Bit(sample(0)), to8Bit(sample(1)), to8Bit(sample(2)), to8Bit(sample(3))], target);
+      break;
+  }
+}
+
+function pngChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(data.length + 12);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  chunk.set(Array.from(type, (char) => char.charCodeAt(0)), 4);
+  chunk.set(data, 8);
+  view.setUint32(data.length + 8, crc32(chunk.subarray(4, data.length + 8)));
+  return chunk;
+}
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (const byte of bytes) crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const output = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    output.set(part, offset);
+    offset += part.length;
+  }
+  return output;
+}
+
+/**
+ * Run bytes through a compression or decompression stream
+ */
+async function transform(data: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array | null> {
+  try {
+    const writer = stream.writable.getWriter();
+    // Errors surface on the readable side
+    writer.write(data).catch(() => {});
+    writer.close().catch(() => {});
+
+    const chunks: Uint8Array[] = [];
+    const reader = stream.readable.getReader();
+    for (let result = await reader.read(); !result.done; result = await reader.read()) {
+      chunks.push(result.value);
+    }
+    return concatBytes(chunks);
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,217 @@
+/**
+ * Preset Geometry Evaluation
+ *
+ * Evaluates a preset shape (a:prstGeom) for a given size and set of adjust
+ * values into the normalized GeometryPath model, using the same guide and
+ * path machinery as custom geometry.
+ */
+
+import type { GeometryPath, PathCommand } from '../types/index.js';
+import { buildGeometryPath, commandsToSvgPath, type RawPathCommand } from './geometryPaths.js';
+import { createGuideValues, evaluateGuides, type GuideDefinition } from './shapeGuides.js';
+import { getPresetShapeDefinition, type PresetTransform } from './presetShapeDefinitions.js';
+
+export interface PresetGeometryOptions {
+  /** Shape size in EMU (the guide coordinate space) */
+  widthEmu: number;
+  heightEmu: number;
+  /** Target size in pixels */
+  width: number;
+  height: number;
+  /** Adjust values from the shape's avLst (override the preset defaults) */
+  adjustValues?: GuideDefinition[];
+  flipH?: boolean;
+  flipV?: boolean;
+}
+
+interface CompiledPath {
+  node: Record<string, string>;
+  commands: RawPathCommand[];
+}
+
+// Number of arguments per path command in the definition syntax
+const COMMAND_ARITY: Record<string, { type: RawPathCommand['type']; args: number }> = {
+  M: { type: 'moveTo', args: 2 },
+  L: { type: 'lnTo', args: 2 },
+  C: { type: 'cubicBezTo', args: 6 },
+  Q: { type: 'quadBezTo', args: 4 },
+  A: { type: 'arcTo', args: 4 },
+  Z: { type: 'close', args: 0 },
+};
+
+const compiledPaths = new Map<string, CompiledPath>();
+
+/**
+ * Check whether a preset has an outline definition
+ * @param preset - ST_ShapeType name
+ */
+export function hasPresetGeometry(preset: string | null | undefined): boolean {
+  return !!preset && getPresetShapeDefinition(preset) !== null;
+}
+
+/**
+ * Evaluate a preset shape into outline paths
+ * @param preset - ST_ShapeType name, e.g. "roundRect"
+ * @param options - Shape size, adjust values and flips
+ * @returns Paths in shape-local pixels, or null for unknown presets
+ */
+export function evaluatePresetGeometry(preset: string, options: PresetGeometryOptions): GeometryPath[] | null {
+  const resolved = getPresetShapeDefinition(preset);
+  if (!resolved) return null;
+
+  const { definition, transform } = resolved;
+  const transposed = transform === 'transpose' || transform === 'transposeFlipV';
+
+  // Transposed variants are evaluated in the swapped coordinate space
+  const widthEmu = transposed ? options.heightEmu : options.widthEmu;
+  const heightEmu = transposed ? options.widthEmu : options.heightEmu;
+  const width = transposed ? options.height : options.width;
+  const height = transposed ? options.width : options.height;
+
+  const guides = createGuideValues(widthEmu, heightEmu);
+  for (const [name, value] of Object.entries(definition.avLst || {})) {
+    guides.set(name, value);
+  }
+  evaluateGuides(options.adjustValues || [], guides);
+  evaluateGuides((definition.gdLst || []).map(parseGuide), guides);
+
+  return definition.pathLst.map(source => {
+    const { node, commands } = compilePath(source);
+    const path = buildGeometryPath(node, commands, guides, {
+      width,
+      height,
+      defaultPathWidth: widthEmu,
+      defaultPathHeight: heightEmu,
+    });
+
+    return mapPathPoints(path, point => {
+      let { x, y } = applyTransform(point, transform, width, height);
+      if (options.flipH) x = options.width - x;
+      if (options.flipV) y = options.height - y;
+      return { x, y };
+    });
+  });
+}
+
+/**
+ * Parse a guide written as "name op args..."
+ */
+function parseGuide(source: string): GuideDefinition {
+  const [name, ...fmla] = source.trim().split(/\s+/);
+  return { name, fmla: fmla.join(' ') };
+}
+
+/**
+ * Compile a path definition into an a:path-like node and raw commands
+ * @param source - Path definition, e.g. "fill=none M l t L r b"
+ */
+function compilePath(source: string): CompiledPath {
+  const cached = compiledPaths.get(source);
+  if (cached) return cached;
+
+  const tokens = source.trim().split(/\s+/);
+  const node: Record<string, string> = {};
+  const commands: RawPathCommand[] = [];
+
+  let i = 0;
+  while (i < tokens.length) {
+    const token = tokens[i];
+    const attribute = token.match(/^(\w+)=(.+)$/);
+    if (attribute) {
+      node[`$${attribute[1]}`] = attribute[2];
+      i++;
+      continue;
+    }
+
+    const command = COMMAND_ARITY[token];
+    if (!command) {
+      throw new Error(`Invalid preset path token "${token}" in "${source}"`);
+    }
+    const args = tokens.slice(i + 1, i + 1 + command.args);
+    i += 1 + command.args;
+
+    switch (command.type) {
+      case 'arcTo':
+        commands.push({
+          type: 'arcTo',
+          node: { $wR: args[0], $hR: args[1], $stAng: args[2], $swAng: args[3] },
+        });
+        break;
+      case 'close':
+        commands.push({ type: 'close', node: '' });
+        break;
+      default: {
+        const pt = [];
+        for (let p = 0; p < args.length; p += 2) {
+          pt.push({ $x: args[p], $y: args[p + 1] });
+        }
+        commands.push({ type: command.type, node: { pt: pt.length === 1 ? pt[0] : pt } });
+      }
+    }
+  }
+
+  const compiled = { node, commands };
+  compiledPaths.set(source, compiled);
+  return compiled;
+}
+
+/**
+ * Apply a definition transform to a point in the (possibly transposed) path space
+ */
+function applyTransform(
+  point: { x: number; y: number },
+  transform: PresetTransform | null,
+  width: number,
+  height: number
+): { x: number; y: number } {
+  switch (transform) {
+    case 'flipH':
+      return { x: width - point.x, y: point.y };
+    case 'flipV':
+      return { x: point.x, y: height - point.y };
+    case 'transpose':
+      return { x: point.y, y: point.x };
+    case 'transposeFlipV':
+      return { x: point.y, y: width - point.x };
+    default:
+      return point;
+  }
+}
+
+/**
+ * Map every point of a path, rebuilding its SVG data
+ */
+function mapPathPoints(
+  path: GeometryPath,
+  map: (point: { x: number; y: number }) => { x: number; y: number }
+): GeometryPath {
+  const mapPoint = (x: number, y: number) => {
+    const mapped = map({ x, y });
+    return { x: round(mapped.x), y: round(mapped.y) };
+  };
+
+  const commands = path.commands.map((command): PathCommand => {
+    switch (command.type) {
+      case 'M':
+      case 'L':
+        return { type: command.type, ...mapPoint(command.x, command.y) };
+      case 'C': {
+        const c1 = mapPoint(command.x1, command.y1);
+        const c2 = mapPoint(command.x2, command.y2);
+        return { type: 'C', x1: c1.x, y1: c1.y, x2: c2.x, y2: c2.y, ...mapPoint(command.x, command.y) };
+      }
+      case 'Q': {
+        const c1 = mapPoint(command.x1, command.y1);
+        return { type: 'Q', x1: c1.x, y1: c1.y, ...mapPoint(command.x, command.y) };
+      }
+      case 'Z':
+        return command;
+    }
+  });
+
+  return { ...path, commands, d: commandsToSvgPath(commands) };
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
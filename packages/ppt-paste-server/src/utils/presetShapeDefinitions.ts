@@ -0,0 +1,2238 @@
+/**
+ * DrawingML Preset Shape Definitions
+ *
+ * Outline definitions for the ST_ShapeType presets, written in the same terms
+ * as presetShapeDefinitions.xml: adjust value defaults (avLst), guide formulas
+ * (gdLst, "name op args...") and paths. Paths use a compact command syntax:
+ *
+ *   M x y | L x y | C x1 y1 x2 y2 x y | Q x1 y1 x y | A wR hR stAng swAng | Z
+ *
+ * optionally preceded by path attributes (w=, h=, fill=, stroke=). Arguments
+ * are guide names or literals, exactly as in an a:path element.
+ *
+ * Mirrored variants (e.g. curvedLeftArrow) reuse a base definition with a
+ * transform instead of repeating its guides.
+ */
+
+export interface PresetShapeDefinition {
+  /** Adjust handles and their default values */
+  avLst?: Record<string, number>;
+  /** Guide formulas in evaluation order */
+  gdLst?: string[];
+  /** Path definitions */
+  pathLst: string[];
+}
+
+export type PresetTransform = 'flipH' | 'flipV' | 'transpose' | 'transposeFlipV';
+
+export interface DerivedPresetDefinition {
+  base: string;
+  transform: PresetTransform;
+}
+
+type PresetEntry = PresetShapeDefinition | DerivedPresetDefinition;
+
+const ELLIPSE = 'M l vc A wd2 hd2 cd2 cd4 A wd2 hd2 3cd4 cd4 A wd2 hd2 0 cd4 A wd2 hd2 cd4 cd4 Z';
+const RECT = 'M l t L r t L r b L l b Z';
+const CLOUD =
+  'w=43200 h=43200 M 3900 14370 A 6753 9190 -11429249 7426832 A 5333 7267 -8646143 5396714 ' +
+  'A 4365 5945 -8748475 5983381 A 4857 6595 -7859164 7034504 A 5333 7273 -4722533 6541615 ' +
+  'A 6775 9220 -2776035 7816140 A 5785 7867 37501 6842000 A 6752 9215 1347096 6910353 ' +
+  'A 7720 10543 3974558 4542661 A 4360 5918 -16496525 8804134 A 4345 5945 -14809710 9151131 Z';
+
+/**
+ * Regular stars: outer points on the (optionally stretched) bounding ellipse,
+ * inner points on an ellipse scaled by the adjust value.
+ */
+function star(points: number, adj: number, hf?: number, vf?: number): PresetShapeDefinition {
+  const avLst: Record<string, number> = { adj };
+  if (hf) avLst.hf = hf;
+  if (vf) avLst.vf = vf;
+
+  const gdLst = [
+    'a pin 0 adj 50000',
+    hf ? 'swd2 */ wd2 hf 100000' : 'swd2 */ wd2 1 1',
+    vf ? 'shd2 */ hd2 vf 100000' : 'shd2 */ hd2 1 1',
+    vf ? 'svc */ vc vf 100000' : 'svc */ vc 1 1',
+    'iwd2 */ swd2 a 50000',
+    'ihd2 */ shd2 a 50000',
+  ];
+
+  const commands: string[] = [];
+  const step = 21600000 / points;
+  for (let i = 0; i < points; i++) {
+    const outer = Math.round(16200000 + step * i) % 21600000;
+    const inner = Math.round(16200000 + step * i + step / 2) % 21600000;
+    gdLst.push(
+      `odx${i} cos swd2 ${outer}`,
+      `ody${i} sin shd2 ${outer}`,
+      `ox${i} +- hc odx${i} 0`,
+      `oy${i} +- svc ody${i} 0`,
+      `idx${i} cos iwd2 ${inner}`,
+      `idy${i} sin ihd2 ${inner}`,
+      `ix${i} +- hc idx${i} 0`,
+      `iy${i} +- svc idy${i} 0`
+    );
+    commands.push(`${i === 0 ? 'M' : 'L'} ox${i} oy${i}`, `L ix${i} iy${i}`);
+  }
+
+  return { avLst, gdLst, pathLst: [`${commands.join(' ')} Z`] };
+}
+
+/**
+ * Line callouts (callout1-3 and their accent/border variants)
+ */
+function callout(lines: 1 | 2 | 3, accent: boolean, border: boolean): PresetShapeDefinition {
+  const defaults: Record<number, number[]> = {
+    1: [18750, -8333, 112500, -38333],
+    2: [18750, -8333, 18750, -16667, 112500, -46667],
+    3: [18750, -8333, 18750, -16667, 100000, -16667, 112963, -8333],
+  };
+
+  const avLst: Record<string, number> = {};
+  const gdLst: string[] = [];
+  const leader: string[] = [];
+  defaults[lines].forEach((value, i) => {
+    avLst[`adj${i + 1}`] = value;
+  });
+  for (let i = 1; i <= lines + 1; i++) {
+    gdLst.push(`y${i} */ h adj${i * 2 - 1} 100000`, `x${i} */ w adj${i * 2} 100000`);
+    leader.push(`${i === 1 ? 'M' : 'L'} x${i} y${i}`);
+  }
+
+  const pathLst = [border ? RECT : `stroke=false ${RECT}`];
+  if (accent) pathLst.push('fill=none M x1 t L x1 b');
+  pathLst.push(`fill=none ${leader.join(' ')}`);
+
+  return { avLst, gdLst, pathLst };
+}
+
+/**
+ * Action buttons: a rectangle with an icon drawn on a 16x16 grid centred in
+ * the shape (i0..i16 horizontally, j0..j16 vertically, s1..s8 radii).
+ */
+function actionButton(...icon: string[]): PresetShapeDefinition {
+  const gdLst = ['dx2 */ ss 3 8', 'g9 +- vc 0 dx2', 'g11 +- hc 0 dx2', 'g13 */ ss 3 4'];
+  for (let n = 0; n <= 16; n++) {
+    gdLst.push(`gs${n} */ g13 ${n} 16`, `i${n} +- g11 gs${n} 0`, `j${n} +- g9 gs${n} 0`);
+    if (n > 0 && n <= 8) gdLst.push(`s${n} */ g13 ${n} 16`);
+  }
+  return { gdLst, pathLst: [RECT, ...icon] };
+}
+
+/**
+ * Gears: teeth on the bounding ellipse with arcs along the root circle
+ */
+function gear(teeth: number, adj1: number, adj2: number): PresetShapeDefinition {
+  const step = 21600000 / teeth;
+  const gdLst = [
+    'a1 pin 0 adj1 20000',
+    'a2 pin 0 adj2 5358',
+    'th */ ss a1 100000',
+    'lFD */ ss a2 100000',
+    'th3 */ th 1 3',
+    'th2 */ th 1 2',
+    'tip +- lFD th3 0',
+    'base +- tip th2 0',
+    'rw +- wd2 0 th',
+    'rh +- hd2 0 th',
+    'rs +- ssd2 0 th',
+    'dT at2 ssd2 tip',
+    'dB at2 rs base',
+    'rootSw +- ' + step + ' 0 dB',
+    'rootSw2 +- rootSw 0 dB',
+  ];
+
+  const commands: string[] = [];
+  for (let i = 0; i < teeth; i++) {
+    const centre = Math.round(16200000 + step * i) % 21600000;
+    gdLst.push(
+      `c${i} val ${centre}`,
+      `b1a${i} +- c${i} 0 dB`,
+      `t1a${i} +- c${i} 0 dT`,
+      `t2a${i} +- c${i} dT 0`,
+      `b2a${i} +- c${i} dB 0`,
+      `b1x${i} cos rw b1a${i}`, `b1y${i} sin rh b1a${i}`,
+      `t1x${i} cos wd2 t1a${i}`, `t1y${i} sin hd2 t1a${i}`,
+      `t2x${i} cos wd2 t2a${i}`, `t2y${i} sin hd2 t2a${i}`,
+      `b2x${i} cos rw b2a${i}`, `b2y${i} sin rh b2a${i}`,
+      `px1${i} +- hc b1x${i} 0`, `py1${i} +- vc b1y${i} 0`,
+      `px2${i} +- hc t1x${i} 0`, `py2${i} +- vc t1y${i} 0`,
+      `px3${i} +- hc t2x${i} 0`, `py3${i} +- vc t2y${i} 0`,
+      `px4${i} +- hc b2x${i} 0`, `py4${i} +- vc b2y${i} 0`
+    );
+    commands.push(
+      `${i === 0 ? 'M' : 'L'} px1${i} py1${i}`,
+      `L px2${i} py2${i}`,
+      `L px3${i} py3${i}`,
+      `L px4${i} py4${i}`,
+      `A rw rh b2a${i} rootSw2`
+    );
+  }
+
+  return { avLst: { adj1, adj2 }, gdLst, pathLst: [`${commands.join(' ')} Z`] };
+}
+
+// Shared guides for the wedge callouts' pointer position
+const WEDGE_GUIDES = [
+  'dxPos */ w adj1 100000',
+  'dyPos */ h adj2 100000',
+  'xPos +- hc dxPos 0',
+  'yPos +- vc dyPos 0',
+  'dx */ dxPos h 1',
+  'dy */ dyPos w 1',
+  'adx abs dx',
+  'ady abs dy',
+  'dq +- adx 0 ady',
+  'xg1 ?: dxPos 7 2',
+  'xg2 ?: dxPos 10 5',
+  'x1 */ w xg1 12',
+  'x2 */ w xg2 12',
+  'yg1 ?: dyPos 7 2',
+  'yg2 ?: dyPos 10 5',
+  'y1 */ h yg1 12',
+  'y2 */ h yg2 12',
+  't1 ?: dxPos l xPos',
+  'xl ?: dq t1 l',
+  't2 ?: dyPos x1 xPos',
+  'xt ?: dq x1 t2',
+  't3 ?: dxPos xPos r',
+  'xr ?: dq t3 r',
+  't4 ?: dyPos xPos x1',
+  'xb ?: dq x1 t4',
+  't5 ?: dxPos y1 yPos',
+  'yl ?: dq t5 y1',
+  't6 ?: dyPos t yPos',
+  'yt ?: dq t t6',
+  't7 ?: dxPos yPos y1',
+  'yr ?: dq t7 y1',
+  't8 ?: dyPos yPos b',
+  'yb ?: dq b t8',
+];
+
+// Guides for shapes whose outline is a start/end angle pair on the ellipse
+const ANGLE_PAIR_GUIDES = [
+  'stAng pin 0 adj1 21599999',
+  'enAng pin 0 adj2 21599999',
+  'sw11 +- enAng 0 stAng',
+  'sw12 +- sw11 21600000 0',
+  'swAng ?: sw11 sw11 sw12',
+  'wt1 sin wd2 stAng',
+  'ht1 cos hd2 stAng',
+  'dx1 cat2 wd2 ht1 wt1',
+  'dy1 sat2 hd2 ht1 wt1',
+  'x1 +- hc dx1 0',
+  'y1 +- vc dy1 0',
+];
+
+// Guides for ribbons: band offset (adj1) and centre band width (adj2)
+const RIBBON_GUIDES = [
+  'a1 pin 0 adj1 33333',
+  'a2 pin 25000 adj2 75000',
+  'dx2 */ w a2 200000',
+  'x2 +- hc 0 dx2',
+  'x9 +- hc dx2 0',
+  'x3 +- x2 wd8 0',
+  'x8 +- x9 0 wd8',
+  'x10 +- r 0 wd8',
+  'dy1 */ h a1 100000',
+  'y2 +- b 0 dy1',
+  'ym +/ t y2 2',
+];
+
+// Circular arrows: band between two ellipses with an arrowhead at the end angle
+const CIRCULAR_ARROW_GUIDES = [
+  'a5 pin 0 adj5 25000',
+  'a1 pin 0 adj1 a5',
+  'th */ ss a1 100000',
+  'ah */ ss a5 100000',
+  'th2 */ th 1 2',
+  'ow +- wd2 0 ah',
+  'oh +- hd2 0 ah',
+  'iw +- ow 0 th',
+  'ih +- oh 0 th',
+  'mw +- ow 0 th2',
+  'mh +- oh 0 th2',
+  'hw +- wd2 0 0',
+  'hh +- hd2 0 0',
+  'lw +- iw 0 ah',
+  'lh +- ih 0 ah',
+];
+
+/**
+ * Guides placing a point on an ellipse at a visual angle:
+ * `${name}x`/`${name}y` for radii (rx, ry) at `angle`.
+ */
+function ellipsePoint(name: string, rx: string, ry: string, angle: string): string[] {
+  return [
+    `${name}wt sin ${rx} ${angle}`,
+    `${name}ht cos ${ry} ${angle}`,
+    `${name}dx cat2 ${rx} ${name}ht ${name}wt`,
+    `${name}dy sat2 ${ry} ${name}ht ${name}wt`,
+    `${name}x +- hc ${name}dx 0`,
+    `${name}y +- vc ${name}dy 0`,
+  ];
+}
+
+const PRESETS: Record<string, PresetEntry> = {
+  // Lines and connectors
+  line: { pathLst: ['fill=none M l t L r b'] },
+  lineInv: { pathLst: ['fill=none M l b L r t'] },
+  straightConnector1: { pathLst: ['fill=none M l t L r b'] },
+  bentConnector2: { pathLst: ['fill=none M l t L r t L r b'] },
+  bentConnector3: {
+    avLst: { adj1: 50000 },
+    gdLst: ['x1 */ w adj1 100000'],
+    pathLst: ['fill=none M l t L x1 t L x1 b L r b'],
+  },
+  bentConnector4: {
+    avLst: { adj1: 50000, adj2: 50000 },
+    gdLst: ['x1 */ w adj1 100000', 'y2 */ h adj2 100000'],
+    pathLst: ['fill=none M l t L x1 t L x1 y2 L r y2 L r b'],
+  },
+  bentConnector5: {
+    avLst: { adj1: 50000, adj2: 50000, adj3: 50000 },
+    gdLst: ['x1 */ w adj1 100000', 'x3 */ w adj3 100000', 'y2 */ h adj2 100000'],
+    pathLst: ['fill=none M l t L x1 t L x1 y2 L x3 y2 L x3 b L r b'],
+  },
+  curvedConnector2: { pathLst: ['fill=none M l t C wd2 t r hd2 r b'] },
+  curvedConnector3: {
+    avLst: { adj1: 50000 },
+    gdLst: ['x2 */ w adj1 100000', 'x1 +/ l x2 2', 'x3 +/ r x2 2', 'y3 */ h 3 4'],
+    pathLst: ['fill=none M l t C x1 t x2 hd4 x2 vc C x2 y3 x3 b r b'],
+  },
+  curvedConnector4: {
+    avLst: { adj1: 50000, adj2: 50000 },
+    gdLst: [
+      'x2 */ w adj1 100000',
+      'x1 +/ l x2 2',
+      'x3 +/ r x2 2',
+      'x4 +/ x2 x3 2',
+      'x5 +/ x3 r 2',
+      'y4 */ h adj2 100000',
+      'y1 +/ t y4 2',
+      'y2 +/ t y1 2',
+      'y3 +/ y1 y4 2',
+      'y5 +/ b y4 2',
+    ],
+    pathLst: ['fill=none M l t C x1 t x2 y2 x2 y1 C x2 y3 x4 y4 x3 y4 C x5 y4 r y5 r b'],
+  },
+  curvedConnector5: {
+    avLst: { adj1: 50000, adj2: 50000, adj3: 50000 },
+    gdLst: [
+      'x3 */ w adj1 100000',
+      'x6 */ w adj3 100000',
+      'x1 +/ x3 x6 2',
+      'x2 +/ l x3 2',
+      'x4 +/ x3 x1 2',
+      'x5 +/ x6 x1 2',
+      'x7 +/ x6 r 2',
+      'y4 */ h adj2 100000',
+      'y1 +/ t y4 2',
+      'y2 +/ t y1 2',
+      'y3 +/ y1 y4 2',
+      'y5 +/ b y4 2',
+      'y6 +/ y5 y4 2',
+      'y7 +/ y5 b 2',
+    ],
+    pathLst: ['fill=none M l t C x2 t x3 y2 x3 y1 C x3 y3 x4 y4 x1 y4 C x5 y4 x6 y6 x6 y5 C x6 y7 x7 b r b'],
+  },
+
+  // Basic shapes
+  rect: { pathLst: [RECT] },
+  ellipse: { pathLst: [ELLIPSE] },
+  triangle: {
+    avLst: { adj: 50000 },
+    gdLst: ['a pin 0 adj 100000', 'x2 */ w a 100000'],
+    pathLst: ['M l b L x2 t L r b Z'],
+  },
+  rtTriangle: { pathLst: ['M l b L l t L r b Z'] },
+  diamond: { pathLst: ['M l vc L hc t L r vc L hc b Z'] },
+  parallelogram: {
+    avLst: { adj: 25000 },
+    gdLst: ['maxAdj */ 100000 w ss', 'a pin 0 adj maxAdj', 'x2 */ ss a 100000', 'x5 +- r 0 x2'],
+    pathLst: ['M l b L x2 t L r t L x5 b Z'],
+  },
+  trapezoid: {
+    avLst: { adj: 25000 },
+    gdLst: ['maxAdj */ 50000 w ss', 'a pin 0 adj maxAdj', 'x2 */ ss a 100000', 'x3 +- r 0 x2'],
+    pathLst: ['M l b L x2 t L x3 t L r b Z'],
+  },
+  nonIsoscelesTrapezoid: {
+    avLst: { adj1: 25000, adj2: 25000 },
+    gdLst: [
+      'maxAdj */ 50000 w ss',
+      'a1 pin 0 adj1 maxAdj',
+      'a2 pin 0 adj2 maxAdj',
+      'x2 */ ss a1 100000',
+      'dx3 */ ss a2 100000',
+      'x3 +- r 0 dx3',
+    ],
+    pathLst: ['M l b L x2 t L x3 t L r b Z'],
+  },
+  pentagon: {
+    avLst: { hf: 105146, vf: 110557 },
+    gdLst: [
+      'swd2 */ wd2 hf 100000',
+      'shd2 */ hd2 vf 100000',
+      'svc */ vc vf 100000',
+      'dx1 cos swd2 1080000',
+      'dx2 cos swd2 18360000',
+      'dy1 sin shd2 1080000',
+      'dy2 sin shd2 18360000',
+      'x1 +- hc 0 dx1',
+      'x2 +- hc 0 dx2',
+      'x3 +- hc dx2 0',
+      'x4 +- hc dx1 0',
+      'y1 +- svc 0 dy1',
+      'y2 +- svc 0 dy2',
+    ],
+    pathLst: ['M x1 y1 L hc t L x4 y1 L x3 y2 L x2 y2 Z'],
+  },
+  hexagon: {
+    avLst: { adj: 25000, vf: 115470 },
+    gdLst: [
+      'maxAdj */ 50000 w ss',
+      'a pin 0 adj maxAdj',
+      'shd2 */ hd2 vf 100000',
+      'x1 */ ss a 100000',
+      'x2 +- r 0 x1',
+      'dy1 sin shd2 3600000',
+      'y1 +- vc 0 dy1',
+      'y2 +- vc dy1 0',
+    ],
+    pathLst: ['M l vc L x1 y1 L x2 y1 L r vc L x2 y2 L x1 y2 Z'],
+  },
+  heptagon: {
+    avLst: { hf: 102572, vf: 105210 },
+    gdLst: [
+      'swd2 */ wd2 hf 100000',
+      'shd2 */ hd2 vf 100000',
+      'svc */ vc vf 100000',
+      'dx1 */ swd2 97493 100000',
+      'dx2 */ swd2 78183 100000',
+      'dx3 */ swd2 43388 100000',
+      'dy1 */ shd2 62349 100000',
+      'dy2 */ shd2 22252 100000',
+      'dy3 */ shd2 90097 100000',
+      'x1 +- hc 0 dx1',
+      'x2 +- hc 0 dx2',
+      'x3 +- hc 0 dx3',
+      'x4 +- hc dx3 0',
+      'x5 +- hc dx2 0',
+      'x6 +- hc dx1 0',
+      'y1 +- svc 0 dy1',
+      'y2 +- svc dy2 0',
+      'y3 +- svc dy3 0',
+    ],
+    pathLst: ['M x1 y2 L x2 y1 L hc t L x5 y1 L x6 y2 L x4 y3 L x3 y3 Z'],
+  },
+  octagon: {
+    avLst: { adj: 29289 },
+    gdLst: ['a pin 0 adj 50000', 'x1 */ ss a 100000', 'x2 +- r 0 x1', 'y2 +- b 0 x1'],
+    pathLst: ['M l x1 L x1 t L x2 t L r x1 L r y2 L x2 b L x1 b L l y2 Z'],
+  },
+  decagon: {
+    avLst: { vf: 105146 },
+    gdLst: [
+      'shd2 */ hd2 vf 100000',
+      'dx1 cos wd2 2160000',
+      'dx2 cos wd2 4320000',
+      'x1 +- hc 0 dx1',
+      'x2 +- hc 0 dx2',
+      'x3 +- hc dx2 0',
+      'x4 +- hc dx1 0',
+      'dy1 sin shd2 4320000',
+      'dy2 sin shd2 2160000',
+      'y1 +- vc 0 dy1',
+      'y2 +- vc 0 dy2',
+      'y3 +- vc dy2 0',
+      'y4 +- vc dy1 0',
+    ],
+    pathLst: ['M l vc L x1 y2 L x2 y1 L x3 y1 L x4 y2 L r vc L x4 y3 L x3 y4 L x2 y4 L x1 y3 Z'],
+  },
+  dodecagon: {
+    gdLst: [
+      'x1 */ w 2894 21600',
+      'x2 */ w 7906 21600',
+      'x3 */ w 13694 21600',
+      'x4 */ w 18706 21600',
+      'y1 */ h 2894 21600',
+      'y2 */ h 7906 21600',
+      'y3 */ h 13694 21600',
+      'y4 */ h 18706 21600',
+    ],
+    pathLst: ['M l y2 L x1 y1 L x2 t L x3 t L x4 y1 L r y2 L r y3 L x4 y4 L x3 b L x2 b L x1 y4 L l y3 Z'],
+  },
+  star4: star(4, 12500),
+  star5: star(5, 19098, 105146, 110557),
+  star6: star(6, 28868, 115470),
+  star7: star(7, 34601, 102572, 105210),
+  star8: star(8, 38268),
+  star10: star(10, 42533, 105146),
+  star12: star(12, 37500),
+  star16: star(16, 37500),
+  star24: star(24, 37500),
+  star32: star(32, 37500),
+
+  // Rectangles with rounded and snipped corners
+  roundRect: {
+    avLst: { adj: 16667 },
+    gdLst: ['a pin 0 adj 50000', 'dx1 */ ss a 100000', 'x2 +- r 0 dx1', 'y2 +- b 0 dx1'],
+    pathLst: [
+      'M l dx1 A dx1 dx1 cd2 cd4 L x2 t A dx1 dx1 3cd4 cd4 L r y2 A dx1 dx1 0 cd4 L dx1 b A dx1 dx1 cd4 cd4 Z',
+    ],
+  },
+  round1Rect: {
+    avLst: { adj: 16667 },
+    gdLst: ['a pin 0 adj 50000', 'dx1 */ ss a 100000', 'x1 +- r 0 dx1'],
+    pathLst: ['M l t L x1 t A dx1 dx1 3cd4 cd4 L r b L l b Z'],
+  },
+  round2SameRect: {
+    avLst: { adj1: 16667, adj2: 0 },
+    gdLst: [
+      'a1 pin 0 adj1 50000',
+      'a2 pin 0 adj2 50000',
+      'tx1 */ ss a1 100000',
+      'tx2 +- r 0 tx1',
+      'bx1 */ ss a2 100000',
+      'by1 +- b 0 bx1',
+    ],
+    pathLst: [
+      'M tx1 t L tx2 t A tx1 tx1 3cd4 cd4 L r by1 A bx1 bx1 0 cd4 L bx1 b A bx1 bx1 cd4 cd4 L l tx1 A tx1 tx1 cd2 cd4 Z',
+    ],
+  },
+  round2DiagRect: {
+    avLst: { adj1: 16667, adj2: 0 },
+    gdLst: [
+      'a1 pin 0 adj1 50000',
+      'a2 pin 0 adj2 50000',
+      'x1 */ ss a1 100000',
+      'y1 +- b 0 x1',
+      'a */ ss a2 100000',
+      'x2 +- r 0 a',
+    ],
+    pathLst: [
+      'M x1 t L x2 t A a a 3cd4 cd4 L r y1 A x1 x1 0 cd4 L a b A a a cd4 cd4 L l x1 A x1 x1 cd2 cd4 Z',
+    ],
+  },
+  snipRoundRect: {
+    avLst: { adj1: 16667, adj2: 16667 },
+    gdLst: [
+      'a1 pin 0 adj1 50000',
+      'a2 pin 0 adj2 50000',
+      'x1 */ ss a1 100000',
+      'dx2 */ ss a2 100000',
+      'x2 +- r 0 dx2',
+    ],
+    pathLst: ['M x1 t L x2 t L r dx2 L r b L l b L l x1 A x1 x1 cd2 cd4 Z'],
+  },
+  snip1Rect: {
+    avLst: { adj: 16667 },
+    gdLst: ['a pin 0 adj 50000', 'dx1 */ ss a 100000', 'x1 +- r 0 dx1'],
+    pathLst: ['M l t L x1 t L r dx1 L r b L l b Z'],
+  },
+  snip2SameRect: {
+    avLst: { adj1: 16667, adj2: 0 },
+    gdLst: [
+      'a1 pin 0 adj1 50000',
+      'a2 pin 0 adj2 50000',
+      'tx1 */ ss a1 100000',
+      'tx2 +- r 0 tx1',
+      'bx1 */ ss a2 100000',
+      'bx2 +- r 0 bx1',
+      'by1 +- b 0 bx1',
+    ],
+    pathLst: ['M tx1 t L tx2 t L r tx1 L r by1 L bx2 b L bx1 b L l by1 L l tx1 Z'],
+  },
+  snip2DiagRect: {
+    avLst: { adj1: 0, adj2: 16667 },
+    gdLst: [
+      'a1 pin 0 adj1 50000',
+      'a2 pin 0 adj2 50000',
+      'lx1 */ ss a1 100000',
+      'lx2 +- r 0 lx1',
+      'ly1 +- b 0 lx1',
+      'rx1 */ ss a2 100000',
+      'rx2 +- r 0 rx1',
+      'ry1 +- b 0 rx1',
+    ],
+    pathLst: ['M lx1 t L rx2 t L r rx1 L r ly1 L lx2 b L rx1 b L l ry1 L l lx1 Z'],
+  },
+  plaque: {
+    avLst: { adj: 16667 },
+    gdLst: ['a pin 0 adj 50000', 'x1 */ ss a 100000', 'x2 +- r 0 x1', 'y2 +- b 0 x1'],
+    pathLst: [
+      'M l x1 A x1 x1 cd4 -5400000 L x2 t A x1 x1 cd2 -5400000 L r y2 A x1 x1 3cd4 -5400000 L x1 b A x1 x1 0 -5400000 Z',
+    ],
+  },
+
+  // Curved basic shapes
+  teardrop: {
+    avLst: { adj: 100000 },
+    gdLst: [
+      'a pin 0 adj 200000',
+      'r2 sqrt 2',
+      'tw */ r2 wd2 1',
+      'th */ r2 hd2 1',
+      'sw */ tw a 100000',
+      'sh */ th a 100000',
+      'dx1 cos sw 2700000',
+      'dy1 sin sh 2700000',
+      'x1 +- hc dx1 0',
+      'y1 +- vc 0 dy1',
+      'x2 +/ hc x1 2',
+      'y2 +/ vc y1 2',
+    ],
+    pathLst: ['M l vc A wd2 hd2 cd2 cd4 Q x2 t x1 y1 Q r y2 r vc A wd2 hd2 0 cd4 A wd2 hd2 cd4 cd4 Z'],
+  },
+  homePlate: {
+    avLst: { adj: 50000 },
+    gdLst: ['maxAdj */ 100000 w ss', 'a pin 0 adj maxAdj', 'dx1 */ ss a 100000', 'x1 +- r 0 dx1'],
+    pathLst: ['M l t L x1 t L r vc L x1 b L l b Z'],
+  },
+  chevron: {
+    avLst: { adj: 50000 },
+    gdLst: ['maxAdj */ 100000 w ss', 'a pin 0 adj maxAdj', 'x1 */ ss a 100000', 'x2 +- r 0 x1'],
+    pathLst: ['M l t L x2 t L r vc L x2 b L l b L x1 vc Z'],
+  },
+  pieWedge: { pathLst: ['M l b A w h cd2 cd4 L r b Z'] },
+  pie: {
+    avLst: { adj1: 0, adj2: 16200000 },
+    gdLst: ANGLE_PAIR_GUIDES,
+    pathLst: ['M x1 y1 A wd2 hd2 stAng swAng L hc vc Z'],
+  },
+  chord: {
+    avLst: { adj1: 2700000, adj2: 16200000 },
+    gdLst: ANGLE_PAIR_GUIDES,
+    pathLst: ['M x1 y1 A wd2 hd2 stAng swAng Z'],
+  },
+  arc: {
+    avLst: { adj1: 16200000, adj2: 0 },
+    gdLst: ANGLE_PAIR_GUIDES,
+    pathLst: ['stroke=false M x1 y1 A wd2 hd2 stAng swAng L hc vc Z', 'fill=none M x1 y1 A wd2 hd2 stAng swAng'],
+  },
+  blockArc: {
+    avLst: { adj1: 10800000, adj2: 0, adj3: 25000 },
+    gdLst: [
+      'stAng pin 0 adj1 21599999',
+      'istAng pin 0 adj2 21599999',
+      'a3 pin 0 adj3 50000',
+      'sw11 +- istAng 0 stAng',
+      'sw12 +- sw11 21600000 0',
+      'swAng ?: sw11 sw11 sw12',
+      'iswAng +- 0 0 swAng',
+      'wt1 sin wd2 stAng',
+      'ht1 cos hd2 stAng',
+      'dx1 cat2 wd2 ht1 wt1',
+      'dy1 sat2 hd2 ht1 wt1',
+      'x1 +- hc dx1 0',
+      'y1 +- vc dy1 0',
+      'dr */ ss a3 100000',
+      'iwd2 +- wd2 0 dr',
+      'ihd2 +- hd2 0 dr',
+      'wt2 sin iwd2 istAng',
+      'ht2 cos ihd2 istAng',
+      'dx2 cat2 iwd2 ht2 wt2',
+      'dy2 sat2 ihd2 ht2 wt2',
+      'x2 +- hc dx2 0',
+      'y2 +- vc dy2 0',
+    ],
+    pathLst: ['M x1 y1 A wd2 hd2 stAng swAng L x2 y2 A iwd2 ihd2 istAng iswAng Z'],
+  },
+  donut: {
+    avLst: { adj: 25000 },
+    gdLst: ['a pin 0 adj 50000', 'dr */ ss a 100000', 'iwd2 +- wd2 0 dr', 'ihd2 +- hd2 0 dr'],
+    pathLst: [
+      `${ELLIPSE} M dr vc A iwd2 ihd2 cd2 -5400000 A iwd2 ihd2 cd4 -5400000 A iwd2 ihd2 0 -5400000 A iwd2 ihd2 3cd4 -5400000 Z`,
+    ],
+  },
+  noSmoking: {
+    avLst: { adj: 18750 },
+    gdLst: [
+      'a pin 0 adj 50000',
+      'dr */ ss a 100000',
+      'iwd2 +- wd2 0 dr',
+      'ihd2 +- hd2 0 dr',
+      'ang at2 w h',
+      'ct cos ihd2 ang',
+      'st sin iwd2 ang',
+      'm mod ct st 0',
+      'n */ iwd2 ihd2 m',
+      'drd2 */ dr 1 2',
+      'dang at2 n drd2',
+      'dang2 */ dang 2 1',
+      'swAng +- -10800000 dang2 0',
+      'stAng1 +- ang 0 dang',
+      'stAng2 +- stAng1 0 cd2',
+      'ct1 cos ihd2 stAng1',
+      'st1 sin iwd2 stAng1',
+      'm1 mod ct1 st1 0',
+      'n1 */ iwd2 ihd2 m1',
+      'dx1 cos n1 stAng1',
+      'dy1 sin n1 stAng1',
+      'x1 +- hc dx1 0',
+      'y1 +- vc dy1 0',
+      'x2 +- hc 0 dx1',
+      'y2 +- vc 0 dy1',
+    ],
+    pathLst: [`${ELLIPSE} M x1 y1 A iwd2 ihd2 stAng1 swAng Z M x2 y2 A iwd2 ihd2 stAng2 swAng Z`],
+  },
+  frame: {
+    avLst: { adj1: 12500 },
+    gdLst: ['a1 pin 0 adj1 50000', 'x1 */ ss a1 100000', 'x4 +- r 0 x1', 'y4 +- b 0 x1'],
+    pathLst: [`${RECT} M x1 x1 L x1 y4 L x4 y4 L x4 x1 Z`],
+  },
+  halfFrame: {
+    avLst: { adj1: 33333, adj2: 33333 },
+    gdLst: [
+      'maxAdj2 */ 100000 w ss',
+      'a2 pin 0 adj2 maxAdj2',
+      'x1 */ ss a2 100000',
+      'g1 */ h x1 w',
+      'g2 +- h 0 g1',
+      'maxAdj1 */ 100000 g2 ss',
+      'a1 pin 0 adj1 maxAdj1',
+      'y1 */ ss a1 100000',
+      'dx2 */ y1 w h',
+      'x2 +- r 0 dx2',
+      'dy2 */ x1 h w',
+      'y2 +- b 0 dy2',
+    ],
+    pathLst: ['M l t L r t L x2 y1 L x1 y1 L x1 y2 L l b Z'],
+  },
+  corner: {
+    avLst: { adj1: 50000, adj2: 50000 },
+    gdLst: [
+      'maxAdj1 */ 100000 h ss',
+      'maxAdj2 */ 100000 w ss',
+      'a1 pin 0 adj1 maxAdj1',
+      'a2 pin 0 adj2 maxAdj2',
+      'x1 */ ss a2 100000',
+      'dy1 */ ss a1 100000',
+      'y1 +- b 0 dy1',
+    ],
+    pathLst: ['M l t L x1 t L x1 y1 L r y1 L r b L l b Z'],
+  },
+  diagStripe: {
+    avLst: { adj: 50000 },
+    gdLst: ['a pin 0 adj 100000', 'x2 */ w a 100000', 'y2 */ h a 100000'],
+    pathLst: ['M l y2 L x2 t L r t L l b Z'],
+  },
+  plus: {
+    avLst: { adj: 25000 },
+    gdLst: ['a pin 0 adj 50000', 'x1 */ ss a 100000', 'x2 +- r 0 x1', 'y2 +- b 0 x1'],
+    pathLst: ['M l x1 L x1 x1 L x1 t L x2 t L x2 x1 L r x1 L r y2 L x2 y2 L x2 b L x1 b L x1 y2 L l y2 Z'],
+  },
+  bevel: {
+    avLst: { adj: 12500 },
+    gdLst: ['a pin 0 adj 50000', 'x1 */ ss a 100000', 'x2 +- r 0 x1', 'y2 +- b 0 x1'],
+    pathLst: [
+      'stroke=false M x1 x1 L x2 x1 L x2 y2 L x1 y2 Z',
+      'stroke=false fill=lightenLess M l t L r t L x2 x1 L x1 x1 Z',
+      'stroke=false fill=darkenLess M l b L x1 y2 L x2 y2 L r b Z',
+      'stroke=false fill=lighten M l t L x1 x1 L x1 y2 L l b Z',
+      'stroke=false fill=darken M r t L r b L x2 y2 L x2 x1 Z',
+      `fill=none ${RECT} M x1 x1 L x2 x1 L x2 y2 L x1 y2 Z M l t L x1 x1 M l b L x1 y2 M r t L x2 x1 M r b L x2 y2`,
+    ],
+  },
+  foldedCorner: {
+    avLst: { adj: 16667 },
+    gdLst: [
+      'a pin 0 adj 50000',
+      'dy2 */ ss a 100000',
+      'dy1 */ dy2 1 5',
+      'x1 +- r 0 dy2',
+      'x2 +- x1 dy1 0',
+      'y2 +- b 0 dy2',
+      'y1 +- y2 dy1 0',
+    ],
+    pathLst: [
+      'stroke=false M l t L r t L r y2 L x1 b L l b Z',
+      'stroke=false fill=darkenLess M x1 b L x2 y1 L r y2 Z',
+      'fill=none M x1 b L x2 y1 L r y2 L x1 b L l b L l t L r t L r y2',
+    ],
+  },
+  cube: {
+    avLst: { adj: 25000 },
+    gdLst: ['a pin 0 adj 100000', 'y1 */ ss a 100000', 'y4 +- b 0 y1', 'x4 +- r 0 y1'],
+    pathLst: [
+      'stroke=false M l y1 L x4 y1 L x4 b L l b Z',
+      'stroke=false fill=darkenLess M x4 y1 L r t L r y4 L x4 b Z',
+      'stroke=false fill=lightenLess M l y1 L y1 t L r t L x4 y1 Z',
+      'fill=none M l y1 L y1 t L r t L r y4 L x4 b L l b Z M l y1 L x4 y1 L r t M x4 y1 L x4 b',
+    ],
+  },
+  can: {
+    avLst: { adj: 25000 },
+    gdLst: ['maxAdj */ 50000 h ss', 'a pin 0 adj maxAdj', 'y1 */ ss a 200000', 'y3 +- b 0 y1'],
+    pathLst: [
+      'stroke=false M l y1 A wd2 y1 cd2 -10800000 L r y3 A wd2 y1 0 cd2 Z',
+      'stroke=false fill=lighten M l y1 A wd2 y1 cd2 cd2 A wd2 y1 0 cd2 Z',
+      'fill=none M r y1 A wd2 y1 0 cd2 A wd2 y1 cd2 cd2 L r y3 A wd2 y1 0 cd2 L l y1',
+    ],
+  },
+  lightningBolt: {
+    pathLst: [
+      'w=21600 h=21600 M 8472 0 L 12860 6080 L 11050 6797 L 16577 12007 L 14767 12877 L 21600 21600 ' +
+        'L 10012 14915 L 12222 13987 L 5022 9705 L 7602 8382 L 0 3890 Z',
+    ],
+  },
+  heart: {
+    gdLst: [
+      'dx1 */ w 49 48',
+      'dx2 */ w 10 48',
+      'x1 +- hc 0 dx1',
+      'x2 +- hc 0 dx2',
+      'x3 +- hc dx2 0',
+      'x4 +- hc dx1 0',
+      'y1 +- t 0 hd3',
+    ],
+    pathLst: ['M hc hd4 C x3 y1 x4 hd4 hc b C x1 hd4 x2 y1 hc hd4 Z'],
+  },
+  sun: {
+    avLst: { adj: 25000 },
+    gdLst: [
+      'a pin 12500 adj 46875',
+      'g0 +- 50000 0 a',
+      'g1 */ g0 30274 32768',
+      'g2 */ g0 12540 32768',
+      'g5 +- 50000 0 g1',
+      'g6 +- 50000 0 g2',
+      'g10 */ g5 3 4',
+      'g11 */ g6 3 4',
+      'g12 +- g10 3662 0',
+      'g13 +- g11 3662 0',
+      'g14 +- g11 12500 0',
+      'g15 +- 100000 0 g10',
+      'g16 +- 100000 0 g12',
+      'g17 +- 100000 0 g13',
+      'g18 +- 100000 0 g14',
+      'ox1 */ w 18436 21600',
+      'oy1 */ h 3163 21600',
+      'ox2 */ w 3163 21600',
+      'oy2 */ h 18436 21600',
+      'x10 */ w g10 100000',
+      'x12 */ w g12 100000',
+      'x13 */ w g13 100000',
+      'x14 */ w g14 100000',
+      'x15 */ w g15 100000',
+      'x16 */ w g16 100000',
+      'x17 */ w g17 100000',
+      'x18 */ w g18 100000',
+      'x19 */ w a 100000',
+      'wR */ w g0 100000',
+      'hR */ h g0 100000',
+      'y10 */ h g10 100000',
+      'y12 */ h g12 100000',
+      'y13 */ h g13 100000',
+      'y14 */ h g14 100000',
+      'y15 */ h g15 100000',
+      'y16 */ h g16 100000',
+      'y17 */ h g17 100000',
+      'y18 */ h g18 100000',
+    ],
+    pathLst: [
+      'M r vc L x15 y18 L x15 y14 Z M ox1 oy1 L x16 y13 L x17 y12 Z M hc t L x18 y10 L x14 y10 Z ' +
+        'M ox2 oy1 L x13 y12 L x12 y13 Z M l vc L x10 y14 L x10 y18 Z M ox2 oy2 L x12 y17 L x13 y16 Z ' +
+        'M hc b L x14 y15 L x18 y15 Z M ox1 oy2 L x17 y16 L x16 y17 Z M x19 vc A wR hR cd2 21600000 Z',
+    ],
+  },
+  moon: {
+    avLst: { adj: 50000 },
+    gdLst: [
+      'a pin 0 adj 87500',
+      'g0 */ ss a 100000',
+      'g0w */ g0 w ss',
+      'g1 +- ss 0 g0',
+      'g2 */ g0 g0 g1',
+      'g3 */ ss ss g1',
+      'g4 */ g3 2 1',
+      'g5 +- g4 0 g2',
+      'g6 +- g5 0 g0',
+      'g6w */ g6 w ss',
+      'g7 */ g5 1 2',
+      'g8 +- g7 0 g0',
+      'dy1 */ g8 hd2 ss',
+      'g17w +- g6w 0 g0w',
+      'g18w */ g17w 1 2',
+      'dx2p +- g0w g18w w',
+      'dx2 */ dx2p -1 1',
+      'dy2 */ hd2 -1 1',
+      'stAng1 at2 dx2 dy2',
+      'enAngp1 at2 dx2 hd2',
+      'enAng1 +- enAngp1 0 21600000',
+      'swAng1 +- enAng1 0 stAng1',
+    ],
+    pathLst: ['M r b A w hd2 cd4 cd2 A g18w dy1 stAng1 swAng1 Z'],
+  },
+  smileyFace: {
+    avLst: { adj: 4653 },
+    gdLst: [
+      'a pin -4653 adj 4653',
+      'x1 */ w 4969 21699',
+      'x2 */ w 6215 21600',
+      'x3 */ w 13135 21600',
+      'x4 */ w 16640 21600',
+      'y1 */ h 7570 21600',
+      'y3 */ h 16515 21600',
+      'dy2 */ h a 100000',
+      'y2 +- y3 0 dy2',
+      'y4 +- y3 dy2 0',
+      'dy3 */ h a 50000',
+      'y5 +- y4 dy3 0',
+      'wR */ w 1125 21600',
+      'hR */ h 1125 21600',
+    ],
+    pathLst: [
+      ELLIPSE,
+      'fill=darkenLess M x2 y1 A wR hR cd2 21600000 M x3 y1 A wR hR cd2 21600000',
+      'fill=none M x1 y2 Q hc y5 x4 y2',
+    ],
+  },
+  irregularSeal1: {
+    pathLst: [
+      'w=21600 h=21600 M 10800 5800 L 14522 0 L 14155 5325 L 18380 4457 L 16702 7315 L 21097 8137 ' +
+        'L 17607 10475 L 21600 13290 L 16837 12942 L 18145 18095 L 14020 14457 L 13247 19737 L 10532 14935 ' +
+        'L 8485 21600 L 7715 15627 L 4762 17617 L 5667 13937 L 135 14587 L 3722 11775 L 0 8615 L 4627 7617 ' +
+        'L 370 2295 L 7312 6320 L 8352 2295 Z',
+    ],
+  },
+  irregularSeal2: {
+    pathLst: [
+      'w=21600 h=21600 M 11462 4342 L 9722 1887 L 8550 6382 L 4502 3625 L 5372 7817 L 1172 8270 ' +
+        'L 3935 11592 L 0 12877 L 3330 15370 L 1285 17825 L 4805 18240 L 4917 21600 L 7897 19463 ' +
+        'L 8485 21600 L 10305 18955 L 12627 21600 L 13592 17785 L 14400 20512 L 14400 17077 L 17527 17392 ' +
+        'L 15817 14172 L 20655 12940 L 19260 9937 L 21600 5287 L 17970 5742 L 17377 1815 L 14665 3395 ' +
+        'L 13350 1415 L 11217 4342 Z',
+    ],
+  },
+  cloud: { pathLst: [CLOUD] },
+  funnel: {
+    gdLst: [
+      'd */ ss 1 20',
+      'rw2 +- wd2 0 d',
+      'rh2 +- hd4 0 d',
+      't1 cos wd2 480000',
+      't2 sin hd4 480000',
+      'da at2 t1 t2',
+      '2da */ da 2 1',
+      'stAng1 +- cd2 0 da',
+      'swAng1 +- cd2 2da 0',
+      'swAng3 +- cd2 0 2da',
+      'rw3 */ wd2 1 4',
+      'rh3 */ hd4 1 4',
+      'ct1 cos hd4 stAng1',
+      'st1 sin wd2 stAng1',
+      'm1 mod ct1 st1 0',
+      'n1 */ wd2 hd4 m1',
+      'dx1 cos n1 stAng1',
+      'dy1 sin n1 stAng1',
+      'x1 +- hc dx1 0',
+      'y1 +- hd4 dy1 0',
+      'ct3 cos rh3 da',
+      'st3 sin rw3 da',
+      'm3 mod ct3 st3 0',
+      'n3 */ rw3 rh3 m3',
+      'dx3 cos n3 da',
+      'dy3 sin n3 da',
+      'x3 +- hc dx3 0',
+      'vc3 +- b 0 rh3',
+      'y2 +- vc3 dy3 0',
+      'x2 +- wd2 0 rw2',
+    ],
+    pathLst: ['M x1 y1 A wd2 hd4 stAng1 swAng1 L x3 y2 A rw3 rh3 da swAng3 Z M x2 hd4 A rw2 rh2 cd2 -21600000 Z'],
+  },
+  gear6: gear(6, 15000, 3526),
+  gear9: gear(9, 10000, 1763),
+
+  // Block arrows
+  rightArrow: {
+    avLst: { adj1: 50000, adj2: 50000 },
+    gdLst: [
+      'maxAdj2 */ 100000 w ss',
+      'a1 pin 0 adj1 100000',
+      'a2 pin 0 adj2 maxAdj2',
+      'dx1 */ ss a2 100000',
+      'x1 +- r 0 dx1',
+      'dy1 */ h a1 200000',
+      'y1 +- vc 0 dy1',
+      'y2 +- vc dy1 0',
+    ],
+    pathLst: ['M l y1 L x1 y1 L x1 t L r vc L x1 b L x1 y2 L l y2 Z'],
+  },
+  leftArrow: {
+    avLst: { adj1: 50000, adj2: 50000 },
+    gdLst: [
+      'maxAdj2 */ 100000 w ss',
+      'a1 pin 0 adj1 100000',
+      'a2 pin 0 adj2 maxAdj2',
+      'x2 */ ss a2 100000',
+      'dy1 */ h a1 200000',
+      'y1 +- vc 0 dy1',
+      'y2 +- vc dy1 0',
+    ],
+    pathLst: ['M l vc L x2 t L x2 y1 L r y1 L r y2 L x2 y2 L x2 b Z'],
+  },
+  upArrow: {
+    avLst: { adj1: 50000, adj2: 50000 },
+    gdLst: [
+      'maxAdj2 */ 100000 h ss',
+      'a1 pin 0 adj1 100000',
+      'a2 pin 0 adj2 maxAdj2',
+      'y2 */ ss a2 100000',
+      'dx1 */ w a1 200000',
+      'x1 +- hc 0 dx1',
+      'x2 +- hc dx1 0',
+    ],
+    pathLst: ['M l y2 L hc t L r y2 L x2 y2 L x2 b L x1 b L x1 y2 Z'],
+  },
+  downArrow: {
+    avLst: { adj1: 50000, adj2: 50000 },
+    gdLst: [
+      'maxAdj2 */ 100000 h ss',
+      'a1 pin 0 adj1 100000',
+      'a2 pin 0 adj2 maxAdj2',
+      'dy1 */ ss a2 100000',
+      'y1 +- b 0 dy1',
+      'dx1 */ w a1 200000',
+      'x1 +- hc 0 dx1',
+      'x2 +- hc dx1 0',
+    ],
+    pathLst: ['M x1 t L x2 t L x2 y1 L r y1 L hc b L l y1 L x1 y1 Z'],
+  },
+  leftRightArrow: {
+    avLst: { adj1: 50000, adj2: 50000 },
+    gdLst: [
+      'maxAdj2 */ 50000 w ss',
+      'a1 pin 0 adj1 100000',
+      'a2 pin 0 adj2 maxAdj2',
+      'x2 */ ss a2 100000',
+      'x3 +- r 0 x2',
+      'dy */ h a1 200000',
+      'y1 +- vc 0 dy',
+      'y2 +- vc dy 0',
+    ],
+    pathLst: ['M l vc L x2 t L x2 y1 L x3 y1 L x3 t L r vc L x3 b L x3 y2 L x2 y2 L x2 b Z'],
+  },
+  upDownArrow: {
+    avLst: { adj1: 50000, adj2: 50000 },
+    gdLst: [
+      'maxAdj2 */ 50000 h ss',
+      'a1 pin 0 adj1 100000',
+      'a2 pin 0 adj2 maxAdj2',
+      'y2 */ ss a2 100000',
+      'y3 +- b 0 y2',
+      'dx1 */ w a1 200000',
+      'x1 +- hc 0 dx1',
+      'x2 +- hc dx1 0',
+    ],
+    pathLst: ['M l y2 L hc t L r y2 L x2 y2 L x2 y3 L r y3 L hc b L l y3 L x1 y3 L x1 y2 Z'],
+  },
+  stripedRightArrow: {
+    avLst: { adj1: 50000, adj2: 50000 },
+    gdLst: [
+      'maxAdj2 */ 84375 w ss',
+      'a1 pin 0 adj1 100000',
+      'a2 pin 0 adj2 maxAdj2',
+      'x4 */ ss 5 32',
+      'dx5 */ ss a2 100000',
+      'x5 +- r 0 dx5',
+      'dy1 */ h a1 200000',
+      'y1 +- vc 0 dy1',
+      'y2 +- vc dy1 0',
+    ],
+    pathLst: [
+      'M l y1 L ssd32 y1 L ssd32 y2 L l y2 Z M ssd16 y1 L ssd8 y1 L ssd8 y2 L ssd16 y2 Z ' +
+        'M x4 y1 L x5 y1 L x5 t L r vc L x5 b L x5 y2 L x4 y2 Z',
+    ],
+  },
+  notchedRightArrow: {
+    avLst: { adj1: 50000, adj2: 50000 },
+    gdLst: [
+      'maxAdj2 */ 100000 w ss',
+      'a1 pin 0 adj1 100000',
+      'a2 pin 0 adj2 maxAdj2',
+      'dx2 */ ss a2 100000',
+      'x2 +- r 0 dx2',
+      'dy1 */ h a1 200000',
+      'y1 +- vc 0 dy1',
+      'y2 +- vc dy1 0',
+      'x1 */ dy1 dx2 hd2',
+    ],
+    pathLst: ['M l y1 L x2 y1 L x2 t L r vc L x2 b L x2 y2 L l y2 L x1 vc Z'],
+  },
+  bentUpArrow: {
+    avLst: { adj1: 25000, adj2: 25000, adj3: 25000 },
+    gdLst: [
+      'a1 pin 0 adj1 50000',
+      'a2 pin 0 adj2 50000',
+      'a3 pin 0 adj3 50000',
+      'y1 */ ss a3 100000',
+      'dx1 */ ss a2 50000',
+      'x1 +- r 0 dx1',
+      'dx3 */ ss a2 100000',
+      'x3 +- r 0 dx3',
+      'dx2 */ ss a1 200000',
+      'x2 +- x3 0 dx2',
+      'x4 +- x3 dx2 0',
+      'dy2 */ ss a1 100000',
+      'y2 +- b 0 dy2',
+    ],
+    pathLst: ['M l y2 L x2 y2 L x2 y1 L x1 y1 L x3 t L r y1 L x4 y1 L x4 b L l b Z'],
+  },
+  leftUpArrow: {
+    avLst: { adj1: 25000, adj2: 25000, adj3: 25000 },
+    gdLst: [
+      'a2 pin 0 adj2 50000',
+      'maxAdj1 */ a2 2 1',
+      'a1 pin 0 adj1 maxAdj1',
+      'maxAdj3 +- 100000 0 maxAdj1',
+      'a3 pin 0 adj3 maxAdj3',
+      'x1 */ ss a3 100000',
+      'dx2 */ ss a2 50000',
+      'x2 +- r 0 dx2',
+      'y2 +- b 0 dx2',
+      'dx4 */ ss a2 100000',
+      'x4 +- r 0 dx4',
+      'y4 +- b 0 dx4',
+      'dx3 */ ss a1 200000',
+      'x3 +- x4 0 dx3',
+      'x5 +- x4 dx3 0',
+      'y3 +- y4 0 dx3',
+      'y5 +- y4 dx3 0',
+    ],
+    pathLst: ['M l y4 L x1 y2 L x1 y3 L x3 y3 L x3 x1 L x2 x1 L x4 t L r x1 L x5 x1 L x5 y5 L x1 y5 L x1 b Z'],
+  },
+  leftRightUpArrow: {
+    avLst: { adj1: 25000, adj2: 25000, adj3: 25000 },
+    gdLst: [
+      'a2 pin 0 adj2 50000',
+      'maxAdj1 */ a2 2 1',
+      'a1 pin 0 adj1 maxAdj1',
+      'q1 +- 100000 0 maxAdj1',
+      'maxAdj3 */ q1 1 2',
+      'a3 pin 0 adj3 maxAdj3',
+      'x1 */ ss a3 100000',
+      'dx2 */ ss a2 100000',
+      'x2 +- hc 0 dx2',
+      'x5 +- hc dx2 0',
+      'dx3 */ ss a1 200000',
+      'x3 +- hc 0 dx3',
+      'x4 +- hc dx3 0',
+      'x6 +- r 0 x1',
+      'dy2 */ ss a2 50000',
+      'y2 +- b 0 dy2',
+      'y4 +- b 0 dx2',
+      'y3 +- y4 0 dx3',
+      'y5 +- y4 dx3 0',
+    ],
+    pathLst: [
+      'M l y4 L x1 y2 L x1 y3 L x3 y3 L x3 x1 L x2 x1 L hc t L x5 x1 L x4 x1 L x4 y3 L x6 y3 L x6 y2 ' +
+        'L r y4 L x6 b L x6 y5 L x1 y5 L x1 b Z',
+    ],
+  },
+  quadArrow: {
+    avLst: { adj1: 22500, adj2: 22500, adj3: 22500 },
+    gdLst: [
+      'a2 pin 0 adj2 50000',
+      'maxAdj1 */ a2 2 1',
+      'a1 pin 0 adj1 maxAdj1',
+      'q1 +- 100000 0 maxAdj1',
+      'maxAdj3 */ q1 1 2',
+      'a3 pin 0 adj3 maxAdj3',
+      'x1 */ ss a3 100000',
+      'dx2 */ ss a2 100000',
+      'x2 +- hc 0 dx2',
+      'x5 +- hc dx2 0',
+      'dx3 */ ss a1 200000',
+      'x3 +- hc 0 dx3',
+      'x4 +- hc dx3 0',
+      'x6 +- r 0 x1',
+      'y2 +- vc 0 dx2',
+      'y5 +- vc dx2 0',
+      'y3 +- vc 0 dx3',
+      'y4 +- vc dx3 0',
+      'y6 +- b 0 x1',
+    ],
+    pathLst: [
+      'M l vc L x1 y2 L x1 y3 L x3 y3 L x3 x1 L x2 x1 L hc t L x5 x1 L x4 x1 L x4 y3 L x6 y3 L x6 y2 ' +
+        'L r vc L x6 y5 L x6 y4 L x4 y4 L x4 y6 L x5 y6 L hc b L x2 y6 L x3 y6 L x3 y4 L x1 y4 L x1 y5 Z',
+    ],
+  },
+  rightArrowCallout: {
+    avLst: { adj1: 25000, adj2: 25000, adj3: 25000, adj4: 64977 },
+    gdLst: [
+      'maxAdj2 */ 50000 h ss',
+      'a2 pin 0 adj2 maxAdj2',
+      'maxAdj1 */ a2 2 1',
+      'a1 pin 0 adj1 maxAdj1',
+      'maxAdj3 */ 100000 w ss',
+      'a3 pin 0 adj3 maxAdj3',
+      'q2 */ a3 ss w',
+      'maxAdj4 +- 100000 0 q2',
+      'a4 pin 0 adj4 maxAdj4',
+      'dy1 */ ss a2 100000',
+      'dy2 */ ss a1 200000',
+      'y1 +- vc 0 dy1',
+      'y2 +- vc 0 dy2',
+      'y3 +- vc dy2 0',
+      'y4 +- vc dy1 0',
+      'dx3 */ ss a3 100000',
+      'x3 +- r 0 dx3',
+      'x2 */ w a4 100000',
+    ],
+    pathLst: ['M l t L x2 t L x2 y2 L x3 y2 L x3 y1 L r vc L x3 y4 L x3 y3 L x2 y3 L x2 b L l b Z'],
+  },
+  leftArrowCallout: {
+    avLst: { adj1: 25000, adj2: 25000, adj3: 25000, adj4: 64977 },
+    gdLst: [
+      'maxAdj2 */ 50000 h ss',
+      'a2 pin 0 adj2 maxAdj2',
+      'maxAdj1 */ a2 2 1',
+      'a1 pin 0 adj1 maxAdj1',
+      'maxAdj3 */ 100000 w ss',
+      'a3 pin 0 adj3 maxAdj3',
+      'q2 */ a3 ss w',
+      'maxAdj4 +- 100000 0 q2',
+      'a4 pin 0 adj4 maxAdj4',
+      'dy1 */ ss a2 100000',
+      'dy2 */ ss a1 200000',
+      'y1 +- vc 0 dy1',
+      'y2 +- vc 0 dy2',
+      'y3 +- vc dy2 0',
+      'y4 +- vc dy1 0',
+      'x1 */ ss a3 100000',
+      'dx2 */ w a4 100000',
+      'x2 +- r 0 dx2',
+    ],
+    pathLst: ['M l vc L x1 y1 L x1 y2 L x2 y2 L x2 t L r t L r b L x2 b L x2 y3 L x1 y3 L x1 y4 Z'],
+  },
+  upArrowCallout: {
+    avLst: { adj1: 25000, adj2: 25000, adj3: 25000, adj4: 64977 },
+    gdLst: [
+      'maxAdj2 */ 50000 w ss',
+      'a2 pin 0 adj2 maxAdj2',
+      'maxAdj1 */ a2 2 1',
+      'a1 pin 0 adj1 maxAdj1',
+      'maxAdj3 */ 100000 h ss',
+      'a3 pin 0 adj3 maxAdj3',
+      'q2 */ a3 ss h',
+      'maxAdj4 +- 100000 0 q2',
+      'a4 pin 0 adj4 maxAdj4',
+      'dx1 */ ss a2 100000',
+      'dx2 */ ss a1 200000',
+      'x1 +- hc 0 dx1',
+      'x2 +- hc 0 dx2',
+      'x3 +- hc dx2 0',
+      'x4 +- hc dx1 0',
+      'y1 */ ss a3 100000',
+      'dy2 */ h a4 100000',
+      'y2 +- b 0 dy2',
+    ],
+    pathLst: ['M l y2 L x2 y2 L x2 y1 L x1 y1 L hc t L x4 y1 L x3 y1 L x3 y2 L r y2 L r b L l b Z'],
+  },
+  downArrowCallout: {
+    avLst: { adj1: 25000, adj2: 25000, adj3: 25000, adj4: 64977 },
+    gdLst: [
+      'maxAdj2 */ 50000 w ss',
+      'a2 pin 0 adj2 maxAdj2',
+      'maxAdj1 */ a2 2 1',
+      'a1 pin 0 adj1 maxAdj1',
+      'maxAdj3 */ 100000 h ss',
+      'a3 pin 0 adj3 maxAdj3',
+      'q2 */ a3 ss h',
+      'maxAdj4 +- 100000 0 q2',
+      'a4 pin 0 adj4 maxAdj4',
+      'dx1 */ ss a2 100000',
+      'dx2 */ ss a1 200000',
+      'x1 +- hc 0 dx1',
+      'x2 +- hc 0 dx2',
+      'x3 +- hc dx2 0',
+      'x4 +- hc dx1 0',
+      'dy3 */ ss a3 100000',
+      'y3 +- b 0 dy3',
+      'y2 */ h a4 100000',
+    ],
+    pathLst: ['M l t L r t L r y2 L x3 y2 L x3 y3 L x4 y3 L hc b L x1 y3 L x2 y3 L x2 y2 L l y2 Z'],
+  },
+  leftRightArrowCallout: {
+    avLst: { adj1: 25000, adj2: 25000, adj3: 25000, adj4: 48123 },
+    gdLst: [
+      'maxAdj2 */ 50000 h ss',
+      'a2 pin 0 adj2 maxAdj2',
+      'maxAdj1 */ a2 2 1',
+      'a1 pin 0 adj1 maxAdj1',
+      'maxAdj3 */ 50000 w ss',
+      'a3 pin 0 adj3 maxAdj3',
+      'q2 */ a3 ss wd2',
+      'maxAdj4 +- 100000 0 q2',
+      'a4 pin 0 adj4 maxAdj4',
+      'dy1 */ ss a2 100000',
+      'dy2 */ ss a1 200000',
+      'y1 +- vc 0 dy1',
+      'y2 +- vc 0 dy2',
+      'y3 +- vc dy2 0',
+      'y4 +- vc dy1 0',
+      'x1 */ ss a3 100000',
+      'x4 +- r 0 x1',
+      'dx2 */ w a4 200000',
+      'x2 +- hc 0 dx2',
+      'x3 +- hc dx2 0',
+    ],
+    pathLst: [
+      'M l vc L x1 y1 L x1 y2 L x2 y2 L x2 t L x3 t L x3 y2 L x4 y2 L x4 y1 L r vc L x4 y4 L x4 y3 ' +
+        'L x3 y3 L x3 b L x2 b L x2 y3 L x1 y3 L x1 y4 Z',
+    ],
+  },
+  upDownArrowCallout: {
+    avLst: { adj1: 25000, adj2: 25000, adj3: 25000, adj4: 48123 },
+    gdLst: [
+      'maxAdj2 */ 50000 w ss',
+      'a2 pin 0 adj2 maxAdj2',
+      'maxAdj1 */ a2 2 1',
+      'a1 pin 0 adj1 maxAdj1',
+      'maxAdj3 */ 50000 h ss',
+      'a3 pin 0 adj3 maxAdj3',
+      'q2 */ a3 ss hd2',
+      'maxAdj4 +- 100000 0 q2',
+      'a4 pin 0 adj4 maxAdj4',
+      'dx1 */ ss a2 100000',
+      'dx2 */ ss a1 200000',
+      'x1 +- hc 0 dx1',
+      'x2 +- hc 0 dx2',
+      'x3 +- hc dx2 0',
+      'x4 +- hc dx1 0',
+      'y1 */ ss a3 100000',
+      'y4 +- b 0 y1',
+      'dy2 */ h a4 200000',
+      'y2 +- vc 0 dy2',
+      'y3 +- vc dy2 0',
+    ],
+    pathLst: [
+      'M l y2 L x2 y2 L x2 y1 L x1 y1 L hc t L x4 y1 L x3 y1 L x3 y2 L r y2 L r y3 L x3 y3 L x3 y4 ' +
+        'L x4 y4 L hc b L x1 y4 L x2 y4 L x2 y3 L l y3 Z',
+    ],
+  },
+  quadArrowCallout: {
+    avLst: { adj1: 18515, adj2: 18515, adj3: 18515, adj4: 48123 },
+    gdLst: [
+      'a2 pin 0 adj2 50000',
+      'maxAdj1 */ a2 2 1',
+      'a1 pin 0 adj1 maxAdj1',
+      'maxAdj3 +- 50000 0 a2',
+      'a3 pin 0 adj3 maxAdj3',
+      'q2 */ a3 2 1',
+      'maxAdj4 +- 100000 0 q2',
+      'a4 pin a1 adj4 maxAdj4',
+      'dx2 */ ss a2 100000',
+      'dx3 */ ss a1 200000',
+      'ah */ ss a3 100000',
+      'dx1 */ w a4 200000',
+      'dy1 */ h a4 200000',
+      'x8 +- r 0 ah',
+      'x2 +- hc 0 dx1',
+      'x7 +- hc dx1 0',
+      'x3 +- hc 0 dx2',
+      'x6 +- hc dx2 0',
+      'x4 +- hc 0 dx3',
+      'x5 +- hc dx3 0',
+      'y8 +- b 0 ah',
+      'y2 +- vc 0 dy1',
+      'y7 +- vc dy1 0',
+      'y3 +- vc 0 dx2',
+      'y6 +- vc dx2 0',
+      'y4 +- vc 0 dx3',
+      'y5 +- vc dx3 0',
+    ],
+    pathLst: [
+      'M l vc L ah y3 L ah y4 L x2 y4 L x2 y2 L x4 y2 L x4 ah L x3 ah L hc t L x6 ah L x5 ah L x5 y2 ' +
+        'L x7 y2 L x7 y4 L x8 y4 L x8 y3 L r vc L x8 y6 L x8 y5 L x7 y5 L x7 y7 L x5 y7 L x5 y8 L x6 y8 ' +
+        'L hc b L x3 y8 L x4 y8 L x4 y7 L x2 y7 L x2 y5 L ah y5 L ah y6 Z',
+    ],
+  },
+  bentArrow: {
+    avLst: { adj1: 25000, adj2: 25000, adj3: 25000, adj4: 43750 },
+    gdLst: [
+      'a2 pin 0 adj2 50000',
+      'maxAdj1 */ a2 2 1',
+      'a1 pin 0 adj1 maxAdj1',
+      'a3 pin 0 adj3 50000',
+      'th */ ss a1 100000',
+      'aw2 */ ss a2 100000',
+      'th2 */ th 1 2',
+      'dh2 +- aw2 0 th2',
+      'ah */ ss a3 100000',
+      'bw +- r 0 ah',
+      'bh +- b 0 dh2',
+      'bs min bw bh',
+      'maxAdj4 */ 100000 bs ss',
+      'a4 pin 0 adj4 maxAdj4',
+      'bd */ ss a4 100000',
+      'bd3 +- bd 0 th',
+      'bd2 max bd3 0',
+      'x3 +- th bd2 0',
+      'x4 +- r 0 ah',
+      'y3 +- dh2 th 0',
+      'y4 +- y3 dh2 0',
+      'y5 +- dh2 bd 0',
+    ],
+    pathLst: ['M l b L l y5 A bd bd cd2 cd4 L x4 dh2 L x4 t L r aw2 L x4 y4 L x4 y3 L x3 y3 A bd2 bd2 3cd4 -5400000 L th b Z'],
+  },
+  uturnArrow: {
+    avLst: { adj1: 25000, adj2: 25000, adj3: 25000, adj4: 43750, adj5: 75000 },
+    gdLst: [
+      'a2 pin 0 adj2 25000',
+      'maxAdj1 */ a2 2 1',
+      'a1 pin 0 adj1 maxAdj1',
+      'q2 */ a1 ss h',
+      'q3 +- 100000 0 q2',
+      'maxAdj3 */ q3 h ss',
+      'a3 pin 0 adj3 maxAdj3',
+      'q1 +- a3 a1 0',
+      'minAdj5 */ q1 ss h',
+      'a5 pin minAdj5 adj5 100000',
+      'th */ ss a1 100000',
+      'aw2 */ ss a2 100000',
+      'th2 */ th 1 2',
+      'dh2 +- aw2 0 th2',
+      'y5 */ h a5 100000',
+      'ah */ ss a3 100000',
+      'y4 +- y5 0 ah',
+      'x9 +- r 0 dh2',
+      'bw */ x9 1 2',
+      'bs min bw y4',
+      'maxAdj4 */ bs 100000 ss',
+      'a4 pin 0 adj4 maxAdj4',
+      'bd */ ss a4 100000',
+      'bd3 +- bd 0 th',
+      'bd2 max bd3 0',
+      'x3 +- th bd2 0',
+      'x8 +- r 0 aw2',
+      'x6 +- x8 0 aw2',
+      'x7 +- x6 dh2 0',
+      'x4 +- x9 0 bd',
+      'x5 +- x7 0 bd2',
+    ],
+    pathLst: [
+      'M l b L l bd A bd bd cd2 cd4 L x4 t A bd bd 3cd4 cd4 L x9 y4 L r y4 L x8 y5 L x6 y4 L x7 y4 ' +
+        'L x7 x3 A bd2 bd2 0 -5400000 L x3 th A bd2 bd2 3cd4 -5400000 L th b Z',
+    ],
+  },
+  curvedRightArrow: {
+    avLst: { adj1: 25000, adj2: 50000, adj3: 25000 },
+    gdLst: [
+      'maxAdj2 */ 50000 h ss',
+      'a2 pin 0 adj2 maxAdj2',
+      'a1 pin 0 adj1 a2',
+      'th */ ss a1 100000',
+      'aw */ ss a2 100000',
+      'q1 +/ th aw 4',
+      'hR +- hd2 0 q1',
+      'q7 */ hR 2 1',
+      'q8 */ q7 q7 1',
+      'q9 */ th th 1',
+      'q10 +- q8 0 q9',
+      'q11 sqrt q10',
+      'idx */ q11 w q7',
+      'maxAdj3 */ 100000 idx ss',
+      'a3 pin 0 adj3 maxAdj3',
+      'ah */ ss a3 100000',
+      'y3 +- hR th 0',
+      'q2 */ w w 1',
+      'q3 */ ah ah 1',
+      'q4 +- q2 0 q3',
+      'q5 sqrt q4',
+      'dy */ q5 hR w',
+      'y5 +- hR dy 0',
+      'y7 +- y3 dy 0',
+      'q6 +- aw 0 th',
+      'dh */ q6 1 2',
+      'y4 +- y5 0 dh',
+      'y8 +- y7 dh 0',
+      'aw2 */ aw 1 2',
+      'y6 +- b 0 aw2',
+      'x1 +- r 0 ah',
+      'swAng at2 ah dy',
+      'stAng +- cd2 0 swAng',
+      'mswAng +- 0 0 swAng',
+      'q12 */ th 1 2',
+      'dang2 at2 idx q12',
+      'swAng2 +- dang2 0 cd4',
+    ],
+    pathLst: [
+      'stroke=false M l hR A w hR cd2 mswAng L x1 y4 L r y6 L x1 y8 L x1 y7 A w hR stAng swAng Z',
+      'stroke=false fill=darkenLess M l hR A w hR cd2 cd4 L r th A w hR 3cd4 swAng2 Z',
+      'fill=none M l hR A w hR cd2 mswAng L x1 y4 L r y6 L x1 y8 L x1 y7 A w hR stAng swAng L l hR ' +
+        'A w hR cd2 cd4 L r th A w hR 3cd4 swAng2',
+    ],
+  },
+  curvedLeftArrow: { base: 'curvedRightArrow', transform: 'flipH' },
+  curvedDownArrow: { base: 'curvedRightArrow', transform: 'transpose' },
+  curvedUpArrow: { base: 'curvedRightArrow', transform: 'transposeFlipV' },
+  circularArrow: {
+    avLst: { adj1: 12500, adj2: 1142319, adj3: 20457681, adj4: 10800000, adj5: 12500 },
+    gdLst: [
+      ...CIRCULAR_ARROW_GUIDES,
+      'enAng pin 1 adj3 21599999',
+      'stAng pin 0 adj4 21599999',
+      'hd pin 0 adj2 5400000',
+      'sw1 +- enAng 0 stAng',
+      'sw2 +- sw1 21600000 0',
+      'swAng ?: sw1 sw1 sw2',
+      'iswAng +- 0 0 swAng',
+      'tipAng +- enAng hd 0',
+      ...ellipsePoint('os', 'ow', 'oh', 'stAng'),
+      ...ellipsePoint('ho', 'hw', 'hh', 'enAng'),
+      ...ellipsePoint('tp', 'mw', 'mh', 'tipAng'),
+      ...ellipsePoint('hi', 'lw', 'lh', 'enAng'),
+      ...ellipsePoint('ie', 'iw', 'ih', 'enAng'),
+    ],
+    pathLst: ['M osx osy A ow oh stAng swAng L hox hoy L tpx tpy L hix hiy L iex iey A iw ih enAng iswAng Z'],
+  },
+  leftCircularArrow: {
+    avLst: { adj1: 12500, adj2: -1142319, adj3: 1142319, adj4: 10800000, adj5: 12500 },
+    gdLst: [
+      ...CIRCULAR_ARROW_GUIDES,
+      'enAng pin 1 adj3 21599999',
+      'stAng pin 0 adj4 21599999',
+      'hd pin -5400000 adj2 0',
+      'sw1 +- enAng 0 stAng',
+      'sw2 +- sw1 0 21600000',
+      'swAng ?: sw1 sw2 sw1',
+      'iswAng +- 0 0 swAng',
+      'tipAng +- enAng hd 0',
+      ...ellipsePoint('os', 'ow', 'oh', 'stAng'),
+      ...ellipsePoint('ho', 'hw', 'hh', 'enAng'),
+      ...ellipsePoint('tp', 'mw', 'mh', 'tipAng'),
+      ...ellipsePoint('hi', 'lw', 'lh', 'enAng'),
+      ...ellipsePoint('ie', 'iw', 'ih', 'enAng'),
+    ],
+    pathLst: ['M osx osy A ow oh stAng swAng L hox hoy L tpx tpy L hix hiy L iex iey A iw ih enAng iswAng Z'],
+  },
+  leftRightCircularArrow: {
+    avLst: { adj1: 12500, adj2: 1142319, adj3: 20457681, adj4: 11942319, adj5: 12500 },
+    gdLst: [
+      ...CIRCULAR_ARROW_GUIDES,
+      'enAng pin 1 adj3 21599999',
+      'stAng pin 0 adj4 21599999',
+      'hd pin 0 adj2 5400000',
+      'sw1 +- enAng 0 stAng',
+      'sw2 +- sw1 21600000 0',
+      'swAng ?: sw1 sw1 sw2',
+      'iswAng +- 0 0 swAng',
+      'tipAng +- enAng hd 0',
+      'tip2Ang +- stAng 0 hd',
+      ...ellipsePoint('ho', 'hw', 'hh', 'enAng'),
+      ...ellipsePoint('tp', 'mw', 'mh', 'tipAng'),
+      ...ellipsePoint('hi', 'lw', 'lh', 'enAng'),
+      ...ellipsePoint('ie', 'iw', 'ih', 'enAng'),
+      ...ellipsePoint('is', 'iw', 'ih', 'stAng'),
+      ...ellipsePoint('gi', 'lw', 'lh', 'stAng'),
+      ...ellipsePoint('tq', 'mw', 'mh', 'tip2Ang'),
+      ...ellipsePoint('go', 'hw', 'hh', 'stAng'),
+      ...ellipsePoint('os', 'ow', 'oh', 'stAng'),
+    ],
+    pathLst: [
+      'M osx osy A ow oh stAng swAng L hox hoy L tpx tpy L hix hiy L iex iey A iw ih enAng iswAng ' +
+        'L gix giy L tqx tqy L gox goy Z',
+    ],
+  },
+  swooshArrow: {
+    avLst: { adj1: 25000, adj2: 16667 },
+    gdLst: [
+      'a1 pin 1 adj1 75000',
+      'maxAdj2 */ 70000 w ss',
+      'a2 pin 0 adj2 maxAdj2',
+      'th */ h a1 200000',
+      'hl */ ss a2 100000',
+      'xB +- r 0 hl',
+      'y2 +- th 0 0',
+      'y3 +- th th 0',
+      'y4 +- y3 th 0',
+      'yTip */ th 3 2',
+      'x5 */ w 1 2',
+      'y6 +/ vc y3 2',
+      'y7 +/ y3 b 2',
+    ],
+    pathLst: ['M l b C wd4 vc x5 y2 xB y2 L xB t L r yTip L xB y4 L xB y3 C x5 y3 wd3 y7 l b Z'],
+  },
+
+  // Flowchart
+  flowChartProcess: { pathLst: ['w=1 h=1 M 0 0 L 1 0 L 1 1 L 0 1 Z'] },
+  flowChartAlternateProcess: {
+    gdLst: ['x2 +- r 0 ssd6', 'y2 +- b 0 ssd6'],
+    pathLst: [
+      'M l ssd6 A ssd6 ssd6 cd2 cd4 L x2 t A ssd6 ssd6 3cd4 cd4 L r y2 A ssd6 ssd6 0 cd4 L ssd6 b A ssd6 ssd6 cd4 cd4 Z',
+    ],
+  },
+  flowChartDecision: { pathLst: ['w=2 h=2 M 0 1 L 1 0 L 2 1 L 1 2 Z'] },
+  flowChartInputOutput: { pathLst: ['w=5 h=5 M 0 5 L 1 0 L 5 0 L 4 5 Z'] },
+  flowChartPredefinedProcess: {
+    pathLst: [
+      'stroke=false w=1 h=1 M 0 0 L 1 0 L 1 1 L 0 1 Z',
+      'fill=none w=8 h=8 M 1 0 L 1 8 M 7 0 L 7 8',
+      'fill=none w=1 h=1 M 0 0 L 1 0 L 1 1 L 0 1 Z',
+    ],
+  },
+  flowChartInternalStorage: {
+    pathLst: [
+      'stroke=false w=1 h=1 M 0 0 L 1 0 L 1 1 L 0 1 Z',
+      'fill=none w=8 h=8 M 1 0 L 1 8 M 0 1 L 8 1',
+      'fill=none w=1 h=1 M 0 0 L 1 0 L 1 1 L 0 1 Z',
+    ],
+  },
+  flowChartDocument: { pathLst: ['w=21600 h=21600 M 0 0 L 21600 0 L 21600 17322 C 10800 17322 10800 23922 0 20172 Z'] },
+  flowChartMultidocument: {
+    pathLst: [
+      'stroke=false w=21600 h=21600 M 0 20782 C 9298 23542 9298 18022 18595 18022 L 18595 3675 L 0 3675 Z ' +
+        'M 1532 3675 L 1532 1815 L 20000 1815 L 20000 16252 C 19298 16252 18595 16352 18595 16352 L 18595 3675 Z ' +
+        'M 2972 1815 L 2972 0 L 21600 0 L 21600 14392 C 20800 14392 20000 14467 20000 14467 L 20000 1815 Z',
+      'fill=none w=21600 h=21600 M 0 3675 L 18595 3675 L 18595 18022 C 9298 18022 9298 23542 0 20782 Z ' +
+        'M 1532 3675 L 1532 1815 L 20000 1815 L 20000 16252 C 19298 16252 18595 16352 18595 16352 ' +
+        'M 2972 1815 L 2972 0 L 21600 0 L 21600 14392 C 20800 14392 20000 14467 20000 14467',
+    ],
+  },
+  flowChartTerminator: {
+    pathLst: ['w=21600 h=21600 M 3475 0 L 18125 0 A 3475 10800 3cd4 cd2 L 3475 21600 A 3475 10800 cd4 cd2 Z'],
+  },
+  flowChartPreparation: { pathLst: ['w=10 h=10 M 0 5 L 2 0 L 8 0 L 10 5 L 8 10 L 2 10 Z'] },
+  flowChartManualInput: { pathLst: ['w=5 h=5 M 0 1 L 5 0 L 5 5 L 0 5 Z'] },
+  flowChartManualOperation: { pathLst: ['w=5 h=5 M 0 0 L 5 0 L 4 5 L 1 5 Z'] },
+  flowChartConnector: { pathLst: [ELLIPSE] },
+  flowChartPunchedCard: { pathLst: ['w=5 h=5 M 0 1 L 1 0 L 5 0 L 5 5 L 0 5 Z'] },
+  flowChartPunchedTape: {
+    pathLst: ['w=20 h=20 M 0 2 A 5 2 cd2 -10800000 A 5 2 cd2 cd2 L 20 18 A 5 2 0 -10800000 A 5 2 0 cd2 Z'],
+  },
+  flowChartSummingJunction: {
+    gdLst: [
+      'idx cos wd2 2700000',
+      'idy sin hd2 2700000',
+      'il +- hc 0 idx',
+      'ir +- hc idx 0',
+      'it +- vc 0 idy',
+      'ib +- vc idy 0',
+    ],
+    pathLst: [`stroke=false ${ELLIPSE}`, 'fill=none M il it L ir ib M ir it L il ib', `fill=none ${ELLIPSE}`],
+  },
+  flowChartOr: {
+    pathLst: [`stroke=false ${ELLIPSE}`, 'fill=none M hc t L hc b M l vc L r vc', `fill=none ${ELLIPSE}`],
+  },
+  flowChartCollate: { pathLst: ['w=2 h=2 M 0 0 L 2 0 L 1 1 L 2 2 L 0 2 L 1 1 Z'] },
+  flowChartSort: {
+    pathLst: [
+      'stroke=false w=2 h=2 M 0 1 L 1 0 L 2 1 L 1 2 Z',
+      'fill=none w=2 h=2 M 0 1 L 2 1',
+      'fill=none w=2 h=2 M 0 1 L 1 0 L 2 1 L 1 2 Z',
+    ],
+  },
+  flowChartExtract: { pathLst: ['w=2 h=2 M 0 2 L 1 0 L 2 2 Z'] },
+  flowChartMerge: { pathLst: ['w=2 h=2 M 0 0 L 2 0 L 1 2 Z'] },
+  flowChartOfflineStorage: {
+    pathLst: ['w=2 h=2 M 0 0 L 2 0 L 1 2 Z', 'fill=none w=5 h=5 M 2 4 L 3 4'],
+  },
+  flowChartOnlineStorage: { pathLst: ['w=6 h=6 M 1 0 L 6 0 A 1 3 3cd4 -10800000 L 1 6 A 1 3 cd4 cd2 Z'] },
+  flowChartMagneticTape: {
+    gdLst: ['idy sin hd2 2700000', 'ib +- vc idy 0', 'ang1 at2 w h'],
+    pathLst: ['M hc b A wd2 hd2 cd4 cd4 A wd2 hd2 cd2 cd4 A wd2 hd2 3cd4 cd4 A wd2 hd2 0 ang1 L r ib L r b Z'],
+  },
+  flowChartMagneticDisk: {
+    pathLst: [
+      'stroke=false w=6 h=6 M 0 1 A 3 1 cd2 cd2 L 6 5 A 3 1 0 cd2 Z',
+      'fill=none w=6 h=6 M 6 1 A 3 1 0 cd2',
+      'fill=none w=6 h=6 M 0 1 A 3 1 cd2 cd2 L 6 5 A 3 1 0 cd2 Z',
+    ],
+  },
+  flowChartMagneticDrum: {
+    pathLst: [
+      'stroke=false w=6 h=6 M 1 0 L 5 0 A 1 3 3cd4 cd2 L 1 6 A 1 3 cd4 cd2 Z',
+      'fill=none w=6 h=6 M 5 6 A 1 3 cd4 cd2',
+      'fill=none w=6 h=6 M 1 0 L 5 0 A 1 3 3cd4 cd2 L 1 6 A 1 3 cd4 cd2 Z',
+    ],
+  },
+  flowChartDisplay: { pathLst: ['w=6 h=6 M 0 3 L 1 0 L 5 0 A 1 3 3cd4 cd2 L 1 6 Z'] },
+  flowChartDelay: { pathLst: ['M l t L hc t A wd2 hd2 3cd4 cd2 L l b Z'] },
+  flowChartOffpageConnector: { pathLst: ['w=10 h=10 M 0 0 L 10 0 L 10 8 L 5 10 L 0 8 Z'] },
+
+  // Callouts
+  callout1: callout(1, false, false),
+  callout2: callout(2, false, false),
+  callout3: callout(3, false, false),
+  accentCallout1: callout(1, true, false),
+  accentCallout2: callout(2, true, false),
+  accentCallout3: callout(3, true, false),
+  borderCallout1: callout(1, false, true),
+  borderCallout2: callout(2, false, true),
+  borderCallout3: callout(3, false, true),
+  accentBorderCallout1: callout(1, true, true),
+  accentBorderCallout2: callout(2, true, true),
+  accentBorderCallout3: callout(3, true, true),
+  wedgeRectCallout: {
+    avLst: { adj1: -20833, adj2: 62500 },
+    gdLst: WEDGE_GUIDES,
+    pathLst: [
+      'M l t L x1 t L xt yt L x2 t L r t L r y1 L xr yr L r y2 L r b L x2 b L xb yb L x1 b L l b ' +
+        'L l y2 L xl yl L l y1 Z',
+    ],
+  },
+  wedgeRoundRectCallout: {
+    avLst: { adj1: -20833, adj2: 62500, adj3: 16667 },
+    gdLst: [...WEDGE_GUIDES, 'dr */ ss adj3 100000', 'x3 +- r 0 dr', 'y3 +- b 0 dr'],
+    pathLst: [
+      'M l dr A dr dr cd2 cd4 L x1 t L xt yt L x2 t L x3 t A dr dr 3cd4 cd4 L r y1 L xr yr L r y2 ' +
+        'L r y3 A dr dr 0 cd4 L x2 b L xb yb L x1 b L dr b A dr dr cd4 cd4 L l y2 L xl yl L l y1 Z',
+    ],
+  },
+  wedgeEllipseCallout: {
+    avLst: { adj1: -20833, adj2: 62500 },
+    gdLst: [
+      'dxPos */ w adj1 100000',
+      'dyPos */ h adj2 100000',
+      'xPos +- hc dxPos 0',
+      'yPos +- vc dyPos 0',
+      'sdx */ dxPos h 1',
+      'sdy */ dyPos w 1',
+      'pang at2 sdx sdy',
+      'stAng +- pang 660000 0',
+      'enAng +- pang 0 660000',
+      'dx1 cos wd2 stAng',
+      'dy1 sin hd2 stAng',
+      'x1 +- hc dx1 0',
+      'y1 +- vc dy1 0',
+      'dx2 cos wd2 enAng',
+      'dy2 sin hd2 enAng',
+      'stAng1 at2 dx1 dy1',
+      'enAng1 at2 dx2 dy2',
+      'swAng1 +- enAng1 0 stAng1',
+      'swAng2 +- swAng1 21600000 0',
+      'swAng ?: swAng1 swAng1 swAng2',
+    ],
+    pathLst: ['M xPos yPos L x1 y1 A wd2 hd2 stAng1 swAng Z'],
+  },
+  cloudCallout: {
+    avLst: { adj1: -20833, adj2: 62500 },
+    gdLst: [
+      'dxPos */ w adj1 100000',
+      'dyPos */ h adj2 100000',
+      'xPos +- hc dxPos 0',
+      'yPos +- vc dyPos 0',
+      'ht cat2 hd2 dxPos dyPos',
+      'wt sat2 wd2 dxPos dyPos',
+      'g2 cat2 wd2 ht wt',
+      'g3 sat2 hd2 ht wt',
+      'g4 +- hc g2 0',
+      'g5 +- vc g3 0',
+      'g6 +- g4 0 xPos',
+      'g7 +- g5 0 yPos',
+      'g8 mod g6 g7 0',
+      'g9 */ ss 6600 21600',
+      'g10 +- g8 0 g9',
+      'g11 */ g10 1 3',
+      'g12 */ ss 1800 21600',
+      'g13 +- g11 g12 0',
+      'g14 */ g13 g6 g8',
+      'g15 */ g13 g7 g8',
+      'g16 +- g14 xPos 0',
+      'g17 +- g15 yPos 0',
+      'g18 */ ss 4800 21600',
+      'g19 */ g11 2 1',
+      'g20 +- g18 g19 0',
+      'g21 */ g20 g6 g8',
+      'g22 */ g20 g7 g8',
+      'g23 +- g21 xPos 0',
+      'g24 +- g22 yPos 0',
+      'g25 */ ss 1200 21600',
+      'g26 */ ss 600 21600',
+      'x23 +- xPos g26 0',
+      'x24 +- g16 g25 0',
+      'x25 +- g23 g12 0',
+    ],
+    pathLst: [
+      CLOUD,
+      'M x23 yPos A g26 g26 0 21600000 Z',
+      'M x24 g17 A g25 g25 0 21600000 Z',
+      'M x25 g24 A g12 g12 0 21600000 Z',
+    ],
+  },
+
+  // Stars and banners
+  ribbon: {
+    avLst: { adj1: 16667, adj2: 50000 },
+    gdLst: RIBBON_GUIDES,
+    pathLst: [
+      'M l t L x2 t L x2 dy1 L x9 dy1 L x9 t L r t L x10 ym L r y2 L x9 y2 L x9 b L x2 b L x2 y2 L l y2 L wd8 ym Z',
+      'fill=darkenLess M x2 dy1 L x3 dy1 L x3 y2 L x2 y2 Z M x8 dy1 L x9 dy1 L x9 y2 L x8 y2 Z',
+    ],
+  },
+  ribbon2: { base: 'ribbon', transform: 'flipV' },
+  ellipseRibbon: {
+    avLst: { adj1: 25000, adj2: 50000, adj3: 12500 },
+    gdLst: [
+      ...RIBBON_GUIDES,
+      'a3 pin 0 adj3 a1',
+      'cv */ h a3 100000',
+      'cv2 */ cv 2 1',
+      'yc1 +- dy1 cv2 0',
+      'yc2 +- b cv2 0',
+      'yc3 +- t cv2 0',
+      'yc4 +- y2 cv2 0',
+      'x11 +- r 0 wd4',
+    ],
+    pathLst: [
+      'M l t Q wd4 yc3 x2 cv L x2 dy1 Q hc yc1 x9 dy1 L x9 cv Q x11 yc3 r t L x10 ym L r y2 Q x11 yc4 x9 y2 ' +
+        'L x9 b Q hc yc2 x2 b L x2 y2 Q wd4 yc4 l y2 L wd8 ym Z',
+    ],
+  },
+  ellipseRibbon2: { base: 'ellipseRibbon', transform: 'flipV' },
+  leftRightRibbon: {
+    avLst: { adj1: 50000, adj2: 50000, adj3: 16667 },
+    gdLst: [
+      'a1 pin 0 adj1 100000',
+      'maxAdj2 */ 50000 w ss',
+      'a2 pin 0 adj2 maxAdj2',
+      'th */ h a1 150000',
+      'th2 */ th 1 2',
+      'x1 */ ss a2 100000',
+      'x2 +- r 0 x1',
+      'hcL +- hc 0 wd32',
+      'hcR +- hc wd32 0',
+      'ly1 +- t th2 0',
+      'ly2 +- ly1 th 0',
+      'lyc +/ ly1 ly2 2',
+      'ry1 +- ly2 0 0',
+      'ry2 +- ry1 th 0',
+      'ryc +/ ry1 ry2 2',
+      'lh2 +- ly2 th2 0',
+      'rh1 +- ry1 0 th2',
+    ],
+    pathLst: [
+      'M l lyc L x1 t L x1 ly1 L hcR ly1 L hcR ry1 L x2 ry1 L x2 rh1 L r ryc L x2 b L x2 ry2 L hcL ry2 ' +
+        'L hcL ly2 L x1 ly2 L x1 lh2 Z',
+    ],
+  },
+  horizontalScroll: {
+    avLst: { adj: 12500 },
+    gdLst: [
+      'a pin 0 adj 25000',
+      'ch */ ss a 100000',
+      'ch2 */ ch 1 2',
+      'x3 +- r 0 ch',
+      'x4 +- r 0 ch2',
+      'x5 +- ch ch2 0',
+      'x6 +- x3 0 ch2',
+      'y6 +- b 0 ch',
+      'y7 +- b 0 ch2',
+    ],
+    pathLst: [
+      'M ch2 ch L x4 ch L x4 y6 L ch2 y6 Z',
+      'M x5 ch A ch2 ch2 cd4 cd2 L x4 t A ch2 ch2 3cd4 cd2 Z',
+      'M ch2 y6 A ch2 ch2 3cd4 -10800000 L x6 b A ch2 ch2 cd4 -10800000 Z',
+    ],
+  },
+  verticalScroll: { base: 'horizontalScroll', transform: 'transpose' },
+  wave: {
+    avLst: { adj1: 12500, adj2: 0 },
+    gdLst: [
+      'a1 pin 0 adj1 20000',
+      'a2 pin -10000 adj2 10000',
+      'y1 */ h a1 100000',
+      'dy2 */ y1 10 3',
+      'y2 +- y1 0 dy2',
+      'y3 +- y1 dy2 0',
+      'y4 +- b 0 y1',
+      'y5 +- y4 0 dy2',
+      'y6 +- y4 dy2 0',
+      'of2 */ w a2 50000',
+      'dx2 ?: of2 0 of2',
+      'x2 +- l 0 dx2',
+      'dx5 ?: of2 of2 0',
+      'x5 +- r 0 dx5',
+      'dx3 +/ dx2 x5 3',
+      'x3 +- x2 dx3 0',
+      'x4 +- x3 dx3 0',
+      'x6 +- l dx5 0',
+      'x10 +- r dx2 0',
+      'x7 +- x6 dx3 0',
+      'x8 +- x7 dx3 0',
+    ],
+    pathLst: ['M x2 y1 C x3 y2 x4 y3 x5 y1 L x10 y4 C x8 y6 x7 y5 x6 y4 Z'],
+  },
+  doubleWave: {
+    avLst: { adj1: 6250, adj2: 0 },
+    gdLst: [
+      'a1 pin 0 adj1 12500',
+      'a2 pin -10000 adj2 10000',
+      'y1 */ h a1 100000',
+      'dy2 */ y1 10 3',
+      'y2 +- y1 0 dy2',
+      'y3 +- y1 dy2 0',
+      'y4 +- b 0 y1',
+      'y5 +- y4 0 dy2',
+      'y6 +- y4 dy2 0',
+      'of2 */ w a2 50000',
+      'dx2 ?: of2 0 of2',
+      'x2 +- l 0 dx2',
+      'dx8 ?: of2 of2 0',
+      'x8 +- r 0 dx8',
+      'dx3 +/ dx2 x8 6',
+      'x3 +- x2 dx3 0',
+      'dx4 +/ dx2 x8 3',
+      'x4 +- x2 dx4 0',
+      'x5 +/ x2 x8 2',
+      'x6 +- x5 dx3 0',
+      'x7 +- x5 dx4 0',
+      'x9 +- l dx8 0',
+      'x15 +- r dx2 0',
+      'x10 +- x9 dx3 0',
+      'x11 +- x9 dx4 0',
+      'x12 +/ x9 x15 2',
+      'x13 +- x12 dx3 0',
+      'x14 +- x12 dx4 0',
+    ],
+    pathLst: ['M x2 y1 C x3 y2 x4 y3 x5 y1 C x6 y2 x7 y3 x8 y1 L x15 y4 C x14 y6 x13 y5 x12 y4 C x11 y6 x10 y5 x9 y4 Z'],
+  },
+
+  // Brackets and braces
+  leftBracket: {
+    avLst: { adj: 8333 },
+    gdLst: ['maxAdj */ 50000 h ss', 'a pin 0 adj maxAdj', 'y1 */ ss a 100000', 'y2 +- b 0 y1'],
+    pathLst: [
+      'stroke=false M r b A w y1 cd4 cd4 L l y1 A w y1 cd2 cd4 Z',
+      'fill=none M r b A w y1 cd4 cd4 L l y1 A w y1 cd2 cd4',
+    ],
+  },
+  rightBracket: {
+    avLst: { adj: 8333 },
+    gdLst: ['maxAdj */ 50000 h ss', 'a pin 0 adj maxAdj', 'y1 */ ss a 100000', 'y2 +- b 0 y1'],
+    pathLst: [
+      'stroke=false M l t A w y1 3cd4 cd4 L r y2 A w y1 0 cd4 Z',
+      'fill=none M l t A w y1 3cd4 cd4 L r y2 A w y1 0 cd4',
+    ],
+  },
+  leftBrace: {
+    avLst: { adj1: 8333, adj2: 50000 },
+    gdLst: [
+      'a2 pin 0 adj2 100000',
+      'q1 +- 100000 0 a2',
+      'q2 min q1 a2',
+      'q3 */ q2 1 2',
+      'maxAdj1 */ q3 h ss',
+      'a1 pin 0 adj1 maxAdj1',
+      'y1 */ ss a1 100000',
+      'y3 */ h a2 100000',
+      'y2 +- y3 0 y1',
+      'y4 +- b 0 y1',
+      'y5 +- y3 y1 0',
+    ],
+    pathLst: [
+      'stroke=false M r b A wd2 y1 cd4 cd4 L hc y5 A wd2 y1 0 -5400000 A wd2 y1 cd4 -5400000 L hc y1 A wd2 y1 cd2 cd4 Z',
+      'fill=none M r b A wd2 y1 cd4 cd4 L hc y5 A wd2 y1 0 -5400000 A wd2 y1 cd4 -5400000 L hc y1 A wd2 y1 cd2 cd4',
+    ],
+  },
+  rightBrace: {
+    avLst: { adj1: 8333, adj2: 50000 },
+    gdLst: [
+      'a2 pin 0 adj2 100000',
+      'q1 +- 100000 0 a2',
+      'q2 min q1 a2',
+      'q3 */ q2 1 2',
+      'maxAdj1 */ q3 h ss',
+      'a1 pin 0 adj1 maxAdj1',
+      'y1 */ ss a1 100000',
+      'y3 */ h a2 100000',
+      'y2 +- y3 0 y1',
+      'y4 +- b 0 y1',
+      'y5 +- y3 y1 0',
+    ],
+    pathLst: [
+      'stroke=false M l t A wd2 y1 3cd4 cd4 L hc y2 A wd2 y1 cd2 -5400000 A wd2 y1 3cd4 -5400000 L hc y4 A wd2 y1 0 cd4 Z',
+      'fill=none M l t A wd2 y1 3cd4 cd4 L hc y2 A wd2 y1 cd2 -5400000 A wd2 y1 3cd4 -5400000 L hc y4 A wd2 y1 0 cd4',
+    ],
+  },
+  bracketPair: {
+    avLst: { adj: 16667 },
+    gdLst: ['a pin 0 adj 50000', 'x1 */ ss a 100000', 'x2 +- r 0 x1', 'y2 +- b 0 x1'],
+    pathLst: [
+      'stroke=false M l x1 A x1 x1 cd2 cd4 L x2 t A x1 x1 3cd4 cd4 L r y2 A x1 x1 0 cd4 L x1 b A x1 x1 cd4 cd4 Z',
+      'fill=none M x1 b A x1 x1 cd4 cd4 L l x1 A x1 x1 cd2 cd4 M x2 t A x1 x1 3cd4 cd4 L r y2 A x1 x1 0 cd4',
+    ],
+  },
+  bracePair: {
+    avLst: { adj: 8333 },
+    gdLst: [
+      'a pin 0 adj 25000',
+      'x1 */ ss a 100000',
+      'x2 */ ss a 50000',
+      'x3 +- r 0 x2',
+      'x4 +- r 0 x1',
+      'y2 +- vc 0 x1',
+      'y3 +- vc x1 0',
+      'y4 +- b 0 x1',
+    ],
+    pathLst: [
+      'stroke=false M x2 b A x1 x1 cd4 cd4 L x1 y3 A x1 x1 0 -5400000 A x1 x1 cd4 -5400000 L x1 x1 ' +
+        'A x1 x1 cd2 cd4 L x3 t A x1 x1 3cd4 cd4 L x4 y2 A x1 x1 cd2 -5400000 A x1 x1 3cd4 -5400000 ' +
+        'L x4 y4 A x1 x1 0 cd4 Z',
+      'fill=none M x2 b A x1 x1 cd4 cd4 L x1 y3 A x1 x1 0 -5400000 A x1 x1 cd4 -5400000 L x1 x1 A x1 x1 cd2 cd4 ' +
+        'M x3 t A x1 x1 3cd4 cd4 L x4 y2 A x1 x1 cd2 -5400000 A x1 x1 3cd4 -5400000 L x4 y4 A x1 x1 0 cd4',
+    ],
+  },
+
+  // Equation shapes
+  mathPlus: {
+    avLst: { adj1: 23520 },
+    gdLst: [
+      'a1 pin 0 adj1 73490',
+      'dx1 */ w 73490 200000',
+      'dy1 */ h 73490 200000',
+      'dx2 */ ss a1 200000',
+      'x1 +- hc 0 dx1',
+      'x2 +- hc 0 dx2',
+      'x3 +- hc dx2 0',
+      'x4 +- hc dx1 0',
+      'y1 +- vc 0 dy1',
+      'y2 +- vc 0 dx2',
+      'y3 +- vc dx2 0',
+      'y4 +- vc dy1 0',
+    ],
+    pathLst: ['M x1 y2 L x2 y2 L x2 y1 L x3 y1 L x3 y2 L x4 y2 L x4 y3 L x3 y3 L x3 y4 L x2 y4 L x2 y3 L x1 y3 Z'],
+  },
+  mathMinus: {
+    avLst: { adj1: 23520 },
+    gdLst: [
+      'a1 pin 0 adj1 100000',
+      'dy1 */ h a1 200000',
+      'dx1 */ w 73490 200000',
+      'y1 +- vc 0 dy1',
+      'y2 +- vc dy1 0',
+      'x1 +- hc 0 dx1',
+      'x2 +- hc dx1 0',
+    ],
+    pathLst: ['M x1 y1 L x2 y1 L x2 y2 L x1 y2 Z'],
+  },
+  mathMultiply: {
+    avLst: { adj1: 23520 },
+    gdLst: [
+      'a1 pin 0 adj1 51965',
+      'th */ ss a1 100000',
+      'a at2 w h',
+      'sa sin 1 a',
+      'ca cos 1 a',
+      'ta tan 1 a',
+      'dl mod w h 0',
+      'rw */ dl 51965 100000',
+      'lM +- dl 0 rw',
+      'xM */ ca lM 2',
+      'yM */ sa lM 2',
+      'dxAM */ sa th 2',
+      'dyAM */ ca th 2',
+      'xA +- xM 0 dxAM',
+      'yA +- yM dyAM 0',
+      'xB +- xM dxAM 0',
+      'yB +- yM 0 dyAM',
+      'xBC +- hc 0 xB',
+      'yBC */ xBC ta 1',
+      'yC +- yBC yB 0',
+      'xD +- r 0 xB',
+      'xE +- r 0 xA',
+      'yFE +- vc 0 yA',
+      'xFE */ yFE 1 ta',
+      'xF +- xE 0 xFE',
+      'xL +- xA xFE 0',
+      'yG +- b 0 yA',
+      'yH +- b 0 yB',
+      'yI +- b 0 yC',
+    ],
+    pathLst: ['M xA yA L xB yB L hc yC L xD yB L xE yA L xF vc L xE yG L xD yH L hc yI L xB yH L xA yG L xL vc Z'],
+  },
+  mathDivide: {
+    avLst: { adj1: 23520, adj2: 5880, adj3: 11760 },
+    gdLst: [
+      'a1 pin 1000 adj1 36745',
+      'ma1 +- 0 0 a1',
+      'ma3h +/ 73490 ma1 4',
+      'ma3w */ 36745 w h',
+      'maxAdj3 min ma3h ma3w',
+      'a3 pin 1000 adj3 maxAdj3',
+      'm4a3 */ -4 a3 1',
+      'maxAdj2 +- 73490 m4a3 a1',
+      'a2 pin 0 adj2 maxAdj2',
+      'dy1 */ h a1 200000',
+      'yg */ h a2 100000',
+      'rad */ h a3 100000',
+      'dx1 */ w 73490 200000',
+      'y3 +- vc 0 dy1',
+      'y4 +- vc dy1 0',
+      'a +- yg rad 0',
+      'y2 +- y3 0 a',
+      'y1 +- y2 0 rad',
+      'y5 +- b 0 y1',
+      'x1 +- hc 0 dx1',
+      'x3 +- hc dx1 0',
+    ],
+    pathLst: ['M hc y1 A rad rad 3cd4 21600000 Z M hc y5 A rad rad cd4 21600000 Z M x1 y3 L x3 y3 L x3 y4 L x1 y4 Z'],
+  },
+  mathEqual: {
+    avLst: { adj1: 23520, adj2: 11760 },
+    gdLst: [
+      'a1 pin 0 adj1 36745',
+      '2a1 */ a1 2 1',
+      'mAdj2 +- 100000 0 2a1',
+      'a2 pin 0 adj2 mAdj2',
+      'dy1 */ h a1 100000',
+      'dy2 */ h a2 200000',
+      'dx1 */ w 73490 200000',
+      'y2 +- vc 0 dy2',
+      'y3 +- vc dy2 0',
+      'y1 +- y2 0 dy1',
+      'y4 +- y3 dy1 0',
+      'x1 +- hc 0 dx1',
+      'x2 +- hc dx1 0',
+    ],
+    pathLst: ['M x1 y1 L x2 y1 L x2 y2 L x1 y2 Z M x1 y3 L x2 y3 L x2 y4 L x1 y4 Z'],
+  },
+  mathNotEqual: {
+    avLst: { adj1: 23520, adj2: 6600000, adj3: 11760 },
+    gdLst: [
+      'a1 pin 0 adj1 50000',
+      'crAng pin 4200000 adj2 6600000',
+      '2a1 */ a1 2 1',
+      'maxAdj3 +- 100000 0 2a1',
+      'a3 pin 0 adj3 maxAdj3',
+      'dy1 */ h a1 100000',
+      'dy2 */ h a3 200000',
+      'dx1 */ w 73490 200000',
+      'x1 +- hc 0 dx1',
+      'x8 +- hc dx1 0',
+      'y2 +- vc 0 dy2',
+      'y3 +- vc dy2 0',
+      'y1 +- y2 0 dy1',
+      'y4 +- y3 dy1 0',
+      'cadj2 +- crAng 0 cd4',
+      'xadj2 tan hd2 cadj2',
+      'len mod xadj2 hd2 0',
+      'bhw */ len dy1 hd2',
+      'bhw2 */ bhw 1 2',
+      'x7 +- hc xadj2 bhw2',
+      'dx67 */ xadj2 y1 hd2',
+      'x6 +- x7 0 dx67',
+      'dx57 */ xadj2 y2 hd2',
+      'x5 +- x7 0 dx57',
+      'dx47 */ xadj2 y3 hd2',
+      'x4 +- x7 0 dx47',
+      'dx37 */ xadj2 y4 hd2',
+      'x3 +- x7 0 dx37',
+      'rx7 +- x7 bhw 0',
+      'rx6 +- x6 bhw 0',
+      'rx5 +- x5 bhw 0',
+      'rx4 +- x4 bhw 0',
+      'rx3 +- x3 bhw 0',
+      'dx7 */ dy1 hd2 len',
+      'rxt +- x7 dx7 0',
+      'lxt +- rx7 0 dx7',
+      'rx ?: cadj2 rxt rx7',
+      'lx ?: cadj2 x7 lxt',
+      'dy3 */ dy1 xadj2 len',
+      'dy4 +- 0 0 dy3',
+      'ry ?: cadj2 dy3 t',
+      'ly ?: cadj2 t dy4',
+      'dlx +- w 0 rx',
+      'drx +- w 0 lx',
+      'dly +- h 0 ry',
+      'dry +- h 0 ly',
+    ],
+    pathLst: [
+      'M x1 y1 L x6 y1 L lx ly L rx ry L rx6 y1 L x8 y1 L x8 y2 L rx5 y2 L rx4 y3 L x8 y3 L x8 y4 L rx3 y4 ' +
+        'L drx dry L dlx dly L x3 y4 L x1 y4 L x1 y3 L x4 y3 L x5 y2 L x1 y2 Z',
+    ],
+  },
+
+  // Action buttons
+  actionButtonBlank: { pathLst: [RECT] },
+  actionButtonHome: actionButton(
+    'fill=darken M i8 j0 L i0 j8 L i2 j8 L i2 j16 L i14 j16 L i14 j8 L i16 j8 Z',
+    'fill=lighten M i6 j16 L i6 j10 L i10 j10 L i10 j16 Z'
+  ),
+  actionButtonHelp: actionButton(
+    'fill=darken M i5 j5 A s3 s3 cd2 cd2 L i11 j6 L i9 j9 L i9 j12 L i7 j12 L i7 j8 L i9 j6 L i9 j5 ' +
+      'A s1 s1 0 -10800000 Z M i8 j13 A s1 s1 3cd4 21600000 Z'
+  ),
+  actionButtonInformation: actionButton(
+    'fill=darken M i0 j8 A s8 s8 cd2 21600000 Z',
+    'fill=lighten M i8 j2 A s1 s1 3cd4 21600000 Z M i7 j6 L i9 j6 L i9 j13 L i7 j13 Z'
+  ),
+  actionButtonForwardNext: actionButton('fill=darken M i16 j8 L i0 j0 L i0 j16 Z'),
+  actionButtonBackPrevious: actionButton('fill=darken M i0 j8 L i16 j0 L i16 j16 Z'),
+  actionButtonEnd: actionButton('fill=darken M i12 j8 L i0 j0 L i0 j16 Z M i13 j0 L i16 j0 L i16 j16 L i13 j16 Z'),
+  actionButtonBeginning: actionButton('fill=darken M i4 j8 L i16 j0 L i16 j16 Z M i0 j0 L i3 j0 L i3 j16 L i0 j16 Z'),
+  actionButtonReturn: actionButton(
+    'fill=darken M i12 j2 L i16 j2 L i16 j13 L i13 j16 L i5 j16 L i2 j13 L i2 j8 L i0 j8 L i4 j3 L i8 j8 ' +
+      'L i6 j8 L i6 j12 L i12 j12 Z'
+  ),
+  actionButtonDocument: actionButton(
+    'fill=darkenLess M i3 j0 L i10 j0 L i13 j3 L i13 j16 L i3 j16 Z',
+    'fill=darken M i10 j0 L i10 j3 L i13 j3 Z'
+  ),
+  actionButtonSound: actionButton(
+    'fill=darken M i0 j5 L i4 j5 L i9 j0 L i9 j16 L i4 j11 L i0 j11 Z',
+    'fill=none M i11 j5 L i16 j2 M i11 j8 L i16 j8 M i11 j11 L i16 j14'
+  ),
+  actionButtonMovie: actionButton(
+    'fill=darken M i0 j4 L i11 j4 L i11 j7 L i16 j4 L i16 j12 L i11 j9 L i11 j12 L i0 j12 Z'
+  ),
+
+  // Tabs and chart markers
+  cornerTabs: {
+    gdLst: ['md mod w h 0', 'dx */ 1 md 20', 'y1 +- 0 b dx', 'x1 +- 0 r dx'],
+    pathLst: ['M l t L dx t L l dx Z M l y1 L dx b L l b Z M x1 t L r t L r dx Z M r y1 L r b L x1 b Z'],
+  },
+  squareTabs: {
+    gdLst: ['md mod w h 0', 'dx */ 1 md 20', 'y1 +- 0 b dx', 'x1 +- 0 r dx'],
+    pathLst: [
+      'M l t L dx t L dx dx L l dx Z M l y1 L dx y1 L dx b L l b Z M x1 t L r t L r dx L x1 dx Z ' +
+        'M x1 y1 L r y1 L r b L x1 b Z',
+    ],
+  },
+  plaqueTabs: {
+    gdLst: ['md mod w h 0', 'dx */ 1 md 20', 'y1 +- 0 b dx', 'x1 +- 0 r dx'],
+    pathLst: [
+      'M l t L dx t A dx dx 0 cd4 Z M l y1 A dx dx 3cd4 cd4 L l b Z M r t L r dx A dx dx cd4 cd4 Z ' +
+        'M x1 b A dx dx cd2 cd4 L r b Z',
+    ],
+  },
+  chartX: {
+    pathLst: ['stroke=false w=10 h=10 M 0 0 L 10 0 L 10 10 L 0 10 Z', 'fill=none w=10 h=10 M 0 0 L 10 10 M 0 10 L 10 0'],
+  },
+  chartStar: {
+    pathLst: [
+      'stroke=false w=10 h=10 M 0 0 L 10 0 L 10 10 L 0 10 Z',
+      'fill=none w=10 h=10 M 0 0 L 10 10 M 0 10 L 10 0 M 5 0 L 5 10',
+    ],
+  },
+  chartPlus: {
+    pathLst: ['stroke=false w=10 h=10 M 0 0 L 10 0 L 10 10 L 0 10 Z', 'fill=none w=10 h=10 M 5 0 L 5 10 M 0 5 L 10 5'],
+  },
+};
+
+/**
+ * Look up a preset definition, following derived (mirrored) entries
+ * @param preset - ST_ShapeType name, e.g. "rightArrow"
+ * @returns The base definition and the transform to apply, or null if unknown
+ */
+export function getPresetShapeDefinition(
+  preset: string
+): { definition: PresetShapeDefinition; transform: PresetTransform | null } | null {
+  const entry = PRESETS[preset];
+  if (!entry) return null;
+
+  if ('base' in entry) {
+    const base = PRESETS[entry.base];
+    if (!base || 'base' in base) return null;
+    return { definition: base, transform: entry.transform };
+  }
+
+  return { definition: entry, transform: null };
+}
+
+/** All preset names with an outline definition */
+export const PRESET_SHAPE_NAMES = Object.keys(PRESETS);
@@ -0,0 +1,169 @@
+/**
+ * DrawingML Shape Guide Evaluation
+ *
+ * Shape guides (a:gd) are named values computed from formulas such as
+ * "*\/ w adj 100000". They drive both custom geometry (custGeom gdLst)
+ * and the preset shape definitions. Angles are in 60000ths of a degree.
+ */
+
+export type GuideValues = Map<string, number>;
+
+export interface GuideDefinition {
+  name: string;
+  fmla: string;
+}
+
+const DEGREE = 60000;
+
+/**
+ * Create the built-in guide values for a shape of the given size
+ * @param width - Shape width (in the unit the path will be evaluated in)
+ * @param height - Shape height
+ * @returns Guide map pre-populated with the spec's built-in names
+ */
+export function createGuideValues(width: number, height: number): GuideValues {
+  const ss = Math.min(width, height);
+  const ls = Math.max(width, height);
+
+  return new Map<string, number>([
+    ['w', width],
+    ['h', height],
+    ['l', 0],
+    ['t', 0],
+    ['r', width],
+    ['b', height],
+    ['hc', width / 2],
+    ['vc', height / 2],
+    ['wd2', width / 2],
+    ['wd3', width / 3],
+    ['wd4', width / 4],
+    ['wd5', width / 5],
+    ['wd6', width / 6],
+    ['wd8', width / 8],
+    ['wd10', width / 10],
+    ['wd12', width / 12],
+    ['wd32', width / 32],
+    ['hd2', height / 2],
+    ['hd3', height / 3],
+    ['hd4', height / 4],
+    ['hd5', height / 5],
+    ['hd6', height / 6],
+    ['hd8', height / 8],
+    ['hd10', height / 10],
+    ['hd12', height / 12],
+    ['hd32', height / 32],
+    ['ss', ss],
+    ['ls', ls],
+    ['ssd2', ss / 2],
+    ['ssd4', ss / 4],
+    ['ssd6', ss / 6],
+    ['ssd8', ss / 8],
+    ['ssd16', ss / 16],
+    ['ssd32', ss / 32],
+    ['cd2', 180 * DEGREE],
+    ['cd4', 90 * DEGREE],
+    ['cd8', 45 * DEGREE],
+    ['3cd4', 270 * DEGREE],
+    ['3cd8', 135 * DEGREE],
+    ['5cd8', 225 * DEGREE],
+    ['7cd8', 315 * DEGREE],
+  ]);
+}
+
+/**
+ * Resolve a guide argument (literal number or guide name)
+ * @param token - Formula argument or path attribute value
+ * @param values - Known guide values
+ * @returns Numeric value (0 for unknown names)
+ */
+export function resolveGuideValue(token: string | number | undefined | null, values: GuideValues): number {
+  if (token === undefined || token === null || token === '') return 0;
+  if (typeof token === 'number') return token;
+
+  const numeric = Number(token);
+  if (!isNaN(numeric)) return numeric;
+
+  return values.get(token) ?? 0;
+}
+
+/**
+ * Evaluate a single guide formula
+ * @param fmla - Formula string, e.g. "+- r 0 wd2"
+ * @param values - Known guide values
+ * @returns Computed value
+ */
+export function evaluateFormula(fmla: string, values: GuideValues): number {
+  const [op, ...args] = fmla.trim().split(/\s+/);
+  const [x, y, z] = args.map(arg => resolveGuideValue(arg, values));
+  const toRadians = (angle: number) => (angle / DEGREE) * Math.PI / 180;
+
+  switch (op) {
+    case '*/':
+      return z === 0 ? 0 : (x * y) / z;
+    case '+-':
+      return x + y - z;
+    case '+/':
+      return z === 0 ? 0 : (x + y) / z;
+    case '?:':
+      return x > 0 ? y : z;
+    case 'abs':
+      return Math.abs(x);
+    case 'at2':
+      return (Math.atan2(y, x) * 180 / Math.PI) * DEGREE;
+    case 'cat2':
+      return x * Math.cos(Math.atan2(z, y));
+    case 'cos':
+      return x * Math.cos(toRadians(y));
+    case 'max':
+      return Math.max(x, y);
+    case 'min':
+      return Math.min(x, y);
+    case 'mod':
+      return Math.sqrt(x * x + y * y + z * z);
+    case 'pin':
+      return y < x ? x : y > z ? z : y;
+    case 'sat2':
+      return x * Math.sin(Math.atan2(z, y));
+    case 'sin':
+      return x * Math.sin(toRadians(y));
+    case 'sqrt':
+      return Math.sqrt(Math.max(0, x));
+    case 'tan':
+      return x * Math.tan(toRadians(y));
+    case 'val':
+      return x;
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Evaluate guide definitions in order, adding each result to the guide map.
+ * Later guides may reference earlier ones (and built-ins).
+ * @param guides - Guide definitions (avLst / gdLst)
+ * @param values - Guide map to extend
+ * @returns The same guide map
+ */
+export function evaluateGuides(guides: GuideDefinition[], values: GuideValues): GuideValues {
+  for (const guide of guides) {
+    if (!guide.name || !guide.fmla) continue;
+    values.set(guide.name, evaluateFormula(guide.fmla, values));
+  }
+  return values;
+}
+
+/**
+ * Read guide definitions from an avLst/gdLst node (a:gd elements)
+ * @param list - avLst or gdLst node
+ * @returns Guide definitions in document order
+ */
+export function readGuideList(list: any): GuideDefinition[] {
+  if (!list || typeof list !== 'object') return [];
+  const gd = list['gd'];
+  if (!gd) return [];
+
+  const items = Array.isArray(gd) ? gd : [gd];
+  return items
+    .filter(item => item && typeof item === 'object')
+    .map(item => ({ name: String(item.$name ?? ''), fmla: String(item.$fmla ?? '') }));
+}
@@ -0,0 +1,101 @@
+/**
+ * DrawingML Text Scripts
+ *
+ * A run carries three typefaces: latin, ea (East Asian) and cs (complex
+ * script - Arabic, Hebrew, Thai, Indic, ...). PowerPoint picks one per
+ * character from its script; the run's lang / altLang choose the theme's
+ * supplemental font (a:font script="Jpan" ...) when the ea / cs theme
+ * font is empty.
+ */
+
+export type TextScript = 'latin' | 'eastAsian' | 'complexScript';
+
+// Hangul Jamo, CJK radicals through unified ideographs, Hangul syllables, compatibility forms, full/half width forms and supplementary ideographs
+const EAST_ASIAN_PATTERN = /[\u1100-\u11FF\u2E80-\u2FDF\u2FF0-\u30FF\u3130-\u318F\u31C0-\u9FFF\uA960-\uA97F\uAC00-\uD7FF\uF900-\uFAFF\uFE30-\uFE4F\uFF00-\uFFEF]|[\uD840-\uD87F][\uDC00-\uDFFF]/;
+
+// Hebrew, Arabic, Syriac, Thaana, Indic scripts, Thai, Lao, Tibetan, Myanmar, Khmer and the Hebrew/Arabic presentation forms
+const COMPLEX_SCRIPT_PATTERN = /[\u0590-\u08FF\u0900-\u0FFF\u1000-\u109F\u1780-\u17FF\uFB1D-\uFDFF\uFE70-\uFEFF]/;
+
+// Language subtag -> supplemental font script code (a:font $script)
+const LANGUAGE_SCRIPTS: Record<string, string> = {
+  ja: 'Jpan',
+  ko: 'Hang',
+  ar: 'Arab',
+  fa: 'Arab',
+  ur: 'Arab',
+  ps: 'Arab',
+  he: 'Hebr',
+  yi: 'Hebr',
+  th: 'Thai',
+  lo: 'Laoo',
+  km: 'Khmr',
+  hi: 'Deva',
+  mr: 'Deva',
+  ne: 'Deva',
+  sa: 'Deva',
+  bn: 'Beng',
+  gu: 'Gujr',
+  pa: 'Guru',
+  ta: 'Taml',
+  te: 'Telu',
+  kn: 'Knda',
+  ml: 'Mlym',
+  or: 'Orya',
+  si: 'Sinh',
+  bo: 'Tibt',
+  dv: 'Thaa',
+  syr: 'Syrc',
+  am: 'Ethi',
+  ka: 'Geor',
+  ug: 'Uigh',
+  vi: 'Viet',
+};
+
+// Chinese regions written with traditional characters
+const TRADITIONAL_CHINESE_REGIONS = new Set(['TW', 'HK', 'MO', 'HANT']);
+
+const EAST_ASIAN_SCRIPTS = new Set(['Jpan', 'Hang', 'Hans', 'Hant']);
+
+/**
+ * Script of a run's text: East Asian or complex script when it contains such characters
+ * @param text - Run text
+ * @returns The typeface slot (latin / ea / cs) PowerPoint would use
+ */
+export function detectTextScript(text: string): TextScript {
+  if (EAST_ASIAN_PATTERN.test(text)) return 'eastAsian';
+  if (COMPLEX_SCRIPT_PATTERN.test(text)) return 'complexScript';
+  return 'latin';
+}
+
+/**
+ * Supplemental font script code of a language tag
+ * @param lang - Language tag such as ja-JP or zh-TW
+ * @returns Script code (Jpan, Hans, Arab, ...), or null for languages without one
+ */
+export function getLanguageScript(lang: string | null | undefined): string | null {
+  if (!lang) return null;
+
+  const [language, ...subtags] = lang.split('-');
+  const code = language.toLowerCase();
+  if (code === 'zh') {
+    return subtags.some(subtag => TRADITIONAL_CHINESE_REGIONS.has(subtag.toUpperCase())) ? 'Hant' : 'Hans';
+  }
+  return LANGUAGE_SCRIPTS[code] ?? null;
+}
+
+/**
+ * Pick the run language matching the script of its text
+ * @param script - Script of the text (see detectTextScript)
+ * @param languages - The run's lang then altLang
+ * @returns The first language written in that script, else the first language given
+ */
+export function selectLanguageForScript(script: TextScript, languages: Array<string | null | undefined>): string | null {
+  const candidates = languages.filter((lang): lang is string => !!lang);
+  const match = candidates.find(lang => {
+    const languageScript = getLanguageScript(lang);
+    if (script === 'latin') return languageScript === null || languageScript === 'Viet';
+    if (!languageScript) return false;
+    return EAST_ASIAN_SCRIPTS.has(languageScript) === (script === 'eastAsian');
+  });
+  return match ?? candidates[0] ?? null;
+}
@@ -0,0 +1,171 @@
+/**
+ * DrawingML Text Style Cascade
+ *
+ * Paragraph and run properties are inherited through a chain of list styles:
+ * the shape's own lstStyle, the matching layout placeholder, the matching
+ * master placeholder, the master's txStyles (titleStyle / bodyStyle /
+ * otherStyle), the shape style's fontRef and finally the presentation's
+ * defaultTextStyle. Each list style
+ * holds defPPr and lvl1pPr..lvl9pPr; a level's defRPr carries the run defaults.
+ */
+
+import type { XMLNode } from '../types/index.js';
+import type { NormalizedPlaceholder } from '../types/normalized.js';
+
+export interface TextStyleCascade {
+  /** List styles in priority order, highest first */
+  listStyles: XMLNode[];
+  /** Presentation defaults, applied below every list style */
+  defaultTextStyle: XMLNode | null;
+}
+
+// Child elements that replace each other rather than merging (a choice in the schema)
+const EXCLUSIVE_GROUPS = [
+  ['noFill', 'solidFill', 'gradFill', 'blipFill', 'pattFill', 'grpFill'],
+  ['buNone', 'buAutoNum', 'buChar', 'buBlip'],
+  ['buClrTx', 'buClr'],
+  ['buSzTx', 'buSzPct', 'buSzPts'],
+  ['buFontTx', 'buFont'],
+];
+
+// Child elements whose own attributes and children are merged level by level
+const MERGED_CHILDREN = new Set(['defRPr']);
+
+const MAX_LEVEL = 8;
+
+/**
+ * Build the style cascade for a text body
+ * @param lstStyle - The shape's own txBody lstStyle
+ * @param placeholder - Placeholder inheritance info, when the shape is a placeholder
+ * @param defaultTextStyle - Presentation defaultTextStyle
+ * @param fontRef - The shape style's fontRef (p:style), giving styled shapes their text font and color
+ * @returns Cascade for paragraph and run resolution
+ */
+export function buildTextStyleCascade(
+  lstStyle: XMLNode | null | undefined,
+  placeholder: NormalizedPlaceholder | null | undefined,
+  defaultTextStyle: XMLNode | null | undefined,
+  fontRef?: XMLNode | null,
+): TextStyleCascade {
+  const candidates = [
+    lstStyle,
+    placeholder?.layoutShape?.txBody?.lstStyle,
+    placeholder?.masterShape?.txBody?.lstStyle,
+    placeholder?.masterTextStyle,
+    fontRefListStyle(fontRef),
+  ];
+
+  return {
+    listStyles: candidates.filter(isNode),
+    defaultTextStyle: isNode(defaultTextStyle) ? defaultTextStyle : null,
+  };
+}
+
+/**
+ * Paragraph indent level (0-8) from its pPr
+ */
+export function getParagraphLevel(pPr: XMLNode | null | undefined): number {
+  const level = Number(pPr?.$lvl ?? 0);
+  return Number.isInteger(level) ? Math.min(MAX_LEVEL, Math.max(0, level)) : 0;
+}
+
+/**
+ * Merge the list styles of a cascade into one list style (without the presentation defaults)
+ * @param cascade - Text style cascade
+ * @returns Merged list style, or null when the cascade has no list styles
+ */
+export function mergeListStyles(cascade: TextStyleCascade): XMLNode | null {
+  if (cascade.listStyles.length === 0) return null;
+
+  const merged: XMLNode = {};
+  for (const key of ['defPPr', ...Array.from({ length: MAX_LEVEL + 1 }, (_, i) => `lvl${i + 1}pPr`)]) {
+    let levelProps: XMLNode | null = null;
+    for (const listStyle of [...cascade.listStyles].reverse()) {
+      if (isNode(listStyle[key])) {
+        levelProps = mergeTextProperties(levelProps, listStyle[key]);
+      }
+    }
+    if (levelProps) merged[key] = levelProps;
+  }
+  return merged;
+}
+
+/**
+ * Resolve the effective paragraph properties of a paragraph
+ * @param pPr - The paragraph's own pPr
+ * @param cascade - Text style cascade
+ * @returns Merged pPr (including the inherited defRPr), or null when nothing applies
+ */
+export function resolveParagraphProperties(pPr: XMLNode | null | undefined, cascade: TextStyleCascade): XMLNode | null {
+  const levelKey = `lvl${getParagraphLevel(pPr) + 1}pPr`;
+  const sources = [cascade.defaultTextStyle, ...[...cascade.listStyles].reverse()].filter(isNode);
+
+  let resolved: XMLNode | null = null;
+  for (const listStyle of sources) {
+    for (const key of ['defPPr', levelKey]) {
+      if (isNode(listStyle[key])) {
+        resolved = mergeTextProperties(resolved, listStyle[key]);
+      }
+    }
+  }
+
+  return isNode(pPr) ? mergeTextProperties(resolved, pPr) : resolved;
+}
+
+/**
+ * Resolve the effective run properties of a run
+ * @param rPr - The run's own rPr
+ * @param paragraphProperties - Resolved paragraph properties (see resolveParagraphProperties)
+ * @returns Merged rPr, or null when nothing applies
+ */
+export function resolveRunProperties(rPr: XMLNode | null | undefined, paragraphProperties: XMLNode | null): XMLNode | null {
+  const inherited = isNode(paragraphProperties?.defRPr) ? paragraphProperties!.defRPr : null;
+  return isNode(rPr) ? mergeTextProperties(inherited, rPr) : inherited;
+}
+
+/**
+ * Merge text properties (pPr / rPr style nodes), the override winning
+ * @param base - Inherited properties
+ * @param override - Properties set at a more specific level
+ * @returns New merged node
+ */
+export function mergeTextProperties(base: XMLNode | null, override: XMLNode): XMLNode {
+  const merged: XMLNode = { ...(base ?? {}) };
+
+  for (const [key, value] of Object.entries(override)) {
+    const group = EXCLUSIVE_GROUPS.find(members => members.includes(key));
+    if (group) {
+      for (const member of group) delete merged[member];
+    }
+
+    merged[key] = MERGED_CHILDREN.has(key) && isNode(merged[key]) && isNode(value)
+      ? mergeTextProperties(merged[key], value)
+      : value;
+  }
+
+  return merged;
+}
+
+/**
+ * A list style carrying a fontRef's theme font (major/minor) and color as run defaults
+ */
+function fontRefListStyle(fontRef: XMLNode | null | undefined): XMLNode | null {
+  if (!isNode(fontRef)) return null;
+
+  const { $idx, ...color } = fontRef;
+  const defRPr: XMLNode = {};
+  if ($idx === 'major' || $idx === 'minor') {
+    const fonts = $idx === 'major' ? 'mj' : 'mn';
+    defRPr.latin = { $typeface: `+${fonts}-lt` };
+    defRPr.ea = { $typeface: `+${fonts}-ea` };
+    defRPr.cs = { $typeface: `+${fonts}-cs` };
+  }
+  if (Object.keys(color).length > 0) {
+    defRPr.solidFill = color;
+  }
+  return Object.keys(defRPr).length > 0 ? { defPPr: { defRPr } } : null;
+}
+
+function isNode(value: unknown): value is XMLNode {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
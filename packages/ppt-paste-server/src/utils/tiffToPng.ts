@@ -0,0 +1,309 @@
+/**
+ * TIFF to PNG
+ *
+ * Browsers don't display TIFF. The first image of the file is decoded from
+ * its strips - uncompressed, PackBits, LZW or Deflate, with the horizontal
+ * predictor - and re-encoded as an RGBA PNG. Bilevel, grayscale, palette,
+ * RGB(A) and CMYK images at 1-8 bits per sample (and 16-bit RGB/gray) are
+ * supported; tiled, JPEG and CCITT-compressed files are left as they are.
+ */
+
+import { encodePng, inflate, MAX_DECODED_PIXELS, type RgbaImage } from './png.js';
+
+const TAG = {
+  imageWidth: 256,
+  imageLength: 257,
+  bitsPerSample: 258,
+  compression: 259,
+  photometric: 262,
+  stripOffsets: 273,
+  samplesPerPixel: 277,
+  rowsPerStrip: 278,
+  stripByteCounts: 279,
+  planarConfiguration: 284,
+  predictor: 317,
+  colorMap: 320,
+  tileWidth: 322,
+  extraSamples: 338,
+};
+
+const COMPRESSION_NONE = 1;
+const COMPRESSION_LZW = 5;
+const COMPRESSION_DEFLATE = 8;
+const COMPRESSION_ADOBE_DEFLATE = 32946;
+const COMPRESSION_PACKBITS = 32773;
+
+// Bytes per value of each TIFF field type
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8 };
+
+type TiffTags = Map<number, number[]>;
+
+/**
+ * Whether the bytes are a (classic, not Big) TIFF file
+ */
+export function isTiff(bytes: Uint8Array): boolean {
+  if (bytes.length < 8) return false;
+  return (
+    (bytes[0] === 0x49 && bytes[1] === 0x49 && bytes[2] === 0x2a && bytes[3] === 0x00) ||
+    (bytes[0] === 0x4d && bytes[1] === 0x4d && bytes[2] === 0x00 && bytes[3] === 0x2a)
+  );
+}
+
+/**
+ * Decode the first image of a TIFF file and encode it as PNG
+ * @param bytes - TIFF file contents
+ * @returns PNG file contents, or null for unsupported or unreadable files
+ */
+export async function tiffToPng(bytes: Uint8Array): Promise<Uint8Array | null> {
+  const image = await decodeTiff(bytes);
+  return image ? encodePng(image) : null;
+}
+
+/**
+ * Decode the first image of a TIFF file to RGBA pixels
+ * @param bytes - TIFF file contents
+ * @returns decoded image, or null for unsupported, unreadable or oversized files
+ */
+export async function decodeTiff(bytes: Uint8Array): Promise<RgbaImage | null> {
+  if (!isTiff(bytes)) return null;
+
+  try {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const littleEndian = bytes[0] === 0x49;
+    const tags = readIfd(view, view.getUint32(4, littleEndian), littleEndian);
+
+    const tag = (id: number, fallback: number) => tags.get(id)?.[0] ?? fallback;
+    const width = tag(TAG.imageWidth, 0);
+    const height = tag(TAG.imageLength, 0);
+    const samplesPerPixel = tag(TAG.samplesPerPixel, 1);
+    const bitsPerSample = tag(TAG.bitsPerSample, 1);
+    const compression = tag(TAG.compression, COMPRESSION_NONE);
+    if (!width || !height || tags.has(TAG.tileWidth) || tag(TAG.planarConfiguration, 1) !== 1) return null;
+    if (width * height > MAX_DECODED_PIXELS) return null;
+    if (![1, 2, 4, 8, 16].includes(bitsPerSample) || (bitsPerSample === 16 && samplesPerPixel === 1 && tag(TAG.photometric, 1) === 3)) {
+      return null;
+    }
+
+    const rowBytes = Math.ceil((width * samplesPerPixel * bitsPerSample) / 8);
+    const rowsPerStrip = Math.min(tag(TAG.rowsPerStrip, height), height);
+    const offsets = tags.get(TAG.stripOffsets) ?? [];
+    const counts = tags.get(TAG.stripByteCounts) ?? [];
+
+    // Decode each strip into its rows of the image
+    const pixels = new Uint8Array(rowBytes * height);
+    for (let strip = 0; strip < offsets.length; strip++) {
+      const rowStart = strip * rowsPerStrip;
+      if (rowStart >= height) break;
+      const expected = rowBytes * Math.min(rowsPerStrip, height - rowStart);
+      const source = bytes.subarray(offsets[strip], offsets[strip] + (counts[strip] ?? expected));
+      const data = await decompress(source, compression, expected);
+      if (!data) return null;
+      pixels.set(data.subarray(0, Math.min(expected, data.length)), rowStart * rowBytes);
+    }
+
+    if (tag(TAG.predictor, 1) === 2) undoHorizontalPredictor(pixels, width, height, samplesPerPixel, bitsPerSample, rowBytes);
+
+    const rgba = toRgba(pixels, tags, { width, height, samplesPerPixel, bitsPerSample, rowBytes, littleEndian });
+    return rgba ? { width, height, data: rgba } : null;
+  } catch {
+    return null;
+  }
+}
+
+function readIfd(view: DataView, offset: number, littleEndian: boolean): TiffTags {
+  const tags: TiffTags = new Map();
+  const count = view.getUint16(offset, littleEndian);
+
+  for (let i = 0; i < count; i++) {
+    const entry = offset + 2 + i * 12;
+    const id = view.getUint16(entry, littleEndian);
+    const type = view.getUint16(entry + 2, littleEndian);
+    const valueCount = view.getUint32(entry + 4, littleEndian);
+    const size = TYPE_SIZES[type];
+    if (!size) continue;
+
+    // Values that fit in four bytes are stored in the entry itself
+    const valueOffset = size * valueCount <= 4 ? entry + 8 : view.getUint32(entry + 8, littleEndian);
+    const values: number[] = [];
+    for (let v = 0; v < valueCount; v++) {
+      const at = valueOffset + v * size;
+      if (type === 3) values.push(view.getUint16(at, littleEndian));
+      else if (type === 4) values.push(view.getUint32(at, littleEndian));
+      else if (type === 1 || type === 7) values.push(view.getUint8(at));
+      else if (type === 5) values.push(view.getUint32(at, littleEndian) / (view.getUint32(at + 4, littleEndian) || 1));
+    }
+    tags.set(id, values);
+  }
+  return tags;
+}
+
+async function decompress(data: Uint8Array, compression: number, expected: number): Promise<Uint8Array | null> {
+  switch (compression) {
+    case COMPRESSION_NONE:
+      return data;
+    case COMPRESSION_PACKBITS:
+      return unpackBits(data, expected);
+    case COMPRESSION_LZW:
+      return decodeLzw(data, expected);
+    case COMPRESSION_DEFLATE:
+    case COMPRESSION_ADOBE_DEFLATE:
+      return inflate(data);
+    default:
+      return null;
+  }
+}
+
+function unpackBits(data: Uint8Array, expected: number): Uint8Array {
+  const output = new Uint8Array(expected);
+  let read = 0;
+  let written = 0;
+  while (read < data.length && written < expected) {
+    const header = (data[read++] << 24) >> 24;
+    if (header >= 0) {
+      // Literal run of header + 1 bytes
+      const run = data.subarray(read, read + header + 1);
+      output.set(run.subarray(0, expected - written), written);
+      written += run.length;
+      read += header + 1;
+    } else if (header !== -128) {
+      // The next byte repeated 1 - header times
+      output.fill(data[read++], written, Math.min(expected, written + 1 - header));
+      written += 1 - header;
+    }
+  }
+  return output;
+}
+
+function decodeLzw(data: Uint8Array, expected: number): Uint8Array {
+  const CLEAR = 256;
+  const END = 257;
+  const output = new Uint8Array(expected);
+  let written = 0;
+  let table: Uint8Array[] = [];
+  const resetTable = () => {
+    table = Array.from({ length: 258 }, (_, i) => new Uint8Array([i]));
+  };
+  resetTable();
+
+  let codeLength = 9;
+  let bitPosition = 0;
+  let previous: Uint8Array | null = null;
+
+  while (bitPosition + codeLength <= data.length * 8 && written < expected) {
+    // Codes are packed most significant bit first
+    let code = 0;
+    for (let bit = 0; bit < codeLength; bit++, bitPosition++) {
+      code = (code << 1) | ((data[bitPosition >> 3] >> (7 - (bitPosition & 7))) & 1);
+    }
+
+    if (code === END) break;
+    if (code === CLEAR) {
+      resetTable();
+      codeLength = 9;
+      previous = null;
+      continue;
+    }
+
+    let entry: Uint8Array;
+    if (code < table.length) {
+      entry = table[code];
+      if (previous) table.push(concat(previous, entry[0]));
+    } else if (previous) {
+      entry = concat(previous, previous[0]);
+      table.push(entry);
+    } else {
+      break;
+    }
+
+    output.set(entry.subarray(0, expected - written), written);
+    written += entry.length;
+    previous = entry;
+    // TIFF LZW widens codes one entry early
+    if (table.length + 1 >= 1 << codeLength && codeLength < 12) codeLength++;
+  }
+  return output;
+}
+
+function concat(prefix: Uint8Array, byte: number): Uint8Array {
+  const entry = new Uint8Array(prefix.length + 1);
+  entry.set(prefix);
+  entry[prefix.length] = byte;
+  return entry;
+}
+
+function undoHorizontalPredictor(
+  pixels: Uint8Array,
+  width: number,
+  height: number,
+  samplesPerPixel: number,
+  bitsPerSample: number,
+  rowBytes: number,
+): void {
+  // Only byte-sized samples are predicted in practice
+  if (bitsPerSample !== 8) return;
+  for (let row = 0; row < height; row++) {
+    const start = row * rowBytes;
+    for (let i = samplesPerPixel; i < width * samplesPerPixel; i++) {
+      pixels[start + i] = (pixels[start + i] + pixels[start + i - samplesPerPixel]) & 0xff;
+    }
+  }
+}
+
+function toRgba(
+  pixels: Uint8Array,
+  tags: TiffTags,
+  layout: { width: number; height: number; samplesPerPixel: number; bitsPerSample: number; rowBytes: number; littleEndian: boolean },
+): Uint8Array | null {
+  const { width, height, samplesPerPixel, bitsPerSample, rowBytes, littleEndian } = layout;
+  const photometric = tags.get(TAG.photometric)?.[0] ?? 1;
+  const colorMap = tags.get(TAG.colorMap);
+  // Associated (premultiplied) alpha is 1, unassociated 2
+  const associatedAlpha = tags.get(TAG.extraSamples)?.[0] === 1;
+  const maxValue = (1 << Math.min(bitsPerSample, 8)) - 1;
+  const rgba = new Uint8Array(width * height * 4);
+
+  // Sample n of pixel x in a row, scaled to 0-255 (palette indexes are left unscaled)
+  const sample = (rowStart: number, x: number, n: number, scale = true) => {
+    const index = x * samplesPerPixel + n;
+    if (bitsPerSample === 16) {
+      const at = rowStart + index * 2;
+      return littleEndian ? pixels[at + 1] : pixels[at];
+    }
+    if (bitsPerSample === 8) return pixels[rowStart + index];
+    const bit = index * bitsPerSample;
+    const value = (pixels[rowStart + (bit >> 3)] >> (8 - bitsPerSample - (bit & 7))) & maxValue;
+    return scale ? Math.round((value * 255) / maxValue) : value;
+  };
+
+  for (let y = 0; y < height; y++) {
+    const rowStart = y * rowBytes;
+    for (let x = 0; x < width; x++) {
+      const out = (y * width + x) * 4;
+      let [r, g, b, a] = [0, 0, 0, 255];
+
+      if (photometric === 0 || photometric === 1) {
+        const gray = sample(rowStart, x, 0);
+        r = g = b = photometric === 0 ? 255 - gray : gray;
+        if (samplesPerPixel > 1) a = sample(rowStart, x, 1);
+      } else if (photometric === 2 && samplesPerPixel >= 3) {
+        [r, g, b] = [sample(rowStart, x, 0), sample(rowStart, x, 1), sample(rowStart, x, 2)];
+        if (samplesPerPixel > 3) a = sample(rowStart, x, 3);
+      } else if (photometric === 3 && colorMap) {
+        const index = sample(rowStart, x, 0, false);
+        const entries = 1 << bitsPerSample;
+        [r, g, b] = [colorMap[index] >> 8, colorMap[entries + index] >> 8, colorMap[2 * entries + index] >> 8];
+      } else if (photometric === 5 && samplesPerPixel >= 4) {
+        const [c, m, yellow, k] = [0, 1, 2, 3].map((n) => sample(rowStart, x, n) / 255);
+        [r, g, b] = [c, m, yellow].map((ink) => Math.round(255 * (1 - ink) * (1 - k)));
+      } else {
+        return null;
+      }
+
+      if (associatedAlpha && a > 0 && a < 255) {
+        [r, g, b] = [r, g, b].map((channel) => Math.min(255, Math.round((channel * 255) / a)));
+      }
+      rgba.set([r, g, b, a], out);
+    }
+  }
+  return rgba;
+}
@@ -0,0 +1,262 @@
+/**
+ * WMF to SVG
+ *
+ * Windows Metafiles turn up in older clipboard payloads and OLE previews.
+ * The records are replayed onto a GdiCanvas laid out in window units: the
+ * mapping and device-context records, pens, brushes and fonts, lines,
+ * polygons, rectangles, ellipses, arcs, text and DIB bitmaps. The placeable
+ * (Aldus) header, when present, gives the picture's bounds and physical size.
+ */
+
+import { GdiCanvas, colorRefToHex, dibToDataUrl, type GdiObject, type Point } from './metafileSvg.js';
+
+const PLACEABLE_KEY = 0x9ac6cdd7;
+
+/**
+ * Whether the bytes are a Windows Metafile (placeable or plain)
+ */
+export function isWmf(bytes: Uint8Array): boolean {
+  if (bytes.length < 18) return false;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (view.getUint32(0, true) === PLACEABLE_KEY) return true;
+  // META_HEADER: memory (1) or disk (2) metafile, 9-word header, version 1.0 or 3.0
+  const type = view.getUint16(0, true);
+  const version = view.getUint16(4, true);
+  return (type === 1 || type === 2) && view.getUint16(2, true) === 9 && (version === 0x0100 || version === 0x0300);
+}
+
+/**
+ * Convert a Windows Metafile to an SVG document
+ * @param bytes - WMF file contents
+ * @returns SVG markup, or null if the file can't be read or has no extent
+ */
+export function wmfToSvg(bytes: Uint8Array): string | null {
+  if (!isWmf(bytes)) return null;
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const canvas = new GdiCanvas({ windowAsViewport: true });
+
+  // Placeable header: bounds in logical units and how many of them make an inch
+  const placeable = view.getUint32(0, true) === PLACEABLE_KEY;
+  const bounds = placeable ? [0, 2, 4, 6].map((at) => view.getInt16(6 + at, true)) : null;
+  const unitsPerInch = placeable ? view.getUint16(14, true) : 0;
+  const headerOffset = placeable ? 22 : 0;
+
+  // Object table slots; each created object takes the lowest free index
+  const objects: Array<GdiObject | undefined> = new Array(view.getUint16(headerOffset + 10, true)).fill(undefined);
+  let windowExt: Point | null = null;
+
+  let offset = headerOffset + view.getUint16(headerOffset + 2, true) * 2;
+  while (offset + 6 <= view.byteLength) {
+    const size = view.getUint32(offset, true) * 2;
+    const func = view.getUint16(offset + 4, true);
+    if (func === 0 || size < 6 || offset + size > view.byteLength) break; // META_EOF
+
+    try {
+      playRecord(view, offset + 6, size - 6, func, canvas, objects);
+    } catch {
+      // A malformed record only loses its own drawing
+    }
+    if (func === 0x020c && !windowExt) windowExt = { ...canvas.dc.windowExt };
+    offset += size;
+  }
+
+  // Drawing is laid out from the window origin, so the picture spans the window extent
+  const width = windowExt ? Math.abs(windowExt.x) : bounds ? Math.abs(bounds[2] - bounds[0]) : 0;
+  const height = windowExt ? Math.abs(windowExt.y) : bounds ? Math.abs(bounds[3] - bounds[1]) : 0;
+  if (!width || !height) return null;
+
+  const viewBox = windowExt || !bounds
+    ? { x: 0, y: 0, width, height }
+    : { x: Math.min(bounds[0], bounds[2]), y: Math.min(bounds[1], bounds[3]), width, height };
+
+  // Physical size from the placeable header, otherwise one unit per pixel
+  const pixelsPerUnit = unitsPerInch && bounds ? 96 / unitsPerInch : 1;
+  const boundsWidth = bounds ? Math.abs(bounds[2] - bounds[0]) : width;
+  const boundsHeight = bounds ? Math.abs(bounds[3] - bounds[1]) : height;
+  return canvas.toSvg(viewBox, boundsWidth * pixelsPerUnit, boundsHeight * pixelsPerUnit);
+}
+
+function playRecord(
+  view: DataView,
+  offset: number,
+  length: number,
+  func: number,
+  canvas: GdiCanvas,
+  objects: Array<GdiObject | undefined>,
+): void {
+  // Parameters are 16-bit words, mostly in reverse order (y before x, bottom before top)
+  const i16 = (word: number) => view.getInt16(offset + word * 2, true);
+  const u16 = (word: number) => view.getUint16(offset + word * 2, true);
+  const u32 = (word: number) => view.getUint32(offset + word * 2, true);
+  const dc = canvas.dc;
+
+  switch (func) {
+    case 0x001e: // META_SAVEDC
+      canvas.save();
+      break;
+    case 0x0127: // META_RESTOREDC
+      canvas.restore(i16(0));
+      break;
+    case 0x0103: // META_SETMAPMODE
+      dc.mapMode = u16(0);
+      break;
+    case 0x0106: // META_SETPOLYFILLMODE
+      dc.polyFillMode = u16(0);
+      break;
+    case 0x012e: // META_SETTEXTALIGN
+      dc.textAlign = u16(0);
+      break;
+    case 0x0209: // META_SETTEXTCOLOR
+      dc.textColor = colorRefToHex(u32(0));
+      break;
+    case 0x020b: // META_SETWINDOWORG
+      dc.windowOrg = { x: i16(1), y: i16(0) };
+      break;
+    case 0x020c: // META_SETWINDOWEXT
+      dc.windowExt = { x: i16(1), y: i16(0) };
+      break;
+    case 0x0214: // META_MOVETO
+      canvas.moveTo(i16(1), i16(0));
+      break;
+    case 0x0213: // META_LINETO
+      canvas.lineTo(i16(1), i16(0));
+      break;
+    case 0x041b: // META_RECTANGLE
+      canvas.rectangle(i16(3), i16(2), i16(1), i16(0));
+      break;
+    case 0x0418: // META_ELLIPSE
+      canvas.ellipse(i16(3), i16(2), i16(1), i16(0));
+      break;
+    case 0x061c: // META_ROUNDRECT
+      canvas.roundRect(i16(5), i16(4), i16(3), i16(2), i16(1), i16(0));
+      break;
+    case 0x0817: // META_ARC
+    case 0x0830: // META_CHORD
+    case 0x081a: // META_PIE
+      canvas.arc(
+        func === 0x0817 ? 'arc' : func === 0x0830 ? 'chord' : 'pie',
+        [i16(7), i16(6), i16(5), i16(4)],
+        { x: i16(3), y: i16(2) },
+        { x: i16(1), y: i16(0) },
+      );
+      break;
+    case 0x0324: // META_POLYGON
+    case 0x0325: // META_POLYLINE
+      canvas.polyline(readPoints(view, offset + 2, u16(0)), func === 0x0324);
+      break;
+    case 0x0538: { // META_POLYPOLYGON
+      const polygonCount = u16(0);
+      let pointOffset = offset + 2 + polygonCount * 2;
+      const polygons = Array.from({ length: polygonCount }, (_, i) => {
+        const points = readPoints(view, pointOffset, u16(1 + i));
+        pointOffset += points.length * 4;
+        return points;
+      });
+      canvas.polyPolygon(polygons);
+      break;
+    }
+    case 0x061d: // META_PATBLT
+      canvas.fillRectangle(i16(5), i16(4), i16(5) + i16(3), i16(4) + i16(2));
+      break;
+    case 0x02fa: // META_CREATEPENINDIRECT
+      addObject(objects, { kind: 'pen', style: u16(0), width: i16(1), color: colorRefToHex(u32(3)) });
+      break;
+    case 0x02fc: // META_CREATEBRUSHINDIRECT
+      addObject(objects, { kind: 'brush', style: u16(0), color: colorRefToHex(u32(1)) });
+      break;
+    case 0x02fb: // META_CREATEFONTINDIRECT
+      addObject(objects, readLogFont(view, offset, length));
+      break;
+    case 0x00f7: // META_CREATEPALETTE
+    case 0x01f9: // META_CREATEPATTERNBRUSH
+    case 0x0142: // META_DIBCREATEPATTERNBRUSH
+    case 0x06ff: // META_CREATEREGION
+      addObject(objects, { kind: 'other' });
+      break;
+    case 0x012d: // META_SELECTOBJECT
+      canvas.select(objects[u16(0)]);
+      break;
+    case 0x01f0: // META_DELETEOBJECT
+      objects[u16(0)] = undefined;
+      break;
+    case 0x0521: { // META_TEXTOUT
+      const textLength = u16(0);
+      const coordinateWord = 1 + Math.ceil(textLength / 2);
+      canvas.text(i16(coordinateWord + 1), i16(coordinateWord), readAnsi(view, offset + 2, textLength));
+      break;
+    }
+    case 0x0a32: { // META_EXTTEXTOUT
+      const options = u16(3);
+      // ETO_OPAQUE / ETO_CLIPPED add a clipping rectangle before the string
+      const stringOffset = offset + 8 + (options & 0x0006 ? 8 : 0);
+      canvas.text(i16(1), i16(0), readAnsi(view, stringOffset, u16(2)));
+      break;
+    }
+    case 0x0f43: // META_STRETCHDIB
+      drawDib(view, offset + 22, offset + length, canvas, [i16(10), i16(9), i16(8), i16(7)]);
+      break;
+    case 0x0b41: // META_DIBSTRETCHBLT
+      drawDib(view, offset + 20, offset + length, canvas, [i16(9), i16(8), i16(7), i16(6)]);
+      break;
+    case 0x0940: // META_DIBBITBLT
+      drawDib(view, offset + 16, offset + length, canvas, [i16(7), i16(6), i16(5), i16(4)]);
+      break;
+    default:
+      // Clipping, palettes, raster ops and other state that doesn't change the drawing
+      break;
+  }
+}
+
+/**
+ * Draw a DIB (BITMAPINFO followed by the bits) into a destination rectangle
+ * @param destination - x, y, width, height in logical units
+ */
+function drawDib(view: DataView, start: number, end: number, canvas: GdiCanvas, destination: number[]): void {
+  // Records without a bitmap are pattern blits, laid out differently and not drawn
+  if (end - start < 40) return;
+
+  const headerSize = view.getUint32(start, true);
+  const bitCount = headerSize === 12 ? view.getUint16(start + 10, true) : view.getUint16(start + 14, true);
+  const compression = headerSize >= 40 ? view.getUint32(start + 16, true) : 0;
+  const usedColors = headerSize >= 40 ? view.getUint32(start + 32, true) : 0;
+  const paletteEntries = bitCount <= 8 ? usedColors || 1 << bitCount : usedColors;
+  const masks = compression === 3 && headerSize === 40 ? 12 : 0; // BI_BITFIELDS masks follow a plain header
+  const infoSize = headerSize + masks + paletteEntries * (headerSize === 12 ? 3 : 4);
+
+  const bytes = new Uint8Array(view.buffer, view.byteOffset, view.byteLength);
+  const href = dibToDataUrl(bytes.subarray(start, start + infoSize), bytes.subarray(start + infoSize, end));
+  if (href) canvas.image(destination[0], destination[1], destination[2], destination[3], href);
+}
+
+function addObject(objects: Array<GdiObject | undefined>, object: GdiObject): void {
+  const index = objects.indexOf(undefined);
+  if (index >= 0) objects[index] = object;
+  else objects.push(object);
+}
+
+function readLogFont(view: DataView, offset: number, length: number): GdiObject {
+  return {
+    kind: 'font',
+    height: view.getInt16(offset, true),
+    escapement: view.getInt16(offset + 4, true),
+    weight: view.getInt16(offset + 8, true),
+    italic: view.getUint8(offset + 10) !== 0,
+    underline: view.getUint8(offset + 11) !== 0,
+    strikeout: view.getUint8(offset + 12) !== 0,
+    faceName: readAnsi(view, offset + 18, Math.min(32, length - 18)).split('\0')[0],
+  };
+}
+
+function readPoints(view: DataView, offset: number, count: number): Point[] {
+  return Array.from({ length: count }, (_, i) => ({
+    x: view.getInt16(offset + i * 4, true),
+    y: view.getInt16(offset + i * 4 + 2, true),
+  }));
+}
+
+function readAnsi(view: DataView, offset: number, length: number): string {
+  let text = '';
+  for (let i = 0; i < length; i++) text += String.fromCharCode(view.getUint8(offset + i));
+  return text;
+}
@@ -0,0 +1,103 @@
+/**
+ * Builders for the small PPTX packages the parser tests run through the
+ * real pipeline: zip parts, jszip2json, then normalize or parse.
+ */
+
+import JSZip from 'jszip'
+import { PPTXParser } from '../../src/processors/PPTXParser.ts'
+import { PowerPointParser } from '../../src/parsers/PowerPointParser.ts'
+import { PowerPointNormalizer } from '../../src/parsers/PowerPointNormalizer.ts'
+import { ShapeParser } from '../../src/parsers/ShapeParser.ts'
+import { createParseContext } from '../../src/parsers/ParseContext.ts'
+
+export const XML = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+
+// DrawingML, PresentationML, relationships and Office 2010 drawing prefixes
+export const NS = [
+  'xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main"',
+  'xmlns:p="http://schemas.openxmlformats.org/presentationml/2006/main"',
+  'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"',
+  'xmlns:a14="http://schemas.microsoft.com/office/drawing/2010/main"',
+].join(' ')
+
+export type PackageParts = Record<string, string | Uint8Array>
+
+/**
+ * Slide part holding the given shape tree content
+ */
+export const slideXml = (spTree: string) => `${XML}
+<p:sld ${NS}><p:cSld><p:spTree>${spTree}</p:spTree></p:cSld></p:sld>`
+
+/**
+ * Relationships part; hyperlink targets are external
+ * @param relationships - Id, type (e.g. "image") and target of each relationship
+ */
+export const relsXml = (...relationships: Array<[id: string, type: string, target: string]>) => `${XML}
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+${relationships
+  .map(([id, type, target]) =>
+    `  <Relationship Id="${id}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/${type}" ` +
+    `Target="${target}"${type === 'hyperlink' ? ' TargetMode="External"' : ''}/>`)
+  .join('\n')}
+</Relationships>`
+
+/**
+ * Zip parts into a package and read it the way uploads are read
+ */
+export async function readPackage(parts: PackageParts) {
+  const zip = new JSZip()
+  for (const [path, content] of Object.entries(parts)) zip.file(path, content)
+  return new PPTXParser().jszip2json(zip)
+}
+
+/**
+ * Read and parse a package
+ */
+export async function parsePackage(parts: PackageParts) {
+  return new PowerPointParser().parseJson(await readPackage(parts))
+}
+
+/**
+ * Parse a one-slide package
+ * @param spTree - Shape tree content of ppt/slides/slide1.xml
+ * @param parts - Other parts: relationships, media, theme, layouts
+ * @returns the slide's components
+ */
+export async function parseSlide(spTree: string, parts: PackageParts = {}) {
+  const result = await parsePackage({ ...parts, 'ppt/slides/slide1.xml': slideXml(spTree) })
+  return result.slides[0].components as any[]
+}
+
+/**
+ * Normalize a one-slide package without parsing it
+ * @param spTree - Shape tree content of ppt/slides/slide1.xml
+ * @returns the slide's ordered normalized elements
+ */
+export async function normalizeSlide(spTree: string) {
+  const json = await readPackage({ 'ppt/slides/slide1.xml': slideXml(spTree) })
+  const normalizer = new PowerPointNormalizer()
+  const stripped = normalizer.stripNamespaces(json)
+  return normalizer.extractOrderedElements(stripped['ppt/slides/slide1.xml'].sld.cSld.spTree) as any[]
+}
+
+/**
+ * Normalize a one-shape slide and parse the shape on its own
+ * @param spXml - The p:sp element
+ * @param context - Parse context fields, e.g. relationships and media for picture fills
+ */
+export async function parseShape(spXml: string, context: Parameters<typeof createParseContext>[0] = {}) {
+  const [element] = await normalizeSlide(spXml)
+  return ShapeParser.parseFromNormalized(element, 0, 0, element.zIndex, createParseContext(context))
+}
+
+/**
+ * 100 x 50 px rectangle with the given fill
+ * @param fill - Fill element of its spPr, e.g. a:solidFill
+ */
+export const shapeWithFill = (fill: string) => `
+  <p:sp><p:nvSpPr><p:cNvPr id="2" name="Rectangle 1"/><p:cNvSpPr/><p:nvPr/></p:nvSpPr>
+    <p:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="952500" cy="476250"/></a:xfrm>
+      <a:prstGeom prst="rect"><a:avLst/></a:prstGeom>
+      ${fill}
+    </p:spPr>
+  </p:sp>`
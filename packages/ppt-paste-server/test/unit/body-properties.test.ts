@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest'
+import { parseSlide } from '../helpers/pptx.ts'
+
+async function parseTextBox(bodyPr: string) {
+  const [text] = await parseSlide(`
+  <p:sp><p:nvSpPr><p:cNvPr id="2" name="TextBox 1"/><p:cNvSpPr txBox="1"/><p:nvPr/></p:nvSpPr>
+    <p:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="1905000" cy="952500"/></a:xfrm></p:spPr>
+    <p:txBody>${bodyPr}<a:p><a:r><a:rPr lang="en-US"/><a:t>Hello</a:t></a:r></a:p></p:txBody>
+  </p:sp>`)
+  return text.bodyProperties
+}
+
+describe('Text body properties', () => {
+  it('applies the bodyPr defaults when nothing is set', async () => {
+    expect(await parseTextBox('<a:bodyPr/>')).toEqual({
+      verticalAnchor: 'top',
+      anchorCenter: false,
+      insets: { left: 10, top: 5, right: 10, bottom: 5 },
+      wrap: true,
+      columns: 1,
+      columnSpacing: 0,
+      vertical: 'horz',
+      autofit: { type: 'none' },
+    })
+  })
+
+  it('parses anchoring, insets, wrap, columns, vertical text and autofit', async () => {
+    const body = await parseTextBox(`
+      <a:bodyPr anchor="ctr" anchorCtr="1" lIns="0" tIns="190500" rIns="95250" bIns="0" wrap="none" numCol="2" spcCol="190500" vert="vert270">
+        <a:normAutofit fontScale="62500" lnSpcReduction="20000"/>
+      </a:bodyPr>`)
+
+    expect(body).toEqual({
+      verticalAnchor: 'middle',
+      anchorCenter: true,
+      insets: { left: 0, top: 20, right: 10, bottom: 0 },
+      wrap: false,
+      columns: 2,
+      columnSpacing: 20,
+      vertical: 'vert270',
+      autofit: { type: 'normal', fontScale: 0.625, lineSpacingReduction: 0.2 },
+    })
+    expect((await parseTextBox('<a:bodyPr anchor="b"><a:spAutoFit/></a:bodyPr>')).autofit).toEqual({ type: 'shape' })
+  })
+})
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest'
+import { parseShape, shapeWithFill } from '../helpers/pptx.ts'
+import { BaseParser } from '../../src/parsers/BaseParser.ts'
+import { applyColorTransforms, parseHexColor, rgbaToCss, rgbaToHex } from '../../src/utils/colorTransforms.ts'
+
+const accent1 = parseHexColor('4472C4')!
+
+describe('Color transforms', () => {
+  it('matches the theme tints and shades PowerPoint offers', () => {
+    // "Lighter 40%" and "Darker 25%"
+    expect(rgbaToHex(applyColorTransforms(accent1, [{ name: 'lumMod', value: 60000 }, { name: 'lumOff', value: 40000 }]))).toBe('#8FAADC')
+    expect(rgbaToHex(applyColorTransforms(accent1, [{ name: 'lumMod', value: 75000 }]))).toBe('#2F5597')
+  })
+
+  it('applies alpha transforms', () => {
+    const color = applyColorTransforms(accent1, [{ name: 'alpha', value: 40000 }, { name: 'alphaMod', value: 50000 }])
+    expect(color.a).toBeCloseTo(0.2)
+    expect(rgbaToCss(color)).toBe('rgba(68, 114, 196, 0.2)')
+  })
+
+  it('applies comp, inv and gray', () => {
+    expect(rgbaToHex(applyColorTransforms(parseHexColor('FF0000')!, [{ name: 'comp', value: 0 }]))).toBe('#00FFFF')
+    expect(rgbaToHex(applyColorTransforms(parseHexColor('FF0000')!, [{ name: 'inv', value: 0 }]))).toBe('#00FFFF')
+    expect(rgbaToHex(applyColorTransforms(parseHexColor('FFFFFF')!, [{ name: 'gray', value: 0 }]))).toBe('#FFFFFF')
+  })
+
+  it('reads all-digit srgbClr values parsed as numbers', () => {
+    expect(BaseParser.parseColor({ srgbClr: { $val: 0 } })).toBe('#000000')
+    expect(BaseParser.parseColor({ srgbClr: { $val: 123456 } })).toBe('#123456')
+  })
+
+  it('converts hslClr hue, saturation and luminance before applying child transforms', () => {
+    const hsl = (hue: number, transforms = {}) => ({ hslClr: { $hue: hue * 60000, $sat: 100000, $lum: 50000, ...transforms } })
+
+    expect(BaseParser.parseColor(hsl(0))).toBe('#FF0000')
+    expect(BaseParser.parseColor(hsl(120))).toBe('#00FF00')
+    expect(BaseParser.parseColor(hsl(240))).toBe('#0000FF')
+    expect(BaseParser.parseColor(hsl(240, { lumMod: { $val: 50000 } }))).toBe('#000080')
+  })
+
+  it('keeps srgbClr values that look like numbers as hex colors', async () => {
+    for (const val of ['7E0000', '001122', '000000', '123456']) {
+      const shape = await parseShape(shapeWithFill(`<a:solidFill><a:srgbClr val="${val}"/></a:solidFill>`))
+      expect(shape!.style!.fillColor).toBe(`#${val}`)
+    }
+  })
+
+  it('applies transforms to shape fills and surfaces alpha as fill opacity', async () => {
+    const shape = await parseShape(shapeWithFill(
+      '<a:solidFill><a:schemeClr val="accent1"><a:lumMod val="60000"/><a:lumOff val="40000"/><a:alpha val="50000"/></a:schemeClr></a:solidFill>'
+    ))
+    expect(shape!.style!.fillColor).toBe('#8FAADC')
+    expect(shape!.style!.fillOpacity).toBe(0.5)
+  })
+
+  it('applies transforms in document order', async () => {
+    // lumOff then lumMod differs from lumMod then lumOff
+    const shape = await parseShape(shapeWithFill(
+      '<a:solidFill><a:srgbClr val="4472C4"><a:lumOff val="40000"/><a:lumMod val="60000"/></a:srgbClr></a:solidFill>'
+    ))
+    const expected = applyColorTransforms(accent1, [{ name: 'lumOff', value: 40000 }, { name: 'lumMod', value: 60000 }])
+    expect(shape!.style!.fillColor).toBe(rgbaToHex(expected))
+    expect(shape!.style!.fillColor).not.toBe('#8FAADC')
+  })
+
+  it('keeps document order around attribute-less transforms', async () => {
+    // Inverting after darkening differs from darkening after inverting
+    const shape = await parseShape(shapeWithFill(
+      '<a:solidFill><a:srgbClr val="4472C4"><a:lumMod val="50000"/><a:inv/><a:alpha val="50000"/></a:srgbClr></a:solidFill>'
+    ))
+    const expected = applyColorTransforms(accent1, [{ name: 'lumMod', value: 50000 }, { name: 'inv', value: 0 }])
+    const schemaOrder = applyColorTransforms(accent1, [{ name: 'inv', value: 0 }, { name: 'lumMod', value: 50000 }])
+    expect(rgbaToHex(expected)).not.toBe(rgbaToHex(schemaOrder))
+    expect(shape!.style!.fillColor).toBe(rgbaToHex(expected))
+    expect(shape!.style!.fillOpacity).toBe(0.5)
+  })
+})
@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest'
+import { PowerPointNormalizer } from '../../src/parsers/PowerPointNormalizer.ts'
+import { ConnectorParser } from '../../src/parsers/ConnectorParser.ts'
+import { ShapeParser } from '../../src/parsers/ShapeParser.ts'
+
+// 9525 EMU = 1px
+const px = (n: number) => n * 9525
+
+function rect(id: number, name: string, x: number, y: number) {
+  return {
+    nvSpPr: { cNvPr: { $id: id, $name: name }, cNvSpPr: {} },
+    spPr: {
+      xfrm: { off: { $x: px(x), $y: px(y) }, ext: { $cx: px(100), $cy: px(50) } },
+      prstGeom: { $prst: 'rect' }
+    }
+  }
+}
+
+describe('Connectors (cxnSp)', () => {
+  const normalizer = new PowerPointNormalizer()
+
+  const spTree = {
+    sp: [rect(2, 'Box A', 0, 0), rect(3, 'Box B', 200, 100)],
+    cxnSp: {
+      nvCxnSpPr: {
+        cNvPr: { $id: 4, $name: 'Elbow Connector 3' },
+        cNvCxnSpPr: { stCxn: { $id: 2, $idx: 3 }, endCxn: { $id: 3, $idx: 1 } }
+      },
+      spPr: {
+        xfrm: { $flipV: 1, off: { $x: px(100), $y: px(25) }, ext: { $cx: px(100), $cy: px(100) } },
+        prstGeom: { $prst: 'bentConnector3' },
+        ln: {
+          $w: 12700,
+          solidFill: { srgbClr: { $val: 'FF0000' } },
+          headEnd: { $type: 'oval' },
+          tailEnd: { $type: 'triangle', $w: 'lg', $len: 'sm' }
+        }
+      }
+    }
+  }
+
+  it('extracts cxnSp as a connector with resolved shape bindings', () => {
+    const elements = normalizer.resolveConnectorTargets(normalizer.extractOrderedElements(spTree)) as any[]
+    const connector = elements.find(el => el.type === 'connector')
+
+    expect(connector).toBeDefined()
+    expect(connector.startConnection).toEqual({ id: '2', siteIndex: 3 })
+    expect(connector.endConnection).toEqual({ id: '3', siteIndex: 1 })
+  })
+
+  it('parses endpoints, flips and arrowheads', async () => {
+    const elements = normalizer.resolveConnectorTargets(normalizer.extractOrderedElements(spTree)) as any[]
+    const connector = elements.find(el => el.type === 'connector')
+    const component = await ConnectorParser.parseFromNormalized(connector, 0, 0, connector.zIndex)
+
+    expect(component).not.toBeNull()
+    expect(component!.type).toBe('connector')
+    expect(component!.connectorType).toBe('bentConnector3')
+    // flipV: line runs from bottom-left to top-right of its box
+    expect(component!.start).toEqual({ x: 100, y: 125 })
+    expect(component!.end).toEqual({ x: 200, y: 25 })
+    expect(component!.startArrowhead).toEqual({ type: 'oval', width: 'med', length: 'med' })
+    expect(component!.endArrowhead).toEqual({ type: 'triangle', width: 'lg', length: 'sm' })
+    expect(component!.startConnection).toEqual({ drawingId: '2', siteIndex: 3 })
+    expect(component!.endConnection).toEqual({ drawingId: '3', siteIndex: 1 })
+    expect(component!.style?.borderColor).toBe('#FF0000')
+  })
+
+  it('binds to the connected element\'s id, not its name', async () => {
+    const sameNames = {
+      sp: [rect(2, 'Box', 0, 0), rect(3, 'Box', 200, 100)],
+      cxnSp: {
+        nvCxnSpPr: {
+          cNvPr: { $id: 4, $name: 'Straight Connector 3' },
+          cNvCxnSpPr: { stCxn: { $id: 3, $idx: 0 }, endCxn: { $id: 9, $idx: 0 } }
+        },
+        spPr: { xfrm: { off: { $x: 0, $y: 0 }, ext: { $cx: px(10), $cy: px(10) } }, prstGeom: { $prst: 'straightConnector1' } }
+      }
+    }
+
+    const elements = normalizer.resolveConnectorTargets(normalizer.extractOrderedElements(sameNames)) as any[]
+    const connector = elements.find(el => el.type === 'connector')
+    const component = await ConnectorParser.parseFromNormalized(connector, 0, 0, connector.zIndex)
+    const target = await ShapeParser.parseFromNormalized(elements.find(el => el.data.nvSpPr?.cNvPr.$id === 3), 1, 0, 1)
+
+    expect(component!.drawingId).toBe('4')
+    expect(component!.startConnection).toEqual({ drawingId: '3', siteIndex: 0 })
+    expect(target!.drawingId).toBe(component!.startConnection!.drawingId)
+    // No element with that id on the slide
+    expect(component!.endConnection).toBeNull()
+  })
+
+  it('treats line presets drawn as sp as unbound connectors', async () => {
+    const lineTree = {
+      sp: {
+        nvSpPr: { cNvPr: { $id: 5, $name: 'Line 1' }, cNvSpPr: {} },
+        spPr: {
+          xfrm: { $flipH: 1, off: { $x: 0, $y: 0 }, ext: { $cx: px(80), $cy: 0 } },
+          prstGeom: { $prst: 'line' }
+        }
+      }
+    }
+
+    const [line] = normalizer.resolveConnectorTargets(normalizer.extractOrderedElements(lineTree)) as any[]
+    expect(line.type).toBe('connector')
+
+    const component = await ConnectorParser.parseFromNormalized(line, 0, 0, line.zIndex)
+    expect(component!.start).toEqual({ x: 80, y: 0 })
+    expect(component!.end).toEqual({ x: 0, y: 0 })
+    expect(component!.startConnection).toBeNull()
+    expect(component!.endArrowhead.type).toBe('none')
+  })
+})
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest'
+import { parseShape } from '../helpers/pptx.ts'
+import { evaluateFormula, createGuideValues } from '../../src/utils/shapeGuides.ts'
+
+// 100px x 50px shape
+const XFRM = '<a:xfrm><a:off x="0" y="0"/><a:ext cx="952500" cy="476250"/></a:xfrm>'
+
+describe('Custom geometry (custGeom)', () => {
+  it('keeps path commands in document order and scales them to pixels', async () => {
+    const shape = await parseShape(`
+      <p:sp><p:nvSpPr><p:cNvPr id="2" name="Freeform 1"/><p:cNvSpPr/><p:nvPr/></p:nvSpPr>
+        <p:spPr>${XFRM}
+          <a:custGeom><a:avLst/><a:gdLst/><a:pathLst>
+            <a:path w="200" h="100">
+              <a:moveTo><a:pt x="0" y="100"/></a:moveTo>
+              <a:lnTo><a:pt x="100" y="0"/></a:lnTo>
+              <a:cubicBezTo><a:pt x="120" y="0"/><a:pt x="200" y="20"/><a:pt x="200" y="50"/></a:cubicBezTo>
+              <a:lnTo><a:pt x="200" y="100"/></a:lnTo>
+              <a:quadBezTo><a:pt x="100" y="80"/><a:pt x="0" y="100"/></a:quadBezTo>
+              <a:close/>
+            </a:path>
+          </a:pathLst></a:custGeom>
+        </p:spPr>
+      </p:sp>`)
+
+    expect(shape!.geometry!.isCustom).toBe(true)
+    const [path] = shape!.geometry!.paths!
+    expect(path.commands.map(c => c.type)).toEqual(['M', 'L', 'C', 'L', 'Q', 'Z'])
+    expect(path.closed).toBe(true)
+    expect(path.d).toBe('M 0 50 L 50 0 C 60 0 100 10 100 25 L 100 50 Q 50 40 0 50 Z')
+  })
+
+  it('closes only the subpaths that end in a close', async () => {
+    const shape = await parseShape(`
+      <p:sp><p:nvSpPr><p:cNvPr id="5" name="Freeform 4"/><p:cNvSpPr/><p:nvPr/></p:nvSpPr>
+        <p:spPr>${XFRM}
+          <a:custGeom><a:pathLst>
+            <a:path w="100" h="50">
+              <a:moveTo><a:pt x="0" y="0"/></a:moveTo>
+              <a:lnTo><a:pt x="100" y="0"/></a:lnTo>
+              <a:moveTo><a:pt x="0" y="10"/></a:moveTo>
+              <a:lnTo><a:pt x="100" y="10"/></a:lnTo>
+              <a:lnTo><a:pt x="50" y="50"/></a:lnTo>
+              <a:close/>
+            </a:path>
+          </a:pathLst></a:custGeom>
+        </p:spPr>
+      </p:sp>`)
+
+    const [path] = shape!.geometry!.paths!
+    expect(path.d).toBe('M 0 0 L 100 0 M 0 10 L 100 10 L 50 50 Z')
+  })
+
+  it('converts arcTo to Béziers and resolves guide names', async () => {
+    const shape = await parseShape(`
+      <p:sp><p:nvSpPr><p:cNvPr id="3" name="Freeform 2"/><p:cNvSpPr/><p:nvPr/></p:nvSpPr>
+        <p:spPr>${XFRM}
+          <a:custGeom><a:avLst/>
+            <a:gdLst><a:gd name="half" fmla="*/ w 1 2"/></a:gdLst>
+            <a:pathLst>
+              <a:path>
+                <a:moveTo><a:pt x="l" y="b"/></a:moveTo>
+                <a:arcTo wR="half" hR="h" stAng="cd2" swAng="cd4"/>
+                <a:lnTo><a:pt x="r" y="b"/></a:lnTo>
+              </a:path>
+            </a:pathLst></a:custGeom>
+        </p:spPr>
+      </p:sp>`)
+
+    const [path] = shape!.geometry!.paths!
+    expect(path.closed).toBe(false)
+    const arc = path.commands[1] as any
+    expect(arc.type).toBe('C')
+    // Quarter ellipse from the left-bottom corner up to the top centre
+    expect(arc.x).toBeCloseTo(50, 1)
+    expect(arc.y).toBeCloseTo(0, 1)
+    expect(path.commands[2]).toEqual({ type: 'L', x: 100, y: 50 })
+  })
+
+  it('mirrors paths for flipped shapes', async () => {
+    const shape = await parseShape(`
+      <p:sp><p:nvSpPr><p:cNvPr id="4" name="Freeform 3"/><p:cNvSpPr/><p:nvPr/></p:nvSpPr>
+        <p:spPr><a:xfrm flipH="1"><a:off x="0" y="0"/><a:ext cx="952500" cy="476250"/></a:xfrm>
+          <a:custGeom><a:pathLst>
+            <a:path w="10" h="10"><a:moveTo><a:pt x="0" y="0"/></a:moveTo><a:lnTo><a:pt x="10" y="10"/></a:lnTo></a:path>
+          </a:pathLst></a:custGeom>
+        </p:spPr>
+      </p:sp>`)
+
+    expect(shape!.geometry!.paths![0].d).toBe('M 100 0 L 0 50')
+  })
+
+  it('evaluates guide formulas', () => {
+    const guides = createGuideValues(1000, 500)
+    expect(evaluateFormula('*/ w 1 4', guides)).toBe(250)
+    expect(evaluateFormula('+- r 0 hd2', guides)).toBe(750)
+    expect(evaluateFormula('pin 0 ss 300', guides)).toBe(300)
+    expect(evaluateFormula('?: -1 10 20', guides)).toBe(20)
+    expect(evaluateFormula('cos 100 cd2', guides)).toBeCloseTo(-100)
+  })
+})
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest'
+import { parseShape, shapeWithFill } from '../helpers/pptx.ts'
+
+describe('Shape fills', () => {
+  describe('gradient fills', () => {
+    it('keeps every stop, sorted by position, with the linear angle', async () => {
+      const shape = await parseShape(shapeWithFill(`
+        <a:gradFill rotWithShape="1">
+          <a:gsLst>
+            <a:gs pos="100000"><a:srgbClr val="0000FF"/></a:gs>
+            <a:gs pos="0"><a:srgbClr val="FF0000"/></a:gs>
+            <a:gs pos="50000"><a:srgbClr val="00FF00"><a:alpha val="25000"/></a:srgbClr></a:gs>
+          </a:gsLst>
+          <a:lin ang="5400000" scaled="1"/>
+        </a:gradFill>`))
+
+      expect(shape!.style!.fillColor).toBe('#FF0000')
+      expect(shape!.style!.fillGradient).toEqual({
+        type: 'linear',
+        angle: 90,
+        scaled: true,
+        rotateWithShape: true,
+        stops: [
+          { position: 0, color: '#FF0000', opacity: 1 },
+          { position: 0.5, color: '#00FF00', opacity: 0.25 },
+          { position: 1, color: '#0000FF', opacity: 1 },
+        ],
+      })
+    })
+
+    it('reads path gradients and their focus rectangle', async () => {
+      const shape = await parseShape(shapeWithFill(`
+        <a:gradFill>
+          <a:gsLst>
+            <a:gs pos="0"><a:schemeClr val="accent1"/></a:gs>
+            <a:gs pos="100000"><a:schemeClr val="accent1"><a:lumMod val="75000"/></a:schemeClr></a:gs>
+          </a:gsLst>
+          <a:path path="circle"><a:fillToRect l="50000" t="50000" r="50000" b="50000"/></a:path>
+        </a:gradFill>`))
+
+      const gradient = shape!.style!.fillGradient!
+      expect(gradient.type).toBe('circle')
+      expect(gradient.fillToRect).toEqual({ left: 0.5, top: 0.5, right: 0.5, bottom: 0.5 })
+      expect(gradient.stops.map(stop => stop.color)).toEqual(['#4472C4', '#2F5597'])
+    })
+  })
+
+  describe('pattern fills', () => {
+    it('reads the preset with foreground and background colors', async () => {
+      const shape = await parseShape(shapeWithFill(`
+        <a:pattFill prst="dkDnDiag">
+          <a:fgClr><a:schemeClr val="accent1"/></a:fgClr>
+          <a:bgClr><a:srgbClr val="FFFFFF"><a:alpha val="50000"/></a:srgbClr></a:bgClr>
+        </a:pattFill>`))
+
+      expect(shape!.style!.fillColor).toBe('#4472C4')
+      expect(shape!.style!.fillPattern).toEqual({
+        preset: 'dkDnDiag',
+        foregroundColor: '#4472C4',
+        foregroundOpacity: 1,
+        backgroundColor: '#FFFFFF',
+        backgroundOpacity: 0.5,
+      })
+    })
+  })
+
+  describe('picture fills', () => {
+    const relationships = {
+      'ppt/slides/_rels/slide1.xml.rels': {
+        Relationships: { Relationship: [{ $Id: 'rId2', $Target: '../media/image1.png' }] },
+      },
+    }
+    const mediaFiles = { 'ppt/media/image1.png': new Uint8Array([0x89, 0x50, 0x4e, 0x47]) }
+
+    it('resolves the image and keeps stretch cropping', async () => {
+      const shape = await parseShape(shapeWithFill(`
+        <a:blipFill rotWithShape="1">
+          <a:blip r:embed="rId2" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><a:alphaModFix amt="60000"/></a:blip>
+          <a:srcRect l="10000" r="20000"/>
+          <a:stretch><a:fillRect/></a:stretch>
+        </a:blipFill>`), { relationships, mediaFiles })
+
+      const picture = shape!.style!.fillPicture!
+      expect(picture.url).toMatch(/^data:image\/png;base64,/)
+      expect(picture.mode).toBe('stretch')
+      expect(picture.opacity).toBe(0.6)
+      expect(picture.srcRect).toEqual({ left: 0.1, top: 0, right: 0.2, bottom: 0 })
+      expect(picture.fillRect).toBeUndefined()
+    })
+
+    it('reads tiling options', async () => {
+      const shape = await parseShape(shapeWithFill(`
+        <a:blipFill>
+          <a:blip r:embed="rId2" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"/>
+          <a:tile tx="95250" ty="0" sx="50000" sy="50000" flip="xy" algn="ctr"/>
+        </a:blipFill>`), { relationships, mediaFiles })
+
+      expect(shape!.style!.fillPicture!.tile).toEqual({
+        offsetX: 10, offsetY: 0, scaleX: 0.5, scaleY: 0.5, flip: 'xy', align: 'ctr',
+      })
+    })
+  })
+})
@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'vitest'
+import { PowerPointNormalizer } from '../../src/parsers/PowerPointNormalizer.ts'
+import { GroupParser } from '../../src/parsers/GroupParser.ts'
+import { ShapeParser } from '../../src/parsers/ShapeParser.ts'
+
+// Helper to build a minimal shape with an xfrm (EMU values)
+function sp(name: string, x: number, y: number, cx: number, cy: number, attrs: Record<string, any> = {}) {
+  return {
+    nvSpPr: { cNvPr: { $id: 1, $name: name } },
+    spPr: {
+      xfrm: { ...attrs, off: { $x: x, $y: y }, ext: { $cx: cx, $cy: cy } },
+      prstGeom: { $prst: 'rect' }
+    }
+  }
+}
+
+function grpSp(xfrm: Record<string, any>, children: Record<string, any>) {
+  return {
+    nvGrpSpPr: { cNvPr: { $id: 10, $name: 'Group 1' } },
+    grpSpPr: { xfrm },
+    ...children
+  }
+}
+
+describe('Group shapes (grpSp)', () => {
+  const normalizer = new PowerPointNormalizer()
+
+  it('maps child transforms from chOff/chExt into slide space', () => {
+    const spTree = {
+      grpSp: grpSp(
+        {
+          off: { $x: 1000000, $y: 1000000 },
+          ext: { $cx: 2000000, $cy: 2000000 },
+          chOff: { $x: 0, $y: 0 },
+          chExt: { $cx: 1000000, $cy: 1000000 }
+        },
+        { sp: sp('Child', 500000, 0, 500000, 500000) }
+      )
+    }
+
+    const elements = normalizer.extractOrderedElements(spTree)
+    expect(elements).toHaveLength(1)
+    const group = elements[0] as any
+    expect(group.type).toBe('group')
+    expect(group.children).toHaveLength(1)
+
+    const childXfrm = group.children[0].spPr.xfrm
+    expect(childXfrm.off).toEqual({ $x: 2000000, $y: 1000000 })
+    expect(childXfrm.ext).toEqual({ $cx: 1000000, $cy: 1000000 })
+  })
+
+  it('applies group flip and rotation to children', () => {
+    const spTree = {
+      grpSp: grpSp(
+        {
+          $flipH: 1,
+          $rot: 5400000,
+          off: { $x: 0, $y: 0 },
+          ext: { $cx: 2000000, $cy: 1000000 },
+          chOff: { $x: 0, $y: 0 },
+          chExt: { $cx: 2000000, $cy: 1000000 }
+        },
+        { sp: sp('Left', 0, 0, 1000000, 1000000, { $rot: 600000 }) }
+      )
+    }
+
+    const [group] = normalizer.extractOrderedElements(spTree) as any[]
+    const childXfrm = group.children[0].spPr.xfrm
+
+    // Mirrored to the right half (centre 1.5M), then rotated 90° around (1M, 0.5M)
+    expect(childXfrm.off).toEqual({ $x: 500000, $y: 500000 })
+    expect(childXfrm.$flipH).toBe(1)
+    // Child rotation is reversed by the single flip, then the group rotation is added
+    expect(childXfrm.$rot).toBe(5400000 - 600000)
+  })
+
+  it('resolves nested groups and keeps document z-order', () => {
+    const lockedCanvas = {
+      sp: sp('Before', 0, 0, 100000, 100000),
+      grpSp: grpSp(
+        {
+          off: { $x: 1000000, $y: 0 },
+          ext: { $cx: 1000000, $cy: 1000000 },
+          chOff: { $x: 0, $y: 0 },
+          chExt: { $cx: 1000000, $cy: 1000000 }
+        },
+        {
+          grpSp: grpSp(
+            {
+              off: { $x: 0, $y: 0 },
+              ext: { $cx: 500000, $cy: 500000 },
+              chOff: { $x: 0, $y: 0 },
+              chExt: { $cx: 1000000, $cy: 1000000 }
+            },
+            { sp: [sp('Inner A', 0, 0, 1000000, 1000000), sp('Inner B', 0, 0, 200000, 200000)] }
+          )
+        }
+      )
+    }
+
+    const elements = normalizer.extractOrderedClipboardElements(lockedCanvas) as any[]
+    expect(elements.map(el => el.type)).toEqual(['shape', 'group'])
+
+    const inner = elements[1].children[0]
+    expect(inner.type).toBe('group')
+    expect(inner.children.map((c: any) => c.zIndex)).toEqual([3, 4])
+
+    // Inner group halves, outer group translates by 1M
+    expect(inner.children[0].spPr.xfrm.off).toEqual({ $x: 1000000, $y: 0 })
+    expect(inner.children[0].spPr.xfrm.ext).toEqual({ $cx: 500000, $cy: 500000 })
+  })
+
+  it('builds a group component from parsed children', async () => {
+    const spTree = {
+      grpSp: grpSp(
+        {
+          off: { $x: 0, $y: 0 },
+          ext: { $cx: 952500, $cy: 952500 },
+          chOff: { $x: 0, $y: 0 },
+          chExt: { $cx: 952500, $cy: 952500 }
+        },
+        { sp: [sp('A', 0, 0, 476250, 476250), sp('B', 476250, 476250, 476250, 476250)] }
+      )
+    }
+
+    const [group] = normalizer.extractOrderedElements(spTree) as any[]
+    const children = await Promise.all(
+      group.children.map((child: any, i: number) => ShapeParser.parseFromNormalized(child, i, 0, child.zIndex))
+    )
+    const component = await GroupParser.parseFromNormalized(group, children as any, 0, 0, group.zIndex)
+
+    expect(component).not.toBeNull()
+    expect(component!.type).toBe('group')
+    expect(component!.id).toBe('Group 1')
+    expect(component!.width).toBe(100)
+    expect(component!.children.map(c => c.x)).toEqual([0, 50])
+  })
+})
@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest'
+import { NS, XML, parsePackage, relsXml, slideXml, type PackageParts } from '../helpers/pptx.ts'
+
+const slideRels: Array<[string, string, string]> = [
+  ['rId2', 'hyperlink', 'https://example.com/docs'],
+  ['rId3', 'slide', 'slide3.xml'],
+  ['rId4', 'hyperlink', 'javascript:alert(document.cookie)'],
+  ['rId5', 'hyperlink', 'file:///etc/passwd'],
+  ['rId6', 'hyperlink', 'mailto:team@example.com'],
+]
+
+const shape = (id: number, hlinkClick: string, txBody = '') => `
+  <p:sp><p:nvSpPr><p:cNvPr id="${id}" name="Shape ${id}">${hlinkClick}</p:cNvPr><p:cNvSpPr/><p:nvPr/></p:nvSpPr>
+    <p:spPr><a:xfrm><a:off x="0" y="${id * 600000}"/><a:ext cx="952500" cy="476250"/></a:xfrm>
+      <a:prstGeom prst="rect"><a:avLst/></a:prstGeom><a:solidFill><a:srgbClr val="4472C4"/></a:solidFill>
+    </p:spPr>${txBody}
+  </p:sp>`
+
+const presentationParts = (...slideFiles: string[]): PackageParts => ({
+  'ppt/presentation.xml': `${XML}
+<p:presentation ${NS}><p:sldIdLst>${slideFiles.map((_, i) => `<p:sldId id="${256 + i}" r:id="rId${i + 1}"/>`).join('')}</p:sldIdLst></p:presentation>`,
+  'ppt/_rels/presentation.xml.rels': relsXml(...slideFiles.map((file, i): [string, string, string] => [`rId${i + 1}`, 'slide', `slides/${file}`])),
+})
+
+async function parseSlide(shapes: string, layoutShapes?: string) {
+  const parts: PackageParts = {
+    ...presentationParts('slide1.xml', 'slide3.xml'),
+    'ppt/slides/_rels/slide1.xml.rels': relsXml(...slideRels),
+    'ppt/slides/slide1.xml': slideXml(shapes),
+  }
+  if (layoutShapes) {
+    parts['ppt/slides/_rels/slide1.xml.rels'] = relsXml(['rId1', 'slideLayout', '../slideLayouts/slideLayout1.xml'], ...slideRels)
+    parts['ppt/slideLayouts/_rels/slideLayout1.xml.rels'] = relsXml(['rId2', 'hyperlink', 'https://example.com/layout'])
+    parts['ppt/slideLayouts/slideLayout1.xml'] = `${XML}
+<p:sldLayout ${NS}><p:cSld><p:spTree>${layoutShapes}</p:spTree></p:cSld></p:sldLayout>`
+  }
+  const result = await parsePackage(parts)
+  return result.slides[0].components as any[]
+}
+
+describe('Hyperlinks', () => {
+  it('resolves shape click actions to URLs, slide jumps and show jumps', async () => {
+    const [external, slideJump, showJump, noAction] = await parseSlide(
+      shape(1, '<a:hlinkClick r:id="rId2" tooltip="Read the docs"/>') +
+      shape(2, '<a:hlinkClick r:id="rId3" action="ppaction://hlinksldjump"/>') +
+      shape(3, '<a:hlinkClick r:id="" action="ppaction://hlinkshowjump?jump=nextslide"/>') +
+      shape(4, '<a:hlinkClick r:id="" action="ppaction://noaction"/>'))
+
+    expect(external.link).toEqual({ url: 'https://example.com/docs', tooltip: 'Read the docs' })
+    expect(slideJump.link).toEqual({ slideNumber: 2 })
+    expect(showJump.link).toEqual({ jump: 'nextslide' })
+    expect(noAction.link).toBeUndefined()
+  })
+
+  it('drops link targets that are not web or mail URLs', async () => {
+    const [script, file, mail] = await parseSlide(
+      shape(1, '<a:hlinkClick r:id="rId4"/>') +
+      shape(2, '<a:hlinkClick r:id="rId5"/>') +
+      shape(3, '<a:hlinkClick r:id="rId6"/>'))
+
+    expect(script.link).toBeUndefined()
+    expect(file.link).toBeUndefined()
+    expect(mail.link).toEqual({ url: 'mailto:team@example.com' })
+  })
+
+  it('resolves layout shape links against the layout relationships', async () => {
+    const components = await parseSlide(shape(2, '<a:hlinkClick r:id="rId2"/>'), shape(1, '<a:hlinkClick r:id="rId2"/>'))
+
+    const links = components.map((component) => component.link.url)
+    expect(links).toEqual(['https://example.com/layout', 'https://example.com/docs'])
+  })
+
+  it('emits link marks on linked text runs', async () => {
+    const [text] = await parseSlide(`
+      <p:sp><p:nvSpPr><p:cNvPr id="5" name="TextBox 5"/><p:cNvSpPr txBox="1"/><p:nvPr/></p:nvSpPr>
+        <p:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="952500" cy="476250"/></a:xfrm></p:spPr>
+        <p:txBody><a:bodyPr/><a:p>
+          <a:r><a:rPr lang="en-US"><a:hlinkClick r:id="rId2"/></a:rPr><a:t>Docs</a:t></a:r>
+          <a:r><a:rPr lang="en-US"><a:hlinkClick r:id="rId3" action="ppaction://hlinksldjump"/></a:rPr><a:t>Appendix</a:t></a:r>
+        </a:p></p:txBody>
+      </p:sp>`)
+
+    const [docs, , appendix] = text.richText.content[0].content
+    expect(docs.marks).toContainEqual({ type: 'link', attrs: { href: 'https://example.com/docs', target: '_blank' } })
+    expect(appendix.marks).toContainEqual({ type: 'link', attrs: { href: '#slide-2', target: null } })
+    expect(text.link).toBeUndefined()
+  })
+
+  it('numbers slide jumps and slides in show order, not by file name', async () => {
+    const result = await parsePackage({
+      ...presentationParts('slide2.xml', 'slide1.xml'),
+      'ppt/slides/_rels/slide1.xml.rels': relsXml(['rId2', 'slide', 'slide2.xml'], ['rId3', 'slide', 'slide9.xml']),
+      'ppt/slides/slide1.xml': slideXml(
+        shape(1, '<a:hlinkClick r:id="rId2" action="ppaction://hlinksldjump"/>') +
+        shape(2, '<a:hlinkClick r:id="rId3" action="ppaction://hlinksldjump"/>')),
+      'ppt/slides/slide2.xml': slideXml(shape(1, '')),
+    })
+
+    expect(result.slides.map((slide) => slide.metadata.slideFile)).toEqual(['ppt/slides/slide2.xml', 'ppt/slides/slide1.xml'])
+    const [toFirst, toMissing] = result.slides[1].components as any[]
+    expect(toFirst.link).toEqual({ slideNumber: 1 })
+    // Slides outside the presentation can't be jumped to
+    expect(toMissing.link).toBeUndefined()
+  })
+})
@@ -0,0 +1,169 @@
+import { describe, it, expect } from 'vitest'
+import { inflateSync } from 'node:zlib'
+import { emfToSvg } from '../../src/utils/emfToSvg.ts'
+import { wmfToSvg } from '../../src/utils/wmfToSvg.ts'
+import { tiffToPng } from '../../src/utils/tiffToPng.ts'
+import { getImageDimensions } from '../../src/utils/imageProbe.ts'
+import { ImageParser } from '../../src/parsers/ImageParser.ts'
+
+// Little-endian binary writer for hand-built test files
+function binary(parts: Array<['u8' | 'i16' | 'u16' | 'i32' | 'u32', number] | number[] | string>): Uint8Array {
+  const bytes: number[] = []
+  for (const part of parts) {
+    if (typeof part === 'string') bytes.push(...Array.from(part, (char) => char.charCodeAt(0)))
+    else if (typeof part[0] === 'number') bytes.push(...(part as number[]))
+    else {
+      const [type, value] = part as [string, number]
+      const size = type === 'u8' ? 1 : type.endsWith('16') ? 2 : 4
+      for (let i = 0; i < size; i++) bytes.push((value >> (8 * i)) & 0xff)
+    }
+  }
+  return new Uint8Array(bytes)
+}
+
+const emfRecord = (type: number, ...values: number[]) =>
+  binary([['u32', type], ['u32', 8 + values.length * 4], ...values.map((value) => ['i32', value] as ['i32', number])])
+
+function buildEmf(): Uint8Array {
+  const header = binary([
+    ['u32', 1], ['u32', 88],
+    ['i32', 0], ['i32', 0], ['i32', 99], ['i32', 49], // bounds
+    ['i32', 0], ['i32', 0], ['i32', 2646], ['i32', 1323], // frame (0.01mm)
+    ['u32', 0x464d4520], ['u32', 0x10000], ['u32', 0], ['u32', 0], ['u16', 3], ['u16', 0],
+    ['u32', 0], ['u32', 0], ['u32', 0], ['i32', 1920], ['i32', 1080], ['i32', 508], ['i32', 286],
+  ])
+  const polyline16 = binary([
+    ['u32', 87], ['u32', 40], ['i32', 0], ['i32', 0], ['i32', 99], ['i32', 25], ['u32', 3],
+    ['i16', 0], ['i16', 0], ['i16', 50], ['i16', 25], ['i16', 99], ['i16', 0],
+  ])
+  const records = [
+    header,
+    emfRecord(39, 1, 0, 0x0000ff, 0), // red solid brush
+    emfRecord(37, 1),
+    emfRecord(37, 0x80000008), // stock NULL_PEN
+    emfRecord(43, 10, 10, 90, 40),
+    emfRecord(38, 2, 0, 4, 0, 0xff0000), // blue 4-unit pen
+    emfRecord(37, 2),
+    polyline16,
+    emfRecord(14, 0, 16, 20),
+  ]
+  return new Uint8Array(records.flatMap((record) => Array.from(record)))
+}
+
+const wmfRecord = (func: number, ...words: number[]) =>
+  binary([['u32', 3 + words.length], ['u16', func], ...words.map((word) => ['u16', word] as ['u16', number])])
+
+function buildWmf(): Uint8Array {
+  const placeable = binary([['u32', 0x9ac6cdd7], ['u16', 0], ['i16', 0], ['i16', 0], ['i16', 1000], ['i16', 500], ['u16', 1000], ['u32', 0], ['u16', 0]])
+  const header = binary([['u16', 1], ['u16', 9], ['u16', 0x0300], ['u32', 0], ['u16', 2], ['u32', 0], ['u16', 0]])
+  const faceName = Array.from('Arial'.padEnd(32, '\0'), (char) => char.charCodeAt(0))
+  const font = binary([
+    ['u32', 3 + 9 + 16], ['u16', 0x02fb],
+    ['i16', -100], ['i16', 0], ['i16', 0], ['i16', 0], ['i16', 700], [0, 0, 0, 0, 0, 0, 0, 0], faceName,
+  ])
+  const textOut = binary([['u32', 9], ['u16', 0x0521], ['u16', 5], 'Hello\0', ['i16', 450], ['i16', 100]])
+  const records = [
+    placeable,
+    header,
+    wmfRecord(0x020b, 0, 0), // window origin
+    wmfRecord(0x020c, 500, 1000), // window extent (y, x)
+    wmfRecord(0x02fc, 0, 0xff00, 0, 0), // green solid brush
+    wmfRecord(0x012d, 0),
+    wmfRecord(0x0418, 400, 900, 100, 100), // ellipse (bottom, right, top, left)
+    font,
+    wmfRecord(0x012d, 1),
+    wmfRecord(0x012e, 24), // baseline-aligned text
+    textOut,
+    wmfRecord(0x0000),
+  ]
+  return new Uint8Array(records.flatMap((record) => Array.from(record)))
+}
+
+function buildTiff(compression: number, strip: Uint8Array, width = 2, height = 2): Uint8Array {
+  // 8-bit RGB (2x2 by default), one strip right after the IFD
+  const entries: Array<[number, number, number, number]> = [
+    [256, 4, 1, width], [257, 4, 1, height], [258, 3, 1, 8], [259, 3, 1, compression], [262, 3, 1, 2],
+    [273, 4, 1, 8 + 2 + 10 * 12 + 4], [277, 3, 1, 3], [278, 3, 1, 2], [279, 4, 1, strip.length], [284, 3, 1, 1],
+  ]
+  const ifd = binary([
+    'II', ['u16', 42], ['u32', 8], ['u16', entries.length],
+    ...entries.flatMap(([tag, type, count, value]) => [['u16', tag], ['u16', type], ['u32', count], ['u32', value]] as Array<['u16' | 'u32', number]>),
+    ['u32', 0],
+  ])
+  return new Uint8Array([...ifd, ...strip])
+}
+
+const PIXELS = [255, 0, 0, 0, 255, 0, 0, 0, 255, 255, 255, 255]
+
+// LZW stream of literal codes only: Clear, each byte, End of information (9 bits each)
+function lzwLiterals(bytes: number[]): Uint8Array {
+  const codes = [256, ...bytes, 257]
+  const bits = codes.map((code) => code.toString(2).padStart(9, '0')).join('').padEnd(Math.ceil((codes.length * 9) / 8) * 8, '0')
+  return new Uint8Array(bits.match(/.{8}/g)!.map((byte) => parseInt(byte, 2)))
+}
+
+function decodePngPixels(png: Uint8Array): number[] {
+  const view = new DataView(png.buffer, png.byteOffset, png.byteLength)
+  const idatLength = view.getUint32(33)
+  const raw = inflateSync(png.subarray(41, 41 + idatLength))
+  // Drop each row's filter byte (2 pixels x RGBA per row)
+  return [...raw.subarray(1, 9), ...raw.subarray(10, 18)]
+}
+
+describe('EMF, WMF and TIFF conversion', () => {
+  it('draws EMF brushes, pens and shapes as SVG', () => {
+    const svg = emfToSvg(buildEmf())!
+
+    expect(svg).toMatch(/^<svg xmlns="http:\/\/www.w3.org\/2000\/svg" width="100.01" height="50"/)
+    expect(svg).toContain('viewBox="0 0 100 50"')
+    expect(svg).toContain('<path d="M 10 10 L 90 10 L 90 40 L 10 40 Z" fill="#FF0000" fill-rule="evenodd" stroke="none"/>')
+    expect(svg).toContain('<path d="M 0 0 L 50 25 L 99 0" fill="none" stroke="#0000FF" stroke-width="4"')
+    expect(emfToSvg(new Uint8Array(100))).toBeNull()
+  })
+
+  it('lays out WMF drawing and text in window units at the placeable size', () => {
+    const svg = wmfToSvg(buildWmf())!
+
+    expect(svg).toContain('width="96" height="48" viewBox="0 0 1000 500"')
+    expect(svg).toContain('<path d="M 100 250 A 400 150 0 1 0 900 250 A 400 150 0 1 0 100 250 Z" fill="#00FF00"')
+    expect(svg).toContain('<text x="100" y="450" font-family="Arial" font-size="100" fill="#000000" font-weight="700" xml:space="preserve">Hello</text>')
+  })
+
+  it('decodes uncompressed, PackBits and LZW TIFF strips to PNG', async () => {
+    const packBits = new Uint8Array([11, ...PIXELS])
+    for (const [compression, strip] of [[1, new Uint8Array(PIXELS)], [32773, packBits], [5, lzwLiterals(PIXELS)]] as const) {
+      const png = (await tiffToPng(buildTiff(compression, strip)))!
+      expect(getImageDimensions(png)).toEqual({ width: 2, height: 2 })
+      expect(decodePngPixels(png)).toEqual([255, 0, 0, 255, 0, 255, 0, 255, 0, 0, 255, 255, 255, 255, 255, 255])
+    }
+    expect(await tiffToPng(buildTiff(7, new Uint8Array(PIXELS)))).toBeNull()
+  })
+
+  it('shows a placeholder for TIFFs too large to decode', async () => {
+    const huge = buildTiff(1, new Uint8Array(PIXELS), 5000, 5000)
+    expect(await tiffToPng(huge)).toBeNull()
+
+    const info = await ImageParser.describeMediaFile(huge, '../media/image1.tiff')
+    expect(info.url).toMatch(/^data:image\/svg\+xml;base64,/)
+  })
+
+  it('never uploads metafiles or TIFFs that could not be converted', async () => {
+    const uploads: string[] = []
+    const r2Storage = { get: async () => null, put: async (key: string) => { uploads.push(key) } }
+
+    const emf = await ImageParser.describeMediaFile(new Uint8Array(100), '../media/image1.emf', r2Storage)
+    const tiff = await ImageParser.describeMediaFile(buildTiff(7, new Uint8Array(PIXELS)), '../media/image2.tiff', r2Storage)
+
+    expect(emf.url).toMatch(/^data:image\/svg\+xml;base64,/)
+    expect(tiff.url).toMatch(/^data:image\/svg\+xml;base64,/)
+    expect(uploads).toEqual([])
+  })
+
+  it('serves converted metafiles as SVG images', async () => {
+    const info = await ImageParser.describeMediaFile(buildEmf(), '../media/image1.emf')
+
+    expect(info.url).toMatch(/^data:image\/svg\+xml;base64,/)
+    expect(info.type).toBe('svg')
+    expect(info.dimensions).toEqual({ width: 100, height: 50 })
+  })
+})
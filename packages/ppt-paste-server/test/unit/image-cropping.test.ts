@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest'
+import { parseSlide, relsXml } from '../helpers/pptx.ts'
+
+async function parsePicture(blipFill: string) {
+  const [picture] = await parseSlide(`
+  <p:pic>
+    <p:nvPicPr><p:cNvPr id="2" name="Picture 1"/><p:cNvPicPr/><p:nvPr/></p:nvPicPr>
+    <p:blipFill><a:blip r:embed="rId2"/>${blipFill}</p:blipFill>
+    <p:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="1905000" cy="952500"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom></p:spPr>
+  </p:pic>`, {
+    'ppt/slides/_rels/slide1.xml.rels': relsXml(['rId2', 'image', '../media/image1.png']),
+    'ppt/media/image1.png': new Uint8Array([0x89, 0x50, 0x4e, 0x47]),
+  })
+  return picture
+}
+
+describe('Image cropping and fill modes', () => {
+  it('carries srcRect crop insets as fractions of the image', async () => {
+    const image = await parsePicture('<a:srcRect l="10000" t="5000" r="20000" b="-2500"/><a:stretch><a:fillRect/></a:stretch>')
+
+    expect(image.type).toBe('image')
+    expect(image.cropping).toEqual({ left: 0.1, top: 0.05, right: 0.2, bottom: -0.025, isCropped: true })
+    expect(image.fillMode).toBe('stretch')
+    expect(image.fillRect).toBeUndefined()
+  })
+
+  it('leaves uncropped pictures without cropping and keeps fillRect and tile settings', async () => {
+    const stretched = await parsePicture('<a:srcRect/><a:stretch><a:fillRect l="25000" r="25000"/></a:stretch>')
+    expect(stretched.cropping).toBeUndefined()
+    expect(stretched.fillRect).toEqual({ left: 0.25, top: 0, right: 0.25, bottom: 0 })
+
+    const tiled = await parsePicture('<a:tile tx="0" ty="0" sx="50000" sy="50000" flip="none" algn="tl"/>')
+    expect(tiled.fillMode).toBe('tile')
+    expect(tiled.tile).toEqual({ offsetX: 0, offsetY: 0, scaleX: 0.5, scaleY: 0.5, flip: 'none', align: 'tl' })
+  })
+})
@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest'
+import { deflateSync } from 'node:zlib'
+import { parseSlide, relsXml } from '../helpers/pptx.ts'
+import { decodePng, encodePng } from '../../src/utils/png.ts'
+import { applyImageEffects } from '../../src/utils/imageEffects.ts'
+
+// Two pixels: opaque white and opaque mid gray
+const SOURCE = { width: 2, height: 1, data: new Uint8Array([255, 255, 255, 255, 128, 128, 128, 255]) }
+
+async function parsePicture(blip: string, media: Uint8Array) {
+  const [picture] = await parseSlide(`
+  <p:pic>
+    <p:nvPicPr><p:cNvPr id="2" name="Logo"/><p:cNvPicPr/><p:nvPr/></p:nvPicPr>
+    <p:blipFill>${blip}<a:stretch><a:fillRect/></a:stretch></p:blipFill>
+    <p:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="952500" cy="476250"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom></p:spPr>
+  </p:pic>`, {
+    'ppt/slides/_rels/slide1.xml.rels': relsXml(['rId2', 'image', '../media/image1.png']),
+    'ppt/media/image1.png': media,
+  })
+  return picture
+}
+
+const dataUrlBytes = (url: string) => new Uint8Array(Buffer.from(url.split(',')[1], 'base64'))
+
+describe('Picture color effects', () => {
+  it('parses blip effects in document order and bakes them into a derived PNG', async () => {
+    const image = await parsePicture(`<a:blip r:embed="rId2">
+        <a:clrChange><a:clrFrom><a:srgbClr val="FFFFFF"/></a:clrFrom><a:clrTo><a:srgbClr val="FFFFFF"><a:alpha val="0"/></a:srgbClr></a:clrTo></a:clrChange>
+        <a:duotone><a:prstClr val="black"/><a:srgbClr val="FF0000"/></a:duotone>
+        <a:extLst><a:ext uri="{BEBA8EAE-BF5A-486C-A8C5-ECC9F3942E4B}"><a14:imgProps><a14:imgLayer r:embed="rId3">
+          <a14:imgEffect><a14:artisticPencilSketch trans="20000" pressure="3"/></a14:imgEffect>
+        </a14:imgLayer></a14:imgProps></a:ext></a:extLst>
+      </a:blip>`, (await encodePng(SOURCE))!)
+
+    expect(image.effects.colorEffects).toEqual([
+      { type: 'colorChange', from: { r: 255, g: 255, b: 255, a: 1 }, to: { r: 255, g: 255, b: 255, a: 0 }, useAlpha: true },
+      { type: 'duotone', dark: { r: 0, g: 0, b: 0, a: 1 }, light: { r: 255, g: 0, b: 0, a: 1 } },
+    ])
+    expect(image.effects.artisticEffects).toEqual([{ name: 'artisticPencilSketch', params: { trans: 20000, pressure: 3 } }])
+    expect(image.metadata.effectsApplied).toBe(true)
+    expect(image.style.effectsList).toEqual(['colorChange', 'duotone', 'artistic'])
+
+    // White became transparent (then red, under the duotone); the gray was mapped onto the black-to-red ramp
+    expect(image.src).toMatch(/^data:image\/png;base64,/)
+    const baked = (await decodePng(dataUrlBytes(image.src)))!
+    expect(baked.width).toBe(2)
+    expect(Array.from(baked.data)).toEqual([255, 0, 0, 0, 128, 0, 0, 255])
+  })
+
+  it('keeps the document position of an attribute-less grayscl', async () => {
+    const image = await parsePicture(
+      '<a:blip r:embed="rId2"><a:grayscl/><a:duotone><a:prstClr val="black"/><a:srgbClr val="FF0000"/></a:duotone></a:blip>',
+      (await encodePng(SOURCE))!
+    )
+
+    expect(image.effects.colorEffects.map((effect: any) => effect.type)).toEqual(['grayscale', 'duotone'])
+    expect(image.style.effectsList).toEqual(['grayscale', 'duotone'])
+  })
+
+  it('applies brightness/contrast, grayscale and bi-level adjustments to pixels', () => {
+    const brighter = { ...SOURCE, data: SOURCE.data.slice() }
+    applyImageEffects(brighter, [{ type: 'luminance', brightness: 0.2, contrast: 0 }])
+    expect(Array.from(brighter.data)).toEqual([255, 255, 255, 255, 179, 179, 179, 255])
+
+    const flatter = { ...SOURCE, data: SOURCE.data.slice() }
+    applyImageEffects(flatter, [{ type: 'luminance', brightness: 0, contrast: -0.5 }])
+    expect(Array.from(flatter.data.subarray(0, 4))).toEqual([191, 191, 191, 255])
+
+    const blackAndWhite = { width: 2, height: 1, data: new Uint8Array([200, 40, 40, 255, 40, 200, 200, 255]) }
+    applyImageEffects(blackAndWhite, [{ type: 'grayscale' }, { type: 'biLevel', threshold: 0.5 }, { type: 'alphaModFix', amount: 0.5 }])
+    expect(Array.from(blackAndWhite.data)).toEqual([0, 0, 0, 128, 255, 255, 255, 128])
+  })
+
+  it('keeps the original image when it has no effects or cannot be decoded', async () => {
+    const jpeg = new Uint8Array([0xff, 0xd8, 0xff, 0xe0, 0, 0])
+    const image = await parsePicture('<a:blip r:embed="rId2"><a:lum bright="10000" contrast="-20000"/></a:blip>', jpeg)
+
+    expect(image.effects.colorEffects).toEqual([{ type: 'luminance', brightness: 0.1, contrast: -0.2 }])
+    expect(image.metadata.effectsApplied).toBe(false)
+    expect(image.src).toMatch(/^data:image\/jpeg;base64,/)
+    expect(image.style.filter).toBe('brightness(110%) contrast(80%)')
+
+    const plain = await parsePicture('<a:blip r:embed="rId2"/>', (await encodePng(SOURCE))!)
+    expect(plain.effects).toBeUndefined()
+    expect(plain.metadata.effectsApplied).toBe(false)
+  })
+
+  it('leaves the CSS approximation for the client only when effects are not baked in', async () => {
+    const blip = '<a:blip r:embed="rId2"><a:alphaModFix amt="50000"/><a:grayscl/></a:blip>'
+    const jpeg = await parsePicture(blip, new Uint8Array([0xff, 0xd8, 0xff, 0xe0, 0, 0]))
+    expect(jpeg.metadata.effectsApplied).toBe(false)
+    expect(jpeg.style).toMatchObject({ opacity: 0.5, filter: 'grayscale(100%)' })
+
+    const png = await parsePicture(blip, (await encodePng(SOURCE))!)
+    expect(png.metadata.effectsApplied).toBe(true)
+    expect(png.src).toMatch(/^data:image\/png;base64,/)
+  })
+
+  it('refuses to decode PNGs above the pixel limit', async () => {
+    const png = (await encodePng(SOURCE))!
+    // IHDR width and height: 5000 x 5000
+    new DataView(png.buffer, png.byteOffset).setUint32(16, 5000)
+    new DataView(png.buffer, png.byteOffset).setUint32(20, 5000)
+    expect(await decodePng(png)).toBeNull()
+  })
+
+  it('decodes palette PNGs with transparency', async () => {
+    // 2-bit palette image: one row of indices 0, 1, 2 (tRNS makes index 1 half transparent)
+    const chunk = (type: string, data: number[] | Uint8Array) => {
+      const body = Buffer.concat([Buffer.from(type, 'latin1'), Buffer.from(data)])
+      const length = Buffer.alloc(4)
+      length.writeUInt32BE(body.length - 4)
+      return Buffer.concat([length, body, Buffer.alloc(4)]) // CRCs aren't checked
+    }
+    const png = Buffer.concat([
+      Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+      chunk('IHDR', [0, 0, 0, 3, 0, 0, 0, 1, 2, 3, 0, 0, 0]),
+      chunk('PLTE', [255, 0, 0, 0, 255, 0, 0, 0, 255]),
+      chunk('tRNS', [255, 128]),
+      chunk('IDAT', deflateSync(Buffer.from([0, 0b00011000]))),
+      chunk('IEND', []),
+    ])
+
+    const image = (await decodePng(new Uint8Array(png)))!
+    expect(image).toMatchObject({ width: 3, height: 1 })
+    expect(Array.from(image.data)).toEqual([255, 0, 0, 255, 0, 255, 0, 128, 0, 0, 255, 255])
+  })
+})
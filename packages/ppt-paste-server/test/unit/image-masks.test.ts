@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest'
+import { parseSlide, relsXml } from '../helpers/pptx.ts'
+
+const XFRM = '<a:xfrm><a:off x="0" y="0"/><a:ext cx="952500" cy="952500"/></a:xfrm>'
+
+async function parseElement(element: string) {
+  const [component] = await parseSlide(element, {
+    'ppt/slides/_rels/slide1.xml.rels': relsXml(['rId2', 'image', '../media/image1.png']),
+    'ppt/media/image1.png': new Uint8Array([0x89, 0x50, 0x4e, 0x47]),
+  })
+  return component
+}
+
+const picture = (spPr: string) => parseElement(`
+  <p:pic>
+    <p:nvPicPr><p:cNvPr id="2" name="Picture 1"/><p:cNvPicPr/><p:nvPr/></p:nvPicPr>
+    <p:blipFill><a:blip r:embed="rId2"/><a:stretch><a:fillRect/></a:stretch></p:blipFill>
+    <p:spPr>${XFRM}${spPr}</p:spPr>
+  </p:pic>`)
+
+describe('Picture masks and outlines', () => {
+  it('carries the mask geometry and outline of a shaped picture', async () => {
+    const image = await picture(`<a:prstGeom prst="ellipse"><a:avLst/></a:prstGeom>
+      <a:ln w="38100" cap="rnd"><a:solidFill><a:srgbClr val="1F4E79"/></a:solidFill><a:prstDash val="dash"/></a:ln>`)
+
+    expect(image.type).toBe('image')
+    expect(image.geometry).toMatchObject({ preset: 'ellipse', isCustom: false })
+    expect(image.geometry.paths[0].d).toMatch(/^M /)
+    expect(image.style).toMatchObject({ borderColor: '#1F4E79', borderWidth: 4, borderStyle: 'dashed' })
+    expect(image.metadata.hasBorder).toBe(true)
+  })
+
+  it('leaves plain rectangular pictures unmasked and unoutlined', async () => {
+    const image = await picture('<a:prstGeom prst="rect"><a:avLst/></a:prstGeom><a:ln><a:noFill/></a:ln>')
+
+    expect(image.geometry).toBeUndefined()
+    expect(image.style.borderColor).toBeUndefined()
+    expect(image.metadata.hasBorder).toBe(false)
+  })
+
+})
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest'
+import { detectImageMimeType, getImageDimensions } from '../../src/utils/imageProbe.ts'
+import { ImageParser } from '../../src/parsers/ImageParser.ts'
+
+const ascii = (text: string) => Array.from(text, (char) => char.charCodeAt(0))
+const uint16LE = (value: number) => [value & 0xff, value >> 8]
+const uint16BE = (value: number) => [value >> 8, value & 0xff]
+const uint32LE = (value: number) => [...uint16LE(value & 0xffff), ...uint16LE((value >>> 16) & 0xffff)]
+const uint32BE = (value: number) => [...uint16BE((value >>> 16) & 0xffff), ...uint16BE(value & 0xffff)]
+
+const png = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, ...uint32BE(13), ...ascii('IHDR'), ...uint32BE(640), ...uint32BE(480), 8, 6, 0, 0, 0])
+const jpeg = new Uint8Array([
+  0xff, 0xd8,
+  0xff, 0xe0, ...uint16BE(16), ...ascii('JFIF'), 0, 1, 1, 0, 0, 1, 0, 1, 0, 0,
+  0xff, 0xc2, ...uint16BE(17), 8, ...uint16BE(300), ...uint16BE(400), 3, 1, 0x22, 0, 2, 0x11, 1, 3, 0x11, 1,
+])
+const gif = new Uint8Array([...ascii('GIF89a'), ...uint16LE(32), ...uint16LE(16), 0, 0, 0])
+const webp = new Uint8Array([...ascii('RIFF'), ...uint32LE(22), ...ascii('WEBPVP8X'), ...uint32LE(10), 0, 0, 0, 0, 0xff, 0x03, 0, 0xdf, 0x02, 0])
+const bmp = new Uint8Array([...ascii('BM'), ...uint32LE(0), 0, 0, 0, 0, ...uint32LE(54), ...uint32LE(40), ...uint32LE(120), ...uint32LE(-90), 1, 0, 24, 0])
+const svg = new TextEncoder().encode('<?xml version="1.0"?>\n<svg xmlns="http://www.w3.org/2000/svg" width="2in" viewBox="0 0 100 50"><rect/></svg>')
+
+describe('Image header probing', () => {
+  it('detects the format from magic bytes', () => {
+    expect(detectImageMimeType(png)).toBe('image/png')
+    expect(detectImageMimeType(jpeg)).toBe('image/jpeg')
+    expect(detectImageMimeType(gif)).toBe('image/gif')
+    expect(detectImageMimeType(webp)).toBe('image/webp')
+    expect(detectImageMimeType(bmp)).toBe('image/bmp')
+    expect(detectImageMimeType(svg)).toBe('image/svg+xml')
+    expect(detectImageMimeType(new Uint8Array([0x49, 0x49, 0x2a, 0x00, 8, 0, 0, 0]))).toBe('image/tiff')
+    expect(detectImageMimeType(new Uint8Array([1, 0, 0, 0, 0x6c, 0, 0, 0]))).toBeNull()
+  })
+
+  it('reads intrinsic sizes from headers', () => {
+    expect(getImageDimensions(png)).toEqual({ width: 640, height: 480 })
+    expect(getImageDimensions(jpeg)).toEqual({ width: 400, height: 300 })
+    expect(getImageDimensions(gif)).toEqual({ width: 32, height: 16 })
+    expect(getImageDimensions(webp)).toEqual({ width: 1024, height: 736 })
+    expect(getImageDimensions(bmp)).toEqual({ width: 120, height: 90 })
+    expect(getImageDimensions(svg)).toEqual({ width: 192, height: 96 })
+    expect(getImageDimensions(png.subarray(0, 18))).toBeNull()
+  })
+
+  it('trusts the file contents over a mismatched extension', async () => {
+    expect(ImageParser.createDataUrl(jpeg, 'image1.png')).toMatch(/^data:image\/jpeg;base64,/)
+    expect(ImageParser.detectImageType(new Uint8Array([1, 0, 0, 0]), 'image2.emf')).toBe('emf')
+
+    const info = await ImageParser.getImageInfo(
+      'rId2',
+      { 'ppt/slides/_rels/slide1.xml.rels': { Relationships: { Relationship: [{ $Id: 'rId2', $Target: '../media/image1.png' }] } } },
+      { 'ppt/media/image1.png': jpeg },
+      0,
+    )
+    expect(info.type).toBe('jpg')
+    expect(info.dimensions).toEqual({ width: 400, height: 300 })
+  })
+})
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest'
+import { parseSlide } from '../helpers/pptx.ts'
+
+async function parseParagraphs(paragraphs: string) {
+  const [text] = await parseSlide(`
+  <p:sp><p:nvSpPr><p:cNvPr id="2" name="TextBox 1"/><p:cNvSpPr txBox="1"/><p:nvPr/></p:nvSpPr>
+    <p:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="952500" cy="476250"/></a:xfrm></p:spPr>
+    <p:txBody><a:bodyPr/><a:lstStyle/>${paragraphs}</p:txBody>
+  </p:sp>`)
+  return text.richText.content
+}
+
+const item = (text: string, pPr: string) => `<a:p><a:pPr ${pPr}</a:pPr><a:r><a:t>${text}</a:t></a:r></a:p>`
+const textOf = (listItem: any) => listItem.content[0].content[0].text
+
+describe('Lists', () => {
+  it('turns buAutoNum paragraphs into an ordered list with scheme and start value', async () => {
+    const [list] = await parseParagraphs(
+      item('Third', 'marL="342900" indent="-342900"><a:buFont typeface="+mj-lt"/><a:buAutoNum type="alphaLcParenR" startAt="3"/>') +
+      item('Fourth', 'marL="342900" indent="-342900"><a:buFont typeface="+mj-lt"/><a:buAutoNum type="alphaLcParenR" startAt="3"/>'))
+
+    expect(list.type).toBe('orderedList')
+    expect(list.attrs).toEqual({ start: 3, type: 'a', numberingScheme: 'alphaLcParenR' })
+    expect(list.content.map(textOf)).toEqual(['Third', 'Fourth'])
+  })
+
+  it('nests lists by paragraph level and keeps bullet characters and colors', async () => {
+    const [list] = await parseParagraphs(
+      item('Top', '><a:buClr><a:srgbClr val="FF0000"/></a:buClr><a:buChar char="▪"/>') +
+      item('Nested', 'lvl="1"><a:buAutoNum type="romanUcPeriod"/>') +
+      item('Nested again', 'lvl="1"><a:buAutoNum type="romanUcPeriod"/>') +
+      item('Top again', '><a:buClr><a:srgbClr val="FF0000"/></a:buClr><a:buChar char="▪"/>'))
+
+    expect(list.type).toBe('bulletList')
+    expect(list.attrs).toEqual({ bulletChar: '▪', bulletColor: '#FF0000' })
+    expect(list.content.map(textOf)).toEqual(['Top', 'Top again'])
+
+    const nested = list.content[0].content[1]
+    expect(nested.type).toBe('orderedList')
+    expect(nested.attrs).toEqual({ start: 1, type: 'I', numberingScheme: 'romanUcPeriod' })
+    expect(nested.content.map(textOf)).toEqual(['Nested', 'Nested again'])
+  })
+
+  it('starts a new list when the bullet changes or a plain paragraph interrupts', async () => {
+    const content = await parseParagraphs(
+      item('Dash', '><a:buChar char="–"/>') +
+      item('Number', '><a:buAutoNum type="arabicPeriod"/>') +
+      item('Plain', '><a:buNone/>') +
+      item('Number again', '><a:buAutoNum type="arabicPeriod"/>'))
+
+    expect(content.map((block: any) => block.type)).toEqual(['bulletList', 'orderedList', 'paragraph', 'orderedList'])
+    expect(content[0].attrs).toEqual({ bulletChar: '–' })
+  })
+})
@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest'
+import { parseSlide } from '../helpers/pptx.ts'
+
+async function parseTextBox(txBody: string) {
+  const [text] = await parseSlide(`
+  <p:sp><p:nvSpPr><p:cNvPr id="2" name="TextBox 1"/><p:cNvSpPr txBox="1"/><p:nvPr/></p:nvSpPr>
+    <p:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="952500" cy="476250"/></a:xfrm></p:spPr>
+    <p:txBody><a:bodyPr/>${txBody}</p:txBody>
+  </p:sp>`)
+  return text
+}
+
+describe('Paragraph formatting', () => {
+  it('parses alignment, indentation and spacing into paragraph attributes', async () => {
+    const text = await parseTextBox(`
+      <a:p><a:pPr algn="ctr"><a:lnSpc><a:spcPct val="150000"/></a:lnSpc><a:spcAft><a:spcPts val="600"/></a:spcAft></a:pPr>
+        <a:r><a:t>Centered title</a:t></a:r></a:p>
+      <a:p><a:pPr lvl="1" marL="457200" indent="-228600"><a:spcBef><a:spcPct val="50000"/></a:spcBef><a:buNone/></a:pPr>
+        <a:r><a:t>Indented body</a:t></a:r></a:p>
+      <a:p><a:r><a:t>Plain</a:t></a:r></a:p>`)
+
+    const [centered, indented, plain] = text.richText.content
+    expect(centered.attrs).toEqual({ textAlign: 'center', lineHeight: '1.5', spaceAfter: '6pt' })
+    expect(indented.attrs).toEqual({ level: 1, marginLeft: '36pt', textIndent: '-18pt', spaceBefore: '0.5em' })
+    expect(plain.attrs).toBeUndefined()
+    expect(text.style.textAlign).toBe('center')
+  })
+
+  it('inherits paragraph formatting from the list style', async () => {
+    const text = await parseTextBox(`
+      <a:lstStyle><a:lvl1pPr algn="r"/></a:lstStyle>
+      <a:p><a:r><a:t>Right aligned</a:t></a:r></a:p>`)
+
+    expect(text.richText.content[0].attrs).toEqual({ textAlign: 'right' })
+    expect(text.style.textAlign).toBe('right')
+  })
+})
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest'
+import { NS, XML, readPackage, relsXml, slideXml } from '../helpers/pptx.ts'
+import { PowerPointParser } from '../../src/parsers/PowerPointParser.ts'
+import { BaseParser } from '../../src/parsers/BaseParser.ts'
+import { createParseContext } from '../../src/parsers/ParseContext.ts'
+
+const themeXml = (accent1: string) => `${XML}
+<a:theme ${NS} name="Test"><a:themeElements><a:clrScheme name="Test">
+  <a:dk1><a:srgbClr val="111111"/></a:dk1><a:lt1><a:srgbClr val="EEEEEE"/></a:lt1>
+  <a:dk2><a:srgbClr val="222222"/></a:dk2><a:lt2><a:srgbClr val="DDDDDD"/></a:lt2>
+  <a:accent1><a:srgbClr val="${accent1}"/></a:accent1>
+</a:clrScheme></a:themeElements></a:theme>`
+
+const rectangle = (schemeColor: string) => `
+  <p:sp><p:nvSpPr><p:cNvPr id="2" name="Rectangle 1"/><p:cNvSpPr/><p:nvPr/></p:nvSpPr>
+    <p:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="952500" cy="476250"/></a:xfrm>
+      <a:prstGeom prst="rect"><a:avLst/></a:prstGeom>
+      <a:solidFill><a:schemeClr val="${schemeColor}"/></a:solidFill>
+    </p:spPr>
+  </p:sp>`
+
+async function buildPresentation(accent1: string, schemeColor = 'accent1', clrMap?: string) {
+  return readPackage({
+    'ppt/slides/slide1.xml': slideXml(rectangle(schemeColor)),
+    'ppt/theme/theme1.xml': themeXml(accent1),
+    ...(clrMap && {
+      'ppt/slideMasters/slideMaster1.xml': `${XML}
+<p:sldMaster ${NS}><p:cSld><p:spTree/></p:cSld><p:clrMap ${clrMap}/></p:sldMaster>`,
+    }),
+  })
+}
+
+const fillColorOf = (result: any) => result.slides[0].components[0].style.fillColor
+
+const STANDARD_MAP = 'bg1="lt1" tx1="dk1" bg2="lt2" tx2="dk2" accent1="accent1" accent2="accent2" accent3="accent3" accent4="accent4" accent5="accent5" accent6="accent6" hlink="hlink" folHlink="folHlink"'
+const INVERTED_MAP = 'bg1="dk1" tx1="lt1" bg2="dk2" tx2="lt2" accent1="accent1" accent2="accent2" accent3="accent3" accent4="accent4" accent5="accent5" accent6="accent6" hlink="hlink" folHlink="folHlink"'
+
+describe('ParseContext', () => {
+  it('keeps theme colors separate across concurrent parses', async () => {
+    const [red, green] = await Promise.all([buildPresentation('FF0000'), buildPresentation('00FF00')])
+
+    const results = await Promise.all([
+      new PowerPointParser().parseJson(red),
+      new PowerPointParser().parseJson(green),
+      new PowerPointParser().parseJson(red),
+    ])
+
+    expect(results.map(fillColorOf)).toEqual(['#FF0000', '#00FF00', '#FF0000'])
+  })
+
+  it('maps scheme colors through the master color map', async () => {
+    const inverted = await buildPresentation('4472C4', 'bg1', INVERTED_MAP)
+    const standard = await buildPresentation('4472C4', 'bg1')
+
+    expect(fillColorOf(await new PowerPointParser().parseJson(inverted))).toBe('#111111')
+    expect(fillColorOf(await new PowerPointParser().parseJson(standard))).toBe('#EEEEEE')
+  })
+
+  it('maps scheme colors through the slide\'s own layout, master and overrides', async () => {
+    const json = await readPackage({
+      'ppt/slides/slide1.xml': slideXml(rectangle('bg1')),
+      'ppt/slides/_rels/slide1.xml.rels': relsXml(['rId1', 'slideLayout', '../slideLayouts/slideLayout1.xml']),
+      'ppt/slides/slide2.xml': `${XML}
+<p:sld ${NS}><p:cSld><p:spTree>${rectangle('bg1')}</p:spTree></p:cSld>
+  <p:clrMapOvr><a:overrideClrMapping ${STANDARD_MAP}/></p:clrMapOvr></p:sld>`,
+      'ppt/slides/_rels/slide2.xml.rels': relsXml(['rId1', 'slideLayout', '../slideLayouts/slideLayout1.xml']),
+      'ppt/slideLayouts/slideLayout1.xml': `${XML}
+<p:sldLayout ${NS}><p:cSld><p:spTree/></p:cSld><p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr></p:sldLayout>`,
+      'ppt/slideLayouts/_rels/slideLayout1.xml.rels': relsXml(['rId1', 'slideMaster', '../slideMasters/slideMaster2.xml']),
+      'ppt/slideMasters/slideMaster1.xml': `${XML}
+<p:sldMaster ${NS}><p:cSld><p:spTree/></p:cSld><p:clrMap ${STANDARD_MAP}/></p:sldMaster>`,
+      'ppt/slideMasters/slideMaster2.xml': `${XML}
+<p:sldMaster ${NS}><p:cSld><p:spTree/></p:cSld><p:clrMap ${INVERTED_MAP}/></p:sldMaster>`,
+      'ppt/theme/theme1.xml': themeXml('4472C4'),
+    })
+
+    const result = await new PowerPointParser().parseJson(json)
+    const fillOfSlide = (slideNumber: number) =>
+      result.slides.find(slide => slide.slideNumber === slideNumber)!.components.find(c => c.type === 'shape')!.style!.fillColor
+
+    // Slide 1 inherits slideMaster2's inverted map; slide 2 overrides it back
+    expect(fillOfSlide(1)).toBe('#111111')
+    expect(fillOfSlide(2)).toBe('#EEEEEE')
+  })
+
+  it('resolves colors from the context it is given', () => {
+    const context = createParseContext({
+      theme: { colors: { dk2: '#123456' }, rawTheme: null },
+      colorMap: { tx2: 'dk2' },
+    })
+
+    expect(BaseParser.parseColor({ schemeClr: { $val: 'tx2' } }, context)).toBe('#123456')
+    expect(BaseParser.parseColor({ schemeClr: { $val: 'tx2' } })).toBe('#44546A')
+  })
+})
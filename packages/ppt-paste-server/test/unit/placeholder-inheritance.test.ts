@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest'
+import { NS, XML, parseSlide, relsXml } from '../helpers/pptx.ts'
+
+const placeholder = (id: number, type: string, xfrm = '', txBody = '') => `
+  <p:sp><p:nvSpPr><p:cNvPr id="${id}" name="${type} ${id}"/><p:cNvSpPr/><p:nvPr><p:ph type="${type}"/></p:nvPr></p:nvSpPr>
+    <p:spPr>${xfrm}</p:spPr>
+    <p:txBody><a:bodyPr/>${txBody}<a:p><a:endParaRPr/></a:p></p:txBody>
+  </p:sp>`
+
+const xfrm = (x: number, y: number, cx: number, cy: number) =>
+  `<a:xfrm><a:off x="${x}" y="${y}"/><a:ext cx="${cx}" cy="${cy}"/></a:xfrm>`
+
+async function parseLayoutSlide(slideShapes: string) {
+  const components = await parseSlide(slideShapes, {
+    'ppt/presentation.xml': `${XML}
+<p:presentation ${NS}><p:sldSz cx="9144000" cy="6858000"/>
+  <p:defaultTextStyle><a:lvl1pPr><a:defRPr sz="1800"><a:solidFill><a:srgbClr val="333333"/></a:solidFill></a:defRPr></a:lvl1pPr></p:defaultTextStyle>
+</p:presentation>`,
+    'ppt/theme/theme1.xml': `${XML}
+<a:theme ${NS} name="Test"><a:themeElements>
+  <a:clrScheme name="Test"><a:dk1><a:srgbClr val="000000"/></a:dk1><a:lt1><a:srgbClr val="FFFFFF"/></a:lt1></a:clrScheme>
+  <a:fontScheme name="Test Fonts">
+  <a:majorFont><a:latin typeface="Georgia"/></a:majorFont>
+  <a:minorFont><a:latin typeface="Verdana"/></a:minorFont>
+</a:fontScheme></a:themeElements></a:theme>`,
+    'ppt/slideMasters/slideMaster1.xml': `${XML}
+<p:sldMaster ${NS}><p:cSld><p:spTree>
+  ${placeholder(2, 'title', xfrm(0, 0, 9144000, 1000000))}
+  ${placeholder(3, 'body', xfrm(0, 1000000, 9144000, 5000000))}
+</p:spTree></p:cSld>
+  <p:txStyles>
+    <p:titleStyle><a:lvl1pPr algn="l"><a:defRPr sz="4400" b="1"><a:latin typeface="+mj-lt"/></a:defRPr></a:lvl1pPr></p:titleStyle>
+    <p:bodyStyle>
+      <a:lvl1pPr><a:defRPr sz="2800"><a:latin typeface="+mn-lt"/></a:defRPr></a:lvl1pPr>
+      <a:lvl2pPr><a:defRPr sz="2400"/></a:lvl2pPr>
+    </p:bodyStyle>
+  </p:txStyles>
+</p:sldMaster>`,
+    'ppt/slideLayouts/slideLayout1.xml': `${XML}
+<p:sldLayout ${NS}><p:cSld><p:spTree>
+  ${placeholder(2, 'title', xfrm(952500, 476250, 4762500, 952500))}
+  ${placeholder(3, 'body', '', '<a:lstStyle><a:lvl1pPr><a:defRPr sz="2000"/></a:lvl1pPr></a:lstStyle>')}
+  ${placeholder(4, 'subTitle', `${xfrm(952500, 1905000, 4762500, 952500)}<a:solidFill><a:srgbClr val="00FF00"/></a:solidFill><a:ln w="25400"/>`)}
+</p:spTree></p:cSld></p:sldLayout>`,
+    'ppt/slideLayouts/_rels/slideLayout1.xml.rels': relsXml(['rId1', 'slideMaster', '../slideMasters/slideMaster1.xml']),
+    'ppt/slides/_rels/slide1.xml.rels': relsXml(['rId1', 'slideLayout', '../slideLayouts/slideLayout1.xml']),
+  })
+  return components.filter((component) => component.zIndex >= 0)
+}
+
+const slidePlaceholder = (type: string, paragraphs: string) => `
+  <p:sp><p:nvSpPr><p:cNvPr id="10" name="Placeholder"/><p:cNvSpPr/><p:nvPr><p:ph type="${type}"/></p:nvPr></p:nvSpPr>
+    <p:spPr/>
+    <p:txBody><a:bodyPr/><a:lstStyle/>${paragraphs}</p:txBody>
+  </p:sp>`
+
+const textStyleOf = (node: any) => node.marks.find((mark: any) => mark.type === 'textStyle').attrs
+
+describe('Placeholder inheritance', () => {
+  it('takes geometry from the layout and text styles from the master', async () => {
+    const [title] = await parseLayoutSlide(slidePlaceholder('title', '<a:p><a:r><a:t>Quarterly Review</a:t></a:r></a:p>'))
+
+    expect(title.type).toBe('text')
+    expect({ x: title.x, y: title.y, width: title.width, height: title.height })
+      .toEqual({ x: 100, y: 50, width: 500, height: 100 })
+    expect(title.style.fontFamily).toBe('Georgia')
+
+    const run = title.richText.content[0].content[0]
+    expect(textStyleOf(run)).toMatchObject({ fontSize: '44pt', fontFamily: 'Georgia', color: '#333333' })
+    expect(run.marks).toContainEqual({ type: 'bold' })
+  })
+
+  it('falls back to the master geometry and lets layout lstStyle override the master per level', async () => {
+    const [body] = await parseLayoutSlide(slidePlaceholder('body', `
+      <a:p><a:r><a:t>First level</a:t></a:r></a:p>
+      <a:p><a:pPr lvl="1"/><a:r><a:rPr sz="1200"/><a:t>Second level</a:t></a:r></a:p>`))
+
+    expect({ x: body.x, y: body.y, width: body.width, height: body.height })
+      .toEqual({ x: 0, y: 105, width: 960, height: 525 })
+
+    const [first, second] = body.richText.content.flatMap((block: any) =>
+      block.type === 'paragraph' ? [block] : block.content.map((item: any) => item.content[0]))
+    expect(textStyleOf(first.content[0])).toMatchObject({ fontSize: '20pt', fontFamily: 'Verdana' })
+    expect(textStyleOf(second.content[0])).toMatchObject({ fontSize: '12pt' })
+  })
+
+  it('drops empty placeholders that have no fill of their own', async () => {
+    const components = await parseLayoutSlide(`
+      <p:sp><p:nvSpPr><p:cNvPr id="10" name="Empty"/><p:cNvSpPr/><p:nvPr><p:ph type="body"/></p:nvPr></p:nvSpPr>
+        <p:spPr/>
+      </p:sp>`)
+
+    expect(components).toHaveLength(0)
+  })
+
+  it('keeps empty placeholders with an outline of their own', async () => {
+    const [outlined] = await parseLayoutSlide(`
+      <p:sp><p:nvSpPr><p:cNvPr id="10" name="Outlined"/><p:cNvSpPr/><p:nvPr><p:ph type="title"/></p:nvPr></p:nvSpPr>
+        <p:spPr><a:prstGeom prst="ellipse"><a:avLst/></a:prstGeom><a:ln w="25400"><a:solidFill><a:srgbClr val="FF0000"/></a:solidFill></a:ln></p:spPr>
+      </p:sp>`)
+
+    expect(outlined.type).toBe('shape')
+    expect(outlined.geometry.preset).toBe('ellipse')
+    expect(outlined.style).toMatchObject({ borderColor: '#FF0000', borderWidth: 3 })
+    expect({ x: outlined.x, y: outlined.y, width: outlined.width, height: outlined.height })
+      .toEqual({ x: 100, y: 50, width: 500, height: 100 })
+  })
+
+  it('layers the slide\'s shape properties over the layout\'s fill and outline', async () => {
+    const [subtitle] = await parseLayoutSlide(`
+      <p:sp><p:nvSpPr><p:cNvPr id="10" name="Subtitle"/><p:cNvSpPr/><p:nvPr><p:ph type="subTitle"/></p:nvPr></p:nvSpPr>
+        <p:spPr><a:ln><a:solidFill><a:srgbClr val="FF0000"/></a:solidFill></a:ln></p:spPr>
+      </p:sp>`)
+
+    expect(subtitle.type).toBe('shape')
+    // Fill and outline width from the layout, outline color from the slide
+    expect(subtitle.style).toMatchObject({ fillColor: '#00FF00', borderColor: '#FF0000', borderWidth: 3 })
+    expect({ x: subtitle.x, y: subtitle.y }).toEqual({ x: 100, y: 200 })
+  })
+})
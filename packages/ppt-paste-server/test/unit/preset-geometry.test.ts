@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest'
+import { parseShape } from '../helpers/pptx.ts'
+import { evaluatePresetGeometry } from '../../src/utils/presetGeometry.ts'
+import { PRESET_SHAPE_NAMES } from '../../src/utils/presetShapeDefinitions.ts'
+
+// 100px x 50px
+const SIZE = { widthEmu: 952500, heightEmu: 476250, width: 100, height: 50 }
+
+describe('Preset geometry (prstGeom)', () => {
+  it('evaluates a preset with its default adjust values', () => {
+    const [path] = evaluatePresetGeometry('rightArrow', SIZE)!
+    expect(path.d).toBe('M 0 12.5 L 75 12.5 L 75 0 L 100 25 L 75 50 L 75 37.5 L 0 37.5 Z')
+    expect(path.closed).toBe(true)
+  })
+
+  it('applies avLst adjust values over the defaults', () => {
+    const [path] = evaluatePresetGeometry('rightArrow', {
+      ...SIZE,
+      adjustValues: [{ name: 'adj1', fmla: 'val 100000' }, { name: 'adj2', fmla: 'val 20000' }],
+    })!
+    expect(path.d).toBe('M 0 0 L 90 0 L 90 0 L 100 25 L 90 50 L 90 50 L 0 50 Z')
+  })
+
+  it('evaluates derived presets in their own orientation', () => {
+    const right = evaluatePresetGeometry('curvedRightArrow', SIZE)!
+    const left = evaluatePresetGeometry('curvedLeftArrow', SIZE)!
+    const mirrored = right[0].commands.map((c: any) => c.type === 'Z' ? c : { ...c, x: 100 - c.x })
+    expect(left[0].commands.map((c: any) => [c.type, c.x])).toEqual(mirrored.map((c: any) => [c.type, c.x]))
+  })
+
+  it('returns null for unknown presets', () => {
+    expect(evaluatePresetGeometry('notAShape', SIZE)).toBeNull()
+  })
+
+  it('produces finite outlines for every preset', () => {
+    for (const preset of PRESET_SHAPE_NAMES) {
+      const paths = evaluatePresetGeometry(preset, SIZE)
+      expect(paths, preset).not.toBeNull()
+      expect(paths!.length, preset).toBeGreaterThan(0)
+      for (const path of paths!) {
+        expect(path.d, preset).not.toMatch(/NaN|Infinity/)
+      }
+    }
+  })
+
+  it('attaches evaluated paths to parsed shapes', async () => {
+    const shape = await parseShape(`
+      <p:sp><p:nvSpPr><p:cNvPr id="2" name="Arrow 1"/><p:cNvSpPr/><p:nvPr/></p:nvSpPr>
+        <p:spPr><a:xfrm flipH="1"><a:off x="0" y="0"/><a:ext cx="952500" cy="476250"/></a:xfrm>
+          <a:prstGeom prst="rightArrow"><a:avLst><a:gd name="adj2" fmla="val 100000"/></a:avLst></a:prstGeom>
+        </p:spPr>
+      </p:sp>`)
+
+    expect(shape!.geometry!.preset).toBe('rightArrow')
+    expect(shape!.geometry!.paths![0].d).toBe('M 100 12.5 L 50 12.5 L 50 0 L 0 25 L 50 50 L 50 37.5 L 100 37.5 Z')
+  })
+})
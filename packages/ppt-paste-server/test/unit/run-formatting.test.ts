@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest'
+import { parseSlide } from '../helpers/pptx.ts'
+
+async function parseRuns(runs: string) {
+  const [text] = await parseSlide(`
+  <p:sp><p:nvSpPr><p:cNvPr id="2" name="TextBox 1"/><p:cNvSpPr txBox="1"/><p:nvPr/></p:nvSpPr>
+    <p:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="952500" cy="476250"/></a:xfrm></p:spPr>
+    <p:txBody><a:bodyPr/><a:p>${runs}</a:p></p:txBody>
+  </p:sp>`)
+  return (text.richText.content[0].content as any[]).filter((node) => node.text.trim())
+}
+
+describe('Run formatting', () => {
+  it('maps underline styles, strike, baseline and highlight to marks', async () => {
+    const [plain, fancy, sup] = await parseRuns(`
+      <a:r><a:rPr lang="en-US" u="sng"/><a:t>a</a:t></a:r>
+      <a:r><a:rPr lang="en-US" u="wavyHeavy" strike="dblStrike" baseline="-25000">
+        <a:highlight><a:srgbClr val="FFFF00"/></a:highlight>
+      </a:rPr><a:t>b</a:t></a:r>
+      <a:r><a:rPr lang="en-US" strike="sngStrike" baseline="30000"/><a:t>c</a:t></a:r>`)
+
+    expect(plain.marks).toEqual([{ type: 'underline' }])
+    expect(fancy.marks).toEqual([
+      { type: 'underline', attrs: { style: 'wavy', heavy: true } },
+      { type: 'strike', attrs: { double: true } },
+      { type: 'subscript' },
+      { type: 'highlight', attrs: { color: '#FFFF00' } },
+    ])
+    expect(sup.marks).toEqual([{ type: 'strike' }, { type: 'superscript' }])
+  })
+
+  it('carries caps and character spacing in the textStyle mark', async () => {
+    const [allCaps, smallCaps] = await parseRuns(`
+      <a:r><a:rPr lang="en-US" sz="1800" cap="all" spc="-50"/><a:t>a</a:t></a:r>
+      <a:r><a:rPr lang="en-US" cap="small" spc="300"/><a:t>b</a:t></a:r>`)
+
+    expect(allCaps.marks).toEqual([
+      { type: 'textStyle', attrs: { fontSize: '18pt', textTransform: 'uppercase', letterSpacing: '-0.5pt' } },
+    ])
+    expect(smallCaps.marks).toEqual([
+      { type: 'textStyle', attrs: { fontVariant: 'small-caps', letterSpacing: '3pt' } },
+    ])
+  })
+})
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest'
+import { parseShape } from '../helpers/pptx.ts'
+
+const outlined = (ln: string) => `
+  <p:sp><p:nvSpPr><p:cNvPr id="2" name="Rectangle 1"/><p:cNvSpPr/><p:nvPr/></p:nvSpPr>
+    <p:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="952500" cy="952500"/></a:xfrm>
+      <a:prstGeom prst="rect"><a:avLst/></a:prstGeom>
+      ${ln}
+    </p:spPr>
+  </p:sp>`
+
+describe('Shape outlines', () => {
+  it('reads the line width of shape outlines', async () => {
+    const shape = await parseShape(outlined('<a:ln w="25400" cmpd="dbl"><a:solidFill><a:srgbClr val="FF0000"/></a:solidFill></a:ln>'))
+
+    expect(shape!.style!.borderWidth).toBe(3)
+    expect(shape!.style!.borderColor).toBe('#FF0000')
+  })
+
+  it('keeps thick outlines at their width', async () => {
+    // 6pt
+    const shape = await parseShape(outlined('<a:ln w="76200"><a:solidFill><a:srgbClr val="000000"/></a:solidFill></a:ln>'))
+
+    expect(shape!.style!.borderWidth).toBe(8)
+  })
+
+  it('draws hairlines at 1px', async () => {
+    const zero = await parseShape(outlined('<a:ln w="0"><a:solidFill><a:srgbClr val="000000"/></a:solidFill></a:ln>'))
+    const thin = await parseShape(outlined('<a:ln w="3175"><a:solidFill><a:srgbClr val="000000"/></a:solidFill></a:ln>'))
+    const unset = await parseShape(outlined('<a:ln><a:solidFill><a:srgbClr val="000000"/></a:solidFill></a:ln>'))
+
+    expect([zero, thin, unset].map(shape => shape!.style!.borderWidth)).toEqual([1, 1, 1])
+  })
+
+  it('has no outline when the line has no fill', async () => {
+    const shape = await parseShape(outlined('<a:ln w="76200"><a:noFill/></a:ln>'))
+
+    expect(shape!.style!.borderWidth).toBe(0)
+    expect(shape!.metadata!.hasBorder).toBe(false)
+  })
+})
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest'
+import { parseSlide } from '../helpers/pptx.ts'
+
+const txBody = (text: string) => `
+  <p:txBody><a:bodyPr anchor="ctr"/><a:lstStyle/>
+    <a:p><a:pPr algn="ctr"/><a:r><a:rPr lang="en-US"/><a:t>${text}</a:t></a:r></a:p>
+  </p:txBody>`
+
+describe('Text inside shapes', () => {
+  it('keeps a filled shape with text as one shape carrying its label', async () => {
+    const [shape] = await parseSlide(`
+      <p:sp><p:nvSpPr><p:cNvPr id="2" name="Rounded Rectangle 1"/><p:cNvSpPr/><p:nvPr/></p:nvSpPr>
+        <p:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="1905000" cy="952500"/></a:xfrm>
+          <a:prstGeom prst="roundRect"><a:avLst/></a:prstGeom>
+          <a:solidFill><a:srgbClr val="4472C4"/></a:solidFill><a:ln><a:noFill/></a:ln>
+        </p:spPr>
+        <p:style>
+          <a:lnRef idx="2"><a:srgbClr val="000000"/></a:lnRef>
+          <a:fillRef idx="1"><a:srgbClr val="000000"/></a:fillRef>
+          <a:effectRef idx="0"><a:srgbClr val="000000"/></a:effectRef>
+          <a:fontRef idx="minor"><a:srgbClr val="FFFFFF"/></a:fontRef>
+        </p:style>${txBody('Label')}
+      </p:sp>`)
+
+    expect(shape.type).toBe('shape')
+    expect(shape.content).toBe('Label')
+    expect(shape.geometry.preset).toBe('roundRect')
+    expect(shape.style.fillColor).toBe('#4472C4')
+    expect(shape.style.borderStyle).toBe('none')
+    expect(shape.bodyProperties.verticalAnchor).toBe('middle')
+
+    const [paragraph] = shape.richText.content
+    expect(paragraph.attrs).toEqual({ textAlign: 'center' })
+    // The shape style's fontRef colors text that sets no color of its own
+    expect(paragraph.content[0].marks).toContainEqual({ type: 'textStyle', attrs: { color: '#FFFFFF' } })
+    // ...and the label as a whole
+    expect(shape.style.color).toBe('#FFFFFF')
+    expect(shape.metadata.geometry).toBeUndefined()
+  })
+
+  it('keeps text without visible geometry as a text component', async () => {
+    const [text] = await parseSlide(`
+      <p:sp><p:nvSpPr><p:cNvPr id="3" name="TextBox 2"/><p:cNvSpPr txBox="1"/><p:nvPr/></p:nvSpPr>
+        <p:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="1905000" cy="952500"/></a:xfrm>
+          <a:prstGeom prst="rect"><a:avLst/></a:prstGeom><a:noFill/>
+        </p:spPr>${txBody('Plain')}
+      </p:sp>`)
+
+    expect(text.type).toBe('text')
+    expect(text.content).toBe('Plain')
+  })
+})
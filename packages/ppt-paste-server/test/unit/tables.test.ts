@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest'
+import { parseSlide } from '../helpers/pptx.ts'
+
+const cell = (text: string, attrs = '', tcPr = '<a:tcPr/>') => `
+  <a:tc${attrs}><a:txBody><a:bodyPr/><a:lstStyle/><a:p><a:r><a:rPr lang="en-US"/><a:t>${text}</a:t></a:r></a:p></a:txBody>${tcPr}</a:tc>`
+
+const mergedCell = (attrs: string) => `
+  <a:tc ${attrs}><a:txBody><a:bodyPr/><a:lstStyle/><a:p><a:endParaRPr lang="en-US"/></a:p></a:txBody><a:tcPr/></a:tc>`
+
+async function parseTable(tblPr: string, rows: string) {
+  const [table] = await parseSlide(`
+  <p:graphicFrame>
+    <p:nvGraphicFramePr><p:cNvPr id="4" name="Table 3"/><p:cNvGraphicFramePr/><p:nvPr/></p:nvGraphicFramePr>
+    <p:xfrm><a:off x="0" y="0"/><a:ext cx="2857500" cy="952500"/></p:xfrm>
+    <a:graphic><a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/table">
+      <a:tbl>${tblPr}
+        <a:tblGrid><a:gridCol w="952500"/><a:gridCol w="952500"/><a:gridCol w="952500"/></a:tblGrid>
+        ${rows}
+      </a:tbl>
+    </a:graphicData></a:graphic>
+  </p:graphicFrame>`)
+  return table
+}
+
+describe('Tables', () => {
+  it('models column widths, row heights and merged cells', async () => {
+    const table = await parseTable('<a:tblPr firstRow="1"/>', `
+      <a:tr h="476250">${cell('Wide', ' gridSpan="2"')}${mergedCell('hMerge="1"')}${cell('Tall', ' rowSpan="2"')}</a:tr>
+      <a:tr h="476250">${cell('A')}${cell('B')}${mergedCell('vMerge="1"')}</a:tr>`)
+
+    expect(table.type).toBe('table')
+    expect(table.columnWidths).toEqual([100, 100, 100])
+    expect(table.rows.map((row: any) => row.height)).toEqual([50, 50])
+
+    const [wide, covered, tall] = table.rows[0].cells
+    expect(wide).toMatchObject({ content: 'Wide', colSpan: 2, rowSpan: 1 })
+    expect(covered.merged).toBe(true)
+    expect(tall).toMatchObject({ content: 'Tall', colSpan: 1, rowSpan: 2 })
+    expect(table.rows[1].cells[2].merged).toBe(true)
+
+    const [header, body] = table.metadata.richText.content[0].content
+    expect(header.content.map((node: any) => [node.type, node.attrs.colspan, node.attrs.rowspan, node.attrs.colwidth]))
+      .toEqual([['tableHeader', 2, 1, [100, 100]], ['tableHeader', 1, 2, [100]]])
+    expect(body.content.map((node: any) => node.type)).toEqual(['tableCell', 'tableCell'])
+    expect(body.attrs).toEqual({ height: 50 })
+    expect(header.content[0].content[0].content[0].text).toBe('Wide')
+  })
+
+  it('parses cell fills, borders, margins and anchoring', async () => {
+    const table = await parseTable('<a:tblPr/>', `
+      <a:tr h="476250">${cell('Styled', '', `
+        <a:tcPr marL="0" marT="95250" anchor="ctr">
+          <a:lnL w="25400"><a:solidFill><a:srgbClr val="FF0000"/></a:solidFill><a:prstDash val="dash"/></a:lnL>
+          <a:lnR><a:noFill/></a:lnR>
+          <a:solidFill><a:srgbClr val="D9E2F3"/></a:solidFill>
+        </a:tcPr>`)}${cell('Plain')}${cell('Plain')}</a:tr>`)
+
+    const [styled, plain] = table.rows[0].cells
+    expect(styled.style).toEqual({ fillColor: '#D9E2F3', fillOpacity: 1 })
+    expect(styled.borders.left).toMatchObject({ type: 'solid', color: '#FF0000', width: 3, style: 'dashed' })
+    expect(styled.borders.right.type).toBe('none')
+    expect(styled.margins).toEqual({ left: 0, top: 10, right: 10, bottom: 5 })
+    expect(styled.verticalAnchor).toBe('middle')
+    expect(plain.style).toEqual({ fillColor: 'transparent', fillOpacity: 0 })
+
+    const [row] = table.metadata.richText.content[0].content
+    expect(row.content[0].type).toBe('tableCell')
+    expect(row.content[0].attrs).toMatchObject({
+      backgroundColor: '#D9E2F3',
+      verticalAlign: 'middle',
+      padding: '10px 10px 5px 0px',
+      borderLeft: '3px dashed #FF0000',
+      borderRight: 'none',
+    })
+    expect(table.metadata.hasHeader).toBe(false)
+  })
+})
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest'
+import { parseSlide } from '../helpers/pptx.ts'
+
+async function parseParagraph(paragraph: string) {
+  const [text] = await parseSlide(`
+  <p:sp><p:nvSpPr><p:cNvPr id="2" name="TextBox 1"/><p:cNvSpPr txBox="1"/><p:nvPr/></p:nvSpPr>
+    <p:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="952500" cy="476250"/></a:xfrm></p:spPr>
+    <p:txBody><a:bodyPr/><a:p>${paragraph}</a:p></p:txBody>
+  </p:sp>`)
+  return text
+}
+
+describe('Text fields and special runs', () => {
+  it('models line breaks as hardBreak nodes', async () => {
+    const text = await parseParagraph(`
+      <a:r><a:rPr lang="en-US"/><a:t>One</a:t></a:r>
+      <a:br><a:rPr lang="en-US"/></a:br>
+      <a:r><a:rPr lang="en-US"/><a:t>Two</a:t></a:r>`)
+
+    const content = text.richText.content[0].content
+    expect(content.map((node: any) => node.type)).toEqual(['text', 'hardBreak', 'text'])
+    expect(content[0].text).toBe('One')
+    expect(content[2].text).toBe('Two')
+    expect(text.content).toBe('One\nTwo')
+  })
+
+  it('keeps bare <a:br/> line breaks in place', async () => {
+    const text = await parseParagraph(`
+      <a:r><a:rPr lang="en-US"/><a:t>Line one</a:t></a:r><a:br/><a:r><a:rPr lang="en-US"/><a:t>Line two</a:t></a:r><a:br/><a:r><a:rPr lang="en-US"/><a:t>Line three</a:t></a:r>`)
+
+    const content = text.richText.content[0].content
+    expect(content.map((node: any) => node.type)).toEqual(['text', 'hardBreak', 'text', 'hardBreak', 'text'])
+    expect(text.content).toBe('Line one\nLine two\nLine three')
+  })
+
+  it('marks field runs with their type and id', async () => {
+    const text = await parseParagraph(`
+      <a:r><a:rPr lang="en-US"/><a:t>Slide</a:t></a:r>
+      <a:fld id="{B6F15528-21DE-4FAA-801E-634DDDAF4B2B}" type="slidenum"><a:rPr lang="en-US"/><a:t>3</a:t></a:fld>`)
+
+    const field = text.richText.content[0].content.find((node: any) => node.text === '3')
+    expect(field.marks).toContainEqual({
+      type: 'field',
+      attrs: { fieldType: 'slidenum', id: '{B6F15528-21DE-4FAA-801E-634DDDAF4B2B}' },
+    })
+  })
+
+  it('preserves tab stops on paragraphs containing tabs', async () => {
+    const text = await parseParagraph(`
+      <a:pPr><a:tabLst><a:tab pos="914400" algn="ctr"/></a:tabLst></a:pPr>
+      <a:r><a:rPr lang="en-US"/><a:t>Name\tValue</a:t></a:r>`)
+
+    expect(text.richText.content[0].attrs).toMatchObject({
+      tabSize: '72pt',
+      tabStops: [{ position: '72pt', align: 'center' }],
+    })
+  })
+})
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest'
+import { NS, XML, parseSlide } from '../helpers/pptx.ts'
+import { detectTextScript, getLanguageScript } from '../../src/utils/textScript.ts'
+
+const themeXml = `${XML}
+<a:theme ${NS} name="Test"><a:themeElements>
+  <a:clrScheme name="Test"><a:dk1><a:srgbClr val="111111"/></a:dk1><a:lt1><a:srgbClr val="EEEEEE"/></a:lt1></a:clrScheme>
+  <a:fontScheme name="Test Fonts">
+    <a:majorFont><a:latin typeface="Georgia"/><a:ea typeface=""/><a:cs typeface=""/></a:majorFont>
+    <a:minorFont><a:latin typeface="Verdana"/><a:ea typeface=""/><a:cs typeface=""/>
+      <a:font script="Jpan" typeface="Yu Gothic"/><a:font script="Arab" typeface="Arial"/>
+    </a:minorFont>
+  </a:fontScheme>
+</a:themeElements></a:theme>`
+
+async function parseParagraphs(paragraphs: string) {
+  const [text] = await parseSlide(`
+  <p:sp><p:nvSpPr><p:cNvPr id="2" name="TextBox 1"/><p:cNvSpPr txBox="1"/><p:nvPr/></p:nvSpPr>
+    <p:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="952500" cy="476250"/></a:xfrm></p:spPr>
+    <p:txBody><a:bodyPr/>${paragraphs}</p:txBody>
+  </p:sp>`, { 'ppt/theme/theme1.xml': themeXml })
+  return text
+}
+
+const textStyle = (node: any) => node.marks?.find((mark: any) => mark.type === 'textStyle')?.attrs
+
+describe('Right-to-left and East Asian text', () => {
+  it('marks right-to-left paragraphs and keeps their explicit alignment', async () => {
+    const text = await parseParagraphs(`
+      <a:p><a:pPr algn="r" rtl="1"/><a:r><a:rPr lang="ar-SA"/><a:t>مرحبا</a:t></a:r></a:p>
+      <a:p><a:pPr algn="l" rtl="1"/><a:r><a:rPr lang="ar-SA"/><a:t>بالعالم</a:t></a:r></a:p>`)
+
+    const [right, left] = text.richText.content
+    expect(right.attrs).toEqual({ dir: 'rtl', textAlign: 'right' })
+    expect(left.attrs).toEqual({ dir: 'rtl', textAlign: 'left' })
+    expect(text.lang).toBe('ar-SA')
+  })
+
+  it('draws each run with the typeface of its script', async () => {
+    const text = await parseParagraphs(`
+      <a:p>
+        <a:r><a:rPr lang="ja-JP" altLang="en-US"><a:latin typeface="Calibri"/><a:ea typeface="Meiryo"/></a:rPr><a:t>日本語</a:t></a:r>
+        <a:r><a:rPr lang="en-US" altLang="ja-JP"><a:latin typeface="Calibri"/><a:ea typeface="Meiryo"/></a:rPr><a:t>English</a:t></a:r>
+        <a:r><a:rPr lang="ja-JP"><a:ea typeface="+mn-ea"/></a:rPr><a:t>テーマ</a:t></a:r>
+        <a:r><a:rPr lang="ar-SA"><a:cs typeface="+mn-cs"/></a:rPr><a:t>عربي</a:t></a:r>
+      </a:p>`)
+
+    const [japanese, english, themed, arabic] = text.richText.content[0].content
+      .filter((node: any) => node.text.trim())
+    expect(textStyle(japanese)).toEqual({ fontFamily: 'Meiryo' })
+    expect(textStyle(english)).toEqual({ fontFamily: 'Calibri', lang: 'en-US' })
+    expect(textStyle(themed)).toEqual({ fontFamily: 'Yu Gothic' })
+    expect(textStyle(arabic)).toEqual({ fontFamily: 'Arial', lang: 'ar-SA' })
+    expect(text.lang).toBe('ja-JP')
+    expect(text.style.fontFamily).toBe('Meiryo')
+  })
+
+  it('classifies scripts and language tags', () => {
+    expect(detectTextScript('Hello')).toBe('latin')
+    expect(detectTextScript('안녕하세요')).toBe('eastAsian')
+    expect(detectTextScript('שלום')).toBe('complexScript')
+    expect(getLanguageScript('zh-TW')).toBe('Hant')
+    expect(getLanguageScript('zh-CN')).toBe('Hans')
+    expect(getLanguageScript('he-IL')).toBe('Hebr')
+    expect(getLanguageScript('en-US')).toBeNull()
+  })
+})
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest'
+import { NS, XML, parsePackage, slideXml } from '../helpers/pptx.ts'
+import { BaseParser } from '../../src/parsers/BaseParser.ts'
+import { createParseContext } from '../../src/parsers/ParseContext.ts'
+
+const themeXml = `${XML}
+<a:theme ${NS} name="Test"><a:themeElements>
+  <a:clrScheme name="Test"><a:dk1><a:srgbClr val="111111"/></a:dk1><a:lt1><a:srgbClr val="EEEEEE"/></a:lt1></a:clrScheme>
+  <a:fontScheme name="Test Fonts">
+    <a:majorFont><a:latin typeface="Georgia"/><a:ea typeface="MS Mincho"/><a:cs typeface="Times New Roman"/></a:majorFont>
+    <a:minorFont><a:latin typeface="Verdana"/><a:ea typeface="Yu Gothic"/><a:cs typeface="Tahoma"/></a:minorFont>
+  </a:fontScheme>
+</a:themeElements></a:theme>`
+
+const textBox = (runs: string) => `
+  <p:sp><p:nvSpPr><p:cNvPr id="2" name="TextBox 1"/><p:cNvSpPr txBox="1"/><p:nvPr/></p:nvSpPr>
+    <p:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="952500" cy="476250"/></a:xfrm></p:spPr>
+    <p:txBody><a:bodyPr/><a:p>${runs}</a:p></p:txBody>
+  </p:sp>`
+
+async function parseText(runs: string) {
+  return parsePackage({ 'ppt/theme/theme1.xml': themeXml, 'ppt/slides/slide1.xml': slideXml(textBox(runs)) })
+}
+
+describe('Theme fonts', () => {
+  it('exposes the theme font scheme on the parse result', async () => {
+    const result = await parseText('<a:r><a:rPr lang="en-US"/><a:t>Hello</a:t></a:r>')
+
+    expect(result.themeFonts).toEqual({
+      name: 'Test Fonts',
+      major: { latin: 'Georgia', eastAsian: 'MS Mincho', complexScript: 'Times New Roman' },
+      minor: { latin: 'Verdana', eastAsian: 'Yu Gothic', complexScript: 'Tahoma' },
+    })
+  })
+
+  it('resolves +mj-lt / +mn-lt references and defaults to the body font', async () => {
+    const heading = await parseText('<a:r><a:rPr lang="en-US" sz="2400"><a:latin typeface="+mj-lt"/></a:rPr><a:t>Heading</a:t></a:r>')
+    const text = heading.slides[0].components[0] as any
+    expect(text.style.fontFamily).toBe('Georgia')
+    expect(text.richText.content[0].content[0].marks).toContainEqual({
+      type: 'textStyle',
+      attrs: { fontSize: '24pt', fontFamily: 'Georgia' },
+    })
+
+    const body = await parseText('<a:r><a:rPr lang="en-US"/><a:t>Body</a:t></a:r>')
+    expect((body.slides[0].components[0] as any).style.fontFamily).toBe('Verdana')
+  })
+
+  it('resolves east-asian and complex-script references', () => {
+    const context = createParseContext({
+      fontScheme: {
+        name: 'Test Fonts',
+        major: { latin: 'Georgia', eastAsian: 'MS Mincho', complexScript: 'Times New Roman' },
+        minor: { latin: 'Verdana', eastAsian: 'Yu Gothic', complexScript: 'Tahoma' },
+      },
+    })
+
+    expect(BaseParser.resolveTypeface('+mn-ea', context)).toBe('Yu Gothic')
+    expect(BaseParser.resolveTypeface('+mj-cs', context)).toBe('Times New Roman')
+    expect(BaseParser.resolveTypeface('Consolas', context)).toBe('Consolas')
+    expect(BaseParser.resolveTypeface('+mn-lt')).toBeNull()
+  })
+})
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest'
+import fs from 'fs/promises'
+import path from 'path'
+import { fileURLToPath } from 'url'
+import { normalizeSlide } from '../helpers/pptx.ts'
+import { PowerPointClipboardProcessor } from '../../src/processors/PowerPointClipboardProcessor.ts'
+
+const __filename = fileURLToPath(import.meta.url)
+const __dirname = path.dirname(__filename)
+const FIXTURES_DIR = path.join(__dirname, '..', 'test-harness', 'fixtures')
+
+// Regression: fast-xml-parser groups siblings by tag, which used to put every
+// sp before every pic regardless of their position in the document.
+describe('Z-order across element types', () => {
+  it('keeps interleaved pictures and shapes in document order (clipboard fixture)', async () => {
+    const processor = new PowerPointClipboardProcessor()
+    const buffer = await fs.readFile(path.join(FIXTURES_DIR, 'interleaved-z-order.bin'))
+    const result = await processor.parseClipboardBuffer(buffer)
+
+    const components = [...result.slides[0].components].sort((a, b) => a.zIndex - b.zIndex)
+    expect(components.map(c => c.id)).toEqual([
+      'Back Picture',
+      'Middle Rectangle',
+      'Front Picture',
+      'Top TextBox'
+    ])
+    expect(components.map(c => c.type)).toEqual(['image', 'shape', 'image', 'text'])
+  })
+
+  it('keeps interleaved spTree children in document order (pptx slide)', async () => {
+    const elements = await normalizeSlide(`
+      <p:nvGrpSpPr><p:cNvPr id="1" name=""/><p:cNvGrpSpPr/><p:nvPr/></p:nvGrpSpPr>
+      <p:grpSpPr/>
+      <p:sp><p:nvSpPr><p:cNvPr id="2" name="Shape A"/><p:cNvSpPr/><p:nvPr/></p:nvSpPr><p:spPr><a:prstGeom prst="rect"/></p:spPr></p:sp>
+      <p:pic><p:nvPicPr><p:cNvPr id="3" name="Picture B"/><p:cNvPicPr/><p:nvPr/></p:nvPicPr><p:blipFill><a:blip r:embed="rId2"/></p:blipFill><p:spPr/></p:pic>
+      <p:cxnSp><p:nvCxnSpPr><p:cNvPr id="4" name="Connector C"/><p:cNvCxnSpPr/><p:nvPr/></p:nvCxnSpPr><p:spPr><a:prstGeom prst="straightConnector1"/></p:spPr></p:cxnSp>
+      <p:sp><p:nvSpPr><p:cNvPr id="5" name="Shape D"/><p:cNvSpPr/><p:nvPr/></p:nvSpPr><p:spPr><a:prstGeom prst="ellipse"/></p:spPr></p:sp>
+      <p:pic><p:nvPicPr><p:cNvPr id="6" name="Picture E"/><p:cNvPicPr/><p:nvPr/></p:nvPicPr><p:blipFill><a:blip r:embed="rId3"/></p:blipFill><p:spPr/></p:pic>
+    `)
+
+    const names = elements.map((el: any) =>
+      (el.data.nvSpPr || el.data.nvPicPr || el.data.nvCxnSpPr).cNvPr.$name
+    )
+    expect(names).toEqual(['Shape A', 'Picture B', 'Connector C', 'Shape D', 'Picture E'])
+    expect(elements.map(el => el.zIndex)).toEqual([0, 1, 2, 3, 4])
+  })
+})